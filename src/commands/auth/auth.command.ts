@@ -0,0 +1,126 @@
+import { Command } from "commander";
+import readline from "readline";
+import { Writable } from "stream";
+import { formatAuthStatus } from "../../formatters/auth.formatter.js";
+import { renderResult } from "../../formatters/output.formatter.js";
+import { OutputFormat } from "../../types/pull-request.types.js";
+import { addQueryOptions, createOutputOption, parseShapingOptions, RawShapingOptions } from "../output-options.js";
+import { LoginService } from "./login.service.js";
+
+interface RawLoginOptions {
+  pat?: boolean;
+}
+
+interface RawStatusOptions extends RawShapingOptions {
+  output: string;
+}
+
+const SUPPORTED_FORMATS: string[] = [OutputFormat.Table, OutputFormat.Json];
+
+/**
+ * Create the auth command group
+ */
+export function createAuthCommand(): Command {
+  const command = new Command("auth");
+
+  command
+    .description("Store, inspect and remove the credential used for Azure DevOps")
+    .addCommand(createLoginCommand())
+    .addCommand(createStatusCommand())
+    .addCommand(createLogoutCommand());
+
+  return command;
+}
+
+function createLoginCommand(): Command {
+  return new Command("login")
+    .description("Check a personal access token and store it, encrypted, for the configured organization")
+    .option("--pat", "Log in with a personal access token, read from stdin or prompted for")
+    .action(async (options: RawLoginOptions) => {
+      await runAuthAction("logging in", async (service) => {
+        if (!options.pat) {
+          throw new Error("Only personal access tokens can be stored; pass --pat. For the Azure CLI, run: az login");
+        }
+
+        const pat = await readToken();
+        const { organizationUrl, identity } = await service.login(pat);
+        const user = identity.uniqueName ? `${identity.displayName} <${identity.uniqueName}>` : identity.displayName;
+
+        console.log(`Logged in to ${organizationUrl} as ${user}.`);
+      });
+    });
+}
+
+function createStatusCommand(): Command {
+  return addQueryOptions(
+    new Command("status")
+      .description("Show which credential is in use, whom it belongs to, its scopes and expiry")
+      .addOption(createOutputOption(SUPPORTED_FORMATS)),
+    { query: "identity.uniqueName", fields: "source,expiresOn" },
+  ).action(async (options: RawStatusOptions) => {
+    await runAuthAction("checking authentication", async (service) => {
+      validateOutputFormat(options.output);
+      const shaping = parseShapingOptions(options);
+
+      const status = await service.getStatus();
+
+      console.log(renderResult(status, options.output as OutputFormat, () => formatAuthStatus(status), shaping));
+
+      // Like `gh auth status`, a credential the organization does not accept fails so scripts can tell
+      if (status.identityError) {
+        process.exit(1);
+      }
+    });
+  });
+}
+
+function createLogoutCommand(): Command {
+  return new Command("logout")
+    .description("Remove the personal access token stored for the configured organization")
+    .action(async () => {
+      await runAuthAction("logging out", async (service) => {
+        const organizationUrl = await service.logout();
+        console.log(organizationUrl ? `Removed the token stored for ${organizationUrl}.` : "No token was stored.");
+      });
+    });
+}
+
+async function runAuthAction(verb: string, action: (service: LoginService) => Promise<void>): Promise<void> {
+  try {
+    await action(new LoginService());
+  } catch (error) {
+    console.error(`Error ${verb}:`, (error as Error).message);
+    process.exit(1);
+  }
+}
+
+function validateOutputFormat(output: string): void {
+  if (!SUPPORTED_FORMATS.includes(output as OutputFormat)) {
+    console.error(`Invalid output format: ${output}`);
+    console.error(`Valid values: ${SUPPORTED_FORMATS.join(", ")}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Read the token from stdin when it is piped in, otherwise prompt for it without echoing it
+ */
+async function readToken(): Promise<string> {
+  if (!process.stdin.isTTY) {
+    let input = "";
+    for await (const chunk of process.stdin) {
+      input += chunk;
+    }
+    return input.trim();
+  }
+
+  process.stdout.write("Personal access token: ");
+
+  const muted = new Writable({ write: (_chunk, _encoding, callback) => callback() });
+  const rl = readline.createInterface({ input: process.stdin, output: muted, terminal: true });
+  const answer = await new Promise<string>((resolve) => rl.question("", resolve));
+
+  rl.close();
+  process.stdout.write("\n");
+  return answer.trim();
+}
@@ -0,0 +1,121 @@
+import { AzureAuthenticationContext } from "../../services/auth.service.js";
+import { AzureApiService } from "../../services/azure-api.service.js";
+import { ResponseCache } from "../../services/cache.service.js";
+import { ConfigService } from "../../services/config.service.js";
+import { basicAuthorization, CredentialStore } from "../../services/credential.service.js";
+import { IdentityService } from "../../services/identity.service.js";
+import { Identity } from "../../types/comment.types.js";
+
+/**
+ * What `azc auth status` reports about the credential in use
+ */
+export interface AuthStatus extends Omit<AzureAuthenticationContext, "accessToken"> {
+  organizationUrl?: string;
+  /** Who Azure DevOps says the token belongs to; unset when it was not accepted */
+  identity?: Identity;
+  /** Why the identity could not be resolved */
+  identityError?: string;
+  /** When the token in use was stored with `azc auth login` */
+  storedAt?: string;
+}
+
+export interface LoginResult {
+  organizationUrl: string;
+  identity: Identity;
+}
+
+export class LoginService {
+  private configService: ConfigService;
+
+  constructor(
+    configService?: ConfigService,
+    private credentialStore: CredentialStore = new CredentialStore(),
+    private responseCache: ResponseCache = new ResponseCache(),
+  ) {
+    this.configService = configService || new ConfigService();
+  }
+
+  /**
+   * Check a personal access token against the organization's connection data and store it for that organization.
+   * Cached responses are dropped, as they were fetched with the credential used until now.
+   */
+  async login(pat: string): Promise<LoginResult> {
+    const token = pat.trim();
+
+    if (!token) {
+      throw new Error("No personal access token given.");
+    }
+
+    const organizationUrl = await this.requireOrganizationUrl();
+    const api = new AzureApiService(this.configService, {
+      cache: false,
+      authorization: async () => basicAuthorization(token),
+    });
+
+    let identity: Identity;
+
+    try {
+      identity = await new IdentityService(api).getCurrentUser();
+    } catch (error) {
+      throw new Error(`${organizationUrl} did not accept the token. ${(error as Error).message}`);
+    }
+
+    this.credentialStore.set(organizationUrl, token, identity.uniqueName || identity.displayName);
+    this.responseCache.clear();
+    return { organizationUrl, identity };
+  }
+
+  /**
+   * Remove the stored token of the configured organization; returns the organization, or undefined when no token
+   * was stored for it
+   */
+  async logout(): Promise<string | undefined> {
+    const organizationUrl = await this.requireOrganizationUrl();
+
+    if (!this.credentialStore.delete(organizationUrl)) {
+      return undefined;
+    }
+
+    this.responseCache.clear();
+    return organizationUrl;
+  }
+
+  /**
+   * Describe the token the other commands would use, and ask the organization whom it belongs to. Cached
+   * responses are bypassed, since they may have been fetched with another token.
+   */
+  async getStatus(): Promise<AuthStatus> {
+    const organizationUrl = await this.configService.getOrganizationUrl();
+    const { accessToken: _accessToken, ...context } = await this.configService.getAuthenticationContext();
+    const status: AuthStatus = { organizationUrl, ...context };
+
+    if (context.source === "stored-pat" && organizationUrl) {
+      status.storedAt = this.credentialStore.get(organizationUrl)?.storedAt;
+    }
+
+    if (!organizationUrl) {
+      return status;
+    }
+
+    try {
+      const api = new AzureApiService(this.configService, { cache: false });
+      status.identity = await new IdentityService(api).getCurrentUser();
+    } catch (error) {
+      status.identityError = (error as Error).message;
+    }
+
+    return status;
+  }
+
+  private async requireOrganizationUrl(): Promise<string> {
+    const organizationUrl = await this.configService.getOrganizationUrl();
+
+    if (!organizationUrl) {
+      throw new Error(
+        "Organization URL not configured. Run: azc config set organization https://dev.azure.com/YOUR_ORG",
+      );
+    }
+
+    return organizationUrl;
+  }
+}
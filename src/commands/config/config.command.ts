@@ -0,0 +1,136 @@
+import { Command } from "commander";
+import { formatSettings } from "../../formatters/config.formatter.js";
+import { renderResult } from "../../formatters/output.formatter.js";
+import { ConfigService, parseConfigKey } from "../../services/config.service.js";
+import { CONFIG_KEYS } from "../../types/config.types.js";
+import { OutputFormat } from "../../types/pull-request.types.js";
+import { addQueryOptions, createOutputOption, parseShapingOptions, RawShapingOptions } from "../output-options.js";
+
+interface RawTargetOptions {
+  local?: boolean;
+}
+
+interface RawListOptions extends RawShapingOptions {
+  output: string;
+}
+
+const SUPPORTED_FORMATS: string[] = [OutputFormat.Table, OutputFormat.Json];
+
+/**
+ * Create the config command group
+ */
+export function createConfigCommand(): Command {
+  const command = new Command("config");
+
+  command
+    .description(`Manage settings and profiles (${CONFIG_KEYS.join(", ")})`)
+    .addCommand(createGetCommand())
+    .addCommand(createSetCommand())
+    .addCommand(createUnsetCommand())
+    .addCommand(createListCommand())
+    .addCommand(createUseProfileCommand());
+
+  return command;
+}
+
+function createGetCommand(): Command {
+  return new Command("get")
+    .description("Print the value a setting resolves to")
+    .argument("<key>", `Setting (${CONFIG_KEYS.join(", ")})`)
+    .action(async (key: string) => {
+      await runConfigAction("reading setting", async (service) => {
+        const value = await service.get(parseConfigKey(key));
+
+        // Like `git config`, an unset value prints nothing and fails so scripts can tell
+        if (value === undefined) {
+          process.exit(1);
+        }
+
+        console.log(value);
+      });
+    });
+}
+
+function createSetCommand(): Command {
+  return addTargetOptions(
+    new Command("set")
+      .description("Store a setting in the active profile")
+      .argument("<key>", `Setting (${CONFIG_KEYS.join(", ")})`)
+      .argument("<value>", "Value"),
+  ).action(async (key: string, value: string, options: RawTargetOptions) => {
+    await runConfigAction("saving setting", async (service) => {
+      const location = service.set(key, value, options.local);
+      console.log(`Set ${key} in ${location}.`);
+    });
+  });
+}
+
+function createUnsetCommand(): Command {
+  return addTargetOptions(
+    new Command("unset")
+      .description("Remove a setting from the active profile")
+      .argument("<key>", `Setting (${CONFIG_KEYS.join(", ")})`),
+  ).action(async (key: string, options: RawTargetOptions) => {
+    await runConfigAction("removing setting", async (service) => {
+      const location = service.unset(key, options.local);
+      console.log(`Removed ${key} from ${location}.`);
+    });
+  });
+}
+
+function createListCommand(): Command {
+  return addQueryOptions(
+    new Command("list")
+      .description("Show every setting, its value and where it comes from")
+      .addOption(createOutputOption(SUPPORTED_FORMATS)),
+    { query: "settings[?source=='profile'].key", fields: "profile,profiles" },
+  ).action(async (options: RawListOptions) => {
+    await runConfigAction("listing settings", async (service) => {
+      validateOutputFormat(options.output);
+      const shaping = parseShapingOptions(options);
+
+      const settings = await service.list();
+      const profile = service.getActiveProfile();
+      const profiles = service.listProfiles();
+      const view = () => formatSettings(settings, profile, profiles);
+
+      console.log(renderResult({ profile, profiles, settings }, options.output as OutputFormat, view, shaping));
+    });
+  });
+}
+
+function createUseProfileCommand(): Command {
+  return new Command("use-profile")
+    .description("Switch to a profile, creating it if it does not exist")
+    .argument("<name>", "Profile name")
+    .action(async (name: string) => {
+      await runConfigAction("switching profile", async (service) => {
+        const existed = service.useProfile(name);
+        console.log(existed ? `Switched to profile "${name}".` : `Created and switched to profile "${name}".`);
+      });
+    });
+}
+
+/**
+ * A profile other than the active one is changed with the global --profile option
+ */
+function addTargetOptions(command: Command): Command {
+  return command.option("--local", "Change the repository's .azcrc instead of the profile");
+}
+
+async function runConfigAction(verb: string, action: (service: ConfigService) => Promise<void>): Promise<void> {
+  try {
+    await action(new ConfigService());
+  } catch (error) {
+    console.error(`Error ${verb}:`, (error as Error).message);
+    process.exit(1);
+  }
+}
+
+function validateOutputFormat(output: string): void {
+  if (!SUPPORTED_FORMATS.includes(output as OutputFormat)) {
+    console.error(`Invalid output format: ${output}`);
+    console.error(`Valid values: ${SUPPORTED_FORMATS.join(", ")}`);
+    process.exit(1);
+  }
+}
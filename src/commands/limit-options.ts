@@ -0,0 +1,50 @@
+import { Command, Option } from "commander";
+
+/**
+ * How many results the list commands fetch without --limit or --all
+ */
+export const DEFAULT_LIMIT = 50;
+
+/**
+ * `--limit`, `--all` and `--top` as commander parses them
+ */
+export interface RawLimitOptions {
+  limit?: string;
+  top?: string;
+  all: boolean;
+}
+
+/**
+ * Add `--limit`, `--all` and `--top`, the earlier name of `--limit`, kept hidden so existing scripts keep working
+ */
+export function addLimitOptions(command: Command, descriptions: { limit: string; all: string }): Command {
+  return command
+    .option("-n, --limit <number>", `${descriptions.limit} (default: ${DEFAULT_LIMIT})`)
+    .option("--all", descriptions.all, false)
+    .addOption(new Option("--top <number>", "Same as --limit").hideHelp());
+}
+
+/**
+ * The number of results to fetch, or undefined for all of them; an invalid value is printed and the process exits
+ */
+export function parseLimit(options: RawLimitOptions): number | undefined {
+  const limit = options.limit ?? options.top;
+
+  if (options.all) {
+    if (limit !== undefined) {
+      console.error("--all cannot be combined with --limit");
+      process.exit(1);
+    }
+
+    return undefined;
+  }
+
+  const parsed = limit === undefined ? DEFAULT_LIMIT : parseInt(limit, 10);
+
+  if (isNaN(parsed) || parsed <= 0) {
+    console.error("Invalid --limit value. Must be a positive number.");
+    process.exit(1);
+  }
+
+  return parsed;
+}
@@ -0,0 +1,74 @@
+import { Command, Option } from "commander";
+import { OutputShaping, parseFields } from "../formatters/output.formatter.js";
+import { compileQuery } from "../formatters/query.formatter.js";
+import { loadTemplate } from "../formatters/template.formatter.js";
+import { OutputFormat } from "../types/pull-request.types.js";
+
+/**
+ * `--query`, `--fields` and `--template` as commander parses them
+ */
+export interface RawShapingOptions {
+  query?: string;
+  fields?: string;
+  template?: string;
+}
+
+/**
+ * `-o, --output`, defaulting to table, that knows which formats its command supports so the configured output
+ * format is only applied where it is one of them
+ */
+export class OutputOption extends Option {
+  constructor(public readonly formats: string[]) {
+    super("-o, --output <format>", `Output format (${formats.join(", ")})`);
+    this.default(OutputFormat.Table);
+  }
+}
+
+/**
+ * The `--output` option of a command supporting these formats
+ */
+export function createOutputOption(formats: string[]): OutputOption {
+  return new OutputOption(formats);
+}
+
+/**
+ * Add `--query` and `--fields`, which every command with structured output takes
+ */
+export function addQueryOptions(command: Command, examples: { query: string; fields: string }): Command {
+  return command
+    .option("--query <expression>", `JMESPath query applied to the results, e.g. "${examples.query}"`)
+    .option("--fields <fields>", `Comma-separated fields to show as columns, e.g. ${examples.fields}`);
+}
+
+/**
+ * Add `--template`, for the commands that list results
+ */
+export function addTemplateOption(command: Command, example: string): Command {
+  return command.option("--template <template>", `Template (or @file) for each result, e.g. "${example}"`);
+}
+
+/**
+ * Check `--query`, `--fields` and `--template` before anything is fetched; what is wrong is printed and the
+ * process exits
+ */
+export function parseShapingOptions(options: RawShapingOptions): OutputShaping {
+  if (options.template !== undefined && options.fields !== undefined) {
+    console.error("--template cannot be combined with --fields");
+    process.exit(1);
+  }
+
+  try {
+    if (options.query !== undefined) {
+      compileQuery(options.query);
+    }
+
+    return {
+      query: options.query,
+      fields: options.fields === undefined ? undefined : parseFields(options.fields),
+      template: options.template === undefined ? undefined : loadTemplate(options.template),
+    };
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,129 @@
+import { Command } from "commander";
+import {
+  CheckoutResult,
+  OutputFormat,
+  PRCheckoutOptions,
+  PRCurrentOptions,
+} from "../../../types/pull-request.types.js";
+import { renderResult } from "../../../formatters/output.formatter.js";
+import { formatPRDetails } from "../../../formatters/pr-table.formatter.js";
+import { getBranchName } from "../../../formatters/text.formatter.js";
+import { addQueryOptions, createOutputOption, parseShapingOptions, RawShapingOptions } from "../../output-options.js";
+import { CheckoutService } from "./checkout.service.js";
+
+interface RawCheckoutOptions {
+  repo?: string;
+  project?: string;
+  detach?: boolean;
+  branch?: string;
+  force?: boolean;
+}
+
+interface RawCurrentOptions extends RawShapingOptions {
+  output: string;
+}
+
+const SUPPORTED_FORMATS: string[] = [OutputFormat.Table, OutputFormat.Json];
+
+export function createCheckoutCommand(): Command {
+  const command = new Command("checkout");
+
+  command
+    .description("Fetch a pull request's source branch and switch to it")
+    .argument("<pr-id>", "Pull request ID")
+    .option("-r, --repo <repository>", "Repository name")
+    .option("-p, --project <project>", "Project name")
+    .option("-b, --branch <name>", "Local branch name (default: pr/<pr-id>)")
+    .option("--detach", "Check out the merge commit with a detached HEAD instead of a branch")
+    .option("--force", "Reset the local branch even if it has commits the pull request does not")
+    .action(async (prIdStr: string, options: RawCheckoutOptions) => {
+      try {
+        const prId = parsePullRequestId(prIdStr);
+        const service = new CheckoutService();
+        const result = await service.checkout(prId, buildCheckoutOptions(options));
+
+        displayCheckout(result);
+      } catch (error) {
+        console.error("Error checking out pull request:", (error as Error).message);
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
+
+export function createCurrentCommand(): Command {
+  const command = new Command("current");
+
+  command
+    .description("Show the pull request of the checked-out branch")
+    .addOption(createOutputOption(SUPPORTED_FORMATS));
+
+  addQueryOptions(command, { query: "reviewers[].displayName", fields: "pullRequestId,title,status" });
+
+  command.action(async (options: RawCurrentOptions) => {
+    try {
+      const currentOptions: PRCurrentOptions = { output: options.output as OutputFormat };
+
+      validateOutputFormat(currentOptions.output, options.output);
+      const shaping = parseShapingOptions(options);
+
+      const service = new CheckoutService();
+      const pullRequest = await service.findCurrentPullRequest();
+
+      console.log(renderResult(pullRequest, currentOptions.output, () => formatPRDetails(pullRequest), shaping));
+    } catch (error) {
+      console.error("Error finding the current pull request:", (error as Error).message);
+      process.exit(1);
+    }
+  });
+
+  return command;
+}
+
+function parsePullRequestId(prIdStr: string): number {
+  const prId = parseInt(prIdStr, 10);
+
+  if (isNaN(prId) || prId <= 0) {
+    console.error("Invalid pull request ID. Must be a positive number.");
+    process.exit(1);
+  }
+
+  return prId;
+}
+
+function buildCheckoutOptions(options: RawCheckoutOptions): PRCheckoutOptions {
+  return {
+    project: options.project,
+    repo: options.repo,
+    branch: options.branch,
+    detach: options.detach ?? false,
+    force: options.force ?? false,
+  };
+}
+
+function validateOutputFormat(format: OutputFormat, rawFormat: string): void {
+  if (!SUPPORTED_FORMATS.includes(format)) {
+    console.error(`Invalid output format: ${rawFormat}`);
+    console.error(`Valid values: ${SUPPORTED_FORMATS.join(", ")}`);
+    process.exit(1);
+  }
+}
+
+function displayCheckout(result: CheckoutResult): void {
+  const { pullRequest, commit, branch, upstream, forkUrl } = result;
+  const title = `pull request #${pullRequest.pullRequestId}: ${pullRequest.title}`;
+
+  if (!branch) {
+    console.log(`HEAD is now at the merge commit ${commit.slice(0, 8)} of ${title}`);
+    return;
+  }
+
+  const tracking = upstream ? ` (tracking ${upstream})` : "";
+  console.log(`Switched to branch ${branch}${tracking} for ${title}`);
+
+  if (forkUrl) {
+    const sourceBranch = getBranchName(pullRequest.sourceRefName);
+    console.log(`The source branch is in a fork. To push to it: git push ${forkUrl} HEAD:${sourceBranch}`);
+  }
+}
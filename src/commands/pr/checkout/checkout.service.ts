@@ -0,0 +1,234 @@
+import { AzureApiService } from "../../../services/azure-api.service.js";
+import { AzureCliService } from "../../../services/azure-cli.service.js";
+import { ConfigService } from "../../../services/config.service.js";
+import {
+  AzureReposRemote,
+  GitService,
+  NamedAzureReposRemote,
+  NotAGitRepositoryError,
+  parseAzureReposUrl,
+} from "../../../services/git.service.js";
+import { getBranchName } from "../../../formatters/text.formatter.js";
+import { CheckoutResult, PRCheckoutOptions, PullRequest } from "../../../types/pull-request.types.js";
+import { CommentsService } from "../comments/comments.service.js";
+
+interface PullRequestsResponse {
+  value: PullRequest[];
+}
+
+/**
+ * Branch setting that records which pull request a local branch was checked out for, read back by `pr current`
+ */
+const PULL_REQUEST_CONFIG_KEY = "azc-pull-request";
+
+export class CheckoutService {
+  private azureApiService: AzureApiService;
+  private commentsService: CommentsService;
+  private gitService: GitService;
+
+  constructor(
+    azureApiService?: AzureApiService,
+    azureCliService?: AzureCliService,
+    configService?: ConfigService,
+    gitService?: GitService,
+  ) {
+    const cliService = azureCliService || new AzureCliService();
+    const config = configService || new ConfigService(cliService);
+    this.azureApiService = azureApiService || new AzureApiService(config);
+    this.commentsService = new CommentsService(this.azureApiService, cliService, config);
+    this.gitService = gitService || new GitService();
+  }
+
+  /**
+   * Fetch a pull request's source branch into a local branch and switch to it, or check out its merge commit with
+   * a detached HEAD. A local branch is only moved forward, unless `force` is set, so local commits are never lost.
+   */
+  async checkout(prId: number, options: PRCheckoutOptions): Promise<CheckoutResult> {
+    const pullRequest = await this.commentsService.fetchPRDetails(prId, options.project, options.repo);
+
+    if (!pullRequest) {
+      throw new Error(`Pull request ${prId} not found`);
+    }
+
+    const remotes = await this.getRemotes();
+    const remote = this.findRemote(remotes, pullRequest);
+
+    if (options.detach) {
+      const commit = await this.fetchCommit(remote.remoteName, `refs/pull/${prId}/merge`, "the merge commit");
+      await this.gitService.checkoutDetached(commit);
+      return { pullRequest, commit };
+    }
+
+    const branch = options.branch || `pr/${prId}`;
+    const sourceBranch = getBranchName(pullRequest.forkSource?.name ?? pullRequest.sourceRefName);
+    const source = this.resolveSource(remotes, remote, pullRequest);
+
+    let commit: string;
+    let upstream: string | undefined;
+
+    if (source.remoteName) {
+      upstream = `${source.remoteName}/${sourceBranch}`;
+      commit = await this.fetchCommit(
+        source.remoteName,
+        `+refs/heads/${sourceBranch}:refs/remotes/${upstream}`,
+        `branch ${sourceBranch}`,
+      );
+    } else {
+      commit = await this.fetchCommit(source.url, `refs/heads/${sourceBranch}`, `branch ${sourceBranch} of the fork`);
+    }
+
+    await this.ensureFastForward(branch, commit, prId, options.force);
+    await this.gitService.checkoutBranch(branch, commit);
+
+    if (upstream) {
+      await this.gitService.setUpstream(branch, upstream);
+    }
+
+    await this.gitService.setConfig(`branch.${branch}.${PULL_REQUEST_CONFIG_KEY}`, String(prId));
+
+    return { pullRequest, commit, branch, upstream, forkUrl: source.remoteName ? undefined : source.url };
+  }
+
+  /**
+   * The pull request of the checked-out branch: the one it was checked out for with `pr checkout`, otherwise the
+   * most recent one (active first) from the branch it tracks, or from the branch of the same name
+   */
+  async findCurrentPullRequest(): Promise<PullRequest> {
+    const branch = await this.gitService.getCurrentBranch();
+    const recordedId = Number(await this.gitService.getConfig(`branch.${branch}.${PULL_REQUEST_CONFIG_KEY}`));
+
+    if (recordedId > 0) {
+      const recorded = await this.commentsService.fetchPRDetails(recordedId);
+      if (recorded) {
+        return recorded;
+      }
+    }
+
+    const remotes = await this.getRemotes();
+    const upstream = await this.gitService.getUpstream(branch);
+    const upstreamRemote = remotes.find((candidate) => upstream?.startsWith(`${candidate.remoteName}/`));
+    const remote = upstreamRemote ?? remotes.find((candidate) => candidate.remoteName === "origin") ?? remotes[0];
+
+    if (!remote) {
+      throw new Error("This clone has no Azure Repos remote.");
+    }
+
+    const sourceBranch = upstream && upstreamRemote ? upstream.slice(upstreamRemote.remoteName.length + 1) : branch;
+    const pullRequests = await this.fetchPullRequestsFromBranch(remote, sourceBranch);
+
+    if (pullRequests.length === 0) {
+      throw new Error(`No pull request found for branch ${sourceBranch} in ${remote.project}/${remote.repository}.`);
+    }
+
+    return pullRequests.sort(byActiveThenNewest)[0];
+  }
+
+  private async fetchPullRequestsFromBranch(remote: AzureReposRemote, sourceBranch: string): Promise<PullRequest[]> {
+    const apiPath =
+      `git/repositories/${encodeURIComponent(remote.repository)}/pullrequests` +
+      `?searchCriteria.sourceRefName=${encodeURIComponent(`refs/heads/${sourceBranch}`)}` +
+      "&searchCriteria.status=all&api-version=7.0";
+
+    const response = await this.azureApiService.get<PullRequestsResponse>(apiPath, remote.project);
+    return response.value;
+  }
+
+  private async getRemotes(): Promise<NamedAzureReposRemote[]> {
+    if (!(await this.gitService.isRepository())) {
+      throw new NotAGitRepositoryError();
+    }
+
+    return this.gitService.getAzureReposRemotes();
+  }
+
+  /**
+   * The remote of this clone pointing to the pull request's repository
+   */
+  private findRemote(remotes: NamedAzureReposRemote[], pullRequest: PullRequest): NamedAzureReposRemote {
+    const { repository } = pullRequest;
+    const remote = remotes.find((candidate) =>
+      isSameRepository(candidate, { project: repository.project.name, repository: repository.name }),
+    );
+
+    if (!remote) {
+      const clone = repository.remoteUrl ? ` Clone it first: git clone ${repository.remoteUrl}` : "";
+      throw new Error(
+        `Pull request ${pullRequest.pullRequestId} belongs to ${repository.project.name}/${repository.name}, ` +
+          `which no remote of this clone points to.${clone}`,
+      );
+    }
+
+    return remote;
+  }
+
+  /**
+   * Where the source branch is fetched from: the pull request's remote, or for a pull request from a fork, a remote
+   * pointing to the fork or else the fork's URL
+   */
+  private resolveSource(
+    remotes: NamedAzureReposRemote[],
+    remote: NamedAzureReposRemote,
+    pullRequest: PullRequest,
+  ): { remoteName?: string; url: string } {
+    const fork = pullRequest.forkSource?.repository;
+
+    if (!fork) {
+      return { remoteName: remote.remoteName, url: remote.remoteName };
+    }
+
+    if (!fork.remoteUrl) {
+      throw new Error(`The fork ${fork.name} has no clone URL. Use --detach to check out the merge commit instead.`);
+    }
+
+    const parsed = parseAzureReposUrl(fork.remoteUrl);
+    const forkRemote = parsed ? remotes.find((candidate) => isSameRepository(candidate, parsed)) : undefined;
+
+    return { remoteName: forkRemote?.remoteName, url: fork.remoteUrl };
+  }
+
+  private async fetchCommit(source: string, refspec: string, description: string): Promise<string> {
+    try {
+      await this.gitService.fetch(source, refspec);
+    } catch (error) {
+      throw new Error(`Could not fetch ${description}. ${(error as Error).message}`);
+    }
+
+    const commit = await this.gitService.resolveCommit("FETCH_HEAD");
+
+    if (!commit) {
+      throw new Error(`Could not fetch ${description}.`);
+    }
+
+    return commit;
+  }
+
+  /**
+   * Refuse to move an existing branch when that would drop commits it has and the pull request does not
+   */
+  private async ensureFastForward(branch: string, commit: string, prId: number, force: boolean): Promise<void> {
+    const existing = await this.gitService.resolveCommit(`refs/heads/${branch}`);
+
+    if (!existing || force || (await this.gitService.isAncestor(existing, commit))) {
+      return;
+    }
+
+    throw new Error(
+      `Local branch ${branch} has commits that are not in pull request ${prId}. ` +
+        "Push or move them first, or pass --force to reset the branch.",
+    );
+  }
+}
+
+function isSameRepository(a: Pick<AzureReposRemote, "project" | "repository">, b: typeof a): boolean {
+  return (
+    a.project.toLowerCase() === b.project.toLowerCase() && a.repository.toLowerCase() === b.repository.toLowerCase()
+  );
+}
+
+/**
+ * Active pull requests first, then the most recently created
+ */
+function byActiveThenNewest(a: PullRequest, b: PullRequest): number {
+  const activeFirst = Number(b.status === "active") - Number(a.status === "active");
+  return activeFirst || new Date(b.creationDate).getTime() - new Date(a.creationDate).getTime();
+}
@@ -0,0 +1,156 @@
+import { Command } from "commander";
+import { CommentThread, LineRange, OutputFormat, PRCommentOptions } from "../../../types/comment.types.js";
+import { EditorService } from "../../../services/editor.service.js";
+import { createOutputOption } from "../../output-options.js";
+import { CommentService } from "./comment.service.js";
+
+interface RawCommandOptions {
+  project?: string;
+  repo?: string;
+  message?: string;
+  file?: string;
+  line?: string;
+  left: boolean;
+  output: string;
+}
+
+const SUPPORTED_FORMATS: string[] = [OutputFormat.Table, OutputFormat.Json];
+
+export function createCommentCommand(): Command {
+  const command = new Command("comment");
+
+  command
+    .description("Start a new comment thread on a pull request, optionally anchored to a file and lines")
+    .argument("<pr-id>", "Pull request ID")
+    .option("-m, --message <message>", "Comment text (opens $EDITOR when omitted)")
+    .option("--file <path>", "File to comment on, as a path from the repository root")
+    .option("--line <line>", "Line or range to comment on, e.g. 42 or 42-50 (requires --file)")
+    .option("--left", "Anchor to the original (left) side of the diff instead of the changed side", false)
+    .option("-p, --project <project>", "Project name")
+    .option("-r, --repo <repository>", "Repository name")
+    .addOption(createOutputOption(SUPPORTED_FORMATS))
+    .action(async (prIdStr: string, options: RawCommandOptions) => {
+      try {
+        const prId = parsePullRequestId(prIdStr);
+        const commentOptions = buildCommentOptions(options);
+
+        validateOutputFormat(commentOptions.output);
+
+        const content = await resolveMessage(commentOptions, prId);
+
+        const service = new CommentService();
+        const thread = await service.createThread(prId, content, commentOptions);
+
+        displayResult(thread, commentOptions.output, prId);
+      } catch (error) {
+        console.error("Error creating comment:", (error as Error).message);
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
+
+function parsePullRequestId(prIdStr: string): number {
+  const prId = parseInt(prIdStr, 10);
+
+  if (isNaN(prId) || prId <= 0) {
+    console.error("Invalid pull request ID. Must be a positive number.");
+    process.exit(1);
+  }
+
+  return prId;
+}
+
+function parseLineRange(value: string): LineRange {
+  const match = /^(\d+)(?:-(\d+))?$/.exec(value.trim());
+  const start = match ? parseInt(match[1], 10) : NaN;
+  const end = match?.[2] ? parseInt(match[2], 10) : start;
+
+  if (isNaN(start) || start <= 0 || end < start) {
+    console.error(`Invalid line: ${value}. Use a line number (42) or an ascending range (42-50).`);
+    process.exit(1);
+  }
+
+  return { start, end };
+}
+
+function buildCommentOptions(options: RawCommandOptions): PRCommentOptions {
+  if (options.line !== undefined && !options.file) {
+    console.error("--line requires --file");
+    process.exit(1);
+  }
+
+  if (options.left && options.line === undefined) {
+    console.error("--left requires --line");
+    process.exit(1);
+  }
+
+  return {
+    output: options.output as OutputFormat,
+    message: options.message,
+    file: options.file,
+    lines: options.line !== undefined ? parseLineRange(options.line) : undefined,
+    left: options.left,
+    project: options.project,
+    repo: options.repo,
+  };
+}
+
+function validateOutputFormat(output: OutputFormat): void {
+  if (!SUPPORTED_FORMATS.includes(output)) {
+    console.error(`Invalid output format: ${output}`);
+    console.error(`Valid values: ${SUPPORTED_FORMATS.join(", ")}`);
+    process.exit(1);
+  }
+}
+
+function describeTarget(options: PRCommentOptions): string {
+  if (!options.file) {
+    return "the pull request";
+  }
+
+  if (!options.lines) {
+    return options.file;
+  }
+
+  const { start, end } = options.lines;
+  const range = start === end ? `${start}` : `${start}-${end}`;
+  return `${options.file}:${range}${options.left ? " (left side)" : ""}`;
+}
+
+async function resolveMessage(options: PRCommentOptions, prId: number): Promise<string> {
+  if (options.message !== undefined) {
+    const message = options.message.trim();
+
+    if (!message) {
+      throw new Error("Comment message cannot be empty");
+    }
+
+    return message;
+  }
+
+  const editor = new EditorService();
+  return editor.edit(`Write your comment on ${describeTarget(options)} in PR #${prId} above.`);
+}
+
+function displayResult(thread: CommentThread, format: OutputFormat, prId: number): void {
+  if (format === OutputFormat.Json) {
+    console.log(JSON.stringify(thread, null, 2));
+    return;
+  }
+
+  const context = thread.threadContext;
+  const start = context?.rightFileStart || context?.leftFileStart;
+  const end = context?.rightFileEnd || context?.leftFileEnd;
+  const lineInfo = start ? `:${start.line}${end && end.line !== start.line ? `-${end.line}` : ""}` : "";
+  const location = context?.filePath ? ` on ${context.filePath}${lineInfo}` : "";
+
+  console.log(`Thread ${thread.id} created${location} in PR #${prId}.`);
+  thread.comments.forEach((comment) => {
+    console.log(`  💬 ${comment.author?.displayName || "Unknown"}:`);
+    comment.content.split("\n").forEach((line) => {
+      console.log(`     ${line}`);
+    });
+  });
+}
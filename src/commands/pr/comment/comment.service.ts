@@ -0,0 +1,140 @@
+import { AzureApiService } from "../../../services/azure-api.service.js";
+import { AzureCliService } from "../../../services/azure-cli.service.js";
+import { ConfigService } from "../../../services/config.service.js";
+import {
+  CommentThread,
+  CommentThreadContext,
+  CommentThreadStatus,
+  CommentType,
+  CreateThreadRequest,
+  LineRange,
+  PRCommentOptions,
+} from "../../../types/comment.types.js";
+import { FileChange, PullRequestIteration, PullRequestLocation } from "../../../types/pull-request.types.js";
+import { CommentsService } from "../comments/comments.service.js";
+import { DiffService, splitLines } from "../diff/diff.service.js";
+
+type FileAnchor = Pick<CreateThreadRequest, "threadContext" | "pullRequestThreadContext">;
+
+export class CommentService {
+  private azureApiService: AzureApiService;
+  private commentsService: CommentsService;
+  private diffService: DiffService;
+
+  constructor(
+    azureApiService?: AzureApiService,
+    azureCliService?: AzureCliService,
+    configService?: ConfigService,
+    commentsService?: CommentsService,
+  ) {
+    const cliService = azureCliService || new AzureCliService();
+    const config = configService || new ConfigService(cliService);
+    this.azureApiService = azureApiService || new AzureApiService(config);
+    this.commentsService = commentsService || new CommentsService(this.azureApiService, cliService, config);
+    this.diffService = new DiffService(this.azureApiService, cliService, config);
+  }
+
+  /**
+   * Start a new thread, anchored to a file (and optionally a line range) of the latest iteration
+   * when a file is given, or as a general pull request comment otherwise
+   */
+  async createThread(prId: number, content: string, options: PRCommentOptions): Promise<CommentThread> {
+    const location = await this.commentsService.resolvePullRequestLocation(prId, options.project, options.repo);
+
+    const body: CreateThreadRequest = {
+      comments: [{ content, commentType: CommentType.Text }],
+      status: CommentThreadStatus.Active,
+      ...(options.file ? await this.buildFileAnchor(location, prId, options.file, options) : {}),
+    };
+
+    try {
+      return await this.azureApiService.post<CommentThread>(
+        `git/repositories/${location.repositoryId}/pullRequests/${prId}/threads?api-version=7.0`,
+        body,
+        location.project,
+      );
+    } catch (error) {
+      throw new Error(`Failed to create thread: ${(error as Error).message}`);
+    }
+  }
+
+  private async buildFileAnchor(
+    location: PullRequestLocation,
+    prId: number,
+    file: string,
+    options: PRCommentOptions,
+  ): Promise<FileAnchor> {
+    const filePath = "/" + file.replace(/\\/g, "/").replace(/^\.?\/+/, "");
+    const iteration = await this.diffService.fetchIteration(location, prId);
+    const changes = await this.diffService.fetchIterationChanges(location, prId, iteration.id);
+    const change = changes.find((candidate) => candidate.path === filePath);
+
+    if (!change) {
+      throw new Error(`${filePath} is not changed in pull request ${prId}`);
+    }
+
+    const flags = change.changeType.split(",").map((flag) => flag.trim());
+
+    if (options.left && flags.includes("add")) {
+      throw new Error(`${filePath} is new in this pull request; it has no left side to comment on`);
+    }
+
+    if (!options.left && flags.includes("delete")) {
+      throw new Error(`${filePath} is deleted in this pull request; use --left to comment on the removed lines`);
+    }
+
+    const threadContext: CommentThreadContext = { filePath };
+
+    if (options.lines) {
+      const endOffset = await this.findEndOffset(location, iteration, change, options.lines, options.left);
+      const start = { line: options.lines.start, offset: 1 };
+      const end = { line: options.lines.end, offset: endOffset };
+
+      if (options.left) {
+        threadContext.leftFileStart = start;
+        threadContext.leftFileEnd = end;
+      } else {
+        threadContext.rightFileStart = start;
+        threadContext.rightFileEnd = end;
+      }
+    }
+
+    return {
+      threadContext,
+      pullRequestThreadContext: {
+        changeTrackingId: change.changeTrackingId,
+        iterationContext: { firstComparingIteration: 1, secondComparingIteration: iteration.id },
+      },
+    };
+  }
+
+  /**
+   * Offsets are 1-based columns; ending one past the last character selects the whole final line.
+   * Also checks the range lies inside the file.
+   */
+  private async findEndOffset(
+    location: PullRequestLocation,
+    iteration: PullRequestIteration,
+    change: FileChange,
+    lines: LineRange,
+    left: boolean,
+  ): Promise<number> {
+    const commitId = left
+      ? (iteration.commonRefCommit || iteration.targetRefCommit).commitId
+      : iteration.sourceRefCommit.commitId;
+    const path = left ? change.originalPath || change.path : change.path;
+    const content = await this.diffService.fetchFileContent(location, path, commitId);
+
+    if (content === undefined) {
+      throw new Error(`${path} is a binary file; line comments are not supported`);
+    }
+
+    const fileLines = splitLines(content);
+
+    if (lines.end > fileLines.length) {
+      throw new Error(`Line ${lines.end} is past the end of ${path} (${fileLines.length} lines)`);
+    }
+
+    return fileLines[lines.end - 1].length + 1;
+  }
+}
@@ -1,14 +1,25 @@
 import { Command } from "commander";
 import open from "open";
-import { OutputFormat, CommentThread, PRCommentsOptions } from "../../../types/comment.types.js";
+import { OutputFormat, CommentThread, DisplayedThread, PRCommentsOptions } from "../../../types/comment.types.js";
+import { createCommentRenderers } from "../../../formatters/comments.formatter.js";
+import { renderOutput } from "../../../formatters/output.formatter.js";
+import {
+  addQueryOptions,
+  addTemplateOption,
+  createOutputOption,
+  parseShapingOptions,
+  RawShapingOptions,
+} from "../../output-options.js";
 import { CommentsService } from "./comments.service.js";
+import { DiffService } from "../diff/diff.service.js";
 
-interface RawCommandOptions {
+interface RawCommandOptions extends RawShapingOptions {
   project?: string;
   repo?: string;
   output: string;
   chronological: boolean;
   open: boolean;
+  withCode: boolean;
 }
 
 export function createPRCommentsCommand(): Command {
@@ -19,30 +30,39 @@ export function createPRCommentsCommand(): Command {
     .argument("<pr-id>", "Pull request ID")
     .option("-p, --project <project>", "Project name")
     .option("-r, --repo <repository>", "Repository name")
-    .option("-o, --output <format>", "Output format (table, json)", OutputFormat.Table)
+    .addOption(createOutputOption(Object.values(OutputFormat)))
     .option("--chronological", "Display comments in chronological order", false)
     .option("--open", "Open the pull request in browser", false)
-    .action(async (prIdStr: string, options: RawCommandOptions) => {
-      try {
-        const prId = parsePullRequestId(prIdStr);
-        const commentsOptions = buildCommentsOptions(options);
+    .option("--with-code", "Show the code around each file comment", false);
 
-        validateOutputFormat(commentsOptions.output);
+  addQueryOptions(command, { query: "[?status=='active'].id", fields: "id,comments[0].author.displayName" });
+  addTemplateOption(command, "{{id}} {{status}}");
 
-        const service = new CommentsService();
+  command.action(async (prIdStr: string, options: RawCommandOptions) => {
+    try {
+      const prId = parsePullRequestId(prIdStr);
+      const commentsOptions = buildCommentsOptions(options);
 
-        await handleOpenInBrowser(service, prId, commentsOptions, options);
+      validateOutputFormat(commentsOptions.output);
 
-        const threads = await service.fetchCommentThreads(prId, commentsOptions);
-        const filteredThreads = service.filterDeletedThreads(threads);
-        const sortedThreads = service.sortThreads(filteredThreads, commentsOptions.chronological);
+      const service = new CommentsService();
 
-        displayResults(sortedThreads, commentsOptions.output, prId);
-      } catch (error) {
-        console.error("Error fetching comments:", (error as Error).message);
-        process.exit(1);
-      }
-    });
+      await handleOpenInBrowser(service, prId, commentsOptions, options);
+
+      const threads = await service.fetchCommentThreads(prId, commentsOptions);
+      const filteredThreads = service.filterDeletedThreads(threads);
+      const sortedThreads = service.sortThreads(filteredThreads, commentsOptions.chronological);
+
+      const displayedThreads = commentsOptions.withCode
+        ? await attachCode(prId, sortedThreads, commentsOptions)
+        : sortedThreads;
+
+      displayResults(displayedThreads, commentsOptions);
+    } catch (error) {
+      console.error("Error fetching comments:", (error as Error).message);
+      process.exit(1);
+    }
+  });
 
   return command;
 }
@@ -63,6 +83,8 @@ function buildCommentsOptions(options: RawCommandOptions): PRCommentsOptions {
     output: options.output as OutputFormat,
     chronological: options.chronological,
     open: options.open,
+    withCode: options.withCode,
+    ...parseShapingOptions(options),
     project: options.project,
     repo: options.repo,
   };
@@ -98,59 +120,15 @@ async function handleOpenInBrowser(
   }
 }
 
-function displayResults(threads: CommentThread[], format: OutputFormat, prId: number): void {
-  if (format === OutputFormat.Json) {
-    displayJsonOutput(threads);
-  } else {
-    displayTableOutput(threads, prId);
-  }
-}
-
-function displayJsonOutput(threads: CommentThread[]): void {
-  console.log(JSON.stringify(threads, null, 2));
+async function attachCode(
+  prId: number,
+  threads: CommentThread[],
+  options: PRCommentsOptions,
+): Promise<DisplayedThread[]> {
+  const snippets = await new DiffService().fetchThreadCode(prId, threads, options);
+  return threads.map((thread) => ({ ...thread, code: snippets.get(thread.id) }));
 }
 
-function displayTableOutput(threads: CommentThread[], prId: number): void {
-  if (threads.length === 0) {
-    console.log(`No comments found for PR #${prId}.`);
-  } else {
-    console.log(`\nFound ${threads.length} comment thread(s) for PR #${prId}:\n`);
-
-    threads.forEach((thread, index) => {
-      console.log(`${"─".repeat(60)}`);
-      console.log(`Thread #${index + 1} (Status: ${thread.status || "unknown"})`);
-      console.log(`  Published: ${thread.publishedDate}`);
-
-      if (thread.threadContext?.filePath) {
-        const lineInfo = thread.threadContext.rightFileStart ? `:${thread.threadContext.rightFileStart.line}` : "";
-        console.log(`  File: ${thread.threadContext.filePath}${lineInfo}`);
-      }
-
-      console.log("");
-
-      // Display each comment in the thread
-      thread.comments.forEach((comment, commentIndex) => {
-        if (comment.isDeleted) return;
-
-        const author = comment.author?.displayName || "Unknown";
-        const date = new Date(comment.publishedDate).toLocaleString();
-
-        if (commentIndex === 0) {
-          console.log(`  💬 ${author} (${date}):`);
-        } else {
-          console.log(`  ↳ ${author} (${date}):`);
-        }
-
-        // Display comment content, handling multiline
-        const content = comment.content || "(no content)";
-        const lines = content.split("\n");
-        lines.forEach((line) => {
-          console.log(`     ${line}`);
-        });
-        console.log("");
-      });
-    });
-
-    console.log(`${"─".repeat(60)}`);
-  }
+function displayResults(threads: DisplayedThread[], options: PRCommentsOptions): void {
+  console.log(renderOutput(threads, options.output, createCommentRenderers(options.chronological), options));
 }
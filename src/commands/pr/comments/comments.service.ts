@@ -1,8 +1,8 @@
 import { AzureApiService } from "../../../services/azure-api.service.js";
 import { AzureCliService } from "../../../services/azure-cli.service.js";
 import { ConfigService } from "../../../services/config.service.js";
-import { CommentThread, PRCommentsOptions, ThreadsResponse } from "../../../types/comment.types.js";
-import { PullRequest } from "../../../types/pull-request.types.js";
+import { CommentThread, CommentType, PRCommentsOptions } from "../../../types/comment.types.js";
+import { PullRequest, PullRequestLocation } from "../../../types/pull-request.types.js";
 
 export class CommentsService {
   private azureApiService: AzureApiService;
@@ -16,36 +16,53 @@ export class CommentsService {
   }
 
   async fetchCommentThreads(prId: number, options: PRCommentsOptions): Promise<CommentThread[]> {
-    let project = options.project;
-    let repositoryId: string;
+    const location = await this.resolvePullRequestLocation(prId, options.project, options.repo);
+    return this.fetchThreadsAtLocation(location, prId);
+  }
 
-    if (!project || !options.repo) {
-      const prDetails = await this.fetchPRDetails(prId, options.project, options.repo);
+  /**
+   * Fetch comment threads when the pull request's location has already been resolved
+   */
+  async fetchThreadsAtLocation(location: PullRequestLocation, prId: number): Promise<CommentThread[]> {
+    const apiPath = this.buildThreadsApiPath(location.repositoryId, prId);
 
-      if (!prDetails) {
-        throw new Error(`Pull request ${prId} not found`);
-      }
+    try {
+      return await this.azureApiService.getAll<CommentThread>(apiPath, location.project);
+    } catch (error) {
+      throw new Error(`Failed to fetch comment threads: ${(error as Error).message}`);
+    }
+  }
 
-      project = project || prDetails.repository.project.name;
-      repositoryId = prDetails.repository.id;
-    } else {
-      const prDetails = await this.fetchPRDetails(prId, project, options.repo);
+  async fetchThread(location: PullRequestLocation, prId: number, threadId: number): Promise<CommentThread> {
+    const apiPath = this.buildThreadApiPath(location.repositoryId, prId, threadId);
 
-      if (!prDetails) {
-        throw new Error(`Pull request ${prId} not found`);
-      }
+    try {
+      return await this.azureApiService.get<CommentThread>(apiPath, location.project);
+    } catch (error) {
+      throw new Error(`Failed to fetch thread ${threadId}: ${(error as Error).message}`);
+    }
+  }
 
-      repositoryId = prDetails.repository.id;
+  /**
+   * Resolve the project and repository ID a pull request lives in. When both are given the REST API takes the
+   * repository name in place of its ID, so the pull request is not looked up; defaults from the configuration or
+   * the git remote are not enough, since the pull request may belong to another repository.
+   */
+  async resolvePullRequestLocation(prId: number, project?: string, repo?: string): Promise<PullRequestLocation> {
+    if (project && repo) {
+      return { project, repositoryId: encodeURIComponent(repo) };
     }
 
-    const apiPath = this.buildThreadsApiPath(repositoryId, prId);
+    const prDetails = await this.fetchPRDetails(prId, project, repo);
 
-    try {
-      const response = await this.azureApiService.get<ThreadsResponse>(apiPath, project);
-      return response.value || [];
-    } catch (error) {
-      throw new Error(`Failed to fetch comment threads: ${(error as Error).message}`);
+    if (!prDetails) {
+      throw new Error(`Pull request ${prId} not found`);
     }
+
+    return {
+      project: project || prDetails.repository.project.name,
+      repositoryId: prDetails.repository.id,
+    };
   }
 
   sortThreads(threads: CommentThread[], chronological: boolean): CommentThread[] {
@@ -60,6 +77,14 @@ export class CommentsService {
     return threads.filter((thread) => !thread.isDeleted);
   }
 
+  /**
+   * System threads carry vote, push and policy updates rather than reviewer feedback
+   */
+  isSystemThread(thread: CommentThread): boolean {
+    const rootComment = thread.comments.find((comment) => !comment.parentCommentId) || thread.comments[0];
+    return !rootComment || rootComment.commentType === CommentType.System;
+  }
+
   async buildPRUrl(prId: number, project?: string): Promise<string | undefined> {
     const orgUrl = await this.configService.getOrganizationUrl();
 
@@ -82,14 +107,21 @@ export class CommentsService {
     return `${orgUrl}/${project}/_git/pullrequest/${prId}`;
   }
 
+  /**
+   * Look a pull request up by id through the REST API, falling back to `az repos pr show` when that fails.
+   * Ids are unique across the organization, so the project only narrows the request.
+   */
   async fetchPRDetails(prId: number, project?: string, repo?: string): Promise<PullRequest | null> {
     try {
-      const command = this.buildPRShowCommand(prId, project, repo);
-      const pr = await this.azureCliService.executeAzCommand<PullRequest>(command);
-      return pr;
-    } catch (error) {
-      console.error("Failed to fetch PR details:", error);
-      return null;
+      return await this.azureApiService.get<PullRequest>(`git/pullrequests/${prId}?api-version=7.0`, project);
+    } catch (restError) {
+      try {
+        const command = this.buildPRShowCommand(prId, project, repo);
+        return await this.azureCliService.executeAzCommand<PullRequest>(command);
+      } catch {
+        console.error("Failed to fetch PR details:", (restError as Error).message);
+        return null;
+      }
     }
   }
 
@@ -110,4 +142,8 @@ export class CommentsService {
   private buildThreadsApiPath(repositoryId: string, prId: number): string {
     return `git/repositories/${repositoryId}/pullRequests/${prId}/threads?api-version=7.0`;
   }
+
+  private buildThreadApiPath(repositoryId: string, prId: number, threadId: number): string {
+    return `git/repositories/${repositoryId}/pullRequests/${prId}/threads/${threadId}?api-version=7.0`;
+  }
 }
@@ -0,0 +1,108 @@
+import { Command } from "commander";
+import { CreatePROptions, OutputFormat, PullRequest } from "../../../types/pull-request.types.js";
+import { formatPRDetails } from "../../../formatters/pr-table.formatter.js";
+import { createOutputOption } from "../../output-options.js";
+import { CreatePRService } from "./create.service.js";
+
+interface RawCommandOptions {
+  title?: string;
+  description?: string;
+  sourceBranch?: string;
+  targetBranch?: string;
+  reviewer: string[];
+  requiredReviewer: string[];
+  workItem: string[];
+  draft: boolean;
+  template: boolean;
+  repo?: string;
+  project?: string;
+  output: string;
+}
+
+const SUPPORTED_FORMATS: string[] = [OutputFormat.Table, OutputFormat.Json];
+
+export function createCreatePRCommand(): Command {
+  const command = new Command("create");
+
+  command
+    .description("Create a pull request from the current branch")
+    .option("-t, --title <title>", "Pull request title (defaults to the latest commit subject)")
+    .option("-d, --description <description>", "Pull request description (defaults to the repository's PR template)")
+    .option("-s, --source-branch <branch>", "Source branch (defaults to the checked-out branch)")
+    .option("--target-branch <branch>", "Target branch (defaults to the repository's default branch)")
+    .option("--reviewer <identity>", "Optional reviewer by email, name or group (repeatable)", collect, [])
+    .option("--required-reviewer <identity>", "Required reviewer by email, name or group (repeatable)", collect, [])
+    .option("--work-item <id>", "Work item ID to link (repeatable)", collect, [])
+    .option("--draft", "Create the pull request as a draft", false)
+    .option("--no-template", "Do not fill the description from the PR template")
+    .option("-r, --repo <repository>", "Repository name")
+    .option("-p, --project <project>", "Project name")
+    .addOption(createOutputOption(SUPPORTED_FORMATS))
+    .action(async (options: RawCommandOptions) => {
+      try {
+        const createOptions = parseOptions(options);
+        validateOutputFormat(createOptions.output, options.output);
+
+        const service = new CreatePRService();
+        const pr = await service.createPullRequest(createOptions);
+
+        displayResult(pr, createOptions.output);
+      } catch (error) {
+        console.error("Error creating pull request:", (error as Error).message);
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+function parseOptions(options: RawCommandOptions): CreatePROptions {
+  return {
+    title: options.title,
+    description: options.description,
+    sourceBranch: options.sourceBranch,
+    targetBranch: options.targetBranch,
+    reviewers: options.reviewer,
+    requiredReviewers: options.requiredReviewer,
+    workItems: options.workItem.map(parseWorkItemId),
+    draft: options.draft,
+    template: options.template,
+    repo: options.repo,
+    project: options.project,
+    output: options.output as OutputFormat,
+  };
+}
+
+function parseWorkItemId(value: string): number {
+  const id = parseInt(value.replace(/^#/, ""), 10);
+
+  if (isNaN(id) || id <= 0) {
+    console.error(`Invalid work item ID: ${value}`);
+    process.exit(1);
+  }
+
+  return id;
+}
+
+function validateOutputFormat(format: OutputFormat, rawFormat: string): void {
+  if (!SUPPORTED_FORMATS.includes(format)) {
+    console.error(`Invalid output format: ${rawFormat}`);
+    console.error(`Valid values: ${SUPPORTED_FORMATS.join(", ")}`);
+    process.exit(1);
+  }
+}
+
+function displayResult(pr: PullRequest, output: OutputFormat): void {
+  if (output === OutputFormat.Json) {
+    console.log(JSON.stringify(pr, null, 2));
+    return;
+  }
+
+  console.log(`\nCreated pull request #${pr.pullRequestId}:\n`);
+  console.log(formatPRDetails(pr));
+  console.log("");
+}
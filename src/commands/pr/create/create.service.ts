@@ -0,0 +1,133 @@
+import fs from "fs";
+import path from "path";
+import { AzureCliService, quoteArgument } from "../../../services/azure-cli.service.js";
+import { isOfflineMode, OfflineChangeError } from "../../../services/cache.service.js";
+import { ConfigService } from "../../../services/config.service.js";
+import { GitService } from "../../../services/git.service.js";
+import { CreatePROptions, PullRequest } from "../../../types/pull-request.types.js";
+
+/**
+ * Folders Azure DevOps searches for pull request templates, in priority order
+ */
+const TEMPLATE_FOLDERS = [".azuredevops", ".vsts", "docs", ""];
+const TEMPLATE_EXTENSIONS = [".md", ".txt"];
+
+export class CreatePRService {
+  private azureCliService: AzureCliService;
+  private gitService: GitService;
+  private configService: ConfigService;
+
+  constructor(azureCliService?: AzureCliService, gitService?: GitService, configService?: ConfigService) {
+    this.azureCliService = azureCliService || new AzureCliService();
+    this.gitService = gitService || new GitService();
+    this.configService = configService || new ConfigService(this.azureCliService);
+  }
+
+  async createPullRequest(options: CreatePROptions): Promise<PullRequest> {
+    // The Azure CLI sends the request itself, past the cache that stops changes while offline
+    if (isOfflineMode()) {
+      throw new OfflineChangeError("create a pull request");
+    }
+
+    const sourceBranch = options.sourceBranch || (await this.gitService.getCurrentBranch());
+    const title = options.title || (await this.gitService.getLastCommitSubject());
+
+    if (!title) {
+      throw new Error("Could not determine a title from the latest commit. Pass --title explicitly.");
+    }
+
+    const description = await this.resolveDescription(options);
+    const project = options.project || (await this.configService.getDefaultProject());
+    const repo = options.repo || (await this.configService.getDefaultRepository());
+    const command = this.buildCreateCommand({ ...options, project, repo, sourceBranch, title, description });
+
+    return this.azureCliService.executeAzCommand<PullRequest>(command);
+  }
+
+  private async resolveDescription(options: CreatePROptions): Promise<string | undefined> {
+    if (options.description !== undefined) {
+      return options.description;
+    }
+
+    return options.template ? this.loadTemplate(options.targetBranch) : undefined;
+  }
+
+  /**
+   * Find the repository's pull request template the same way Azure DevOps does: a
+   * branch-specific template for the target branch wins over the default one.
+   */
+  async loadTemplate(targetBranch?: string): Promise<string | undefined> {
+    if (!(await this.gitService.isRepository())) {
+      return undefined;
+    }
+
+    const repoRoot = await this.gitService.getRepositoryRoot();
+    const templatePath = this.findTemplate(repoRoot, targetBranch);
+
+    return templatePath ? fs.readFileSync(templatePath, "utf8").trim() : undefined;
+  }
+
+  findTemplate(repoRoot: string, targetBranch?: string): string | undefined {
+    const candidates: string[] = [];
+
+    if (targetBranch) {
+      const branch = targetBranch.replace("refs/heads/", "");
+      for (const folder of TEMPLATE_FOLDERS) {
+        for (const extension of TEMPLATE_EXTENSIONS) {
+          candidates.push(path.join(repoRoot, folder, "pull_request_template", "branches", `${branch}${extension}`));
+        }
+      }
+    }
+
+    for (const folder of TEMPLATE_FOLDERS) {
+      for (const extension of TEMPLATE_EXTENSIONS) {
+        candidates.push(path.join(repoRoot, folder, `pull_request_template${extension}`));
+      }
+    }
+
+    return candidates.find((candidate) => fs.existsSync(candidate));
+  }
+
+  buildCreateCommand(options: CreatePROptions & { sourceBranch: string; title: string }): string {
+    const args: string[] = [
+      `--source-branch ${quoteArgument(options.sourceBranch)}`,
+      // With "=" argparse takes the value as is, even when it starts with "-" like a markdown "---" rule
+      `--title=${quoteArgument(options.title)}`,
+    ];
+
+    if (options.targetBranch) {
+      args.push(`--target-branch ${quoteArgument(options.targetBranch)}`);
+    }
+
+    if (options.description) {
+      args.push(`--description=${quoteArgument(options.description)}`);
+    }
+
+    if (options.reviewers.length > 0) {
+      args.push(`--reviewers ${options.reviewers.map((reviewer) => quoteArgument(reviewer)).join(" ")}`);
+    }
+
+    if (options.requiredReviewers.length > 0) {
+      const requiredReviewers = options.requiredReviewers.map((reviewer) => quoteArgument(reviewer));
+      args.push(`--required-reviewers ${requiredReviewers.join(" ")}`);
+    }
+
+    if (options.workItems.length > 0) {
+      args.push(`--work-items ${options.workItems.join(" ")}`);
+    }
+
+    if (options.draft) {
+      args.push("--draft true");
+    }
+
+    if (options.project) {
+      args.push(`--project ${quoteArgument(options.project)}`);
+    }
+
+    if (options.repo) {
+      args.push(`--repository ${quoteArgument(options.repo)}`);
+    }
+
+    return `az repos pr create ${args.join(" ")} --output json`;
+  }
+}
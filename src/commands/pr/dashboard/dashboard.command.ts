@@ -0,0 +1,59 @@
+import { Command } from "commander";
+import { PRDashboardOptions, PullRequestStatus } from "../../../types/pull-request.types.js";
+import { addLimitOptions, parseLimit, RawLimitOptions } from "../../limit-options.js";
+import { DashboardService } from "./dashboard.service.js";
+import { DashboardTerminal } from "./dashboard.terminal.js";
+
+interface RawCommandOptions extends RawLimitOptions {
+  status: string;
+  repo?: string;
+  project?: string;
+}
+
+export function createDashboardCommand(): Command {
+  const command = new Command("dashboard");
+
+  command
+    .description("Full-screen view of your pull requests and their comments, with hotkeys to vote, reply and resolve")
+    .option("-s, --status <status>", "Filter by status (active, completed, abandoned, all)", PullRequestStatus.Active)
+    .option("-r, --repo <repository>", "Filter by repository name")
+    .option("-p, --project <project>", "Project name");
+  addLimitOptions(command, {
+    limit: "Maximum number of pull requests per role",
+    all: "Show every pull request, requesting further pages as needed",
+  });
+
+  command.action(async (options: RawCommandOptions) => {
+    try {
+      const dashboardOptions = buildDashboardOptions(options);
+
+      if (!process.stdin.isTTY || !process.stdout.isTTY) {
+        throw new Error("the dashboard needs an interactive terminal; use my-prs and pr-comments in scripts");
+      }
+
+      await new DashboardTerminal(new DashboardService(), dashboardOptions).run();
+    } catch (error) {
+      console.error("Error running dashboard:", (error as Error).message);
+      process.exit(1);
+    }
+  });
+
+  return command;
+}
+
+function buildDashboardOptions(options: RawCommandOptions): PRDashboardOptions {
+  const status = options.status as PullRequestStatus;
+
+  if (!Object.values(PullRequestStatus).includes(status)) {
+    console.error(`Invalid status: ${options.status}`);
+    console.error(`Valid values: ${Object.values(PullRequestStatus).join(", ")}`);
+    process.exit(1);
+  }
+
+  return {
+    status,
+    limit: parseLimit(options),
+    project: options.project,
+    repo: options.repo,
+  };
+}
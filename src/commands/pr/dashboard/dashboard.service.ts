@@ -0,0 +1,105 @@
+import { AzureApiService } from "../../../services/azure-api.service.js";
+import { AzureCliService } from "../../../services/azure-cli.service.js";
+import { ConfigService } from "../../../services/config.service.js";
+import { Comment, CommentThread, CommentThreadStatus, ThreadStatusChange } from "../../../types/comment.types.js";
+import {
+  OutputFormat,
+  PRDashboardOptions,
+  PullRequest,
+  PullRequestGroup,
+  PullRequestRole,
+  PullRequestVote,
+  Reviewer,
+} from "../../../types/pull-request.types.js";
+import { CommentsService } from "../comments/comments.service.js";
+import { MyPRsService } from "../my-prs/my-prs.service.js";
+import { ReplyService } from "../reply/reply.service.js";
+import { SetStatusService } from "../thread/set-status/set-status.service.js";
+import { VoteService } from "../vote/vote.service.js";
+
+/**
+ * Data access for the dashboard; each action reuses the service behind the matching command
+ */
+export class DashboardService {
+  private myPRsService: MyPRsService;
+  private commentsService: CommentsService;
+  private voteService: VoteService;
+  private replyService: ReplyService;
+  private setStatusService: SetStatusService;
+
+  constructor(
+    azureApiService?: AzureApiService,
+    azureCliService?: AzureCliService,
+    configService?: ConfigService,
+    myPRsService?: MyPRsService,
+  ) {
+    const cliService = azureCliService || new AzureCliService();
+    const config = configService || new ConfigService(cliService);
+    const apiService = azureApiService || new AzureApiService(config);
+    this.myPRsService = myPRsService || new MyPRsService(apiService, cliService, config);
+    this.commentsService = new CommentsService(apiService, cliService, config);
+    this.voteService = new VoteService(apiService, cliService, config);
+    this.replyService = new ReplyService(apiService, cliService, config);
+    this.setStatusService = new SetStatusService(apiService, cliService, config);
+  }
+
+  /**
+   * Fetch the pull requests I created and those I review, newest first. A pull request I both
+   * created and review is only listed under "Created by me".
+   */
+  async fetchGroups(options: PRDashboardOptions): Promise<PullRequestGroup[]> {
+    const fetchRole = (role: PullRequestRole) =>
+      this.myPRsService.fetchMyPRs({ ...options, role, output: OutputFormat.Table });
+
+    const [created, reviewing] = await Promise.all([
+      fetchRole(PullRequestRole.Author),
+      fetchRole(PullRequestRole.Reviewer),
+    ]);
+    const createdIds = new Set(created.map((pr) => pr.pullRequestId));
+
+    return [
+      { role: PullRequestRole.Author, title: "Created by me", pullRequests: this.myPRsService.sortPRs(created) },
+      {
+        role: PullRequestRole.Reviewer,
+        title: "Reviewing",
+        pullRequests: this.myPRsService.sortPRs(reviewing.filter((pr) => !createdIds.has(pr.pullRequestId))),
+      },
+    ];
+  }
+
+  /**
+   * Comment threads of a pull request, newest first, without deleted threads
+   */
+  async fetchThreads(pr: PullRequest): Promise<CommentThread[]> {
+    const location = { project: pr.repository.project.name, repositoryId: pr.repository.id };
+    const threads = await this.commentsService.fetchThreadsAtLocation(location, pr.pullRequestId);
+    return this.commentsService.sortThreads(this.commentsService.filterDeletedThreads(threads), false);
+  }
+
+  async vote(pr: PullRequest, vote: PullRequestVote): Promise<Reviewer[]> {
+    return this.voteService.castVote(pr.pullRequestId, vote, { ...this.targetOf(pr), output: OutputFormat.Table });
+  }
+
+  async reply(pr: PullRequest, threadId: number, content: string): Promise<Comment> {
+    return this.replyService.replyToThread(pr.pullRequestId, threadId, content, {
+      ...this.targetOf(pr),
+      output: OutputFormat.Table,
+    });
+  }
+
+  async resolveThread(pr: PullRequest, threadId: number): Promise<ThreadStatusChange> {
+    return this.setStatusService.setThreadStatus(pr.pullRequestId, threadId, CommentThreadStatus.Fixed, {
+      ...this.targetOf(pr),
+      dryRun: false,
+      output: OutputFormat.Table,
+    });
+  }
+
+  async buildPRUrl(pr: PullRequest): Promise<string | undefined> {
+    return this.commentsService.buildPRUrl(pr.pullRequestId, pr.repository.project.name);
+  }
+
+  private targetOf(pr: PullRequest): { project: string; repo: string } {
+    return { project: pr.repository.project.name, repo: pr.repository.name };
+  }
+}
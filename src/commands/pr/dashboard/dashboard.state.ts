@@ -0,0 +1,249 @@
+import { CommentThread } from "../../../types/comment.types.js";
+import { PullRequest, PullRequestGroup, PullRequestVote } from "../../../types/pull-request.types.js";
+import { VOTE_CHOICES } from "../vote/vote.service.js";
+
+/**
+ * A key press as reported by readline's "keypress" event
+ */
+export interface KeyPress {
+  name?: string;
+  sequence?: string;
+  ctrl?: boolean;
+  shift?: boolean;
+}
+
+/**
+ * The comment view of one pull request. `lines` is the rendered thread text and `threadOffsets`
+ * the line each thread starts on, so the view can scroll to the selected thread.
+ */
+export interface DashboardDetail {
+  pr: PullRequest;
+  threads: CommentThread[];
+  lines: string[];
+  threadOffsets: number[];
+  selectedThread: number;
+  scroll: number;
+}
+
+export interface DashboardState {
+  groups: PullRequestGroup[];
+  cursor: number;
+  detail?: DashboardDetail;
+  votePrompt: boolean;
+  message?: string;
+  error?: boolean;
+  busy: boolean;
+}
+
+/**
+ * Work the key handler asks the terminal loop to do; the loop owns all I/O
+ */
+export type DashboardAction =
+  | { type: "quit" }
+  | { type: "refresh" }
+  | { type: "open"; pr: PullRequest }
+  | { type: "browser"; pr: PullRequest }
+  | { type: "vote"; pr: PullRequest; vote: PullRequestVote }
+  | { type: "reply"; pr: PullRequest; thread: CommentThread }
+  | { type: "resolve"; pr: PullRequest; thread: CommentThread };
+
+export interface KeyResult {
+  state: DashboardState;
+  action?: DashboardAction;
+}
+
+/**
+ * Keys accepted at the vote prompt, mapped to the vote command's choices
+ */
+export const VOTE_KEYS: Record<string, keyof typeof VOTE_CHOICES> = {
+  a: "approve",
+  s: "suggest",
+  w: "wait",
+  x: "reject",
+  "0": "reset",
+};
+
+export function createDashboardState(groups: PullRequestGroup[] = []): DashboardState {
+  return { groups, cursor: 0, votePrompt: false, busy: false };
+}
+
+/**
+ * All listed pull requests in display order; the cursor indexes into this list
+ */
+export function listedPullRequests(state: DashboardState): PullRequest[] {
+  return state.groups.flatMap((group) => group.pullRequests);
+}
+
+export function selectedPullRequest(state: DashboardState): PullRequest | undefined {
+  return state.detail?.pr ?? listedPullRequests(state)[state.cursor];
+}
+
+/**
+ * Replace the listed groups, keeping the cursor on the same pull request when it is still listed
+ */
+export function withGroups(state: DashboardState, groups: PullRequestGroup[]): DashboardState {
+  const selectedId = listedPullRequests(state)[state.cursor]?.pullRequestId;
+  const listed = groups.flatMap((group) => group.pullRequests);
+  const index = listed.findIndex((pr) => pr.pullRequestId === selectedId);
+
+  return { ...state, groups, cursor: index >= 0 ? index : clamp(state.cursor, 0, listed.length - 1) };
+}
+
+export function withDetail(
+  state: DashboardState,
+  pr: PullRequest,
+  threads: CommentThread[],
+  lines: string[],
+  threadOffsets: number[],
+): DashboardState {
+  // Keep the selection and scroll position when refreshing the pull request that is already open
+  const previous = state.detail?.pr.pullRequestId === pr.pullRequestId ? state.detail : undefined;
+  const selectedThread = clamp(previous?.selectedThread ?? 0, 0, threads.length - 1);
+
+  return {
+    ...state,
+    detail: {
+      pr,
+      threads,
+      lines,
+      threadOffsets,
+      selectedThread,
+      scroll: clamp(previous?.scroll ?? 0, 0, Math.max(lines.length - 1, 0)),
+    },
+  };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(value, max));
+}
+
+function moveCursor(state: DashboardState, delta: number): DashboardState {
+  const count = listedPullRequests(state).length;
+  return { ...state, cursor: clamp(state.cursor + delta, 0, count - 1) };
+}
+
+function scrollDetail(detail: DashboardDetail, scroll: number, pageHeight: number): DashboardDetail {
+  return { ...detail, scroll: clamp(scroll, 0, Math.max(detail.lines.length - pageHeight, 0)) };
+}
+
+function selectThread(detail: DashboardDetail, index: number, pageHeight: number): DashboardDetail {
+  if (detail.threads.length === 0) {
+    return detail;
+  }
+
+  const selectedThread = clamp(index, 0, detail.threads.length - 1);
+  return scrollDetail({ ...detail, selectedThread }, detail.threadOffsets[selectedThread] ?? 0, pageHeight);
+}
+
+function handleVotePrompt(state: DashboardState, key: KeyPress): KeyResult {
+  const pr = selectedPullRequest(state);
+  const choice = VOTE_KEYS[key.name ?? key.sequence ?? ""];
+  const next = { ...state, votePrompt: false, message: undefined };
+
+  if (!pr || !choice) {
+    return { state: next };
+  }
+
+  return { state: next, action: { type: "vote", pr, vote: VOTE_CHOICES[choice] } };
+}
+
+function handleListKey(state: DashboardState, key: KeyPress, pageHeight: number): KeyResult {
+  const pr = selectedPullRequest(state);
+
+  switch (key.name) {
+    case "up":
+    case "k":
+      return { state: moveCursor(state, -1) };
+    case "down":
+    case "j":
+      return { state: moveCursor(state, 1) };
+    case "pageup":
+      return { state: moveCursor(state, -pageHeight) };
+    case "pagedown":
+      return { state: moveCursor(state, pageHeight) };
+    case "home":
+      return { state: moveCursor(state, -Infinity) };
+    case "end":
+      return { state: moveCursor(state, Infinity) };
+    case "return":
+    case "enter":
+    case "right":
+    case "l":
+      return pr ? { state, action: { type: "open", pr } } : { state };
+    default:
+      return { state };
+  }
+}
+
+function handleDetailKey(detail: DashboardDetail, state: DashboardState, key: KeyPress, pageHeight: number): KeyResult {
+  const thread = detail.threads[detail.selectedThread];
+  const withDetailState = (next: DashboardDetail) => ({ state: { ...state, detail: next } });
+
+  switch (key.name) {
+    case "escape":
+    case "backspace":
+    case "left":
+    case "h":
+      return { state: { ...state, detail: undefined } };
+    case "up":
+    case "k":
+      return withDetailState(scrollDetail(detail, detail.scroll - 1, pageHeight));
+    case "down":
+    case "j":
+      return withDetailState(scrollDetail(detail, detail.scroll + 1, pageHeight));
+    case "pageup":
+      return withDetailState(scrollDetail(detail, detail.scroll - pageHeight, pageHeight));
+    case "pagedown":
+    case "space":
+      return withDetailState(scrollDetail(detail, detail.scroll + pageHeight, pageHeight));
+    case "home":
+      return withDetailState(scrollDetail(detail, 0, pageHeight));
+    case "end":
+      return withDetailState(scrollDetail(detail, Infinity, pageHeight));
+    case "tab":
+      return withDetailState(selectThread(detail, detail.selectedThread + (key.shift ? -1 : 1), pageHeight));
+    case "n":
+      return withDetailState(selectThread(detail, detail.selectedThread + 1, pageHeight));
+    case "p":
+      return withDetailState(selectThread(detail, detail.selectedThread - 1, pageHeight));
+    case "c":
+      return thread ? { state, action: { type: "reply", pr: detail.pr, thread } } : { state };
+    case "x":
+      return thread ? { state, action: { type: "resolve", pr: detail.pr, thread } } : { state };
+    default:
+      return { state };
+  }
+}
+
+/**
+ * Apply one key press. `pageHeight` is the number of content rows on screen.
+ */
+export function handleKey(state: DashboardState, key: KeyPress, pageHeight: number): KeyResult {
+  if (key.ctrl && key.name === "c") {
+    return { state, action: { type: "quit" } };
+  }
+
+  // Ignore input while a request is running, apart from quitting
+  if (state.busy) {
+    return { state };
+  }
+
+  if (state.votePrompt) {
+    return handleVotePrompt(state, key);
+  }
+
+  const pr = selectedPullRequest(state);
+
+  switch (key.name) {
+    case "q":
+      return { state, action: { type: "quit" } };
+    case "r":
+      return { state, action: { type: "refresh" } };
+    case "o":
+      return pr ? { state, action: { type: "browser", pr } } : { state };
+    case "v":
+      return pr ? { state: { ...state, votePrompt: true, message: undefined } } : { state };
+  }
+
+  return state.detail ? handleDetailKey(state.detail, state, key, pageHeight) : handleListKey(state, key, pageHeight);
+}
@@ -0,0 +1,198 @@
+import readline from "readline";
+import open from "open";
+import { EditorCancelledError, EditorService } from "../../../services/editor.service.js";
+import { PRDashboardOptions, PullRequest } from "../../../types/pull-request.types.js";
+import {
+  DASHBOARD_CHROME_ROWS,
+  formatDashboardDetail,
+  renderDashboard,
+} from "../../../formatters/dashboard.formatter.js";
+import { describeVote } from "../../../formatters/text.formatter.js";
+import { DashboardService } from "./dashboard.service.js";
+import {
+  createDashboardState,
+  DashboardAction,
+  DashboardState,
+  handleKey,
+  KeyPress,
+  withDetail,
+  withGroups,
+} from "./dashboard.state.js";
+
+const ENTER_SCREEN = "\x1b[?1049h\x1b[?25l";
+const LEAVE_SCREEN = "\x1b[?25h\x1b[?1049l";
+
+/**
+ * Runs the dashboard in the terminal's alternate screen: reads key presses, hands them to the
+ * state machine in dashboard.state.ts and performs the actions it asks for
+ */
+export class DashboardTerminal {
+  private state: DashboardState = createDashboardState();
+  private exit?: () => void;
+
+  constructor(
+    private service: DashboardService,
+    private options: PRDashboardOptions,
+    private editor: EditorService = new EditorService(),
+    private input: NodeJS.ReadStream = process.stdin,
+    private output: NodeJS.WriteStream = process.stdout,
+  ) {}
+
+  /**
+   * Show the dashboard until the user quits
+   */
+  async run(): Promise<void> {
+    const onKeyPress = (_: string | undefined, key: KeyPress | undefined) => void this.onKeyPress(key ?? {});
+    const onResize = () => this.render();
+    const exited = new Promise<void>((resolve) => {
+      this.exit = resolve;
+    });
+
+    readline.emitKeypressEvents(this.input);
+    this.input.on("keypress", onKeyPress);
+    this.output.on("resize", onResize);
+    this.enterScreen();
+
+    try {
+      await this.runTask("Loading pull requests", async () => {
+        await this.refreshList();
+      });
+      await exited;
+    } finally {
+      this.input.off("keypress", onKeyPress);
+      this.output.off("resize", onResize);
+      this.leaveScreen();
+      this.input.pause();
+    }
+  }
+
+  private async onKeyPress(key: KeyPress): Promise<void> {
+    const { state, action } = handleKey(this.state, key, this.pageHeight());
+    this.state = state;
+    this.render();
+
+    if (action) {
+      await this.dispatch(action);
+    }
+  }
+
+  private async dispatch(action: DashboardAction): Promise<void> {
+    switch (action.type) {
+      case "quit":
+        this.exit?.();
+        return;
+      case "refresh":
+        return this.runTask("Refreshing", async () => {
+          await this.refreshList();
+          if (this.state.detail) {
+            await this.loadDetail(this.state.detail.pr);
+          }
+          return "Refreshed";
+        });
+      case "open":
+        return this.runTask(`Loading comments for #${action.pr.pullRequestId}`, () => this.loadDetail(action.pr));
+      case "browser":
+        return this.runTask("Opening browser", async () => {
+          const url = await this.service.buildPRUrl(action.pr);
+
+          if (!url) {
+            throw new Error("Could not determine PR URL. Organization or project not configured.");
+          }
+
+          await open(url);
+          return `Opened ${url}`;
+        });
+      case "vote":
+        return this.runTask("Voting", async () => {
+          await this.service.vote(action.pr, action.vote);
+          await this.refreshList();
+          return `Voted "${describeVote(action.vote)}" on #${action.pr.pullRequestId}`;
+        });
+      case "reply":
+        return this.reply(action.pr, action.thread.id);
+      case "resolve":
+        return this.runTask(`Resolving thread ${action.thread.id}`, async () => {
+          const change = await this.service.resolveThread(action.pr, action.thread.id);
+          await this.loadDetail(action.pr);
+          return change.applied
+            ? `Thread ${change.threadId} resolved`
+            : `Thread ${change.threadId} was already resolved`;
+        });
+    }
+  }
+
+  private async reply(pr: PullRequest, threadId: number): Promise<void> {
+    let content: string;
+
+    // The editor needs the real screen and cooked input while it runs
+    this.leaveScreen();
+
+    try {
+      content = await this.editor.edit(`Write your reply to thread ${threadId} in PR #${pr.pullRequestId} above.`);
+    } catch (error) {
+      const cancelled = error instanceof EditorCancelledError;
+      const message = cancelled ? "Reply cancelled" : (error as Error).message;
+      this.enterScreen();
+      this.state = { ...this.state, message, error: !cancelled };
+      this.render();
+      return;
+    }
+
+    this.enterScreen();
+
+    await this.runTask(`Replying to thread ${threadId}`, async () => {
+      await this.service.reply(pr, threadId, content);
+      await this.loadDetail(pr);
+      return `Replied to thread ${threadId}`;
+    });
+  }
+
+  private async refreshList(): Promise<void> {
+    const groups = await this.service.fetchGroups(this.options);
+    this.state = withGroups(this.state, groups);
+  }
+
+  private async loadDetail(pr: PullRequest): Promise<void> {
+    const threads = await this.service.fetchThreads(pr);
+    const { lines, threadOffsets } = formatDashboardDetail(pr, threads);
+    this.state = withDetail(this.state, pr, threads, lines, threadOffsets);
+  }
+
+  /**
+   * Show progress while a request runs, then its result or error in the status line
+   */
+  private async runTask(label: string, task: () => Promise<string | void>): Promise<void> {
+    this.state = { ...this.state, busy: true, message: label, error: false };
+    this.render();
+
+    try {
+      const message = await task();
+      this.state = { ...this.state, busy: false, message: message || undefined, error: false };
+    } catch (error) {
+      this.state = { ...this.state, busy: false, message: (error as Error).message, error: true };
+    }
+
+    this.render();
+  }
+
+  private pageHeight(): number {
+    return Math.max((this.output.rows || 24) - DASHBOARD_CHROME_ROWS, 1);
+  }
+
+  private render(): void {
+    const lines = renderDashboard(this.state, this.output.columns || 80, this.output.rows || 24);
+    this.output.write(lines.map((line, index) => `\x1b[${index + 1};1H${line}\x1b[K`).join(""));
+  }
+
+  private enterScreen(): void {
+    this.input.setRawMode(true);
+    this.input.resume();
+    this.output.write(ENTER_SCREEN);
+    this.render();
+  }
+
+  private leaveScreen(): void {
+    this.output.write(LEAVE_SCREEN);
+    this.input.setRawMode(false);
+  }
+}
@@ -0,0 +1,112 @@
+import { Command } from "commander";
+import { OutputFormat, PRDiffOptions } from "../../../types/pull-request.types.js";
+import { formatDiffStat, formatUnifiedDiff } from "../../../formatters/diff.formatter.js";
+import { OutputShaping, renderResult } from "../../../formatters/output.formatter.js";
+import { addQueryOptions, createOutputOption, parseShapingOptions, RawShapingOptions } from "../../output-options.js";
+import { DiffService } from "./diff.service.js";
+
+interface RawCommandOptions extends RawShapingOptions {
+  repo?: string;
+  project?: string;
+  output: string;
+  stat: boolean;
+  iteration?: string;
+  file?: string;
+}
+
+const SUPPORTED_FORMATS: string[] = [OutputFormat.Table, OutputFormat.Json];
+
+export function createDiffCommand(): Command {
+  const command = new Command("diff");
+
+  command
+    .description("Show the changes in a pull request")
+    .argument("<pr-id>", "Pull request ID")
+    .option("--stat", "Only list the changed files", false)
+    .option("--iteration <n>", "Iteration to show (defaults to the latest)")
+    .option("--file <glob>", "Only include files matching the glob (e.g. \"src/**/*.ts\")")
+    .option("-r, --repo <repository>", "Repository name")
+    .option("-p, --project <project>", "Project name")
+    .addOption(createOutputOption(SUPPORTED_FORMATS));
+
+  addQueryOptions(command, { query: "changes[].path", fields: "pullRequestId,iteration.id" });
+
+  command.action(async (prIdStr: string, options: RawCommandOptions) => {
+    try {
+      const prId = parsePullRequestId(prIdStr);
+      const diffOptions = buildDiffOptions(options);
+
+      validateOutputFormat(diffOptions.output, options.output);
+      const shaping = parseShapingOptions(options);
+
+      const service = new DiffService();
+
+      if (diffOptions.stat) {
+        const changes = await service.fetchChanges(prId, diffOptions);
+        displayResult(changes, diffOptions.output, formatDiffStat, shaping);
+      } else {
+        const diff = await service.fetchDiff(prId, diffOptions);
+        displayResult(diff, diffOptions.output, formatUnifiedDiff, shaping);
+      }
+    } catch (error) {
+      console.error("Error fetching diff:", (error as Error).message);
+      process.exit(1);
+    }
+  });
+
+  return command;
+}
+
+function parsePullRequestId(prIdStr: string): number {
+  const prId = parseInt(prIdStr, 10);
+
+  if (isNaN(prId) || prId <= 0) {
+    console.error("Invalid pull request ID. Must be a positive number.");
+    process.exit(1);
+  }
+
+  return prId;
+}
+
+function parseIteration(iterationStr: string | undefined): number | undefined {
+  if (iterationStr === undefined) {
+    return undefined;
+  }
+
+  const iteration = parseInt(iterationStr, 10);
+
+  if (isNaN(iteration) || iteration <= 0) {
+    console.error("Invalid iteration. Must be a positive number.");
+    process.exit(1);
+  }
+
+  return iteration;
+}
+
+function buildDiffOptions(options: RawCommandOptions): PRDiffOptions {
+  return {
+    output: options.output as OutputFormat,
+    stat: options.stat,
+    iteration: parseIteration(options.iteration),
+    file: options.file,
+    project: options.project,
+    repo: options.repo,
+  };
+}
+
+function validateOutputFormat(format: OutputFormat, rawFormat: string): void {
+  if (!SUPPORTED_FORMATS.includes(format)) {
+    console.error(`Invalid output format: ${rawFormat}`);
+    console.error(`Valid values: ${SUPPORTED_FORMATS.join(", ")}`);
+    process.exit(1);
+  }
+}
+
+function displayResult<T>(
+  result: T,
+  output: OutputFormat,
+  format: (result: T) => string,
+  shaping: OutputShaping,
+): void {
+  console.log(renderResult(result, output, () => format(result), shaping));
+}
@@ -0,0 +1,467 @@
+import { AzureApiService } from "../../../services/azure-api.service.js";
+import { AzureCliService } from "../../../services/azure-cli.service.js";
+import { ConfigService } from "../../../services/config.service.js";
+import { CodeSnippet, CommentThread } from "../../../types/comment.types.js";
+import {
+  DiffHunk,
+  DiffLine,
+  FileChange,
+  FileDiff,
+  IterationChangesResponse,
+  IterationsResponse,
+  PRDiffOptions,
+  PullRequestChanges,
+  PullRequestDiff,
+  PullRequestIteration,
+  PullRequestLocation,
+} from "../../../types/pull-request.types.js";
+import { CommentsService } from "../comments/comments.service.js";
+
+interface ItemResponse {
+  content?: string;
+  contentMetadata?: { isBinary?: boolean };
+}
+
+/**
+ * Lines of unchanged context kept around each change, as in `git diff`
+ */
+const DIFF_CONTEXT_LINES = 3;
+
+/**
+ * Above this many old × new lines the LCS table gets too large; the changed block is shown as replaced instead
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Page size for the iteration changes API, which returns 100 entries unless asked for more
+ */
+const MAX_CHANGES = 2000;
+
+export class DiffService {
+  private azureApiService: AzureApiService;
+  private commentsService: CommentsService;
+  private contentCache = new Map<string, Promise<string | undefined>>();
+
+  constructor(
+    azureApiService?: AzureApiService,
+    azureCliService?: AzureCliService,
+    configService?: ConfigService,
+    commentsService?: CommentsService,
+  ) {
+    const cliService = azureCliService || new AzureCliService();
+    const config = configService || new ConfigService(cliService);
+    this.azureApiService = azureApiService || new AzureApiService(config);
+    this.commentsService = commentsService || new CommentsService(this.azureApiService, cliService, config);
+  }
+
+  /**
+   * List the files changed in an iteration (the latest by default)
+   */
+  async fetchChanges(prId: number, options: PRDiffOptions): Promise<PullRequestChanges> {
+    const location = await this.commentsService.resolvePullRequestLocation(prId, options.project, options.repo);
+    return this.fetchChangesAtLocation(location, prId, options);
+  }
+
+  /**
+   * Compute line diffs for the files changed in an iteration, against the merge base
+   */
+  async fetchDiff(prId: number, options: PRDiffOptions): Promise<PullRequestDiff> {
+    const location = await this.commentsService.resolvePullRequestLocation(prId, options.project, options.repo);
+    const { iteration, changes } = await this.fetchChangesAtLocation(location, prId, options);
+    const baseCommit = (iteration.commonRefCommit || iteration.targetRefCommit).commitId;
+
+    const files = await Promise.all(
+      changes.map((change) => this.diffFile(location, change, baseCommit, iteration.sourceRefCommit.commitId)),
+    );
+
+    return { pullRequestId: prId, iteration, files };
+  }
+
+  async fetchIterations(location: PullRequestLocation, prId: number): Promise<PullRequestIteration[]> {
+    try {
+      const response = await this.azureApiService.get<IterationsResponse>(
+        `git/repositories/${location.repositoryId}/pullRequests/${prId}/iterations?api-version=7.0`,
+        location.project,
+      );
+      return response.value || [];
+    } catch (error) {
+      throw new Error(`Failed to fetch iterations: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Fetch one iteration by number, or the latest when no number is given
+   */
+  async fetchIteration(
+    location: PullRequestLocation,
+    prId: number,
+    iterationId?: number,
+  ): Promise<PullRequestIteration> {
+    const iterations = await this.fetchIterations(location, prId);
+
+    if (iterations.length === 0) {
+      throw new Error(`Pull request ${prId} has no iterations`);
+    }
+
+    if (iterationId === undefined) {
+      return iterations.reduce((latest, iteration) => (iteration.id > latest.id ? iteration : latest));
+    }
+
+    const iteration = iterations.find((candidate) => candidate.id === iterationId);
+
+    if (!iteration) {
+      throw new Error(
+        `Iteration ${iterationId} not found; pull request ${prId} has ${iterations.length} iteration(s)`,
+      );
+    }
+
+    return iteration;
+  }
+
+  /**
+   * Files changed in an iteration relative to the merge base; folders are left out
+   */
+  async fetchIterationChanges(
+    location: PullRequestLocation,
+    prId: number,
+    iterationId: number,
+  ): Promise<FileChange[]> {
+    const apiPath =
+      `git/repositories/${location.repositoryId}/pullRequests/${prId}/iterations/${iterationId}/changes` +
+      `?$compareTo=0&$top=${MAX_CHANGES}&api-version=7.0`;
+
+    try {
+      const response = await this.azureApiService.get<IterationChangesResponse>(apiPath, location.project);
+
+      return (response.changeEntries || [])
+        .filter((entry) => !entry.item.isFolder)
+        .map((entry) => ({
+          changeTrackingId: entry.changeTrackingId,
+          path: entry.item.path,
+          originalPath: entry.originalPath,
+          changeType: entry.changeType,
+        }));
+    } catch (error) {
+      throw new Error(`Failed to fetch changes for iteration ${iterationId}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Fetch a file's text at a commit; undefined when the file is binary
+   */
+  async fetchFileContent(
+    location: PullRequestLocation,
+    path: string,
+    commitId: string,
+  ): Promise<string | undefined> {
+    const key = `${location.repositoryId}:${commitId}:${path}`;
+    let content = this.contentCache.get(key);
+
+    if (!content) {
+      content = this.requestFileContent(location, path, commitId);
+      this.contentCache.set(key, content);
+    }
+
+    return content;
+  }
+
+  /**
+   * Fetch the code around each file-anchored thread, keyed by thread ID.
+   * Line numbers refer to the iteration the thread was left on, so that iteration's source commit is read.
+   */
+  async fetchThreadCode(
+    prId: number,
+    threads: CommentThread[],
+    options: { project?: string; repo?: string },
+    contextLines = DIFF_CONTEXT_LINES,
+  ): Promise<Map<number, CodeSnippet>> {
+    const snippets = new Map<number, CodeSnippet>();
+    const anchored = threads.filter((thread) => thread.threadContext?.filePath && thread.threadContext.rightFileStart);
+
+    if (anchored.length === 0) {
+      return snippets;
+    }
+
+    const location = await this.commentsService.resolvePullRequestLocation(prId, options.project, options.repo);
+    const iterations = await this.fetchIterations(location, prId);
+
+    if (iterations.length === 0) {
+      return snippets;
+    }
+
+    const latest = iterations.reduce((current, iteration) => (iteration.id > current.id ? iteration : current));
+
+    await Promise.all(
+      anchored.map(async (thread) => {
+        const { filePath, rightFileStart, rightFileEnd } = thread.threadContext!;
+        const iterationId = thread.pullRequestThreadContext?.iterationContext?.secondComparingIteration;
+        const iteration = iterations.find((candidate) => candidate.id === iterationId) || latest;
+
+        let content: string | undefined;
+        try {
+          content = await this.fetchFileContent(location, filePath!, iteration.sourceRefCommit.commitId);
+        } catch {
+          // The file may have been deleted or renamed since; show the thread without code
+          return;
+        }
+
+        if (content !== undefined) {
+          const endLine = rightFileEnd?.line ?? rightFileStart!.line;
+          snippets.set(thread.id, extractSnippet(filePath!, content, rightFileStart!.line, endLine, contextLines));
+        }
+      }),
+    );
+
+    return snippets;
+  }
+
+  private async fetchChangesAtLocation(
+    location: PullRequestLocation,
+    prId: number,
+    options: PRDiffOptions,
+  ): Promise<PullRequestChanges> {
+    const iteration = await this.fetchIteration(location, prId, options.iteration);
+    const changes = await this.fetchIterationChanges(location, prId, iteration.id);
+    const pattern = options.file;
+
+    return {
+      pullRequestId: prId,
+      iteration,
+      changes: pattern ? changes.filter((change) => matchesGlob(change.path, pattern)) : changes,
+    };
+  }
+
+  private async diffFile(
+    location: PullRequestLocation,
+    change: FileChange,
+    baseCommit: string,
+    sourceCommit: string,
+  ): Promise<FileDiff> {
+    const flags = change.changeType.split(",").map((flag) => flag.trim());
+    const oldPath = change.originalPath || change.path;
+
+    const [oldContent, newContent] = await Promise.all([
+      flags.includes("add") ? "" : this.fetchFileContent(location, oldPath, baseCommit),
+      flags.includes("delete") ? "" : this.fetchFileContent(location, change.path, sourceCommit),
+    ]);
+
+    if (oldContent === undefined || newContent === undefined) {
+      return { ...change, binary: true, additions: 0, deletions: 0, hunks: [] };
+    }
+
+    const lines = diffLines(splitLines(oldContent), splitLines(newContent));
+
+    return {
+      ...change,
+      binary: false,
+      additions: lines.filter((line) => line.type === "add").length,
+      deletions: lines.filter((line) => line.type === "remove").length,
+      hunks: buildHunks(lines),
+    };
+  }
+
+  private async requestFileContent(
+    location: PullRequestLocation,
+    path: string,
+    commitId: string,
+  ): Promise<string | undefined> {
+    const apiPath =
+      `git/repositories/${location.repositoryId}/items?path=${encodeURIComponent(path)}` +
+      `&versionDescriptor.version=${commitId}&versionDescriptor.versionType=commit` +
+      "&includeContent=true&$format=json&api-version=7.0";
+
+    try {
+      const item = await this.azureApiService.get<ItemResponse>(apiPath, location.project);
+      return item.contentMetadata?.isBinary ? undefined : item.content || "";
+    } catch (error) {
+      throw new Error(`Failed to fetch ${path} at ${commitId.slice(0, 8)}: ${(error as Error).message}`);
+    }
+  }
+}
+
+export function splitLines(content: string): string[] {
+  if (content === "") {
+    return [];
+  }
+
+  const lines = content.split(/\r?\n/);
+  return lines[lines.length - 1] === "" ? lines.slice(0, -1) : lines;
+}
+
+/**
+ * Line diff based on the longest common subsequence, after trimming the common prefix and suffix
+ */
+export function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+
+  const entries: Omit<DiffLine, "oldLine" | "newLine">[] = [
+    ...oldLines.slice(0, prefix).map((content) => ({ type: "context" as const, content })),
+    ...diffMiddle(oldMiddle, newMiddle),
+    ...oldLines.slice(oldLines.length - suffix).map((content) => ({ type: "context" as const, content })),
+  ];
+
+  let oldLine = 0;
+  let newLine = 0;
+
+  return entries.map((entry) => {
+    switch (entry.type) {
+      case "add":
+        return { ...entry, newLine: ++newLine };
+      case "remove":
+        return { ...entry, oldLine: ++oldLine };
+      default:
+        return { ...entry, oldLine: ++oldLine, newLine: ++newLine };
+    }
+  });
+}
+
+function diffMiddle(oldLines: string[], newLines: string[]): Omit<DiffLine, "oldLine" | "newLine">[] {
+  const removed = oldLines.map((content) => ({ type: "remove" as const, content }));
+  const added = newLines.map((content) => ({ type: "add" as const, content }));
+
+  if (oldLines.length === 0 || newLines.length === 0 || oldLines.length * newLines.length > MAX_LCS_CELLS) {
+    return [...removed, ...added];
+  }
+
+  const width = newLines.length + 1;
+  const lcs = new Uint32Array((oldLines.length + 1) * width);
+
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        oldLines[i] === newLines[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const result: Omit<DiffLine, "oldLine" | "newLine">[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < oldLines.length && j < newLines.length) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ type: "context", content: oldLines[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      result.push(removed[i++]);
+    } else {
+      result.push(added[j++]);
+    }
+  }
+
+  return [...result, ...removed.slice(i), ...added.slice(j)];
+}
+
+/**
+ * Group changed lines into hunks with up to `contextLines` unchanged lines on either side
+ */
+export function buildHunks(lines: DiffLine[], contextLines = DIFF_CONTEXT_LINES): DiffHunk[] {
+  const ranges: { start: number; end: number }[] = [];
+
+  lines.forEach((line, index) => {
+    if (line.type === "context") {
+      return;
+    }
+
+    const start = Math.max(0, index - contextLines);
+    const end = Math.min(lines.length - 1, index + contextLines);
+    const previous = ranges[ranges.length - 1];
+
+    if (previous && start <= previous.end + 1) {
+      previous.end = end;
+    } else {
+      ranges.push({ start, end });
+    }
+  });
+
+  return ranges.map(({ start, end }) => {
+    const hunkLines = lines.slice(start, end + 1);
+    const oldLines = hunkLines.filter((line) => line.type !== "add").length;
+    const newLines = hunkLines.filter((line) => line.type !== "remove").length;
+    const linesBefore = lines.slice(0, start);
+    const oldBefore = linesBefore.filter((line) => line.type !== "add").length;
+    const newBefore = linesBefore.filter((line) => line.type !== "remove").length;
+
+    return {
+      oldStart: oldLines > 0 ? oldBefore + 1 : oldBefore,
+      oldLines,
+      newStart: newLines > 0 ? newBefore + 1 : newBefore,
+      newLines,
+      lines: hunkLines,
+    };
+  });
+}
+
+/**
+ * Match a repository path against a glob (`*`, `**`, `?`). Patterns without a slash match the file name anywhere.
+ */
+export function matchesGlob(path: string, pattern: string): boolean {
+  const normalizedPath = path.replace(/^\/+/, "");
+  const normalizedPattern = pattern.replace(/^\/+/, "");
+  const regex = globToRegExp(normalizedPattern);
+
+  if (!normalizedPattern.includes("/")) {
+    const fileName = normalizedPath.split("/").pop() || "";
+    return regex.test(fileName) || regex.test(normalizedPath);
+  }
+
+  return regex.test(normalizedPath);
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let source = "";
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === "*" && pattern[i + 1] === "*") {
+      const followedBySlash = pattern[i + 2] === "/";
+      source += followedBySlash ? "(?:.*/)?" : ".*";
+      i += followedBySlash ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+function extractSnippet(
+  filePath: string,
+  content: string,
+  startLine: number,
+  endLine: number,
+  contextLines: number,
+): CodeSnippet {
+  const fileLines = splitLines(content);
+  const first = Math.max(1, startLine - contextLines);
+  const last = Math.min(fileLines.length, endLine + contextLines);
+  const lines = [];
+
+  for (let number = first; number <= last; number++) {
+    lines.push({ number, content: fileLines[number - 1], highlighted: number >= startLine && number <= endLine });
+  }
+
+  return { filePath, startLine, endLine, lines };
+}
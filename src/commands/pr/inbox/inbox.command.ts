@@ -0,0 +1,74 @@
+import { Command } from "commander";
+import { InboxItem, OutputFormat, PRInboxOptions } from "../../../types/pull-request.types.js";
+import { renderOutput } from "../../../formatters/output.formatter.js";
+import { inboxRenderers } from "../../../formatters/inbox.formatter.js";
+import { addLimitOptions, parseLimit, RawLimitOptions } from "../../limit-options.js";
+import {
+  addQueryOptions,
+  addTemplateOption,
+  createOutputOption,
+  parseShapingOptions,
+  RawShapingOptions,
+} from "../../output-options.js";
+import { InboxService } from "./inbox.service.js";
+
+interface RawCommandOptions extends RawShapingOptions, RawLimitOptions {
+  repo?: string;
+  project?: string;
+  output: string;
+}
+
+export function createInboxCommand(): Command {
+  const command = new Command("inbox");
+
+  command
+    .description("List pull requests waiting on you, most urgent first, with the reason for each")
+    .option("-r, --repo <repository>", "Filter by repository name")
+    .option("-p, --project <project>", "Project name")
+    .addOption(createOutputOption(Object.values(OutputFormat)));
+
+  addLimitOptions(command, {
+    limit: "Maximum number of pull requests to check per role",
+    all: "Check every open pull request, requesting further pages as needed",
+  });
+  addQueryOptions(command, { query: "[?role=='reviewer']", fields: "pullRequest.pullRequestId,urgency" });
+  addTemplateOption(command, "!{{pullRequest.pullRequestId}}");
+
+  command.action(async (options: RawCommandOptions) => {
+    try {
+      const inboxOptions = parseOptions(options);
+      validateOptions(inboxOptions, options);
+
+      const items = await new InboxService().fetchInbox(inboxOptions);
+
+      displayResults(items, inboxOptions);
+    } catch (error) {
+      console.error("Error building inbox:", (error as Error).message);
+      process.exit(1);
+    }
+  });
+
+  return command;
+}
+
+function parseOptions(options: RawCommandOptions): PRInboxOptions {
+  return {
+    limit: parseLimit(options),
+    output: options.output as OutputFormat,
+    ...parseShapingOptions(options),
+    repo: options.repo,
+    project: options.project,
+  };
+}
+
+function validateOptions(inboxOptions: PRInboxOptions, rawOptions: RawCommandOptions): void {
+  if (!Object.values(OutputFormat).includes(inboxOptions.output)) {
+    console.error(`Invalid output format: ${rawOptions.output}`);
+    console.error(`Valid values: ${Object.values(OutputFormat).join(", ")}`);
+    process.exit(1);
+  }
+}
+
+function displayResults(items: InboxItem[], options: PRInboxOptions): void {
+  console.log(renderOutput(items, options.output, inboxRenderers, options));
+}
@@ -0,0 +1,286 @@
+import { AzureApiService } from "../../../services/azure-api.service.js";
+import { AzureCliService } from "../../../services/azure-cli.service.js";
+import { ConfigService } from "../../../services/config.service.js";
+import { IdentityService } from "../../../services/identity.service.js";
+import { Comment, CommentThread, CommentThreadStatus, CommentType } from "../../../types/comment.types.js";
+import {
+  AttentionReason,
+  AttentionReasonType,
+  InboxItem,
+  OutputFormat,
+  PRInboxOptions,
+  PullRequest,
+  PullRequestIteration,
+  PullRequestRole,
+  PullRequestStatus,
+  PullRequestVote,
+} from "../../../types/pull-request.types.js";
+import { describeVote } from "../../../formatters/text.formatter.js";
+import { CommentsService } from "../comments/comments.service.js";
+import { DiffService } from "../diff/diff.service.js";
+import { MyPRsService } from "../my-prs/my-prs.service.js";
+
+/**
+ * How much each reason adds to a pull request's urgency. Someone waiting on a change I have to
+ * make ranks above a review I have not started.
+ */
+const REASON_WEIGHTS: Record<AttentionReasonType, number> = {
+  [AttentionReasonType.ChangesRequested]: 40,
+  [AttentionReasonType.NewReplies]: 30,
+  [AttentionReasonType.NotVoted]: 25,
+  [AttentionReasonType.PushedSinceVote]: 20,
+  [AttentionReasonType.ActiveThreads]: 15,
+};
+
+/**
+ * Extra urgency when I am a required reviewer, or when the author pushed after I asked for changes
+ */
+const BLOCKING_BONUS = 15;
+
+const UNRESOLVED_STATUSES = [CommentThreadStatus.Active, CommentThreadStatus.Pending];
+
+function plural(count: number, word: string, pluralWord = `${word}s`): string {
+  return `${count} ${count === 1 ? word : pluralWord}`;
+}
+
+function latest(dates: string[]): number {
+  return Math.max(...dates.map((date) => new Date(date).getTime()));
+}
+
+export class InboxService {
+  private myPRsService: MyPRsService;
+  private commentsService: CommentsService;
+  private diffService: DiffService;
+  private identityService: IdentityService;
+
+  constructor(
+    azureApiService?: AzureApiService,
+    azureCliService?: AzureCliService,
+    configService?: ConfigService,
+    identityService?: IdentityService,
+    myPRsService?: MyPRsService,
+    diffService?: DiffService,
+  ) {
+    const cliService = azureCliService || new AzureCliService();
+    const config = configService || new ConfigService(cliService);
+    const apiService = azureApiService || new AzureApiService(config);
+    this.identityService = identityService || new IdentityService(apiService);
+    this.myPRsService = myPRsService || new MyPRsService(apiService, cliService, config, this.identityService);
+    this.commentsService = new CommentsService(apiService, cliService, config);
+    this.diffService = diffService || new DiffService(apiService, cliService, config);
+  }
+
+  /**
+   * Active pull requests I created or review that are waiting on me, most urgent first
+   */
+  async fetchInbox(options: PRInboxOptions): Promise<InboxItem[]> {
+    const user = await this.identityService.getCurrentUser();
+    const fetchRole = (role: PullRequestRole) =>
+      this.myPRsService.fetchMyPRs({ ...options, role, status: PullRequestStatus.Active, output: OutputFormat.Table });
+
+    const [created, reviewing] = await Promise.all([
+      fetchRole(PullRequestRole.Author),
+      fetchRole(PullRequestRole.Reviewer),
+    ]);
+    const createdIds = new Set(created.map((pr) => pr.pullRequestId));
+
+    const items = await Promise.all([
+      ...created.map((pr) => this.evaluate(pr, PullRequestRole.Author, user.id)),
+      ...reviewing
+        .filter((pr) => !createdIds.has(pr.pullRequestId))
+        .map((pr) => this.evaluate(pr, PullRequestRole.Reviewer, user.id)),
+    ]);
+
+    return this.rankItems(items.filter((item) => item.reasons.length > 0));
+  }
+
+  /**
+   * Work out what a pull request is waiting on me for. `iterations` only matter for pull requests
+   * I review and have voted on.
+   */
+  assess(
+    pr: PullRequest,
+    role: InboxItem["role"],
+    userId: string,
+    threads: CommentThread[],
+    iterations: PullRequestIteration[] = [],
+  ): InboxItem {
+    const conversations = threads.filter((thread) => !thread.isDeleted && !this.commentsService.isSystemThread(thread));
+    const reasons: (AttentionReason | undefined)[] =
+      role === PullRequestRole.Author
+        ? [this.changesRequested(pr), this.newReplies(conversations, userId), this.activeThreads(conversations, userId)]
+        : [
+            this.notVoted(pr, userId),
+            this.pushedSinceVote(pr, userId, threads, iterations),
+            this.newReplies(conversations, userId),
+          ];
+    const found = reasons.filter((reason): reason is AttentionReason => reason !== undefined);
+
+    return {
+      pullRequest: pr,
+      role,
+      urgency: found.reduce((total, reason) => total + reason.weight, 0),
+      reasons: found,
+    };
+  }
+
+  /**
+   * Most urgent first; among equally urgent pull requests the one waiting longest comes first
+   */
+  rankItems(items: InboxItem[]): InboxItem[] {
+    return [...items].sort(
+      (a, b) =>
+        b.urgency - a.urgency ||
+        new Date(a.pullRequest.creationDate).getTime() - new Date(b.pullRequest.creationDate).getTime(),
+    );
+  }
+
+  private async evaluate(pr: PullRequest, role: InboxItem["role"], userId: string): Promise<InboxItem> {
+    const location = { project: pr.repository.project.name, repositoryId: pr.repository.id };
+    const hasVoted = this.myVote(pr, userId) !== PullRequestVote.NoVote;
+
+    const [threads, iterations] = await Promise.all([
+      this.commentsService.fetchThreadsAtLocation(location, pr.pullRequestId),
+      role === PullRequestRole.Reviewer && hasVoted
+        ? this.diffService.fetchIterations(location, pr.pullRequestId)
+        : Promise.resolve([]),
+    ]);
+
+    return this.assess(pr, role, userId, threads, iterations);
+  }
+
+  private myVote(pr: PullRequest, userId: string): PullRequestVote {
+    return pr.reviewers.find((reviewer) => reviewer.id === userId)?.vote ?? PullRequestVote.NoVote;
+  }
+
+  private changesRequested(pr: PullRequest): AttentionReason | undefined {
+    const blocking = pr.reviewers.filter((reviewer) => reviewer.vote <= PullRequestVote.WaitingForAuthor);
+
+    if (blocking.length === 0) {
+      return undefined;
+    }
+
+    const names = blocking.map((reviewer) => `${reviewer.displayName} (${describeVote(reviewer.vote).toLowerCase()})`);
+
+    return {
+      type: AttentionReasonType.ChangesRequested,
+      message: `Changes requested by ${names.join(", ")}`,
+      weight: REASON_WEIGHTS[AttentionReasonType.ChangesRequested],
+    };
+  }
+
+  private notVoted(pr: PullRequest, userId: string): AttentionReason | undefined {
+    // Drafts are not ready for review yet
+    if (pr.isDraft || this.myVote(pr, userId) !== PullRequestVote.NoVote) {
+      return undefined;
+    }
+
+    const required = pr.reviewers.find((reviewer) => reviewer.id === userId)?.isRequired ?? false;
+
+    return {
+      type: AttentionReasonType.NotVoted,
+      message: required ? "You have not voted and are a required reviewer" : "You have not voted",
+      weight: REASON_WEIGHTS[AttentionReasonType.NotVoted] + (required ? BLOCKING_BONUS : 0),
+    };
+  }
+
+  /**
+   * Votes are recorded as system "VoteUpdate" threads; compare my latest one with the pushes since
+   */
+  private pushedSinceVote(
+    pr: PullRequest,
+    userId: string,
+    threads: CommentThread[],
+    iterations: PullRequestIteration[],
+  ): AttentionReason | undefined {
+    const vote = this.myVote(pr, userId);
+    const myVoteDates = threads
+      .filter((thread) => thread.properties?.CodeReviewThreadType?.$value === "VoteUpdate")
+      .filter((thread) => thread.comments[0]?.author.id === userId)
+      .map((thread) => thread.publishedDate);
+
+    if (vote === PullRequestVote.NoVote || myVoteDates.length === 0) {
+      return undefined;
+    }
+
+    const votedAt = latest(myVoteDates);
+    const pushes = iterations.filter((iteration) => new Date(iteration.createdDate).getTime() > votedAt).length;
+
+    if (pushes === 0) {
+      return undefined;
+    }
+
+    const askedForChanges = vote < PullRequestVote.NoVote;
+
+    return {
+      type: AttentionReasonType.PushedSinceVote,
+      message: `${plural(pushes, "new push", "new pushes")} since you voted "${describeVote(vote)}"`,
+      weight: REASON_WEIGHTS[AttentionReasonType.PushedSinceVote] + (askedForChanges ? BLOCKING_BONUS : 0),
+    };
+  }
+
+  /**
+   * Threads I started where someone answered after my last comment
+   */
+  private newReplies(threads: CommentThread[], userId: string): AttentionReason | undefined {
+    const answered = threads.filter((thread) => {
+      const comments = this.textComments(thread);
+
+      if (comments[0]?.author.id !== userId) {
+        return false;
+      }
+
+      const mine = comments.filter((comment) => comment.author.id === userId);
+      const myLatest = latest(mine.map((comment) => comment.publishedDate));
+      return comments.some(
+        (comment) => comment.author.id !== userId && new Date(comment.publishedDate).getTime() > myLatest,
+      );
+    });
+
+    if (answered.length === 0) {
+      return undefined;
+    }
+
+    const ids = answered.map((thread) => thread.id).join(", ");
+    const message =
+      answered.length === 1
+        ? `New replies in thread ${ids} you started`
+        : `New replies in ${answered.length} threads you started (${ids})`;
+
+    return { type: AttentionReasonType.NewReplies, message, weight: REASON_WEIGHTS[AttentionReasonType.NewReplies] };
+  }
+
+  /**
+   * Unresolved threads from reviewers on my pull request where the last word is not mine
+   */
+  private activeThreads(threads: CommentThread[], userId: string): AttentionReason | undefined {
+    const waiting = threads.filter((thread) => {
+      const comments = this.textComments(thread);
+      return (
+        UNRESOLVED_STATUSES.includes(thread.status) &&
+        comments.length > 0 &&
+        comments[0].author.id !== userId &&
+        comments[comments.length - 1].author.id !== userId
+      );
+    });
+
+    if (waiting.length === 0) {
+      return undefined;
+    }
+
+    return {
+      type: AttentionReasonType.ActiveThreads,
+      message: `${plural(waiting.length, "active thread")} awaiting your reply`,
+      weight: REASON_WEIGHTS[AttentionReasonType.ActiveThreads],
+    };
+  }
+
+  /**
+   * Comments people wrote, oldest first
+   */
+  private textComments(thread: CommentThread): Comment[] {
+    return thread.comments
+      .filter((comment) => !comment.isDeleted && comment.commentType !== CommentType.System)
+      .sort((a, b) => new Date(a.publishedDate).getTime() - new Date(b.publishedDate).getTime());
+  }
+}
@@ -1,6 +1,24 @@
 import { Command } from "commander";
 import { createMyPRsCommand } from "./my-prs/my-prs.command.js";
+import { createCreatePRCommand } from "./create/create.command.js";
 import { createPRCommentsCommand } from "./comments/comments.command.js";
+import { createReplyCommand } from "./reply/reply.command.js";
+import { createCommentCommand } from "./comment/comment.command.js";
+import { createDashboardCommand } from "./dashboard/dashboard.command.js";
+import { createInboxCommand } from "./inbox/inbox.command.js";
+import { createShowCommand } from "./show/show.command.js";
+import { createDiffCommand } from "./diff/diff.command.js";
+import { createCheckoutCommand, createCurrentCommand } from "./checkout/checkout.command.js";
+import {
+  createAbandonCommand,
+  createAutoCompleteCommand,
+  createCompleteCommand,
+  createReactivateCommand,
+} from "./lifecycle/lifecycle.command.js";
+import { createReviewersCommand } from "./reviewers/reviewers.command.js";
+import { createThreadCommand } from "./thread/index.js";
+import { createVoteCommand } from "./vote/vote.command.js";
+import { createWatchCommand } from "./watch/watch.command.js";
 
 /**
  * Create the PR command group
@@ -8,7 +26,27 @@ import { createPRCommentsCommand } from "./comments/comments.command.js";
 export function createPRCommand(): Command {
   const command = new Command("pr");
 
-  command.description("Pull request commands").addCommand(createMyPRsCommand()).addCommand(createPRCommentsCommand());
+  command
+    .description("Pull request commands")
+    .addCommand(createMyPRsCommand())
+    .addCommand(createInboxCommand())
+    .addCommand(createDashboardCommand())
+    .addCommand(createWatchCommand())
+    .addCommand(createCreatePRCommand())
+    .addCommand(createShowCommand())
+    .addCommand(createDiffCommand())
+    .addCommand(createCheckoutCommand())
+    .addCommand(createCurrentCommand())
+    .addCommand(createPRCommentsCommand())
+    .addCommand(createCommentCommand())
+    .addCommand(createReplyCommand())
+    .addCommand(createThreadCommand())
+    .addCommand(createVoteCommand())
+    .addCommand(createReviewersCommand())
+    .addCommand(createCompleteCommand())
+    .addCommand(createAutoCompleteCommand())
+    .addCommand(createAbandonCommand())
+    .addCommand(createReactivateCommand());
 
   return command;
 }
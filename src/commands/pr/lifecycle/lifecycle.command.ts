@@ -0,0 +1,244 @@
+import { Command } from "commander";
+import {
+  MergeStrategy,
+  OutputFormat,
+  PRAutoCompleteOptions,
+  PRCompleteOptions,
+  PRLifecycleOptions,
+  PullRequest,
+} from "../../../types/pull-request.types.js";
+import { formatPRDetails } from "../../../formatters/pr-table.formatter.js";
+import { createOutputOption } from "../../output-options.js";
+import { LifecycleService } from "./lifecycle.service.js";
+
+interface RawTargetOptions {
+  repo?: string;
+  project?: string;
+  output: string;
+}
+
+interface RawCommandOptions extends RawTargetOptions {
+  yes: boolean;
+}
+
+interface RawCompletionOptions {
+  mergeStrategy?: string;
+  deleteSourceBranch: boolean;
+  transitionWorkItems: boolean;
+}
+
+interface RawCompleteOptions extends RawCommandOptions, RawCompletionOptions {
+  bypassPolicy: boolean;
+  reason?: string;
+}
+
+interface RawAutoCompleteOptions extends RawTargetOptions, RawCompletionOptions {
+  off: boolean;
+}
+
+const SUPPORTED_FORMATS: string[] = [OutputFormat.Table, OutputFormat.Json];
+
+export function createCompleteCommand(): Command {
+  const command = new Command("complete");
+
+  addCommonOptions(
+    addCompletionOptions(command.description("Complete (merge) a pull request").argument("<pr-id>", "Pull request ID"))
+      .option("--bypass-policy", "Bypass branch policies (requires --reason)", false)
+      .option("--reason <reason>", "Reason for bypassing branch policies"),
+  ).action(async (prIdStr: string, options: RawCompleteOptions) => {
+    await runLifecycleAction("completing", prIdStr, options, (service, prId) =>
+      service.complete(prId, buildCompleteOptions(options)),
+    );
+  });
+
+  return command;
+}
+
+export function createAbandonCommand(): Command {
+  const command = new Command("abandon");
+
+  addCommonOptions(command.description("Abandon a pull request").argument("<pr-id>", "Pull request ID")).action(
+    async (prIdStr: string, options: RawCommandOptions) => {
+      await runLifecycleAction("abandoning", prIdStr, options, (service, prId) =>
+        service.abandon(prId, buildLifecycleOptions(options)),
+      );
+    },
+  );
+
+  return command;
+}
+
+export function createReactivateCommand(): Command {
+  const command = new Command("reactivate");
+
+  addCommonOptions(
+    command.description("Reactivate an abandoned pull request").argument("<pr-id>", "Pull request ID"),
+  ).action(async (prIdStr: string, options: RawCommandOptions) => {
+    await runLifecycleAction("reactivating", prIdStr, options, (service, prId) =>
+      service.reactivate(prId, buildLifecycleOptions(options)),
+    );
+  });
+
+  return command;
+}
+
+export function createAutoCompleteCommand(): Command {
+  const command = new Command("auto-complete");
+
+  addTargetOptions(
+    addCompletionOptions(
+      command
+        .description("Complete a pull request automatically once all policies pass")
+        .argument("<pr-id>", "Pull request ID")
+        .option("--off", "Cancel auto-complete", false),
+    ),
+  ).action(async (prIdStr: string, options: RawAutoCompleteOptions) => {
+    await runLifecycleAction("setting auto-complete on", prIdStr, options, (service, prId) =>
+      service.setAutoComplete(prId, buildAutoCompleteOptions(options)),
+    );
+  });
+
+  return command;
+}
+
+function addCompletionOptions(command: Command): Command {
+  return command
+    .option("--merge-strategy <strategy>", `Merge strategy (${Object.values(MergeStrategy).join(", ")})`)
+    .option("--delete-source-branch", "Delete the source branch after merging", false)
+    .option("--transition-work-items", "Transition linked work items to their next state", false);
+}
+
+function addCommonOptions(command: Command): Command {
+  return addTargetOptions(
+    command.option(
+      "-y, --yes",
+      "Proceed even if the merge has not succeeded or required reviewers have not approved",
+      false,
+    ),
+  );
+}
+
+function addTargetOptions(command: Command): Command {
+  return command
+    .option("-r, --repo <repository>", "Repository name")
+    .option("-p, --project <project>", "Project name")
+    .addOption(createOutputOption(SUPPORTED_FORMATS));
+}
+
+async function runLifecycleAction(
+  verb: string,
+  prIdStr: string,
+  options: RawTargetOptions,
+  action: (service: LifecycleService, prId: number) => Promise<PullRequest>,
+): Promise<void> {
+  try {
+    const prId = parsePullRequestId(prIdStr);
+    validateOutputFormat(options.output);
+
+    const service = new LifecycleService();
+    const pr = await action(service, prId);
+
+    displayResult(pr, options.output as OutputFormat);
+  } catch (error) {
+    console.error(`Error ${verb} pull request:`, (error as Error).message);
+    process.exit(1);
+  }
+}
+
+function parsePullRequestId(prIdStr: string): number {
+  const prId = parseInt(prIdStr, 10);
+
+  if (isNaN(prId) || prId <= 0) {
+    console.error("Invalid pull request ID. Must be a positive number.");
+    process.exit(1);
+  }
+
+  return prId;
+}
+
+function buildLifecycleOptions(options: RawCommandOptions): PRLifecycleOptions {
+  return {
+    yes: options.yes,
+    output: options.output as OutputFormat,
+    project: options.project,
+    repo: options.repo,
+  };
+}
+
+function buildCompleteOptions(options: RawCompleteOptions): PRCompleteOptions {
+  if (options.bypassPolicy && !options.reason?.trim()) {
+    console.error("--bypass-policy requires --reason");
+    process.exit(1);
+  }
+
+  return {
+    ...buildLifecycleOptions(options),
+    completionOptions: {
+      mergeStrategy: parseMergeStrategy(options.mergeStrategy),
+      deleteSourceBranch: options.deleteSourceBranch,
+      transitionWorkItems: options.transitionWorkItems,
+      bypassPolicy: options.bypassPolicy || undefined,
+      bypassReason: options.bypassPolicy ? options.reason : undefined,
+    },
+  };
+}
+
+function buildAutoCompleteOptions(options: RawAutoCompleteOptions): PRAutoCompleteOptions {
+  const completionFlags = [
+    options.mergeStrategy !== undefined && "--merge-strategy",
+    options.deleteSourceBranch && "--delete-source-branch",
+    options.transitionWorkItems && "--transition-work-items",
+  ].filter(Boolean);
+
+  if (options.off && completionFlags.length > 0) {
+    console.error(`--off cannot be combined with ${completionFlags.join(", ")}`);
+    process.exit(1);
+  }
+
+  return {
+    enabled: !options.off,
+    completionOptions: {
+      mergeStrategy: parseMergeStrategy(options.mergeStrategy),
+      deleteSourceBranch: options.deleteSourceBranch,
+      transitionWorkItems: options.transitionWorkItems,
+    },
+    output: options.output as OutputFormat,
+    project: options.project,
+    repo: options.repo,
+  };
+}
+
+function parseMergeStrategy(value: string | undefined): MergeStrategy | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const strategy = Object.values(MergeStrategy).find((candidate) => candidate.toLowerCase() === value.toLowerCase());
+
+  if (!strategy) {
+    console.error(`Invalid merge strategy: ${value}`);
+    console.error(`Valid values: ${Object.values(MergeStrategy).join(", ")}`);
+    process.exit(1);
+  }
+
+  return strategy;
+}
+
+function validateOutputFormat(output: string): void {
+  if (!SUPPORTED_FORMATS.includes(output as OutputFormat)) {
+    console.error(`Invalid output format: ${output}`);
+    console.error(`Valid values: ${SUPPORTED_FORMATS.join(", ")}`);
+    process.exit(1);
+  }
+}
+
+function displayResult(pr: PullRequest, output: OutputFormat): void {
+  if (output === OutputFormat.Json) {
+    console.log(JSON.stringify(pr, null, 2));
+    return;
+  }
+
+  console.log("");
+  console.log(formatPRDetails(pr));
+  console.log("");
+}
@@ -0,0 +1,149 @@
+import { AzureApiService } from "../../../services/azure-api.service.js";
+import { AzureCliService } from "../../../services/azure-cli.service.js";
+import { ConfigService } from "../../../services/config.service.js";
+import { IdentityService } from "../../../services/identity.service.js";
+import {
+  PRAutoCompleteOptions,
+  PRCompleteOptions,
+  PRLifecycleOptions,
+  PullRequest,
+  PullRequestStatus,
+  PullRequestVote,
+} from "../../../types/pull-request.types.js";
+import { CommentsService } from "../comments/comments.service.js";
+
+export class PullRequestNotReadyError extends Error {
+  constructor(
+    prId: number,
+    public readonly blockers: string[],
+  ) {
+    super(`Pull request ${prId} is not ready: ${blockers.join("; ")}. Re-run with --yes to proceed anyway.`);
+    this.name = "PullRequestNotReadyError";
+  }
+}
+
+/**
+ * Azure DevOps clears auto-complete when autoCompleteSetBy is set to the empty identity
+ */
+const EMPTY_IDENTITY_ID = "00000000-0000-0000-0000-000000000000";
+
+export class LifecycleService {
+  private azureApiService: AzureApiService;
+  private commentsService: CommentsService;
+  private identityService: IdentityService;
+
+  constructor(
+    azureApiService?: AzureApiService,
+    azureCliService?: AzureCliService,
+    configService?: ConfigService,
+    identityService?: IdentityService,
+    commentsService?: CommentsService,
+  ) {
+    const cliService = azureCliService || new AzureCliService();
+    const config = configService || new ConfigService(cliService);
+    this.azureApiService = azureApiService || new AzureApiService(config);
+    this.commentsService = commentsService || new CommentsService(this.azureApiService, cliService, config);
+    this.identityService = identityService || new IdentityService(this.azureApiService);
+  }
+
+  async complete(prId: number, options: PRCompleteOptions): Promise<PullRequest> {
+    const pr = await this.fetchGuardedPR(prId, options, PullRequestStatus.Active);
+
+    if (!pr.lastMergeSourceCommit) {
+      throw new Error(`Pull request ${prId} has no merge source commit to complete`);
+    }
+
+    return this.updatePR(pr, options, {
+      status: PullRequestStatus.Completed,
+      lastMergeSourceCommit: pr.lastMergeSourceCommit,
+      completionOptions: options.completionOptions,
+    });
+  }
+
+  async abandon(prId: number, options: PRLifecycleOptions): Promise<PullRequest> {
+    const pr = await this.fetchGuardedPR(prId, options, PullRequestStatus.Active);
+    return this.updatePR(pr, options, { status: PullRequestStatus.Abandoned });
+  }
+
+  async reactivate(prId: number, options: PRLifecycleOptions): Promise<PullRequest> {
+    const pr = await this.fetchGuardedPR(prId, options, PullRequestStatus.Abandoned);
+    return this.updatePR(pr, options, { status: PullRequestStatus.Active });
+  }
+
+  async setAutoComplete(prId: number, options: PRAutoCompleteOptions): Promise<PullRequest> {
+    const pr = await this.fetchPRWithStatus(prId, options, PullRequestStatus.Active);
+
+    if (!options.enabled) {
+      return this.updatePR(pr, options, { autoCompleteSetBy: { id: EMPTY_IDENTITY_ID } });
+    }
+
+    const currentUser = await this.identityService.getCurrentUser();
+
+    return this.updatePR(pr, options, {
+      autoCompleteSetBy: { id: currentUser.id },
+      completionOptions: options.completionOptions,
+    });
+  }
+
+  /**
+   * Reasons the pull request should not change state without explicit confirmation:
+   * a merge that has not succeeded, or required reviewers who have not approved.
+   */
+  findBlockers(pr: PullRequest): string[] {
+    const blockers: string[] = [];
+
+    if (pr.mergeStatus !== "succeeded") {
+      blockers.push(`merge status is ${pr.mergeStatus || "notSet"}`);
+    }
+
+    pr.reviewers
+      .filter((reviewer) => reviewer.isRequired && reviewer.vote < PullRequestVote.ApprovedWithSuggestions)
+      .forEach((reviewer) => blockers.push(`required reviewer ${reviewer.displayName} has not approved`));
+
+    return blockers;
+  }
+
+  private async fetchGuardedPR(
+    prId: number,
+    options: PRLifecycleOptions,
+    expectedStatus: PullRequestStatus,
+  ): Promise<PullRequest> {
+    const pr = await this.fetchPRWithStatus(prId, options, expectedStatus);
+    const blockers = this.findBlockers(pr);
+
+    if (blockers.length > 0 && !options.yes) {
+      throw new PullRequestNotReadyError(prId, blockers);
+    }
+
+    return pr;
+  }
+
+  private async fetchPRWithStatus(
+    prId: number,
+    options: { project?: string; repo?: string },
+    expectedStatus: PullRequestStatus,
+  ): Promise<PullRequest> {
+    const pr = await this.commentsService.fetchPRDetails(prId, options.project, options.repo);
+
+    if (!pr) {
+      throw new Error(`Pull request ${prId} not found`);
+    }
+
+    if (pr.status !== expectedStatus) {
+      throw new Error(`Pull request ${prId} is ${pr.status}; expected it to be ${expectedStatus}`);
+    }
+
+    return pr;
+  }
+
+  private async updatePR(pr: PullRequest, options: { project?: string }, body: object): Promise<PullRequest> {
+    const project = options.project || pr.repository.project.name;
+    const apiPath = `git/repositories/${pr.repository.id}/pullrequests/${pr.pullRequestId}?api-version=7.0`;
+
+    try {
+      return await this.azureApiService.patch<PullRequest>(apiPath, body, project);
+    } catch (error) {
+      throw new Error(`Failed to update pull request ${pr.pullRequestId}: ${(error as Error).message}`);
+    }
+  }
+}
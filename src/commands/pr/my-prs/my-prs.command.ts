@@ -6,14 +6,24 @@ import {
   PullRequest,
   MyPRsOptions,
 } from "../../../types/pull-request.types.js";
+import { renderOutput } from "../../../formatters/output.formatter.js";
+import { pullRequestRenderers } from "../../../formatters/pr-table.formatter.js";
+import { addLimitOptions, parseLimit, RawLimitOptions } from "../../limit-options.js";
+import {
+  addQueryOptions,
+  addTemplateOption,
+  createOutputOption,
+  parseShapingOptions,
+  RawShapingOptions,
+} from "../../output-options.js";
 import { MyPRsService } from "./my-prs.service.js";
 
-interface RawCommandOptions {
+interface RawCommandOptions extends RawShapingOptions, RawLimitOptions {
   status: string;
   repo?: string;
   project?: string;
   role: string;
-  top: string;
+  allRepos: boolean;
   output: string;
 }
 
@@ -23,25 +33,34 @@ export function createMyPRsCommand(): Command {
   command
     .description("List pull requests where you are the author or reviewer")
     .option("-s, --status <status>", "Filter by status (active, completed, abandoned, all)", PullRequestStatus.Active)
-    .option("-r, --repo <repository>", "Filter by repository name")
+    .option("-r, --repo <repository>", "Filter by repository name (default: the configured repository or git remote)")
+    .option("--all-repos", "List pull requests in every repository, even inside a clone", false)
     .option("-p, --project <project>", "Project name")
     .option("--role <role>", "Filter by role (all, author, reviewer)", PullRequestRole.All)
-    .option("-n, --top <number>", "Maximum number of results", "50")
-    .option("-o, --output <format>", "Output format (table, json)", OutputFormat.Table)
-    .action(async (options: RawCommandOptions) => {
-      try {
-        const myPRsOptions = parseOptions(options);
-        validateOptions(myPRsOptions, options);
-
-        const service = new MyPRsService();
-        const prs = await service.fetchMyPRs(myPRsOptions);
-        const sortedPRs = service.sortPRs(prs);
+    .addOption(createOutputOption(Object.values(OutputFormat)));
 
-        displayResults(sortedPRs, myPRsOptions.output);
-      } catch (error) {
-        handleError(error as Error);
-      }
-    });
+  addLimitOptions(command, {
+    limit: "Maximum number of pull requests per role",
+    all: "List every pull request, requesting further pages as needed",
+  });
+  addQueryOptions(command, { query: "[?isDraft].title", fields: "pullRequestId,createdBy.displayName" });
+  addTemplateOption(command, "!{{pullRequestId}} {{title}}");
+
+  command.action(async (options: RawCommandOptions) => {
+    try {
+      const myPRsOptions = parseOptions(options);
+      validateOptions(myPRsOptions, options);
+
+      const service = new MyPRsService();
+      const scopedOptions = options.allRepos ? myPRsOptions : await service.withDefaultScope(myPRsOptions);
+      const prs = await service.fetchMyPRs(scopedOptions);
+      const sortedPRs = service.sortPRs(prs);
+
+      displayResults(sortedPRs, myPRsOptions);
+    } catch (error) {
+      handleError(error as Error);
+    }
+  });
 
   return command;
 }
@@ -50,8 +69,9 @@ function parseOptions(options: RawCommandOptions): MyPRsOptions {
   return {
     status: options.status as PullRequestStatus,
     role: options.role as PullRequestRole,
-    top: parseInt(options.top, 10),
+    limit: parseLimit(options),
     output: options.output as OutputFormat,
+    ...parseShapingOptions(options),
     repo: options.repo,
     project: options.project,
   };
@@ -87,39 +107,8 @@ function validateOutputFormat(format: OutputFormat, rawFormat: string): void {
   }
 }
 
-function displayResults(sortedPRs: PullRequest[], output: OutputFormat): void {
-  if (output === OutputFormat.Json) {
-    displayJsonOutput(sortedPRs);
-  } else {
-    displayTableOutput(sortedPRs);
-  }
-}
-
-function displayJsonOutput(sortedPRs: PullRequest[]): void {
-  console.log(JSON.stringify(sortedPRs, null, 2));
-}
-
-function displayTableOutput(sortedPRs: PullRequest[]): void {
-  if (sortedPRs.length === 0) {
-    console.log("No pull requests found.");
-    return;
-  }
-
-  console.log(`\nFound ${sortedPRs.length} pull request(s):\n`);
-
-  sortedPRs.forEach((pr) => {
-    displayPullRequest(pr);
-  });
-}
-
-function displayPullRequest(pr: PullRequest): void {
-  const sourceBranch = pr.sourceRefName.replace("refs/heads/", "");
-  const targetBranch = pr.targetRefName.replace("refs/heads/", "");
-
-  console.log(`#${pr.pullRequestId} - ${pr.title}`);
-  console.log(`  Status: ${pr.status} | Created: ${pr.creationDate}`);
-  console.log(`  Branch: ${sourceBranch} → ${targetBranch}`);
-  console.log(`  Repo: ${pr.repository.name}\n`);
+function displayResults(sortedPRs: PullRequest[], options: MyPRsOptions): void {
+  console.log(renderOutput(sortedPRs, options.output, pullRequestRenderers, options));
 }
 
 function handleError(error: Error): void {
@@ -1,5 +1,7 @@
+import { AzureApiService, takeItems } from "../../../services/azure-api.service.js";
 import { AzureCliService } from "../../../services/azure-cli.service.js";
 import { ConfigService } from "../../../services/config.service.js";
+import { IdentityService } from "../../../services/identity.service.js";
 import {
   PullRequest,
   PullRequestFilters,
@@ -8,11 +10,27 @@ import {
   MyPRsOptions,
 } from "../../../types/pull-request.types.js";
 
+/**
+ * Pull requests requested per page without a limit; pages are only requested while results are still wanted
+ */
+const PAGE_SIZE = 100;
+
 export class MyPRsService {
+  private azureApiService: AzureApiService;
   private azureCliService: AzureCliService;
-
-  constructor(azureCliService?: AzureCliService, _configService?: ConfigService) {
+  private configService: ConfigService;
+  private identityService: IdentityService;
+
+  constructor(
+    azureApiService?: AzureApiService,
+    azureCliService?: AzureCliService,
+    configService?: ConfigService,
+    identityService?: IdentityService,
+  ) {
     this.azureCliService = azureCliService || new AzureCliService();
+    this.configService = configService || new ConfigService(this.azureCliService);
+    this.azureApiService = azureApiService || new AzureApiService(this.configService);
+    this.identityService = identityService || new IdentityService(this.azureApiService);
   }
 
   async fetchMyPRs(options: MyPRsOptions): Promise<PullRequest[]> {
@@ -29,37 +47,44 @@ export class MyPRsService {
     return this.fetchAndMergePRsFromAllRoles(options);
   }
 
+  /**
+   * Scope the listing to the configured repository, such as the one the working directory is a clone of, unless a
+   * repository is given or the given project is another one
+   */
+  async withDefaultScope(options: MyPRsOptions): Promise<MyPRsOptions> {
+    if (options.repo) {
+      return options;
+    }
+
+    const repo = await this.configService.getDefaultRepository();
+    const project = await this.configService.getDefaultProject();
+
+    if (!repo || !project || (options.project && options.project.toLowerCase() !== project.toLowerCase())) {
+      return options;
+    }
+
+    return { ...options, project, repo };
+  }
+
   async fetchMyCreatedPRs(options: MyPRsOptions): Promise<PullRequest[]> {
     const filters = this.buildFilters(options);
-    const filterArgs = this.buildFilterArgs(filters);
-    const command = this.buildCreatedPRsCommand(filterArgs);
 
     try {
-      const prs = await this.azureCliService.executeAzCommand<PullRequest[]>(command);
-      return prs || [];
+      filters.creatorId = (await this.identityService.getCurrentUser()).id;
+      return await this.fetchPullRequests(filters);
     } catch (error) {
-      console.error("Failed to fetch created PRs:", error);
-      return [];
+      return this.fetchMyCreatedPRsWithCli(filters, error);
     }
   }
 
   async fetchMyReviewPRs(options: MyPRsOptions): Promise<PullRequest[]> {
     const filters = this.buildFilters(options);
-    const filterArgs = this.buildFilterArgs(filters);
-    const command = this.buildAllPRsCommand(filterArgs);
 
     try {
-      const allPrs = await this.azureCliService.executeAzCommand<PullRequest[]>(command);
-
-      if (!allPrs || allPrs.length === 0) {
-        return [];
-      }
-
-      const userId = await this.getCurrentUserId();
-      return this.filterPRsByReviewer(allPrs, userId);
+      filters.reviewerId = (await this.identityService.getCurrentUser()).id;
+      return await this.fetchPullRequests(filters);
     } catch (error) {
-      console.error("Failed to fetch review PRs:", error);
-      return [];
+      return this.fetchMyReviewPRsWithCli(filters, error);
     }
   }
 
@@ -80,6 +105,47 @@ export class MyPRsService {
     return this.deduplicatePRs(createdPRs, reviewPRs);
   }
 
+  private async fetchPullRequests(filters: PullRequestFilters): Promise<PullRequest[]> {
+    const project = filters.project || (await this.configService.getDefaultProject());
+    const apiPath = this.buildPullRequestsApiPath(filters);
+    const pullRequests = this.azureApiService.paginate<PullRequest>(apiPath, project, filters.top ?? PAGE_SIZE);
+    return takeItems(pullRequests, filters.top);
+  }
+
+  /**
+   * The `az` CLI is only used when the REST API cannot be reached, e.g. without a token for it.
+   * When both fail the REST error is reported, since that is the path that should work.
+   */
+  private async fetchMyCreatedPRsWithCli(filters: PullRequestFilters, restError: unknown): Promise<PullRequest[]> {
+    const command = this.buildCreatedPRsCommand(this.buildFilterArgs(filters));
+
+    try {
+      const prs = await this.azureCliService.executeAzCommand<PullRequest[]>(command);
+      return prs || [];
+    } catch {
+      console.error("Failed to fetch created PRs:", (restError as Error).message);
+      return [];
+    }
+  }
+
+  private async fetchMyReviewPRsWithCli(filters: PullRequestFilters, restError: unknown): Promise<PullRequest[]> {
+    const command = this.buildAllPRsCommand(this.buildFilterArgs(filters));
+
+    try {
+      const allPrs = await this.azureCliService.executeAzCommand<PullRequest[]>(command);
+
+      if (!allPrs || allPrs.length === 0) {
+        return [];
+      }
+
+      const userId = await this.getCurrentUserId();
+      return this.filterPRsByReviewer(allPrs, userId);
+    } catch {
+      console.error("Failed to fetch review PRs:", (restError as Error).message);
+      return [];
+    }
+  }
+
   private async getCurrentUserId(): Promise<string> {
     const account = await this.azureCliService.executeAzCommand<string>(
       "az ad signed-in-user show --query id --output json",
@@ -90,7 +156,7 @@ export class MyPRsService {
   private buildFilters(options: MyPRsOptions): PullRequestFilters {
     const filters: PullRequestFilters = {
       status: options.status,
-      top: options.top,
+      top: options.limit,
     };
 
     if (options.project) {
@@ -126,6 +192,24 @@ export class MyPRsService {
     return args.join(" ");
   }
 
+  private buildPullRequestsApiPath(filters: PullRequestFilters): string {
+    const criteria: string[] = [`searchCriteria.status=${filters.status || PullRequestStatus.Active}`];
+
+    if (filters.creatorId) {
+      criteria.push(`searchCriteria.creatorId=${filters.creatorId}`);
+    }
+
+    if (filters.reviewerId) {
+      criteria.push(`searchCriteria.reviewerId=${filters.reviewerId}`);
+    }
+
+    const base = filters.repositoryId
+      ? `git/repositories/${encodeURIComponent(filters.repositoryId)}/pullrequests`
+      : "git/pullrequests";
+
+    return `${base}?${criteria.join("&")}&api-version=7.0`;
+  }
+
   private buildCreatedPRsCommand(filterArgs: string): string {
     return `az repos pr list --creator @me ${filterArgs} --output json`;
   }
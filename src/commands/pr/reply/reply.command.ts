@@ -0,0 +1,109 @@
+import { Command } from "commander";
+import { Comment, OutputFormat, PRReplyOptions } from "../../../types/comment.types.js";
+import { EditorService } from "../../../services/editor.service.js";
+import { createOutputOption } from "../../output-options.js";
+import { ReplyService } from "./reply.service.js";
+
+interface RawCommandOptions {
+  project?: string;
+  repo?: string;
+  message?: string;
+  parent?: string;
+  output: string;
+}
+
+const SUPPORTED_FORMATS: string[] = [OutputFormat.Table, OutputFormat.Json];
+
+export function createReplyCommand(): Command {
+  const command = new Command("reply");
+
+  command
+    .description("Reply to an existing comment thread on a pull request")
+    .argument("<pr-id>", "Pull request ID")
+    .argument("<thread-id>", "Comment thread ID")
+    .option("-m, --message <message>", "Reply text (opens $EDITOR when omitted)")
+    .option("--parent <comment-id>", "Reply to a specific comment instead of the thread's first comment")
+    .option("-p, --project <project>", "Project name")
+    .option("-r, --repo <repository>", "Repository name")
+    .addOption(createOutputOption(SUPPORTED_FORMATS))
+    .action(async (prIdStr: string, threadIdStr: string, options: RawCommandOptions) => {
+      try {
+        const prId = parsePositiveInteger(prIdStr, "pull request ID");
+        const threadId = parsePositiveInteger(threadIdStr, "thread ID");
+        const replyOptions = buildReplyOptions(options);
+
+        validateOutputFormat(replyOptions.output);
+
+        const content = await resolveMessage(replyOptions, prId, threadId);
+
+        const service = new ReplyService();
+        const comment = await service.replyToThread(prId, threadId, content, replyOptions);
+
+        displayResult(comment, replyOptions.output, prId, threadId);
+      } catch (error) {
+        console.error("Error posting reply:", (error as Error).message);
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
+
+function parsePositiveInteger(value: string, label: string): number {
+  const parsed = parseInt(value, 10);
+
+  if (isNaN(parsed) || parsed <= 0) {
+    console.error(`Invalid ${label}. Must be a positive number.`);
+    process.exit(1);
+  }
+
+  return parsed;
+}
+
+function buildReplyOptions(options: RawCommandOptions): PRReplyOptions {
+  return {
+    output: options.output as OutputFormat,
+    message: options.message,
+    parentCommentId: options.parent ? parsePositiveInteger(options.parent, "parent comment ID") : undefined,
+    project: options.project,
+    repo: options.repo,
+  };
+}
+
+function validateOutputFormat(output: OutputFormat): void {
+  if (!SUPPORTED_FORMATS.includes(output)) {
+    console.error(`Invalid output format: ${output}`);
+    console.error(`Valid values: ${SUPPORTED_FORMATS.join(", ")}`);
+    process.exit(1);
+  }
+}
+
+async function resolveMessage(options: PRReplyOptions, prId: number, threadId: number): Promise<string> {
+  if (options.message !== undefined) {
+    const message = options.message.trim();
+
+    if (!message) {
+      throw new Error("Reply message cannot be empty");
+    }
+
+    return message;
+  }
+
+  const editor = new EditorService();
+  return editor.edit(`Write your reply to thread ${threadId} on PR #${prId} above.`);
+}
+
+function displayResult(comment: Comment, format: OutputFormat, prId: number, threadId: number): void {
+  if (format === OutputFormat.Json) {
+    console.log(JSON.stringify(comment, null, 2));
+    return;
+  }
+
+  const author = comment.author?.displayName || "Unknown";
+
+  console.log(`Reply posted to thread ${threadId} on PR #${prId} (comment ID: ${comment.id}).`);
+  console.log(`  ↳ ${author}:`);
+  comment.content.split("\n").forEach((line) => {
+    console.log(`     ${line}`);
+  });
+}
@@ -0,0 +1,71 @@
+import { AzureApiService } from "../../../services/azure-api.service.js";
+import { AzureCliService } from "../../../services/azure-cli.service.js";
+import { ConfigService } from "../../../services/config.service.js";
+import {
+  Comment,
+  CommentThread,
+  CommentType,
+  CreateCommentRequest,
+  PRReplyOptions,
+} from "../../../types/comment.types.js";
+import { CommentsService } from "../comments/comments.service.js";
+
+export class ReplyService {
+  private azureApiService: AzureApiService;
+  private commentsService: CommentsService;
+
+  constructor(azureApiService?: AzureApiService, azureCliService?: AzureCliService, configService?: ConfigService) {
+    const cliService = azureCliService || new AzureCliService();
+    const config = configService || new ConfigService(cliService);
+    this.azureApiService = azureApiService || new AzureApiService(config);
+    this.commentsService = new CommentsService(this.azureApiService, cliService, config);
+  }
+
+  async replyToThread(prId: number, threadId: number, content: string, options: PRReplyOptions): Promise<Comment> {
+    const location = await this.commentsService.resolvePullRequestLocation(prId, options.project, options.repo);
+    const thread = await this.commentsService.fetchThread(location, prId, threadId);
+    const parentCommentId = this.resolveParentCommentId(thread, options.parentCommentId);
+
+    const body: CreateCommentRequest = {
+      content,
+      parentCommentId,
+      commentType: CommentType.Text,
+    };
+
+    try {
+      return await this.azureApiService.post<Comment>(
+        this.buildCommentsApiPath(location.repositoryId, prId, threadId),
+        body,
+        location.project,
+      );
+    } catch (error) {
+      throw new Error(`Failed to post reply: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Replies attach to the thread's root comment unless a specific comment was requested
+   */
+  private resolveParentCommentId(thread: CommentThread, requestedParentId?: number): number {
+    const comments = thread.comments.filter((comment) => !comment.isDeleted);
+
+    if (requestedParentId !== undefined) {
+      if (!comments.some((comment) => comment.id === requestedParentId)) {
+        throw new Error(`Comment ${requestedParentId} not found in thread ${thread.id}`);
+      }
+      return requestedParentId;
+    }
+
+    const rootComment = comments.find((comment) => !comment.parentCommentId) || comments[0];
+
+    if (!rootComment) {
+      throw new Error(`Thread ${thread.id} has no comments to reply to`);
+    }
+
+    return rootComment.id;
+  }
+
+  private buildCommentsApiPath(repositoryId: string, prId: number, threadId: number): string {
+    return `git/repositories/${repositoryId}/pullRequests/${prId}/threads/${threadId}/comments?api-version=7.0`;
+  }
+}
@@ -0,0 +1,158 @@
+import { Command } from "commander";
+import { OutputFormat, PRReviewersOptions, Reviewer } from "../../../types/pull-request.types.js";
+import { OutputShaping, renderResult } from "../../../formatters/output.formatter.js";
+import { formatReviewers } from "../../../formatters/pr-table.formatter.js";
+import { addQueryOptions, createOutputOption, parseShapingOptions, RawShapingOptions } from "../../output-options.js";
+import { ReviewersService } from "./reviewers.service.js";
+
+interface RawCommandOptions extends RawShapingOptions {
+  repo?: string;
+  project?: string;
+  output: string;
+}
+
+interface RawAddOptions extends RawCommandOptions {
+  required?: boolean;
+  optional?: boolean;
+}
+
+const SUPPORTED_FORMATS: string[] = [OutputFormat.Table, OutputFormat.Json];
+
+/**
+ * Create the PR reviewers command group
+ */
+export function createReviewersCommand(): Command {
+  const command = new Command("reviewers");
+
+  command
+    .description("Manage pull request reviewers")
+    .addCommand(createAddCommand())
+    .addCommand(createRemoveCommand())
+    .addCommand(createListCommand());
+
+  return command;
+}
+
+function createAddCommand(): Command {
+  const command = new Command("add");
+
+  addTargetOptions(
+    command
+      .description("Add reviewers, or switch existing reviewers between required and optional")
+      .argument("<pr-id>", "Pull request ID")
+      .argument("<reviewers...>", "Emails, display names or groups (e.g. \"[Project]\\Team\")")
+      .option("--required", "Mark the reviewers as required")
+      .option("--optional", "Mark the reviewers as optional"),
+  ).action(async (prIdStr: string, reviewers: string[], options: RawAddOptions) => {
+    await runReviewersAction("adding", prIdStr, options, (service, prId) =>
+      service.addReviewers(prId, reviewers, buildAddOptions(options)),
+    );
+  });
+
+  return command;
+}
+
+function createRemoveCommand(): Command {
+  const command = new Command("remove");
+
+  addTargetOptions(
+    command
+      .description("Remove reviewers from a pull request")
+      .argument("<pr-id>", "Pull request ID")
+      .argument("<reviewers...>", "Emails, display names or groups of current reviewers"),
+  ).action(async (prIdStr: string, reviewers: string[], options: RawCommandOptions) => {
+    await runReviewersAction("removing", prIdStr, options, (service, prId) =>
+      service.removeReviewers(prId, reviewers, buildReviewersOptions(options)),
+    );
+  });
+
+  return command;
+}
+
+function createListCommand(): Command {
+  const command = new Command("list");
+
+  addTargetOptions(command.description("List pull request reviewers").argument("<pr-id>", "Pull request ID")).action(
+    async (prIdStr: string, options: RawCommandOptions) => {
+      await runReviewersAction("listing", prIdStr, options, (service, prId) =>
+        service.listReviewers(prId, buildReviewersOptions(options)),
+      );
+    },
+  );
+
+  return command;
+}
+
+function addTargetOptions(command: Command): Command {
+  return addQueryOptions(
+    command
+      .option("-r, --repo <repository>", "Repository name")
+      .option("-p, --project <project>", "Project name")
+      .addOption(createOutputOption(SUPPORTED_FORMATS)),
+    { query: "[?isRequired].displayName", fields: "displayName,vote,isRequired" },
+  );
+}
+
+async function runReviewersAction(
+  verb: string,
+  prIdStr: string,
+  options: RawCommandOptions,
+  action: (service: ReviewersService, prId: number) => Promise<Reviewer[]>,
+): Promise<void> {
+  try {
+    const prId = parsePullRequestId(prIdStr);
+    validateOutputFormat(options.output);
+    const shaping = parseShapingOptions(options);
+
+    const service = new ReviewersService();
+    const reviewers = await action(service, prId);
+
+    displayResults(reviewers, options.output as OutputFormat, prId, shaping);
+  } catch (error) {
+    console.error(`Error ${verb} reviewers:`, (error as Error).message);
+    process.exit(1);
+  }
+}
+
+function parsePullRequestId(prIdStr: string): number {
+  const prId = parseInt(prIdStr, 10);
+
+  if (isNaN(prId) || prId <= 0) {
+    console.error("Invalid pull request ID. Must be a positive number.");
+    process.exit(1);
+  }
+
+  return prId;
+}
+
+function buildReviewersOptions(options: RawCommandOptions): PRReviewersOptions {
+  return {
+    output: options.output as OutputFormat,
+    project: options.project,
+    repo: options.repo,
+  };
+}
+
+function buildAddOptions(options: RawAddOptions): PRReviewersOptions {
+  if (options.required && options.optional) {
+    console.error("--required and --optional cannot be used together");
+    process.exit(1);
+  }
+
+  return {
+    ...buildReviewersOptions(options),
+    required: options.required ? true : options.optional ? false : undefined,
+  };
+}
+
+function validateOutputFormat(output: string): void {
+  if (!SUPPORTED_FORMATS.includes(output as OutputFormat)) {
+    console.error(`Invalid output format: ${output}`);
+    console.error(`Valid values: ${SUPPORTED_FORMATS.join(", ")}`);
+    process.exit(1);
+  }
+}
+
+function displayResults(reviewers: Reviewer[], output: OutputFormat, prId: number, shaping: OutputShaping): void {
+  console.log(renderResult(reviewers, output, () => `\nPR #${prId}\n${formatReviewers(reviewers)}\n`, shaping));
+}
@@ -0,0 +1,137 @@
+import { AzureApiService } from "../../../services/azure-api.service.js";
+import { AzureCliService } from "../../../services/azure-cli.service.js";
+import { ConfigService } from "../../../services/config.service.js";
+import { IdentityService, matchesIdentity } from "../../../services/identity.service.js";
+import { Identity } from "../../../types/comment.types.js";
+import {
+  PRReviewersOptions,
+  PullRequestLocation,
+  PullRequestVote,
+  Reviewer,
+  ReviewersResponse,
+} from "../../../types/pull-request.types.js";
+import { CommentsService } from "../comments/comments.service.js";
+
+export class ReviewersService {
+  private azureApiService: AzureApiService;
+  private commentsService: CommentsService;
+  private identityService: IdentityService;
+
+  constructor(
+    azureApiService?: AzureApiService,
+    azureCliService?: AzureCliService,
+    configService?: ConfigService,
+    identityService?: IdentityService,
+    commentsService?: CommentsService,
+  ) {
+    const cliService = azureCliService || new AzureCliService();
+    const config = configService || new ConfigService(cliService);
+    this.azureApiService = azureApiService || new AzureApiService(config);
+    this.commentsService = commentsService || new CommentsService(this.azureApiService, cliService, config);
+    this.identityService = identityService || new IdentityService(this.azureApiService);
+  }
+
+  async listReviewers(prId: number, options: PRReviewersOptions): Promise<Reviewer[]> {
+    const location = await this.commentsService.resolvePullRequestLocation(prId, options.project, options.repo);
+    return this.fetchReviewers(location, prId);
+  }
+
+  /**
+   * Add reviewers, or toggle required/optional on ones already present, and return the updated list.
+   * Existing reviewers keep their vote.
+   */
+  async addReviewers(prId: number, queries: string[], options: PRReviewersOptions): Promise<Reviewer[]> {
+    const location = await this.commentsService.resolvePullRequestLocation(prId, options.project, options.repo);
+    const reviewers = await this.fetchReviewers(location, prId);
+
+    for (const query of queries) {
+      const identity = this.findReviewer(reviewers, query) || (await this.identityService.resolveIdentity(query));
+      const existing = reviewers.find((reviewer) => reviewer.id === identity.id);
+
+      if (existing && (options.required === undefined || !!existing.isRequired === options.required)) {
+        continue;
+      }
+
+      await this.putReviewer(location, prId, identity, {
+        // Re-send the current vote so changing isRequired never clears it
+        vote: existing?.vote ?? PullRequestVote.NoVote,
+        isRequired: options.required ?? false,
+      });
+    }
+
+    return this.fetchReviewers(location, prId);
+  }
+
+  /**
+   * Remove reviewers from the pull request and return the updated list
+   */
+  async removeReviewers(prId: number, queries: string[], options: PRReviewersOptions): Promise<Reviewer[]> {
+    const location = await this.commentsService.resolvePullRequestLocation(prId, options.project, options.repo);
+    const reviewers = await this.fetchReviewers(location, prId);
+
+    const toRemove = queries.map((query) => {
+      const reviewer = this.findReviewer(reviewers, query);
+      if (!reviewer) {
+        throw new Error(`"${query}" is not a reviewer on pull request ${prId}`);
+      }
+      return reviewer;
+    });
+
+    for (const reviewer of toRemove) {
+      try {
+        await this.azureApiService.delete<void>(
+          this.buildReviewerApiPath(location.repositoryId, prId, reviewer.id),
+          location.project,
+        );
+      } catch (error) {
+        throw new Error(`Failed to remove reviewer ${reviewer.displayName}: ${(error as Error).message}`);
+      }
+    }
+
+    return this.fetchReviewers(location, prId);
+  }
+
+  async fetchReviewers(location: PullRequestLocation, prId: number): Promise<Reviewer[]> {
+    try {
+      const response = await this.azureApiService.get<ReviewersResponse>(
+        this.buildReviewersApiPath(location.repositoryId, prId),
+        location.project,
+      );
+      return response.value || [];
+    } catch (error) {
+      throw new Error(`Failed to fetch reviewers: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Add or update a reviewer entry; the PUT replaces vote and isRequired together
+   */
+  async putReviewer(
+    location: PullRequestLocation,
+    prId: number,
+    identity: Identity,
+    update: { vote: PullRequestVote; isRequired: boolean },
+  ): Promise<void> {
+    try {
+      await this.azureApiService.put<Reviewer>(
+        this.buildReviewerApiPath(location.repositoryId, prId, identity.id),
+        update,
+        location.project,
+      );
+    } catch (error) {
+      throw new Error(`Failed to update reviewer ${identity.displayName}: ${(error as Error).message}`);
+    }
+  }
+
+  private findReviewer(reviewers: Reviewer[], query: string): Reviewer | undefined {
+    return reviewers.find((reviewer) => matchesIdentity(reviewer, query));
+  }
+
+  private buildReviewersApiPath(repositoryId: string, prId: number): string {
+    return `git/repositories/${repositoryId}/pullRequests/${prId}/reviewers?api-version=7.0`;
+  }
+
+  private buildReviewerApiPath(repositoryId: string, prId: number, reviewerId: string): string {
+    return `git/repositories/${repositoryId}/pullRequests/${prId}/reviewers/${reviewerId}?api-version=7.0`;
+  }
+}
@@ -0,0 +1,84 @@
+import { Command } from "commander";
+import { OutputFormat, PRShowOptions, PullRequestDetails } from "../../../types/pull-request.types.js";
+import { OutputShaping, renderResult } from "../../../formatters/output.formatter.js";
+import { formatPRDetailsMarkdown, formatPRDetailsView } from "../../../formatters/pr-details.formatter.js";
+import { addQueryOptions, createOutputOption, parseShapingOptions, RawShapingOptions } from "../../output-options.js";
+import { ShowService } from "./show.service.js";
+
+interface RawCommandOptions extends RawShapingOptions {
+  repo?: string;
+  project?: string;
+  output: string;
+}
+
+const SUPPORTED_FORMATS: string[] = [OutputFormat.Table, OutputFormat.Json, OutputFormat.Markdown];
+
+export function createShowCommand(): Command {
+  const command = new Command("show");
+
+  command
+    .description("Show the full state of a single pull request")
+    .argument("<pr-id>", "Pull request ID")
+    .option("-r, --repo <repository>", "Repository name")
+    .option("-p, --project <project>", "Project name")
+    .addOption(createOutputOption(SUPPORTED_FORMATS));
+
+  addQueryOptions(command, {
+    query: "pullRequest.reviewers[].displayName",
+    fields: "pullRequest.title,threads.active",
+  });
+
+  command.action(async (prIdStr: string, options: RawCommandOptions) => {
+    try {
+      const prId = parsePullRequestId(prIdStr);
+      const showOptions = buildShowOptions(options);
+
+      validateOutputFormat(showOptions.output, options.output);
+      const shaping = parseShapingOptions(options);
+
+      const service = new ShowService();
+      const details = await service.fetchDetails(prId, showOptions);
+
+      displayResult(details, showOptions.output, shaping);
+    } catch (error) {
+      console.error("Error fetching pull request:", (error as Error).message);
+      process.exit(1);
+    }
+  });
+
+  return command;
+}
+
+function parsePullRequestId(prIdStr: string): number {
+  const prId = parseInt(prIdStr, 10);
+
+  if (isNaN(prId) || prId <= 0) {
+    console.error("Invalid pull request ID. Must be a positive number.");
+    process.exit(1);
+  }
+
+  return prId;
+}
+
+function buildShowOptions(options: RawCommandOptions): PRShowOptions {
+  return {
+    output: options.output as OutputFormat,
+    project: options.project,
+    repo: options.repo,
+  };
+}
+
+function validateOutputFormat(format: OutputFormat, rawFormat: string): void {
+  if (!SUPPORTED_FORMATS.includes(format)) {
+    console.error(`Invalid output format: ${rawFormat}`);
+    console.error(`Valid values: ${SUPPORTED_FORMATS.join(", ")}`);
+    process.exit(1);
+  }
+}
+
+function displayResult(details: PullRequestDetails, output: OutputFormat, shaping: OutputShaping): void {
+  const view = (format: string) =>
+    format === OutputFormat.Markdown ? formatPRDetailsMarkdown(details) : formatPRDetailsView(details);
+
+  console.log(renderResult(details, output, view, shaping));
+}
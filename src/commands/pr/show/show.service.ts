@@ -0,0 +1,131 @@
+import { AzureApiService } from "../../../services/azure-api.service.js";
+import { AzureCliService } from "../../../services/azure-cli.service.js";
+import { ConfigService } from "../../../services/config.service.js";
+import { CommentThread, CommentThreadStatus } from "../../../types/comment.types.js";
+import {
+  LinkedWorkItem,
+  PolicyEvaluation,
+  PRShowOptions,
+  PullRequest,
+  PullRequestDetails,
+  PullRequestLocation,
+  ThreadCounts,
+} from "../../../types/pull-request.types.js";
+import { CommentsService } from "../comments/comments.service.js";
+
+interface WorkItemRefsResponse {
+  value: { id: string; url: string }[];
+}
+
+interface WorkItemsResponse {
+  value: { id: number; fields: Record<string, string> }[];
+}
+
+interface PolicyEvaluationsResponse {
+  value: PolicyEvaluation[];
+}
+
+const UNRESOLVED_STATUSES = [CommentThreadStatus.Active, CommentThreadStatus.Pending];
+
+export class ShowService {
+  private azureApiService: AzureApiService;
+  private commentsService: CommentsService;
+
+  constructor(azureApiService?: AzureApiService, azureCliService?: AzureCliService, configService?: ConfigService) {
+    const cliService = azureCliService || new AzureCliService();
+    const config = configService || new ConfigService(cliService);
+    this.azureApiService = azureApiService || new AzureApiService(config);
+    this.commentsService = new CommentsService(this.azureApiService, cliService, config);
+  }
+
+  async fetchDetails(prId: number, options: PRShowOptions): Promise<PullRequestDetails> {
+    const pullRequest = await this.commentsService.fetchPRDetails(prId, options.project, options.repo);
+
+    if (!pullRequest) {
+      throw new Error(`Pull request ${prId} not found`);
+    }
+
+    const location: PullRequestLocation = {
+      project: options.project || pullRequest.repository.project.name,
+      repositoryId: pullRequest.repository.id,
+    };
+
+    const [workItems, policyStatus, threads] = await Promise.all([
+      this.fetchWorkItems(location, prId),
+      this.fetchPolicyEvaluations(pullRequest, location),
+      this.commentsService.fetchThreadsAtLocation(location, prId),
+    ]);
+
+    return {
+      pullRequest,
+      workItems,
+      ...policyStatus,
+      threads: this.countThreads(threads),
+    };
+  }
+
+  countThreads(threads: CommentThread[]): ThreadCounts {
+    const reviewerThreads = this.commentsService
+      .filterDeletedThreads(threads)
+      .filter((thread) => !this.commentsService.isSystemThread(thread));
+
+    const active = reviewerThreads.filter((thread) => UNRESOLVED_STATUSES.includes(thread.status)).length;
+
+    return { active, resolved: reviewerThreads.length - active };
+  }
+
+  private async fetchWorkItems(location: PullRequestLocation, prId: number): Promise<LinkedWorkItem[]> {
+    let refs: WorkItemRefsResponse;
+
+    try {
+      refs = await this.azureApiService.get<WorkItemRefsResponse>(
+        `git/repositories/${location.repositoryId}/pullRequests/${prId}/workitems?api-version=7.0`,
+        location.project,
+      );
+    } catch (error) {
+      throw new Error(`Failed to fetch linked work items: ${(error as Error).message}`);
+    }
+
+    const ids = (refs.value || []).map((ref) => parseInt(ref.id, 10));
+
+    if (ids.length === 0) {
+      return [];
+    }
+
+    try {
+      const response = await this.azureApiService.get<WorkItemsResponse>(
+        `wit/workitems?ids=${ids.join(",")}&fields=System.Title,System.State,System.WorkItemType&api-version=7.0`,
+        location.project,
+      );
+
+      return response.value.map((item) => ({
+        id: item.id,
+        title: item.fields["System.Title"],
+        state: item.fields["System.State"],
+        workItemType: item.fields["System.WorkItemType"],
+      }));
+    } catch {
+      // Titles are a nicety; still show the links when work item details are not readable
+      return ids.map((id) => ({ id }));
+    }
+  }
+
+  private async fetchPolicyEvaluations(
+    pr: PullRequest,
+    location: PullRequestLocation,
+  ): Promise<Pick<PullRequestDetails, "policies" | "policyError">> {
+    const artifactId = `vstfs:///CodeReview/CodeReviewId/${pr.repository.project.id}/${pr.pullRequestId}`;
+
+    try {
+      const response = await this.azureApiService.get<PolicyEvaluationsResponse>(
+        `policy/evaluations?artifactId=${encodeURIComponent(artifactId)}&api-version=7.0-preview.1`,
+        location.project,
+      );
+      const policies = (response.value || []).filter((evaluation) => evaluation.configuration?.isEnabled !== false);
+      return { policies };
+    } catch (error) {
+      // Reading policy evaluations takes more than reading the pull request; still show it without them
+      return { policies: [], policyError: (error as Error).message };
+    }
+  }
+}
@@ -0,0 +1,13 @@
+import { Command } from "commander";
+import { createSetStatusCommand } from "./set-status/set-status.command.js";
+
+/**
+ * Create the PR thread command group
+ */
+export function createThreadCommand(): Command {
+  const command = new Command("thread");
+
+  command.description("Pull request comment thread commands").addCommand(createSetStatusCommand());
+
+  return command;
+}
@@ -0,0 +1,178 @@
+import { Command } from "commander";
+import {
+  CommentThreadStatus,
+  OutputFormat,
+  PRThreadStatusOptions,
+  ThreadStatusChange,
+} from "../../../../types/comment.types.js";
+import { createOutputOption } from "../../../output-options.js";
+import { SetStatusService } from "./set-status.service.js";
+
+interface RawCommandOptions {
+  project?: string;
+  repo?: string;
+  allBy?: string;
+  file?: string;
+  dryRun: boolean;
+  output: string;
+}
+
+const SETTABLE_STATUSES = Object.values(CommentThreadStatus).filter((status) => status !== CommentThreadStatus.Unknown);
+
+const SUPPORTED_FORMATS: string[] = [OutputFormat.Table, OutputFormat.Json];
+
+export function createSetStatusCommand(): Command {
+  const command = new Command("set-status");
+
+  command
+    .description("Change the status of a comment thread, or of every thread matching --all-by/--file")
+    .usage("[options] <pr-id> [thread-id] <status>")
+    .argument("<pr-id>", "Pull request ID")
+    .argument("[thread-id]", "Comment thread ID (omit when using --all-by or --file)")
+    .argument("[status]", `New status (${SETTABLE_STATUSES.join(", ")})`)
+    .option("--all-by <author>", "Update every thread started by this author (display name or email)")
+    .option("--file <path>", "Update every thread on this file or directory")
+    .option("--dry-run", "Show which threads would change without updating them", false)
+    .option("-p, --project <project>", "Project name")
+    .option("-r, --repo <repository>", "Repository name")
+    .addOption(createOutputOption(SUPPORTED_FORMATS))
+    .action(
+      async (
+        prIdStr: string,
+        threadOrStatus: string | undefined,
+        statusStr: string | undefined,
+        options: RawCommandOptions,
+      ) => {
+        try {
+          const prId = parsePositiveInteger(prIdStr, "pull request ID");
+          const statusOptions = buildStatusOptions(options);
+          const bulk = isBulkMode(statusOptions);
+
+          validateOutputFormat(statusOptions.output);
+
+          const service = new SetStatusService();
+          let changes: ThreadStatusChange[];
+
+          if (bulk) {
+            if (statusStr !== undefined) {
+              console.error("Do not pass a thread ID together with --all-by or --file.");
+              process.exit(1);
+            }
+
+            const status = parseStatus(threadOrStatus);
+            changes = await service.setStatusForMatchingThreads(prId, status, statusOptions);
+          } else {
+            const threadId = parsePositiveInteger(threadOrStatus, "thread ID");
+            const status = parseStatus(statusStr);
+            changes = [await service.setThreadStatus(prId, threadId, status, statusOptions)];
+          }
+
+          displayResults(changes, statusOptions, prId);
+
+          if (changes.some((change) => change.error)) {
+            process.exit(1);
+          }
+        } catch (error) {
+          console.error("Error updating thread status:", (error as Error).message);
+          process.exit(1);
+        }
+      },
+    );
+
+  return command;
+}
+
+function parsePositiveInteger(value: string | undefined, label: string): number {
+  const parsed = parseInt(value ?? "", 10);
+
+  if (isNaN(parsed) || parsed <= 0) {
+    console.error(`Invalid ${label}. Must be a positive number.`);
+    process.exit(1);
+  }
+
+  return parsed;
+}
+
+/**
+ * Statuses are matched case-insensitively so "wontfix" and "WontFix" both work
+ */
+function parseStatus(value: string | undefined): CommentThreadStatus {
+  const status = SETTABLE_STATUSES.find((candidate) => candidate.toLowerCase() === value?.toLowerCase());
+
+  if (!status) {
+    console.error(`Invalid status: ${value ?? "(missing)"}`);
+    console.error(`Valid values: ${SETTABLE_STATUSES.join(", ")}`);
+    process.exit(1);
+  }
+
+  return status;
+}
+
+function buildStatusOptions(options: RawCommandOptions): PRThreadStatusOptions {
+  return {
+    output: options.output as OutputFormat,
+    allBy: options.allBy,
+    file: options.file,
+    dryRun: options.dryRun,
+    project: options.project,
+    repo: options.repo,
+  };
+}
+
+function isBulkMode(options: PRThreadStatusOptions): boolean {
+  return Boolean(options.allBy || options.file);
+}
+
+function validateOutputFormat(output: OutputFormat): void {
+  if (!SUPPORTED_FORMATS.includes(output)) {
+    console.error(`Invalid output format: ${output}`);
+    console.error(`Valid values: ${SUPPORTED_FORMATS.join(", ")}`);
+    process.exit(1);
+  }
+}
+
+function displayResults(changes: ThreadStatusChange[], options: PRThreadStatusOptions, prId: number): void {
+  if (options.output === OutputFormat.Json) {
+    console.log(JSON.stringify(changes, null, 2));
+    return;
+  }
+
+  if (changes.length === 0) {
+    console.log(`No matching threads found for PR #${prId}.`);
+    return;
+  }
+
+  changes.forEach((change) => {
+    const location = change.filePath ? ` ${change.filePath}` : "";
+    const transition = `${change.previousStatus} → ${change.status}`;
+    const outcome = describeOutcome(change);
+
+    console.log(`Thread ${change.threadId}${location}: ${transition} (${outcome})`);
+  });
+
+  const applied = changes.filter((change) => change.applied).length;
+  const failed = changes.filter((change) => change.error).length;
+  const summary = options.dryRun
+    ? "Dry run: no threads updated"
+    : `Updated ${applied} of ${changes.length} thread(s)${failed ? `, ${failed} failed` : ""}`;
+  console.log(`\n${summary} on PR #${prId}.`);
+}
+
+/**
+ * A change that was neither applied nor failed was skipped or belongs to a dry run
+ */
+function describeOutcome(change: ThreadStatusChange): string {
+  if (change.applied) {
+    return "updated";
+  }
+
+  if (change.error) {
+    return `failed: ${change.error}`;
+  }
+
+  if (change.previousStatus === change.status) {
+    return `skipped, already ${change.status}`;
+  }
+
+  return "would update";
+}
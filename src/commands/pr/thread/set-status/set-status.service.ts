@@ -0,0 +1,155 @@
+import { AzureApiService } from "../../../../services/azure-api.service.js";
+import { AzureCliService } from "../../../../services/azure-cli.service.js";
+import { ConfigService } from "../../../../services/config.service.js";
+import {
+  Comment,
+  CommentThread,
+  CommentThreadStatus,
+  PRThreadStatusOptions,
+  ThreadStatusChange,
+} from "../../../../types/comment.types.js";
+import { PullRequestLocation } from "../../../../types/pull-request.types.js";
+import { CommentsService } from "../../comments/comments.service.js";
+
+export class SetStatusService {
+  private azureApiService: AzureApiService;
+  private commentsService: CommentsService;
+
+  constructor(azureApiService?: AzureApiService, azureCliService?: AzureCliService, configService?: ConfigService) {
+    const cliService = azureCliService || new AzureCliService();
+    const config = configService || new ConfigService(cliService);
+    this.azureApiService = azureApiService || new AzureApiService(config);
+    this.commentsService = new CommentsService(this.azureApiService, cliService, config);
+  }
+
+  async setThreadStatus(
+    prId: number,
+    threadId: number,
+    status: CommentThreadStatus,
+    options: PRThreadStatusOptions,
+  ): Promise<ThreadStatusChange> {
+    const location = await this.commentsService.resolvePullRequestLocation(prId, options.project, options.repo);
+    const thread = await this.commentsService.fetchThread(location, prId, threadId);
+    const change = await this.applyStatus(location, prId, thread, status, options.dryRun);
+
+    if (change.error) {
+      throw new Error(`Failed to update thread ${threadId}: ${change.error}`);
+    }
+
+    return change;
+  }
+
+  /**
+   * Update every thread the filters select. A failed update is recorded on its change and the remaining threads
+   * are still updated.
+   */
+  async setStatusForMatchingThreads(
+    prId: number,
+    status: CommentThreadStatus,
+    options: PRThreadStatusOptions,
+  ): Promise<ThreadStatusChange[]> {
+    const location = await this.commentsService.resolvePullRequestLocation(prId, options.project, options.repo);
+    const threads = await this.commentsService.fetchThreadsAtLocation(location, prId);
+
+    const matching = this.filterThreads(threads, options);
+    const changes: ThreadStatusChange[] = [];
+
+    for (const thread of matching) {
+      changes.push(await this.applyStatus(location, prId, thread, status, options.dryRun));
+    }
+
+    return changes;
+  }
+
+  /**
+   * Select the reviewer threads a bulk update applies to. System threads (votes, policy
+   * updates) are never selected.
+   */
+  filterThreads(threads: CommentThread[], options: Pick<PRThreadStatusOptions, "allBy" | "file">): CommentThread[] {
+    return threads.filter(
+      (thread) =>
+        !thread.isDeleted &&
+        !this.commentsService.isSystemThread(thread) &&
+        (!options.allBy || this.threadStartedBy(thread, options.allBy)) &&
+        (!options.file || this.threadIsOnPath(thread, options.file)),
+    );
+  }
+
+  private async applyStatus(
+    location: PullRequestLocation,
+    prId: number,
+    thread: CommentThread,
+    status: CommentThreadStatus,
+    dryRun: boolean,
+  ): Promise<ThreadStatusChange> {
+    const change: ThreadStatusChange = {
+      threadId: thread.id,
+      filePath: thread.threadContext?.filePath,
+      author: this.getRootComment(thread)?.author?.displayName,
+      previousStatus: thread.status,
+      status,
+      applied: false,
+    };
+
+    if (dryRun || thread.status === status) {
+      return change;
+    }
+
+    try {
+      await this.azureApiService.patch<CommentThread>(
+        this.buildThreadApiPath(location.repositoryId, prId, thread.id),
+        { status },
+        location.project,
+      );
+    } catch (error) {
+      return { ...change, error: (error as Error).message };
+    }
+
+    return { ...change, applied: true };
+  }
+
+  private getRootComment(thread: CommentThread): Comment | undefined {
+    return thread.comments.find((comment) => !comment.parentCommentId) || thread.comments[0];
+  }
+
+  private threadStartedBy(thread: CommentThread, author: string): boolean {
+    const identity = this.getRootComment(thread)?.author;
+    const needle = author.toLowerCase();
+
+    return (
+      identity?.displayName?.toLowerCase() === needle ||
+      identity?.uniqueName?.toLowerCase() === needle ||
+      identity?.id?.toLowerCase() === needle
+    );
+  }
+
+  private threadIsOnPath(thread: CommentThread, filePath: string): boolean {
+    const threadPath = thread.threadContext?.filePath;
+
+    if (!threadPath) {
+      return false;
+    }
+
+    const normalizedThreadPath = this.normalizePath(threadPath);
+    const normalizedFilter = this.normalizePath(filePath);
+
+    return normalizedThreadPath === normalizedFilter || normalizedThreadPath.startsWith(`${normalizedFilter}/`);
+  }
+
+  /**
+   * Azure DevOps reports repository-rooted paths ("/src/x.ts"); accept "src/x.ts" and "./src/x.ts" too
+   */
+  private normalizePath(filePath: string): string {
+    return (
+      "/" +
+      filePath
+        .replace(/\\/g, "/")
+        .replace(/^\.?\/+/, "")
+        .replace(/\/+$/, "")
+    );
+  }
+
+  private buildThreadApiPath(repositoryId: string, prId: number, threadId: number): string {
+    return `git/repositories/${repositoryId}/pullRequests/${prId}/threads/${threadId}?api-version=7.0`;
+  }
+}
@@ -0,0 +1,94 @@
+import { Command } from "commander";
+import { OutputFormat, PRVoteOptions, PullRequestVote, Reviewer } from "../../../types/pull-request.types.js";
+import { formatReviewers } from "../../../formatters/pr-table.formatter.js";
+import { createOutputOption } from "../../output-options.js";
+import { VOTE_CHOICES, VoteService } from "./vote.service.js";
+
+interface RawCommandOptions {
+  repo?: string;
+  project?: string;
+  output: string;
+}
+
+const SUPPORTED_FORMATS: string[] = [OutputFormat.Table, OutputFormat.Json];
+
+export function createVoteCommand(): Command {
+  const command = new Command("vote");
+
+  command
+    .description("Cast your vote on a pull request")
+    .argument("<pr-id>", "Pull request ID")
+    .argument("<vote>", `Vote (${Object.keys(VOTE_CHOICES).join(", ")})`)
+    .option("-r, --repo <repository>", "Repository name")
+    .option("-p, --project <project>", "Project name")
+    .addOption(createOutputOption(SUPPORTED_FORMATS))
+    .action(async (prIdStr: string, voteStr: string, options: RawCommandOptions) => {
+      try {
+        const prId = parsePullRequestId(prIdStr);
+        const vote = parseVote(voteStr);
+        const voteOptions = buildVoteOptions(options);
+
+        validateOutputFormat(voteOptions.output, options.output);
+
+        const service = new VoteService();
+        const reviewers = await service.castVote(prId, vote, voteOptions);
+
+        displayResults(reviewers, voteOptions.output, prId);
+      } catch (error) {
+        console.error("Error casting vote:", (error as Error).message);
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
+
+function parsePullRequestId(prIdStr: string): number {
+  const prId = parseInt(prIdStr, 10);
+
+  if (isNaN(prId) || prId <= 0) {
+    console.error("Invalid pull request ID. Must be a positive number.");
+    process.exit(1);
+  }
+
+  return prId;
+}
+
+function parseVote(voteStr: string): PullRequestVote {
+  const choice = voteStr.toLowerCase();
+
+  if (!Object.hasOwn(VOTE_CHOICES, choice)) {
+    console.error(`Invalid vote: ${voteStr}`);
+    console.error(`Valid values: ${Object.keys(VOTE_CHOICES).join(", ")}`);
+    process.exit(1);
+  }
+
+  return VOTE_CHOICES[choice];
+}
+
+function buildVoteOptions(options: RawCommandOptions): PRVoteOptions {
+  return {
+    output: options.output as OutputFormat,
+    project: options.project,
+    repo: options.repo,
+  };
+}
+
+function validateOutputFormat(format: OutputFormat, rawFormat: string): void {
+  if (!SUPPORTED_FORMATS.includes(format)) {
+    console.error(`Invalid output format: ${rawFormat}`);
+    console.error(`Valid values: ${SUPPORTED_FORMATS.join(", ")}`);
+    process.exit(1);
+  }
+}
+
+function displayResults(reviewers: Reviewer[], output: OutputFormat, prId: number): void {
+  if (output === OutputFormat.Json) {
+    console.log(JSON.stringify(reviewers, null, 2));
+    return;
+  }
+
+  console.log(`\nVote recorded on PR #${prId}.\n`);
+  console.log(formatReviewers(reviewers));
+  console.log("");
+}
@@ -0,0 +1,60 @@
+import { AzureApiService } from "../../../services/azure-api.service.js";
+import { AzureCliService } from "../../../services/azure-cli.service.js";
+import { ConfigService } from "../../../services/config.service.js";
+import { IdentityService } from "../../../services/identity.service.js";
+import { PRVoteOptions, PullRequestVote, Reviewer } from "../../../types/pull-request.types.js";
+import { CommentsService } from "../comments/comments.service.js";
+import { ReviewersService } from "../reviewers/reviewers.service.js";
+
+/**
+ * Vote names accepted on the command line
+ */
+export const VOTE_CHOICES: Record<string, PullRequestVote> = {
+  approve: PullRequestVote.Approved,
+  suggest: PullRequestVote.ApprovedWithSuggestions,
+  wait: PullRequestVote.WaitingForAuthor,
+  reject: PullRequestVote.Rejected,
+  reset: PullRequestVote.NoVote,
+};
+
+export class VoteService {
+  private commentsService: CommentsService;
+  private identityService: IdentityService;
+  private reviewersService: ReviewersService;
+
+  constructor(
+    azureApiService?: AzureApiService,
+    azureCliService?: AzureCliService,
+    configService?: ConfigService,
+    identityService?: IdentityService,
+  ) {
+    const cliService = azureCliService || new AzureCliService();
+    const config = configService || new ConfigService(cliService);
+    const apiService = azureApiService || new AzureApiService(config);
+    this.commentsService = new CommentsService(apiService, cliService, config);
+    this.identityService = identityService || new IdentityService(apiService);
+    this.reviewersService = new ReviewersService(apiService, cliService, config, this.identityService);
+  }
+
+  /**
+   * Cast the current user's vote and return the updated reviewer list
+   */
+  async castVote(prId: number, vote: PullRequestVote, options: PRVoteOptions): Promise<Reviewer[]> {
+    const location = await this.commentsService.resolvePullRequestLocation(prId, options.project, options.repo);
+    const currentUser = await this.identityService.getCurrentUser();
+    const reviewers = await this.reviewersService.fetchReviewers(location, prId);
+    const existing = reviewers.find((reviewer) => reviewer.id === currentUser.id);
+
+    try {
+      // Re-send isRequired so voting never demotes a required reviewer to optional
+      await this.reviewersService.putReviewer(location, prId, currentUser, {
+        vote,
+        isRequired: existing?.isRequired ?? false,
+      });
+    } catch (error) {
+      throw new Error(`Failed to cast vote: ${(error as Error).message}`);
+    }
+
+    return this.reviewersService.fetchReviewers(location, prId);
+  }
+}
@@ -0,0 +1,186 @@
+import { Command } from "commander";
+import { NotificationService } from "../../../services/notification.service.js";
+import { OutputFormat, PRWatchOptions, WatchEvent } from "../../../types/pull-request.types.js";
+import {
+  formatWatchEvent,
+  formatWatchEventJson,
+  formatWatchNotification,
+} from "../../../formatters/watch.formatter.js";
+import { createOutputOption } from "../../output-options.js";
+import { WatchPollResult, WatchService } from "./watch.service.js";
+
+interface RawCommandOptions {
+  repo?: string;
+  project?: string;
+  top: string;
+  interval: string;
+  once?: boolean;
+  notify?: boolean;
+  exec?: string;
+  output: string;
+}
+
+const SUPPORTED_FORMATS: string[] = [OutputFormat.Table, OutputFormat.Json];
+
+const MINIMUM_INTERVAL_SECONDS = 10;
+
+const INTERVAL_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600 };
+
+export function createWatchCommand(): Command {
+  const command = new Command("watch");
+
+  command
+    .description("Poll your active pull requests and report new comments, votes, resolved threads and status changes")
+    .option("-r, --repo <repository>", "Filter by repository name")
+    .option("-p, --project <project>", "Project name")
+    .option("-n, --top <number>", "Maximum number of pull requests to watch", "50")
+    .option("-i, --interval <duration>", "Time between polls, e.g. 30s, 5m or 1h", "60s")
+    .option("--once", "Poll once, report changes since the last run and exit")
+    .option("--notify", "Also show a desktop notification for each change")
+    .option("--exec <command>", "Shell command to run for each change; details are passed in AZC_* variables")
+    .addOption(createOutputOption(SUPPORTED_FORMATS))
+    .action(async (options: RawCommandOptions) => {
+      try {
+        const watchOptions = buildWatchOptions(options);
+        await watch(new WatchService(), new NotificationService(), watchOptions);
+      } catch (error) {
+        console.error("Error watching pull requests:", (error as Error).message);
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
+
+function buildWatchOptions(options: RawCommandOptions): PRWatchOptions {
+  const top = parseInt(options.top, 10);
+
+  if (isNaN(top) || top <= 0) {
+    console.error("Invalid --top value. Must be a positive number.");
+    process.exit(1);
+  }
+
+  if (!SUPPORTED_FORMATS.includes(options.output)) {
+    console.error(`Invalid output format: ${options.output}`);
+    console.error(`Valid values: ${SUPPORTED_FORMATS.join(", ")}`);
+    process.exit(1);
+  }
+
+  return {
+    top,
+    interval: parseInterval(options.interval),
+    once: options.once ?? false,
+    notify: options.notify ?? false,
+    exec: options.exec,
+    output: options.output as OutputFormat,
+    project: options.project,
+    repo: options.repo,
+  };
+}
+
+/**
+ * Parse a duration such as "90", "30s", "5m" or "1h" into seconds
+ */
+function parseInterval(value: string): number {
+  const match = /^(\d+)\s*([smh]?)$/.exec(value.trim().toLowerCase());
+  const seconds = match ? parseInt(match[1], 10) * INTERVAL_UNITS[match[2] || "s"] : NaN;
+
+  if (isNaN(seconds) || seconds < MINIMUM_INTERVAL_SECONDS) {
+    console.error(`Invalid --interval value: ${value}`);
+    console.error(`Use a duration of at least ${MINIMUM_INTERVAL_SECONDS}s, e.g. 30s, 5m or 1h.`);
+    process.exit(1);
+  }
+
+  return seconds;
+}
+
+/**
+ * Poll until interrupted. A failed poll is reported and retried at the next interval, except with --once.
+ */
+async function watch(service: WatchService, notifier: NotificationService, options: PRWatchOptions): Promise<void> {
+  const reporter = new EventReporter(notifier, options);
+
+  if (!options.once) {
+    console.error(`Watching your active pull requests every ${options.interval}s. Press Ctrl+C to stop.`);
+  }
+
+  for (;;) {
+    try {
+      await reporter.report(await service.poll(options), service.snapshotPath);
+    } catch (error) {
+      if (options.once) {
+        throw error;
+      }
+
+      console.error(`Poll failed, retrying in ${options.interval}s: ${(error as Error).message}`);
+    }
+
+    if (options.once) {
+      return;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, options.interval * 1000));
+  }
+}
+
+class EventReporter {
+  private notify: boolean;
+
+  constructor(
+    private notifier: NotificationService,
+    private options: PRWatchOptions,
+  ) {
+    this.notify = options.notify;
+  }
+
+  async report(result: WatchPollResult, snapshotPath: string): Promise<void> {
+    if (result.baseline) {
+      console.error(
+        `Saved the state of ${result.watched} pull request${result.watched !== 1 ? "s" : ""} to ${snapshotPath}; ` +
+          "changes are reported from the next poll.",
+      );
+    }
+
+    for (const event of result.events) {
+      await this.reportEvent(event, new Date());
+    }
+  }
+
+  private async reportEvent(event: WatchEvent, at: Date): Promise<void> {
+    console.log(
+      this.options.output === OutputFormat.Json ? formatWatchEventJson(event, at) : formatWatchEvent(event, at),
+    );
+
+    if (this.notify) {
+      const { title, message } = formatWatchNotification(event);
+
+      try {
+        await this.notifier.notify(title, message);
+      } catch (error) {
+        // Notifications stay off once they fail, rather than repeating the same error for every event
+        this.notify = false;
+        console.error(`${(error as Error).message}. Desktop notifications are turned off.`);
+      }
+    }
+
+    if (this.options.exec) {
+      try {
+        await this.notifier.runHook(this.options.exec, hookVariables(event, at));
+      } catch (error) {
+        console.error((error as Error).message);
+      }
+    }
+  }
+}
+
+function hookVariables(event: WatchEvent, at: Date): Record<string, string> {
+  return {
+    AZC_EVENT: event.type,
+    AZC_PR_ID: String(event.pullRequestId),
+    AZC_PR_TITLE: event.title,
+    AZC_REPOSITORY: event.repository,
+    AZC_PROJECT: event.project,
+    AZC_MESSAGE: event.message,
+    AZC_EVENT_JSON: formatWatchEventJson(event, at),
+  };
+}
@@ -0,0 +1,185 @@
+import { CommentThread, CommentThreadStatus, CommentType } from "../../../types/comment.types.js";
+import {
+  PullRequest,
+  PullRequestSnapshot,
+  PullRequestStatus,
+  PullRequestVote,
+  WatchEvent,
+  WatchEventType,
+} from "../../../types/pull-request.types.js";
+import { describeVote } from "../../../formatters/text.formatter.js";
+
+const UNRESOLVED_STATUSES: string[] = [CommentThreadStatus.Active, CommentThreadStatus.Pending];
+
+const EXCERPT_LENGTH = 80;
+
+function excerpt(content: string): string {
+  const firstLine = content.trim().split("\n")[0];
+  return firstLine.length > EXCERPT_LENGTH ? `${firstLine.slice(0, EXCERPT_LENGTH - 1)}…` : firstLine;
+}
+
+/**
+ * Vote, push and policy updates arrive as system threads; they are reported through the pull request itself
+ */
+function isSystemThread(thread: CommentThread): boolean {
+  const rootComment = thread.comments.find((comment) => !comment.parentCommentId) || thread.comments[0];
+  return !rootComment || rootComment.commentType === CommentType.System;
+}
+
+function visibleThreads(threads: CommentThread[]): CommentThread[] {
+  return threads.filter((thread) => !thread.isDeleted);
+}
+
+type EventTarget = Pick<PullRequestSnapshot, "pullRequestId" | "title" | "repository" | "project">;
+
+function targetOf(pr: PullRequest): EventTarget {
+  return {
+    pullRequestId: pr.pullRequestId,
+    title: pr.title,
+    repository: pr.repository.name,
+    project: pr.repository.project.name,
+  };
+}
+
+function eventFor(target: EventTarget, type: WatchEventType, message: string): WatchEvent {
+  const { pullRequestId, title, repository, project } = target;
+  return { type, pullRequestId, title, repository, project, message };
+}
+
+export function snapshotPullRequest(pr: PullRequest, threads: CommentThread[]): PullRequestSnapshot {
+  return {
+    ...targetOf(pr),
+    status: pr.status,
+    mergeStatus: pr.mergeStatus,
+    votes: Object.fromEntries(pr.reviewers.map((reviewer) => [reviewer.id, reviewer.vote])),
+    threads: Object.fromEntries(
+      visibleThreads(threads).map((thread) => [
+        thread.id,
+        {
+          status: thread.status,
+          comments: thread.comments.filter((comment) => !comment.isDeleted).map((comment) => comment.id),
+        },
+      ]),
+    ),
+  };
+}
+
+function detectThreadChanges(
+  pr: PullRequest,
+  previous: PullRequestSnapshot,
+  thread: CommentThread,
+  currentUserId?: string,
+): WatchEvent[] {
+  if (isSystemThread(thread)) {
+    return [];
+  }
+
+  const target = targetOf(pr);
+  const events: WatchEvent[] = [];
+  const before = previous.threads[thread.id];
+  const seen = new Set(before?.comments ?? []);
+
+  for (const comment of thread.comments) {
+    if (comment.isDeleted || seen.has(comment.id) || comment.commentType === CommentType.System) {
+      continue;
+    }
+
+    if (comment.author.id === currentUserId) {
+      continue;
+    }
+
+    const name = comment.author.displayName;
+    const where = thread.threadContext?.filePath ? ` on ${thread.threadContext.filePath}` : "";
+    const action = before || comment.parentCommentId ? `replied in thread ${thread.id}` : `started a thread${where}`;
+
+    events.push({
+      ...eventFor(target, WatchEventType.CommentAdded, `${name} ${action}: "${excerpt(comment.content)}"`),
+      author: name,
+      threadId: thread.id,
+      commentId: comment.id,
+    });
+  }
+
+  if (before && before.status !== thread.status) {
+    const wasOpen = UNRESOLVED_STATUSES.includes(before.status);
+    const isOpen = UNRESOLVED_STATUSES.includes(thread.status);
+
+    if (wasOpen !== isOpen) {
+      const type = isOpen ? WatchEventType.ThreadReopened : WatchEventType.ThreadResolved;
+      const message = isOpen
+        ? `Thread ${thread.id} was reopened`
+        : `Thread ${thread.id} was resolved (${thread.status})`;
+      events.push({ ...eventFor(target, type, message), threadId: thread.id, status: thread.status });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Compare a pull request and its threads with what the previous poll saw. Changes made by the
+ * current user are left out, since they already know about them.
+ */
+export function detectChanges(
+  previous: PullRequestSnapshot | undefined,
+  pr: PullRequest,
+  threads: CommentThread[],
+  currentUserId?: string,
+): WatchEvent[] {
+  const target = targetOf(pr);
+
+  if (!previous) {
+    if (pr.createdBy.id === currentUserId) {
+      return [];
+    }
+
+    const author = pr.createdBy.displayName;
+    return [{ ...eventFor(target, WatchEventType.PullRequestAdded, `${author} opened "${pr.title}"`), author }];
+  }
+
+  const events: WatchEvent[] = [];
+
+  for (const reviewer of pr.reviewers) {
+    const before = previous.votes[reviewer.id] ?? PullRequestVote.NoVote;
+
+    if (reviewer.vote !== before && reviewer.id !== currentUserId) {
+      const message =
+        reviewer.vote === PullRequestVote.NoVote
+          ? `${reviewer.displayName} reset their vote`
+          : `${reviewer.displayName} voted "${describeVote(reviewer.vote)}"`;
+      events.push({
+        ...eventFor(target, WatchEventType.VoteChanged, message),
+        author: reviewer.displayName,
+        vote: reviewer.vote,
+      });
+    }
+  }
+
+  if (pr.mergeStatus === "conflicts" && previous.mergeStatus !== "conflicts") {
+    events.push({
+      ...eventFor(target, WatchEventType.MergeConflict, "Merge conflicts with the target branch"),
+      status: pr.mergeStatus,
+    });
+  }
+
+  for (const thread of visibleThreads(threads)) {
+    events.push(...detectThreadChanges(pr, previous, thread, currentUserId));
+  }
+
+  return events;
+}
+
+/**
+ * Report a pull request that left the active list because it was completed or abandoned
+ */
+export function detectClosed(previous: PullRequestSnapshot, pr: PullRequest): WatchEvent | undefined {
+  if (pr.status === PullRequestStatus.Completed) {
+    return { ...eventFor(previous, WatchEventType.PullRequestCompleted, "Pull request completed"), status: pr.status };
+  }
+
+  if (pr.status === PullRequestStatus.Abandoned) {
+    return { ...eventFor(previous, WatchEventType.PullRequestAbandoned, "Pull request abandoned"), status: pr.status };
+  }
+
+  return undefined;
+}
@@ -0,0 +1,147 @@
+import { AzureApiService } from "../../../services/azure-api.service.js";
+import { AzureCliService } from "../../../services/azure-cli.service.js";
+import { ConfigService } from "../../../services/config.service.js";
+import { IdentityService } from "../../../services/identity.service.js";
+import { SnapshotStore } from "../../../services/snapshot.service.js";
+import { CommentThread } from "../../../types/comment.types.js";
+import {
+  OutputFormat,
+  PRWatchOptions,
+  PullRequest,
+  PullRequestRole,
+  PullRequestSnapshot,
+  PullRequestStatus,
+  WatchEvent,
+} from "../../../types/pull-request.types.js";
+import { CommentsService } from "../comments/comments.service.js";
+import { MyPRsService } from "../my-prs/my-prs.service.js";
+import { detectChanges, detectClosed, snapshotPullRequest } from "./watch.events.js";
+
+/**
+ * Outcome of one poll
+ */
+export interface WatchPollResult {
+  events: WatchEvent[];
+  /** True when there was no earlier snapshot, so this poll only recorded what it saw */
+  baseline: boolean;
+  watched: number;
+}
+
+export class WatchService {
+  private myPRsService: MyPRsService;
+  private commentsService: CommentsService;
+  private identityService: IdentityService;
+  private configService: ConfigService;
+  private store: SnapshotStore;
+  private currentUserId?: Promise<string | undefined>;
+
+  constructor(
+    azureApiService?: AzureApiService,
+    azureCliService?: AzureCliService,
+    configService?: ConfigService,
+    store?: SnapshotStore,
+    identityService?: IdentityService,
+    myPRsService?: MyPRsService,
+    commentsService?: CommentsService,
+  ) {
+    const cliService = azureCliService || new AzureCliService();
+    this.configService = configService || new ConfigService(cliService);
+    const apiService = azureApiService || new AzureApiService(this.configService);
+    this.identityService = identityService || new IdentityService(apiService);
+    this.myPRsService =
+      myPRsService || new MyPRsService(apiService, cliService, this.configService, this.identityService);
+    this.commentsService = commentsService || new CommentsService(apiService, cliService, this.configService);
+    this.store = store || new SnapshotStore();
+  }
+
+  get snapshotPath(): string {
+    return this.store.filePath;
+  }
+
+  /**
+   * Fetch my active pull requests and their threads, report what changed since the stored
+   * snapshot and store the new one. Nothing is stored when a request fails, so the next poll
+   * reports the same changes.
+   */
+  async poll(options: PRWatchOptions): Promise<WatchPollResult> {
+    const scope = await this.scopeOf(options);
+    const previous = this.store.load(scope);
+    const userId = await this.getCurrentUserId();
+
+    const pullRequests = await this.myPRsService.fetchMyPRs({
+      role: PullRequestRole.All,
+      status: PullRequestStatus.Active,
+      limit: options.top,
+      repo: options.repo,
+      project: options.project,
+      output: OutputFormat.Table,
+    });
+    const threadsPerPR = await Promise.all(pullRequests.map((pr) => this.fetchThreads(pr)));
+
+    const events: WatchEvent[] = [];
+    const snapshots: Record<string, PullRequestSnapshot> = {};
+
+    pullRequests.forEach((pr, index) => {
+      snapshots[pr.pullRequestId] = snapshotPullRequest(pr, threadsPerPR[index]);
+
+      if (previous) {
+        events.push(...detectChanges(previous.pullRequests[pr.pullRequestId], pr, threadsPerPR[index], userId));
+      }
+    });
+
+    for (const gone of Object.values(previous?.pullRequests ?? {})) {
+      if (!snapshots[gone.pullRequestId]) {
+        events.push(...(await this.checkClosed(gone, snapshots)));
+      }
+    }
+
+    this.store.save(scope, { updatedAt: new Date().toISOString(), pullRequests: snapshots });
+
+    return { events, baseline: !previous, watched: pullRequests.length };
+  }
+
+  /**
+   * A pull request missing from the active list was closed, or is no longer mine or beyond --top.
+   * Unless it was closed it stays in the snapshot, so a list that failed to load does not make it
+   * show up as new on the next poll.
+   */
+  private async checkClosed(
+    previous: PullRequestSnapshot,
+    snapshots: Record<string, PullRequestSnapshot>,
+  ): Promise<WatchEvent[]> {
+    const pr = await this.commentsService.fetchPRDetails(previous.pullRequestId, previous.project);
+    const event = pr ? detectClosed(previous, pr) : undefined;
+
+    if (!event) {
+      snapshots[previous.pullRequestId] = previous;
+      return [];
+    }
+
+    return [event];
+  }
+
+  private async fetchThreads(pr: PullRequest): Promise<CommentThread[]> {
+    const location = { project: pr.repository.project.name, repositoryId: pr.repository.id };
+    return this.commentsService.fetchThreadsAtLocation(location, pr.pullRequestId);
+  }
+
+  /**
+   * Snapshots are kept per organization and filter, so watching one repository does not report
+   * every other pull request as new
+   */
+  private async scopeOf(options: PRWatchOptions): Promise<string> {
+    const organization = (await this.configService.getOrganizationUrl()) ?? "";
+    return [organization, options.project ?? "", options.repo ?? ""].join("|");
+  }
+
+  /**
+   * My own comments and votes are not reported; without an identity everything is
+   */
+  private getCurrentUserId(): Promise<string | undefined> {
+    this.currentUserId ??= this.identityService.getCurrentUser().then(
+      (user) => user.id,
+      () => undefined,
+    );
+    return this.currentUserId;
+  }
+}
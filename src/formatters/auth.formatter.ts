@@ -0,0 +1,47 @@
+import chalk from "chalk";
+import { AuthStatus } from "../commands/auth/login.service.js";
+import { TokenSource } from "../services/auth.service.js";
+import { formatRelativeTime } from "./text.formatter.js";
+
+const SOURCE_LABELS: Record<TokenSource, string> = {
+  "environment-pat": "personal access token from AZURE_DEVOPS_EXT_PAT",
+  "environment-token": "access token from AZ_ACCESS_TOKEN",
+  "stored-pat": "personal access token stored with azc auth login",
+  "azure-cli": "Azure CLI (az login)",
+};
+
+/**
+ * The credential in use, whom it belongs to, and what is known about its scopes and expiry
+ */
+export function formatAuthStatus(status: AuthStatus): string {
+  const lines = [`Organization: ${status.organizationUrl ?? chalk.gray("(not configured)")}`];
+
+  lines.push(`Credential:   ${SOURCE_LABELS[status.source]}`);
+
+  if (status.storedAt) {
+    lines.push(`Stored:       ${formatRelativeTime(status.storedAt)}`);
+  }
+
+  if (status.identity) {
+    const { displayName, uniqueName } = status.identity;
+    lines.push(`Signed in as: ${chalk.bold(displayName)}${uniqueName ? ` <${uniqueName}>` : ""}`);
+  } else if (status.identityError) {
+    lines.push(`Signed in as: ${chalk.red(status.identityError)}`);
+  }
+
+  if (status.subscription) {
+    lines.push(`Subscription: ${status.subscription.name} (${status.subscription.id})`);
+  }
+
+  const unknown = chalk.gray("(not reported by the token)");
+  lines.push(`Scopes:       ${status.scopes?.join(", ") ?? unknown}`);
+  lines.push(`Expires:      ${status.expiresOn ? formatExpiry(status.expiresOn) : unknown}`);
+
+  return lines.join("\n");
+}
+
+function formatExpiry(expiresOn: Date): string {
+  const expired = expiresOn.getTime() <= Date.now();
+  const text = expiresOn.toLocaleString();
+  return expired ? chalk.red(`${text} (expired)`) : text;
+}
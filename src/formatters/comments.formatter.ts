@@ -1,5 +1,8 @@
 import chalk from "chalk";
-import { CommentThread, CommentThreadStatus, Comment } from "../types/comment.types.js";
+import { CommentThread, CommentThreadStatus, Comment, DisplayedThread } from "../types/comment.types.js";
+import { formatCodeSnippet } from "./diff.formatter.js";
+import { ItemRenderers, OutputColumn } from "./output.formatter.js";
+import { formatRelativeTime } from "./text.formatter.js";
 
 interface ChronologicalCommentItem {
   thread: CommentThread;
@@ -25,32 +28,7 @@ function formatThreadStatus(status: CommentThreadStatus): string {
   }
 }
 
-function formatRelativeTime(dateString: string): string {
-  const date = new Date(dateString);
-  const now = new Date();
-  const diffMs = now.getTime() - date.getTime();
-  const diffSecs = Math.floor(diffMs / 1000);
-  const diffMins = Math.floor(diffSecs / 60);
-  const diffHours = Math.floor(diffMins / 60);
-  const diffDays = Math.floor(diffHours / 24);
-
-  if (diffDays > 30) {
-    const diffMonths = Math.floor(diffDays / 30);
-    return `${diffMonths} month${diffMonths > 1 ? "s" : ""} ago`;
-  }
-  if (diffDays > 0) {
-    return `${diffDays} day${diffDays > 1 ? "s" : ""} ago`;
-  }
-  if (diffHours > 0) {
-    return `${diffHours} hour${diffHours > 1 ? "s" : ""} ago`;
-  }
-  if (diffMins > 0) {
-    return `${diffMins} minute${diffMins > 1 ? "s" : ""} ago`;
-  }
-  return "just now";
-}
-
-function formatThreadContext(thread: CommentThread): string | null {
+function describeThreadContext(thread: CommentThread): string | null {
   if (!thread.threadContext?.filePath) {
     return null;
   }
@@ -59,12 +37,21 @@ function formatThreadContext(thread: CommentThread): string | null {
 
   if (rightFileStart && rightFileEnd) {
     if (rightFileStart.line === rightFileEnd.line) {
-      return chalk.gray(`${filePath}:${rightFileStart.line}`);
+      return `${filePath}:${rightFileStart.line}`;
     }
-    return chalk.gray(`${filePath}:${rightFileStart.line}-${rightFileEnd.line}`);
+    return `${filePath}:${rightFileStart.line}-${rightFileEnd.line}`;
   }
 
-  return chalk.gray(filePath);
+  return filePath;
+}
+
+function formatThreadContext(thread: CommentThread): string | null {
+  const context = describeThreadContext(thread);
+  return context ? chalk.gray(context) : null;
+}
+
+function visibleComments(thread: CommentThread): Comment[] {
+  return thread.comments.filter((comment) => !comment.isDeleted);
 }
 
 function formatComment(comment: Comment, indent: string, isReply: boolean): string {
@@ -86,7 +73,7 @@ function buildCommentHeader(comment: Comment, indent: string, isReply: boolean):
 }
 
 function buildCommentContent(comment: Comment, indent: string): string[] {
-  const contentLines = comment.content.split("\n");
+  const contentLines = (comment.content || "(no content)").split("\n");
   return contentLines.map((line) => indent + "  " + line);
 }
 
@@ -106,13 +93,14 @@ function findRepliesToComment(replies: Comment[], commentId: number): Comment[]
 
 function formatThreadComments(thread: CommentThread): string[] {
   const lines: string[] = [];
+  const comments = visibleComments(thread);
 
-  if (thread.comments.length === 0) {
+  if (comments.length === 0) {
     lines.push(chalk.gray("  (No comments)"));
     return lines;
   }
 
-  const { rootComments, replies } = separateRootCommentsAndReplies(thread.comments);
+  const { rootComments, replies } = separateRootCommentsAndReplies(comments);
 
   rootComments.forEach((rootComment, idx) => {
     lines.push(formatComment(rootComment, "  ", false));
@@ -130,24 +118,33 @@ function formatThreadComments(thread: CommentThread): string[] {
   return lines;
 }
 
-function buildThreadHeader(thread: CommentThread, index: number): string[] {
+function buildThreadHeader(thread: DisplayedThread, index: number): string[] {
   const lines: string[] = [];
   const status = formatThreadStatus(thread.status);
   const context = formatThreadContext(thread);
 
   lines.push(
-    chalk.bold(`Thread #${index + 1}`) + " " + status + " " + chalk.gray(formatRelativeTime(thread.publishedDate)),
+    chalk.bold(`Thread #${index + 1}`) +
+      chalk.gray(` (ID: ${thread.id})`) +
+      " " +
+      status +
+      " " +
+      chalk.gray(formatRelativeTime(thread.publishedDate)),
   );
 
   if (context) {
     lines.push("  " + context);
   }
 
+  if (thread.code) {
+    lines.push("", formatCodeSnippet(thread.code, "    "));
+  }
+
   lines.push("");
   return lines;
 }
 
-function formatThread(thread: CommentThread, index: number): string {
+function formatThread(thread: DisplayedThread, index: number): string {
   const lines: string[] = [];
   lines.push(...buildThreadHeader(thread, index));
   lines.push(...formatThreadComments(thread));
@@ -162,7 +159,7 @@ function buildThreadedHeader(threadCount: number): string[] {
   return lines;
 }
 
-function formatThreadList(threads: CommentThread[]): string[] {
+function formatThreadList(threads: DisplayedThread[]): string[] {
   const lines: string[] = [];
 
   threads.forEach((thread, index) => {
@@ -178,7 +175,7 @@ function formatThreadList(threads: CommentThread[]): string[] {
   return lines;
 }
 
-export function formatCommentsThreaded(threads: CommentThread[]): string {
+export function formatCommentsThreaded(threads: DisplayedThread[]): string {
   if (threads.length === 0) {
     return chalk.yellow("No comments found.");
   }
@@ -195,7 +192,7 @@ function flattenCommentsFromThreads(threads: CommentThread[]): ChronologicalComm
   const allComments: ChronologicalCommentItem[] = [];
 
   threads.forEach((thread) => {
-    thread.comments.forEach((comment) => {
+    visibleComments(thread).forEach((comment) => {
       allComments.push({ thread, comment });
     });
   });
@@ -223,13 +220,17 @@ function formatChronologicalComment(thread: CommentThread, comment: Comment): st
   const lines: string[] = [];
   const context = formatThreadContext(thread);
 
-  lines.push(chalk.cyan(comment.author.displayName) + " " + chalk.gray(formatRelativeTime(comment.publishedDate)));
+  lines.push(
+    chalk.cyan(comment.author.displayName) +
+      " " +
+      chalk.gray(`${formatRelativeTime(comment.publishedDate)} • thread ${thread.id}`),
+  );
 
   if (context) {
     lines.push("  " + context);
   }
 
-  const contentLines = comment.content.split("\n");
+  const contentLines = (comment.content || "(no content)").split("\n");
   contentLines.forEach((line) => {
     lines.push("  " + line);
   });
@@ -267,3 +268,60 @@ export function formatCommentsChronological(threads: CommentThread[]): string {
 
   return lines.join("\n");
 }
+
+function buildMarkdownThread(thread: DisplayedThread): string[] {
+  const lines = [`### Thread ${thread.id} (${thread.status || "unknown"})`, ""];
+  const context = describeThreadContext(thread);
+
+  if (context) {
+    lines.push(`\`${context}\``, "");
+  }
+
+  if (thread.code) {
+    lines.push("```", ...thread.code.lines.map((line) => `${line.number}: ${line.content}`), "```", "");
+  }
+
+  visibleComments(thread).forEach((comment) => {
+    const prefix = comment.parentCommentId ? "↳ " : "";
+    lines.push(`**${prefix}${comment.author.displayName}** — ${comment.publishedDate}`, "");
+    lines.push(...(comment.content || "").split("\n").map((line) => `> ${line}`), "");
+  });
+
+  return lines;
+}
+
+export function formatCommentsMarkdown(threads: DisplayedThread[]): string {
+  if (threads.length === 0) {
+    return "_No comments found._";
+  }
+
+  return threads.flatMap(buildMarkdownThread).join("\n").trimEnd();
+}
+
+function findRootComment(thread: CommentThread): Comment | undefined {
+  const comments = visibleComments(thread);
+  return comments.find((comment) => !comment.parentCommentId) || comments[0];
+}
+
+const THREAD_COLUMNS: OutputColumn<DisplayedThread>[] = [
+  { header: "threadId", value: (thread) => thread.id },
+  { header: "status", value: (thread) => thread.status },
+  { header: "file", value: (thread) => thread.threadContext?.filePath },
+  { header: "line", value: (thread) => thread.threadContext?.rightFileStart?.line },
+  { header: "author", value: (thread) => findRootComment(thread)?.author.displayName },
+  { header: "published", value: (thread) => thread.publishedDate },
+  { header: "replies", value: (thread) => Math.max(0, visibleComments(thread).length - 1) },
+  { header: "content", value: (thread) => findRootComment(thread)?.content },
+];
+
+/**
+ * Renderers for comment threads; the table view lists threads, or every comment by date when chronological
+ */
+export function createCommentRenderers(chronological: boolean): ItemRenderers<DisplayedThread> {
+  return {
+    table: chronological ? formatCommentsChronological : formatCommentsThreaded,
+    markdown: formatCommentsMarkdown,
+    columns: THREAD_COLUMNS,
+  };
+}
+
@@ -0,0 +1,32 @@
+import chalk from "chalk";
+import { ConfigSetting, ConfigSource } from "../types/config.types.js";
+
+const SOURCE_LABELS: Record<ConfigSource, string> = {
+  environment: "environment",
+  repository: ".azcrc",
+  "git-remote": "git remote",
+  profile: "profile",
+  "azure-cli": "az devops defaults",
+};
+
+/**
+ * Every setting with its value and the layer it came from, under the active profile
+ */
+export function formatSettings(settings: ConfigSetting[], activeProfile: string, profiles: string[]): string {
+  const width = Math.max(...settings.map((setting) => setting.key.length));
+  const otherProfiles = profiles.filter((profile) => profile !== activeProfile);
+  const also = otherProfiles.length > 0 ? chalk.gray(` (also: ${otherProfiles.join(", ")})`) : "";
+
+  const lines = [`Profile: ${chalk.bold(activeProfile)}${also}`, ""];
+
+  for (const setting of settings) {
+    const key = setting.key.padEnd(width);
+    lines.push(
+      setting.value
+        ? `  ${key}  ${setting.value}  ${chalk.gray(`(${SOURCE_LABELS[setting.source ?? "profile"]})`)}`
+        : `  ${key}  ${chalk.gray("(not set)")}`,
+    );
+  }
+
+  return lines.join("\n");
+}
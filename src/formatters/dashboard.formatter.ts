@@ -0,0 +1,193 @@
+import chalk from "chalk";
+import { CommentThread } from "../types/comment.types.js";
+import { PullRequest, PullRequestVote } from "../types/pull-request.types.js";
+import { DashboardDetail, DashboardState } from "../commands/pr/dashboard/dashboard.state.js";
+import { formatCommentsThreaded } from "./comments.formatter.js";
+import { formatRelativeTime, getBranchName } from "./text.formatter.js";
+
+const ANSI_PATTERN = /\x1b\[[0-9;]*m/g;
+
+/**
+ * Rows used by the title bar, status line and key help
+ */
+export const DASHBOARD_CHROME_ROWS = 3;
+
+function visibleLength(text: string): number {
+  return text.replace(ANSI_PATTERN, "").length;
+}
+
+/**
+ * Cut a (possibly coloured) line to the terminal width so it never wraps
+ */
+function fitLine(line: string, width: number): string {
+  if (visibleLength(line) <= width) {
+    return line;
+  }
+
+  let visible = 0;
+  let result = "";
+  let index = 0;
+
+  while (index < line.length && visible < width - 1) {
+    const escape = /^\x1b\[[0-9;]*m/.exec(line.slice(index));
+
+    if (escape) {
+      result += escape[0];
+      index += escape[0].length;
+    } else {
+      result += line[index];
+      visible++;
+      index++;
+    }
+  }
+
+  return result + "…\x1b[0m";
+}
+
+function truncate(text: string, width: number): string {
+  return text.length > width ? text.slice(0, Math.max(width - 1, 0)) + "…" : text.padEnd(width);
+}
+
+function formatVoteSummary(pr: PullRequest): string {
+  const approved = pr.reviewers.filter((reviewer) => reviewer.vote >= PullRequestVote.ApprovedWithSuggestions).length;
+  const blocking = pr.reviewers.filter((reviewer) => reviewer.vote < PullRequestVote.NoVote).length;
+
+  return [approved > 0 ? chalk.green(`✓${approved}`) : "", blocking > 0 ? chalk.red(`✗${blocking}`) : ""]
+    .filter(Boolean)
+    .join(" ");
+}
+
+function formatPRRow(pr: PullRequest, width: number, selected: boolean): string {
+  const id = `#${pr.pullRequestId}`.padEnd(8);
+  const repo = truncate(pr.repository.name, 20);
+  const age = formatRelativeTime(pr.creationDate).padEnd(15);
+  const flags = pr.isDraft ? "draft " : "";
+  const titleWidth = Math.max(width - 2 - id.length - repo.length - age.length - flags.length - 12, 10);
+  const title = truncate(pr.title, titleWidth);
+
+  if (selected) {
+    return chalk.inverse(`▶ ${id}${title} ${flags}${repo} ${age}`) + " " + formatVoteSummary(pr);
+  }
+
+  return (
+    `  ${chalk.cyan(id)}${title} ${chalk.yellow(flags)}${chalk.gray(repo)} ${chalk.gray(age)} ` +
+    formatVoteSummary(pr)
+  );
+}
+
+function buildListLines(state: DashboardState, width: number): { lines: string[]; cursorLine: number } {
+  const lines: string[] = [];
+  let cursorLine = 0;
+  let index = 0;
+
+  state.groups.forEach((group, groupIndex) => {
+    if (groupIndex > 0) {
+      lines.push("");
+    }
+
+    lines.push(chalk.bold(`${group.title} (${group.pullRequests.length})`));
+
+    if (group.pullRequests.length === 0) {
+      lines.push(chalk.gray("  (none)"));
+    }
+
+    group.pullRequests.forEach((pr) => {
+      if (index === state.cursor) {
+        cursorLine = lines.length;
+      }
+
+      lines.push(formatPRRow(pr, width, index === state.cursor));
+      index++;
+    });
+  });
+
+  return { lines, cursorLine };
+}
+
+function buildDetailLines(detail: DashboardDetail): string[] {
+  const selectedOffset = detail.threadOffsets[detail.selectedThread];
+
+  return detail.lines.map((line, index) =>
+    index === selectedOffset && detail.threads.length > 0 ? `${chalk.cyan("▶")} ${line}` : `  ${line}`,
+  );
+}
+
+/**
+ * Render the pull request header and its threads the way `pr-comments` shows them, noting the line
+ * each thread starts on
+ */
+export function formatDashboardDetail(
+  pr: PullRequest,
+  threads: CommentThread[],
+): { lines: string[]; threadOffsets: number[] } {
+  const header = [
+    chalk.bold(`#${pr.pullRequestId} ${pr.title}`) + (pr.isDraft ? chalk.yellow(" [DRAFT]") : ""),
+    chalk.gray(
+      `${pr.createdBy.displayName} • ${getBranchName(pr.sourceRefName)} → ${getBranchName(pr.targetRefName)} • ` +
+        pr.repository.name,
+    ),
+  ];
+  const body = formatCommentsThreaded(threads).split("\n");
+  const lines = [...header, ...body];
+  const threadOffsets = threads.map((thread) =>
+    lines.findIndex((line) => line.replace(ANSI_PATTERN, "").includes(`(ID: ${thread.id})`)),
+  );
+
+  return { lines, threadOffsets };
+}
+
+function buildTitleBar(state: DashboardState): string {
+  const count = state.groups.reduce((total, group) => total + group.pullRequests.length, 0);
+  const context = state.detail
+    ? `PR #${state.detail.pr.pullRequestId} • ${state.detail.threads.length} threads`
+    : `${count} pull request${count !== 1 ? "s" : ""}`;
+
+  return chalk.inverse(" azc pr dashboard ") + " " + chalk.gray(context);
+}
+
+function buildStatusLine(state: DashboardState): string {
+  if (state.votePrompt) {
+    return chalk.yellow("Vote: [a]pprove  [s]uggest  [w]ait for author  re[x]ect  [0] reset  (other keys cancel)");
+  }
+
+  if (!state.message) {
+    return "";
+  }
+
+  if (state.busy) {
+    return chalk.gray(`… ${state.message}`);
+  }
+
+  return state.error ? chalk.red(state.message) : chalk.green(state.message);
+}
+
+function buildKeyHelp(state: DashboardState): string {
+  const keys = state.detail
+    ? "↑↓ scroll  n/p thread  c reply  x resolve  v vote  o browser  r refresh  ← back  q quit"
+    : "↑↓ move  ⏎ comments  v vote  o browser  r refresh  q quit";
+
+  return chalk.gray(keys);
+}
+
+/**
+ * Render the full screen: exactly `height` lines, none wider than `width`
+ */
+export function renderDashboard(state: DashboardState, width: number, height: number): string[] {
+  const contentHeight = Math.max(height - DASHBOARD_CHROME_ROWS, 1);
+  let content: string[];
+
+  if (state.detail) {
+    content = buildDetailLines(state.detail).slice(state.detail.scroll, state.detail.scroll + contentHeight);
+  } else {
+    const { lines, cursorLine } = buildListLines(state, width);
+    // Keep the cursor row in the middle of the screen once the list is taller than it
+    const start = Math.max(0, Math.min(cursorLine - Math.floor(contentHeight / 2), lines.length - contentHeight));
+    content = lines.slice(start, start + contentHeight);
+  }
+
+  const padding = Array<string>(contentHeight - content.length).fill("");
+
+  return [buildTitleBar(state), ...content, ...padding, buildStatusLine(state), buildKeyHelp(state)].map((line) =>
+    fitLine(line, width),
+  );
+}
@@ -0,0 +1,150 @@
+import chalk from "chalk";
+import { CodeSnippet } from "../types/comment.types.js";
+import {
+  DiffHunk,
+  FileChange,
+  FileDiff,
+  PullRequestChanges,
+  PullRequestDiff,
+  PullRequestIteration,
+} from "../types/pull-request.types.js";
+import { formatRelativeTime } from "./text.formatter.js";
+
+function stripLeadingSlash(path: string): string {
+  return path.replace(/^\/+/, "");
+}
+
+function formatChangeType(changeType: string): string {
+  const flags = changeType.split(",").map((flag) => flag.trim());
+
+  if (flags.includes("add")) {
+    return chalk.green("added   ");
+  }
+  if (flags.includes("delete")) {
+    return chalk.red("deleted ");
+  }
+  if (flags.includes("rename")) {
+    return chalk.blue("renamed ");
+  }
+  return chalk.yellow("modified");
+}
+
+function describeFile(change: FileChange): string {
+  const path = stripLeadingSlash(change.path);
+  return change.originalPath ? `${stripLeadingSlash(change.originalPath)} → ${path}` : path;
+}
+
+function buildIterationHeader(prId: number, iteration: PullRequestIteration): string[] {
+  const description = iteration.description ? `: ${iteration.description}` : "";
+  const author = iteration.author ? ` by ${chalk.cyan(iteration.author.displayName)}` : "";
+  const commit = iteration.sourceRefCommit.commitId.slice(0, 8);
+
+  return [
+    "",
+    chalk.bold(`PR #${prId} • Iteration ${iteration.id}`) + chalk.white(description),
+    "  " + chalk.gray(`${commit} pushed ${formatRelativeTime(iteration.createdDate)}`) + author,
+    "",
+  ];
+}
+
+function formatHunkHeader(hunk: DiffHunk): string {
+  return chalk.cyan(`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`);
+}
+
+function formatHunk(hunk: DiffHunk): string[] {
+  const lines = hunk.lines.map((line) => {
+    switch (line.type) {
+      case "add":
+        return chalk.green(`+${line.content}`);
+      case "remove":
+        return chalk.red(`-${line.content}`);
+      default:
+        return ` ${line.content}`;
+    }
+  });
+
+  return [formatHunkHeader(hunk), ...lines];
+}
+
+function formatFileDiff(file: FileDiff): string[] {
+  const flags = file.changeType.split(",").map((flag) => flag.trim());
+  const oldPath = stripLeadingSlash(file.originalPath || file.path);
+  const newPath = stripLeadingSlash(file.path);
+
+  const lines = [chalk.bold(`diff --git a/${oldPath} b/${newPath}`)];
+
+  if (file.binary) {
+    lines.push(chalk.gray("Binary file not shown"));
+    return lines;
+  }
+
+  if (file.hunks.length === 0) {
+    lines.push(chalk.gray("No content changes"));
+    return lines;
+  }
+
+  lines.push(chalk.bold(flags.includes("add") ? "--- /dev/null" : `--- a/${oldPath}`));
+  lines.push(chalk.bold(flags.includes("delete") ? "+++ /dev/null" : `+++ b/${newPath}`));
+  file.hunks.forEach((hunk) => lines.push(...formatHunk(hunk)));
+
+  return lines;
+}
+
+/**
+ * List the files changed in an iteration, one per line with their change type
+ */
+export function formatDiffStat(changes: PullRequestChanges): string {
+  const lines = buildIterationHeader(changes.pullRequestId, changes.iteration);
+
+  if (changes.changes.length === 0) {
+    lines.push(chalk.yellow("No changed files."), "");
+    return lines.join("\n");
+  }
+
+  changes.changes.forEach((change) => lines.push(`  ${formatChangeType(change.changeType)}  ${describeFile(change)}`));
+  lines.push("", chalk.gray(`${changes.changes.length} file${changes.changes.length !== 1 ? "s" : ""} changed`), "");
+
+  return lines.join("\n");
+}
+
+/**
+ * Render line diffs in unified diff format, colored like `git diff`
+ */
+export function formatUnifiedDiff(diff: PullRequestDiff): string {
+  const lines = buildIterationHeader(diff.pullRequestId, diff.iteration);
+
+  if (diff.files.length === 0) {
+    lines.push(chalk.yellow("No changed files."), "");
+    return lines.join("\n");
+  }
+
+  diff.files.forEach((file) => lines.push(...formatFileDiff(file), ""));
+
+  const additions = diff.files.reduce((total, file) => total + file.additions, 0);
+  const deletions = diff.files.reduce((total, file) => total + file.deletions, 0);
+  lines.push(
+    chalk.gray(`${diff.files.length} file${diff.files.length !== 1 ? "s" : ""} changed, `) +
+      chalk.green(`${additions} insertion${additions !== 1 ? "s" : ""}(+)`) +
+      chalk.gray(", ") +
+      chalk.red(`${deletions} deletion${deletions !== 1 ? "s" : ""}(-)`),
+    "",
+  );
+
+  return lines.join("\n");
+}
+
+/**
+ * Render the code around a thread with line numbers, marking the commented lines
+ */
+export function formatCodeSnippet(snippet: CodeSnippet, indent = "  "): string {
+  const width = String(snippet.lines[snippet.lines.length - 1]?.number ?? 0).length;
+
+  return snippet.lines
+    .map((line) => {
+      const number = String(line.number).padStart(width);
+      return line.highlighted
+        ? indent + chalk.yellow(`${number} │ `) + line.content
+        : indent + chalk.gray(`${number} │ ${line.content}`);
+    })
+    .join("\n");
+}
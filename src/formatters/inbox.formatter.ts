@@ -0,0 +1,76 @@
+import chalk from "chalk";
+import { AttentionReasonType, InboxItem } from "../types/pull-request.types.js";
+import { escapeMarkdownCell, ItemRenderers, OutputColumn } from "./output.formatter.js";
+import { formatRelativeTime } from "./text.formatter.js";
+
+const REASON_COLORS: Record<AttentionReasonType, (text: string) => string> = {
+  [AttentionReasonType.ChangesRequested]: chalk.red,
+  [AttentionReasonType.NewReplies]: chalk.yellow,
+  [AttentionReasonType.NotVoted]: chalk.cyan,
+  [AttentionReasonType.PushedSinceVote]: chalk.blue,
+  [AttentionReasonType.ActiveThreads]: chalk.yellow,
+};
+
+function describeReasons(item: InboxItem): string {
+  return item.reasons.map((reason) => reason.message).join("; ");
+}
+
+function formatInboxItem(item: InboxItem, rank: number): string {
+  const pr = item.pullRequest;
+  const header =
+    chalk.bold(`${rank}. #${pr.pullRequestId}`) +
+    " " +
+    chalk.white(pr.title) +
+    (pr.isDraft ? chalk.yellow(" [DRAFT]") : "");
+  const age = formatRelativeTime(pr.creationDate);
+  const details = chalk.gray(`  ${pr.repository.name} • ${item.role} • by ${pr.createdBy.displayName}, ${age}`);
+  const reasons = item.reasons.map((reason) => `  ${REASON_COLORS[reason.type]("•")} ${reason.message}`);
+
+  return [header, details, ...reasons].join("\n");
+}
+
+export function formatInboxTable(items: InboxItem[]): string {
+  if (items.length === 0) {
+    return chalk.green("Nothing is waiting on you.");
+  }
+
+  const count = `${items.length} pull request${items.length !== 1 ? "s" : ""}`;
+  const entries = items.map((item, index) => formatInboxItem(item, index + 1));
+
+  return ["", chalk.bold(`${count} waiting on you, most urgent first:`), "", entries.join("\n\n"), ""].join("\n");
+}
+
+export function formatInboxMarkdown(items: InboxItem[]): string {
+  if (items.length === 0) {
+    return "_Nothing is waiting on you._";
+  }
+
+  const lines = ["| # | PR | Title | Role | Repository | Why |", "| --- | --- | --- | --- | --- | --- |"];
+
+  items.forEach((item, index) => {
+    const pr = item.pullRequest;
+    lines.push(
+      `| ${index + 1} | !${pr.pullRequestId} | ${escapeMarkdownCell(pr.title)} | ${item.role} | ` +
+        `${escapeMarkdownCell(pr.repository.name)} | ${escapeMarkdownCell(describeReasons(item))} |`,
+    );
+  });
+
+  return lines.join("\n");
+}
+
+const INBOX_COLUMNS: OutputColumn<InboxItem>[] = [
+  { header: "id", value: (item) => item.pullRequest.pullRequestId },
+  { header: "title", value: (item) => item.pullRequest.title },
+  { header: "role", value: (item) => item.role },
+  { header: "urgency", value: (item) => item.urgency },
+  { header: "reasons", value: (item) => describeReasons(item) },
+  { header: "author", value: (item) => item.pullRequest.createdBy.displayName },
+  { header: "created", value: (item) => item.pullRequest.creationDate },
+  { header: "repository", value: (item) => item.pullRequest.repository.name },
+];
+
+export const inboxRenderers: ItemRenderers<InboxItem> = {
+  table: formatInboxTable,
+  markdown: formatInboxMarkdown,
+  columns: INBOX_COLUMNS,
+};
@@ -0,0 +1,322 @@
+import { OutputFormat } from "../types/pull-request.types.js";
+import { compileQuery, CompiledQuery } from "./query.formatter.js";
+import { renderTemplate } from "./template.formatter.js";
+
+/**
+ * Output format names; the PR and comment OutputFormat enums share these values
+ */
+export type OutputFormatName = `${OutputFormat}`;
+
+/**
+ * A column of CSV/TSV output
+ */
+export interface OutputColumn<T> {
+  header: string;
+  value: (item: T) => string | number | boolean | undefined;
+}
+
+/**
+ * How one kind of item (pull requests, comment threads, ...) is rendered in the human-oriented formats.
+ * JSON and YAML are generic and need no per-item rendering.
+ */
+export interface ItemRenderers<T> {
+  table: (items: T[]) => string;
+  markdown: (items: T[]) => string;
+  columns: OutputColumn<T>[];
+}
+
+type Renderer = <T>(items: T[], renderers: ItemRenderers<T>) => string;
+
+const RENDERERS: Record<OutputFormatName, Renderer> = {
+  table: (items, renderers) => renderers.table(items),
+  json: (items) => JSON.stringify(items, null, 2),
+  markdown: (items, renderers) => renderers.markdown(items),
+  csv: (items, renderers) => formatDelimited(items, renderers.columns, ","),
+  tsv: (items, renderers) => formatDelimited(items, renderers.columns, "\t"),
+  yaml: (items) => formatYaml(items),
+};
+
+/**
+ * Reshaping applied before rendering: a JMESPath `--query` over the whole result,
+ * then either `--fields` picking one column per expression from each item
+ * or a `--template` rendered once per item in place of the output format
+ */
+export interface OutputShaping {
+  query?: string;
+  fields?: string[];
+  template?: string;
+}
+
+/**
+ * Render a list of items in the requested output format
+ */
+export function renderOutput<T>(
+  items: T[],
+  format: OutputFormatName,
+  renderers: ItemRenderers<T>,
+  shaping: OutputShaping = {},
+): string {
+  const render = RENDERERS[format];
+
+  if (!render) {
+    throw new Error(`Unsupported output format: ${format}`);
+  }
+
+  if (!shaping.query && !shaping.fields && !shaping.template) {
+    return render(items, renderers);
+  }
+
+  const data = shaping.query ? compileQuery(shaping.query).search(toJson(items)) : toJson(items);
+
+  if (shaping.template) {
+    return renderTemplate(shaping.template, Array.isArray(data) ? data : [data]);
+  }
+
+  return renderShaped(data, format, shaping.fields);
+}
+
+/**
+ * Render a single result, such as a pull request or a status, with its own view of the requested format. JSON
+ * needs no view. With `--query` or `--fields` the result is reshaped and rendered like the items of a list.
+ */
+export function renderResult(
+  value: unknown,
+  format: OutputFormatName,
+  view: (format: OutputFormatName) => string,
+  shaping: OutputShaping = {},
+): string {
+  if (!RENDERERS[format]) {
+    throw new Error(`Unsupported output format: ${format}`);
+  }
+
+  if (!shaping.query && !shaping.fields) {
+    return format === OutputFormat.Json ? JSON.stringify(value, null, 2) : view(format);
+  }
+
+  const data = shaping.query ? compileQuery(shaping.query).search(toJson(value)) : toJson(value);
+  return renderShaped(data, format, shaping.fields);
+}
+
+/**
+ * The result no longer has the items' shape, so render it generically from its keys or the field list
+ */
+function renderShaped(data: unknown, format: OutputFormatName, fields?: string[]): string {
+  const rows = fields ? projectFields(data, fields) : data;
+  const columns = inferColumns(rows, fields);
+
+  // JSON and YAML print a scalar or object result as-is; the tabular formats need a list of rows
+  const isGeneric = format === OutputFormat.Json || format === OutputFormat.Yaml;
+  const values = (isGeneric || Array.isArray(rows) ? rows : [rows]) as unknown[];
+
+  return RENDERERS[format](values, {
+    table: (values) => formatGenericTable(values, columns),
+    markdown: (values) => formatGenericMarkdown(values, columns),
+    columns,
+  });
+}
+
+/**
+ * Split a `--fields` list on top-level commas (commas inside brackets, braces or quotes belong to the
+ * expression) and check each field parses
+ */
+export function parseFields(value: string): string[] {
+  const fields: string[] = [];
+  let depth = 0;
+  let quote: string | undefined;
+  let current = "";
+
+  for (const char of value) {
+    if (quote) {
+      quote = char === quote ? undefined : quote;
+    } else if (char === "'" || char === '"' || char === "`") {
+      quote = char;
+    } else if ("[{(".includes(char)) {
+      depth++;
+    } else if ("]})".includes(char)) {
+      depth--;
+    } else if (char === "," && depth === 0) {
+      fields.push(current.trim());
+      current = "";
+      continue;
+    }
+
+    current += char;
+  }
+
+  fields.push(current.trim());
+
+  if (fields.some((field) => !field)) {
+    throw new Error(`Invalid fields: ${value}. Use a comma-separated list such as id,title,createdBy.displayName`);
+  }
+
+  fields.forEach((field) => compileQuery(field));
+  return fields;
+}
+
+function toJson(value: unknown): unknown {
+  return JSON.parse(JSON.stringify(value ?? null));
+}
+
+/**
+ * One flat object per item, keyed by the field expressions as written
+ */
+function projectFields(data: unknown, fields: string[]): Record<string, unknown>[] {
+  const queries: CompiledQuery[] = fields.map((field) => compileQuery(field));
+  const items = Array.isArray(data) ? data : [data];
+
+  return items.map((item) => Object.fromEntries(queries.map((query) => [query.expression, query.search(item)])));
+}
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+
+  if (Array.isArray(value) && value.every((element) => typeof element !== "object" || element === null)) {
+    return value.map((element) => formatCell(element)).join(", ");
+  }
+
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function inferColumns(rows: unknown, fields?: string[]): OutputColumn<unknown>[] {
+  const values = Array.isArray(rows) ? rows : [rows];
+  const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+  if (!fields && (values.length === 0 || !values.every(isRecord))) {
+    return [{ header: "Result", value: (row) => formatCell(row) }];
+  }
+
+  const keys = fields ?? [...new Set(values.flatMap((value) => Object.keys(value)))];
+  return keys.map((key) => ({ header: key, value: (row) => formatCell((row as Record<string, unknown>)[key]) }));
+}
+
+function formatGenericTable(rows: unknown[], columns: OutputColumn<unknown>[]): string {
+  const cells = rows.map((row) => columns.map((column) => String(column.value(row) ?? "").replace(/\r?\n/g, " ")));
+  const widths = columns.map((column, index) =>
+    Math.max(column.header.length, ...cells.map((row) => row[index].length)),
+  );
+  const formatRow = (row: string[]) =>
+    row
+      .map((cell, index) => cell.padEnd(widths[index]))
+      .join("  ")
+      .trimEnd();
+
+  return [
+    formatRow(columns.map((column) => column.header)),
+    formatRow(widths.map((width) => "-".repeat(width))),
+    ...cells.map(formatRow),
+  ].join("\n");
+}
+
+function formatGenericMarkdown(rows: unknown[], columns: OutputColumn<unknown>[]): string {
+  const formatRow = (cells: string[]) => `| ${cells.map(escapeMarkdownCell).join(" | ")} |`;
+
+  return [
+    formatRow(columns.map((column) => column.header)),
+    `|${columns.map(() => " --- ").join("|")}|`,
+    ...rows.map((row) => formatRow(columns.map((column) => String(column.value(row) ?? "")))),
+  ].join("\n");
+}
+
+/**
+ * Keep a value inside one markdown table cell
+ */
+export function escapeMarkdownCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+function escapeCsvValue(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function escapeTsvValue(value: string): string {
+  return value.replace(/[\t\r\n]+/g, " ");
+}
+
+/**
+ * CSV (RFC 4180 quoting) or TSV (tabs and newlines flattened to spaces) with a header row
+ */
+export function formatDelimited<T>(items: T[], columns: OutputColumn<T>[], delimiter: "," | "\t"): string {
+  const escape = delimiter === "," ? escapeCsvValue : escapeTsvValue;
+  const rows = [
+    columns.map((column) => escape(column.header)),
+    ...items.map((item) => columns.map((column) => escape(String(column.value(item) ?? "")))),
+  ];
+
+  return rows.map((row) => row.join(delimiter)).join("\n");
+}
+
+function formatYamlScalar(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "null";
+  }
+
+  if (typeof value === "number" || typeof value === "boolean") {
+    return String(value);
+  }
+
+  const text = String(value);
+  const plain =
+    text !== "" &&
+    !/^[\s\-?:,[\]{}#&*!|>'"%@`]/.test(text) &&
+    !/[:#]\s|\s$|:$|[\r\n\t]/.test(text) &&
+    !/^(true|false|null|yes|no|on|off|~)$/i.test(text) &&
+    !/^[\d.+]/.test(text);
+
+  return plain ? text : JSON.stringify(text);
+}
+
+function isEmptyCollection(value: unknown): boolean {
+  return Array.isArray(value) ? value.length === 0 : Object.keys(value as object).length === 0;
+}
+
+function formatYamlValue(value: object, indent: string): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((element) => formatYamlEntry("- ", element, indent));
+  }
+
+  return Object.entries(value as Record<string, unknown>)
+    .filter(([, child]) => child !== undefined)
+    .flatMap(([key, child]) => formatYamlEntry(`${formatYamlScalar(key)}:`, child, indent));
+}
+
+function formatYamlEntry(prefix: string, value: unknown, indent: string): string[] {
+  const isSequenceItem = prefix === "- ";
+
+  if (value === null || typeof value !== "object") {
+    return [`${indent}${prefix}${isSequenceItem ? "" : " "}${formatYamlScalar(value)}`];
+  }
+
+  if (isEmptyCollection(value)) {
+    return [`${indent}${prefix}${isSequenceItem ? "" : " "}${Array.isArray(value) ? "[]" : "{}"}`];
+  }
+
+  const childIndent = indent + "  ";
+  const childLines = formatYamlValue(value, childIndent);
+
+  if (isSequenceItem) {
+    // Put the first key of a mapping (or first item of a nested list) on the dash line
+    return [`${indent}- ${childLines[0].slice(childIndent.length)}`, ...childLines.slice(1)];
+  }
+
+  return [`${indent}${prefix}`, ...childLines];
+}
+
+/**
+ * Serialize JSON-compatible data as YAML
+ */
+export function formatYaml(value: unknown): string {
+  const data = JSON.parse(JSON.stringify(value ?? null));
+
+  if (data === null || typeof data !== "object") {
+    return formatYamlScalar(data);
+  }
+
+  if (isEmptyCollection(data)) {
+    return Array.isArray(data) ? "[]" : "{}";
+  }
+
+  return formatYamlValue(data, "").join("\n");
+}
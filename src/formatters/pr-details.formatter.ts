@@ -0,0 +1,222 @@
+import chalk from "chalk";
+import {
+  LinkedWorkItem,
+  PolicyEvaluation,
+  PullRequest,
+  PullRequestDetails,
+  Reviewer,
+  ThreadCounts,
+} from "../types/pull-request.types.js";
+import { escapeMarkdownCell } from "./output.formatter.js";
+import { formatStatus, formatVote } from "./pr-table.formatter.js";
+import { describeVote, formatRelativeTime, getBranchName } from "./text.formatter.js";
+
+function describeMergeStatus(mergeStatus?: string): string {
+  switch (mergeStatus) {
+    case "succeeded":
+      return "Succeeded";
+    case "conflicts":
+      return "Conflicts";
+    case "queued":
+      return "Queued";
+    case "rejectedByPolicy":
+      return "Rejected by policy";
+    case "failure":
+      return "Failure";
+    case "notSet":
+    case undefined:
+      return "Not set";
+    default:
+      return mergeStatus;
+  }
+}
+
+function formatMergeStatus(mergeStatus?: string): string {
+  const label = describeMergeStatus(mergeStatus);
+
+  switch (mergeStatus) {
+    case "succeeded":
+      return chalk.green(label);
+    case "conflicts":
+    case "rejectedByPolicy":
+    case "failure":
+      return chalk.red(label);
+    case "queued":
+      return chalk.yellow(label);
+    default:
+      return chalk.gray(label);
+  }
+}
+
+function describePolicy(policy: PolicyEvaluation): string {
+  const typeName = policy.configuration.type.displayName;
+  const settingsName = policy.configuration.settings?.displayName;
+  return settingsName ? `${typeName} (${settingsName})` : typeName;
+}
+
+function formatPolicyStatus(status: string): string {
+  switch (status) {
+    case "approved":
+      return chalk.green("✓ Approved");
+    case "rejected":
+    case "broken":
+      return chalk.red(`✗ ${status === "broken" ? "Broken" : "Rejected"}`);
+    case "running":
+      return chalk.yellow("● Running");
+    case "queued":
+      return chalk.yellow("● Queued");
+    case "notApplicable":
+      return chalk.gray("- Not applicable");
+    default:
+      return status;
+  }
+}
+
+function describeWorkItem(workItem: LinkedWorkItem): string {
+  const type = workItem.workItemType ? `[${workItem.workItemType}] ` : "";
+  const state = workItem.state ? ` (${workItem.state})` : "";
+  return `#${workItem.id} ${type}${workItem.title || ""}`.trimEnd() + state;
+}
+
+function describeAutoComplete(pr: PullRequest): string {
+  const strategy = pr.completionOptions?.mergeStrategy ? `, ${pr.completionOptions.mergeStrategy}` : "";
+  return `On (set by ${pr.autoCompleteSetBy?.displayName}${strategy})`;
+}
+
+function describeThreadCounts(threads: ThreadCounts): string {
+  return `${threads.active} active, ${threads.resolved} resolved`;
+}
+
+function buildHeaderSection(pr: PullRequest): string[] {
+  return [
+    chalk.bold(`#${pr.pullRequestId}`) + " " + chalk.white(pr.title) + (pr.isDraft ? chalk.yellow(" [DRAFT]") : ""),
+    "  " +
+      formatStatus(pr.status) +
+      " • " +
+      chalk.gray(`Created ${formatRelativeTime(pr.creationDate)}`) +
+      " by " +
+      chalk.cyan(pr.createdBy.displayName),
+    "  " + chalk.gray(`Repository: ${pr.repository.name}`),
+    "  " + chalk.gray(`${getBranchName(pr.sourceRefName)} → ${getBranchName(pr.targetRefName)}`),
+    "  Merge status: " + formatMergeStatus(pr.mergeStatus),
+    "  Draft: " + (pr.isDraft ? chalk.yellow("Yes") : "No"),
+    "  Auto-complete: " + (pr.autoCompleteSetBy ? chalk.green(describeAutoComplete(pr)) : "Off"),
+  ];
+}
+
+function buildDescriptionSection(pr: PullRequest): string[] {
+  if (!pr.description?.trim()) {
+    return [];
+  }
+
+  return ["", "  Description:", ...pr.description.trim().split("\n").map((line) => `    ${line}`)];
+}
+
+function buildReviewerSection(reviewers: Reviewer[]): string[] {
+  if (reviewers.length === 0) {
+    return ["", "  Reviewers: " + chalk.gray("none")];
+  }
+
+  const lines = reviewers.map((reviewer) => {
+    const required = reviewer.isRequired ? chalk.magenta(" (required)") : "";
+    return `    ${reviewer.displayName}${required}: ${formatVote(reviewer.vote)}`;
+  });
+
+  return ["", "  Reviewers:", ...lines];
+}
+
+function buildWorkItemSection(workItems: LinkedWorkItem[]): string[] {
+  if (workItems.length === 0) {
+    return ["", "  Work items: " + chalk.gray("none")];
+  }
+
+  return ["", "  Work items:", ...workItems.map((workItem) => `    ${describeWorkItem(workItem)}`)];
+}
+
+function buildPolicySection(policies: PolicyEvaluation[], policyError?: string): string[] {
+  if (policyError) {
+    return ["", "  Policies: " + chalk.yellow(`policy status unavailable (${policyError})`)];
+  }
+
+  if (policies.length === 0) {
+    return ["", "  Policies: " + chalk.gray("none")];
+  }
+
+  const lines = policies.map((policy) => {
+    const optional = policy.configuration.isBlocking ? "" : chalk.gray(" (optional)");
+    return `    ${describePolicy(policy)}${optional}: ${formatPolicyStatus(policy.status)}`;
+  });
+
+  return ["", "  Policies:", ...lines];
+}
+
+export function formatPRDetailsView(details: PullRequestDetails): string {
+  const { pullRequest, workItems, policies, policyError, threads } = details;
+
+  const lines: string[] = [""];
+  lines.push(...buildHeaderSection(pullRequest));
+  lines.push(...buildDescriptionSection(pullRequest));
+  lines.push(...buildReviewerSection(pullRequest.reviewers));
+  lines.push(...buildWorkItemSection(workItems));
+  lines.push(...buildPolicySection(policies, policyError));
+  lines.push("", "  Threads: " + describeThreadCounts(threads));
+  lines.push("");
+
+  return lines.join("\n");
+}
+
+export function formatPRDetailsMarkdown(details: PullRequestDetails): string {
+  const { pullRequest: pr, workItems, policies, policyError, threads } = details;
+  const lines: string[] = [];
+
+  lines.push(`# !${pr.pullRequestId} ${pr.title}${pr.isDraft ? " (draft)" : ""}`);
+  lines.push("");
+  lines.push(`- **Status:** ${pr.status}`);
+  lines.push(`- **Author:** ${pr.createdBy.displayName}`);
+  lines.push(`- **Created:** ${pr.creationDate}`);
+  lines.push(`- **Repository:** ${pr.repository.name}`);
+  lines.push(`- **Branches:** \`${getBranchName(pr.sourceRefName)}\` → \`${getBranchName(pr.targetRefName)}\``);
+  lines.push(`- **Merge status:** ${describeMergeStatus(pr.mergeStatus)}`);
+  lines.push(`- **Draft:** ${pr.isDraft ? "yes" : "no"}`);
+  lines.push(`- **Auto-complete:** ${pr.autoCompleteSetBy ? describeAutoComplete(pr) : "Off"}`);
+  lines.push(`- **Threads:** ${describeThreadCounts(threads)}`);
+
+  if (pr.description?.trim()) {
+    lines.push("", "## Description", "", pr.description.trim());
+  }
+
+  lines.push("", "## Reviewers", "");
+  if (pr.reviewers.length === 0) {
+    lines.push("_None_");
+  } else {
+    lines.push("| Reviewer | Vote | Required |", "| --- | --- | --- |");
+    pr.reviewers.forEach((reviewer) => {
+      const name = escapeMarkdownCell(reviewer.displayName);
+      lines.push(`| ${name} | ${describeVote(reviewer.vote)} | ${reviewer.isRequired ? "yes" : "no"} |`);
+    });
+  }
+
+  lines.push("", "## Work items", "");
+  if (workItems.length === 0) {
+    lines.push("_None_");
+  } else {
+    workItems.forEach((workItem) => lines.push(`- ${describeWorkItem(workItem)}`));
+  }
+
+  lines.push("", "## Policies", "");
+  if (policyError) {
+    lines.push(`_Policy status unavailable: ${policyError}_`);
+  } else if (policies.length === 0) {
+    lines.push("_None_");
+  } else {
+    lines.push("| Policy | Status | Blocking |", "| --- | --- | --- |");
+    policies.forEach((policy) => {
+      const name = escapeMarkdownCell(describePolicy(policy));
+      lines.push(`| ${name} | ${policy.status} | ${policy.configuration.isBlocking ? "yes" : "no"} |`);
+    });
+  }
+
+  lines.push("");
+
+  return lines.join("\n");
+}
@@ -1,7 +1,9 @@
 import chalk from "chalk";
 import { PullRequest, PullRequestVote, Reviewer } from "../types/pull-request.types.js";
+import { escapeMarkdownCell, ItemRenderers, OutputColumn } from "./output.formatter.js";
+import { describeVote, formatRelativeTime, getBranchName } from "./text.formatter.js";
 
-function formatVote(vote: PullRequestVote): string {
+export function formatVote(vote: PullRequestVote): string {
   switch (vote) {
     case PullRequestVote.Approved:
       return chalk.green("✓ Approved");
@@ -17,7 +19,7 @@ function formatVote(vote: PullRequestVote): string {
   }
 }
 
-function formatStatus(status: string): string {
+export function formatStatus(status: string): string {
   switch (status.toLowerCase()) {
     case "active":
       return chalk.blue("Active");
@@ -30,35 +32,6 @@ function formatStatus(status: string): string {
   }
 }
 
-function formatRelativeTime(dateString: string): string {
-  const date = new Date(dateString);
-  const now = new Date();
-  const diffMs = now.getTime() - date.getTime();
-  const diffSecs = Math.floor(diffMs / 1000);
-  const diffMins = Math.floor(diffSecs / 60);
-  const diffHours = Math.floor(diffMins / 60);
-  const diffDays = Math.floor(diffHours / 24);
-
-  if (diffDays > 30) {
-    const diffMonths = Math.floor(diffDays / 30);
-    return `${diffMonths} month${diffMonths > 1 ? "s" : ""} ago`;
-  }
-  if (diffDays > 0) {
-    return `${diffDays} day${diffDays > 1 ? "s" : ""} ago`;
-  }
-  if (diffHours > 0) {
-    return `${diffHours} hour${diffHours > 1 ? "s" : ""} ago`;
-  }
-  if (diffMins > 0) {
-    return `${diffMins} minute${diffMins > 1 ? "s" : ""} ago`;
-  }
-  return "just now";
-}
-
-function getBranchName(refName: string): string {
-  return refName.replace("refs/heads/", "");
-}
-
 function formatPR(pr: PullRequest, includeRepo: boolean): string {
   const lines: string[] = [];
 
@@ -80,7 +53,11 @@ function formatPR(pr: PullRequest, includeRepo: boolean): string {
 
 function buildHeaderLine(pr: PullRequest): string {
   return (
-    chalk.bold(`#${pr.pullRequestId}`) + " " + chalk.white(pr.title) + (pr.isDraft ? chalk.yellow(" [DRAFT]") : "")
+    chalk.bold(`#${pr.pullRequestId}`) +
+    " " +
+    chalk.white(pr.title) +
+    (pr.isDraft ? chalk.yellow(" [DRAFT]") : "") +
+    (pr.autoCompleteSetBy ? chalk.green(" [AUTO-COMPLETE]") : "")
   );
 }
 
@@ -110,10 +87,14 @@ function hasReviewers(pr: PullRequest): boolean {
 }
 
 function buildReviewersSection(pr: PullRequest): string[] {
-  const reviewerSummary = pr.reviewers.map(
-    (reviewer: Reviewer) => `    ${reviewer.displayName}: ${formatVote(reviewer.vote)}`,
-  );
-  return ["  Reviewers:", ...reviewerSummary];
+  return ["  Reviewers:", ...buildReviewerLines(pr.reviewers)];
+}
+
+function buildReviewerLines(reviewers: Reviewer[]): string[] {
+  return reviewers.map((reviewer: Reviewer) => {
+    const required = reviewer.isRequired ? chalk.magenta(" (required)") : "";
+    return `    ${reviewer.displayName}${required}: ${formatVote(reviewer.vote)}`;
+  });
 }
 
 function shouldIncludeRepository(prs: PullRequest[]): boolean {
@@ -121,10 +102,12 @@ function shouldIncludeRepository(prs: PullRequest[]): boolean {
   return repos.size > 1;
 }
 
-function buildTableHeader(prCount: number): string[] {
+function buildTableHeader(prs: PullRequest[]): string[] {
   const lines: string[] = [];
   lines.push("");
-  lines.push(chalk.bold(`Found ${prCount} pull request${prCount !== 1 ? "s" : ""}:`));
+  lines.push(
+    chalk.bold(`Found ${prs.length} pull request${prs.length !== 1 ? "s" : ""}`) + ` (${formatPRSummary(prs)}):`,
+  );
   lines.push("");
   return lines;
 }
@@ -143,6 +126,18 @@ function formatPRList(prs: PullRequest[], includeRepo: boolean): string[] {
   return lines;
 }
 
+export function formatReviewers(reviewers: Reviewer[]): string {
+  if (reviewers.length === 0) {
+    return chalk.yellow("No reviewers.");
+  }
+
+  return ["  Reviewers:", ...buildReviewerLines(reviewers)].join("\n");
+}
+
+export function formatPRDetails(pr: PullRequest): string {
+  return formatPR(pr, true);
+}
+
 export function formatPRTable(prs: PullRequest[]): string {
   if (prs.length === 0) {
     return chalk.yellow("No pull requests found.");
@@ -151,7 +146,7 @@ export function formatPRTable(prs: PullRequest[]): string {
   const includeRepo = shouldIncludeRepository(prs);
 
   const lines: string[] = [];
-  lines.push(...buildTableHeader(prs.length));
+  lines.push(...buildTableHeader(prs));
   lines.push(...formatPRList(prs, includeRepo));
   lines.push("");
 
@@ -190,3 +185,56 @@ export function formatPRSummary(prs: PullRequest[]): string {
   const parts = buildSummaryParts(prs);
   return parts.join(", ");
 }
+
+function describeReviewers(reviewers: Reviewer[]): string {
+  return reviewers
+    .map((reviewer) => {
+      const required = reviewer.isRequired ? " (required)" : "";
+      return `${reviewer.displayName}${required}: ${describeVote(reviewer.vote)}`;
+    })
+    .join("; ");
+}
+
+export function formatPRMarkdown(prs: PullRequest[]): string {
+  if (prs.length === 0) {
+    return "_No pull requests found._";
+  }
+
+  const lines = [
+    "| PR | Title | Status | Author | Branches | Repository | Reviewers |",
+    "| --- | --- | --- | --- | --- | --- | --- |",
+  ];
+
+  prs.forEach((pr) => {
+    const title = escapeMarkdownCell(pr.title) + (pr.isDraft ? " (draft)" : "");
+    const branches = `\`${getBranchName(pr.sourceRefName)}\` → \`${getBranchName(pr.targetRefName)}\``;
+    const reviewers = escapeMarkdownCell(describeReviewers(pr.reviewers)) || "-";
+
+    lines.push(
+      `| !${pr.pullRequestId} | ${title} | ${pr.status} | ${escapeMarkdownCell(pr.createdBy.displayName)} | ` +
+        `${branches} | ${escapeMarkdownCell(pr.repository.name)} | ${reviewers} |`,
+    );
+  });
+
+  return lines.join("\n");
+}
+
+const PR_COLUMNS: OutputColumn<PullRequest>[] = [
+  { header: "id", value: (pr) => pr.pullRequestId },
+  { header: "title", value: (pr) => pr.title },
+  { header: "status", value: (pr) => pr.status },
+  { header: "draft", value: (pr) => !!pr.isDraft },
+  { header: "author", value: (pr) => pr.createdBy.displayName },
+  { header: "created", value: (pr) => pr.creationDate },
+  { header: "sourceBranch", value: (pr) => getBranchName(pr.sourceRefName) },
+  { header: "targetBranch", value: (pr) => getBranchName(pr.targetRefName) },
+  { header: "repository", value: (pr) => pr.repository.name },
+  { header: "reviewers", value: (pr) => describeReviewers(pr.reviewers) },
+  { header: "autoComplete", value: (pr) => !!pr.autoCompleteSetBy },
+];
+
+export const pullRequestRenderers: ItemRenderers<PullRequest> = {
+  table: formatPRTable,
+  markdown: formatPRMarkdown,
+  columns: PR_COLUMNS,
+};
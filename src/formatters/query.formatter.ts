@@ -0,0 +1,949 @@
+/**
+ * A JMESPath (https://jmespath.org) evaluator for the `--query` and `--fields` output options.
+ * Covers the specification's expressions (sub-expressions, index/slice, projections, flatten, filters,
+ * multi-select, pipes, literals) and its built-in functions.
+ */
+
+export class QueryError extends Error {
+  constructor(message: string, expression: string) {
+    super(`Invalid query "${expression}": ${message}`);
+    this.name = "QueryError";
+  }
+}
+
+type TokenType =
+  | "identifier"
+  | "quotedIdentifier"
+  | "literal"
+  | "number"
+  | "dot"
+  | "star"
+  | "flatten"
+  | "filter"
+  | "lbracket"
+  | "rbracket"
+  | "lbrace"
+  | "rbrace"
+  | "lparen"
+  | "rparen"
+  | "comma"
+  | "colon"
+  | "pipe"
+  | "or"
+  | "and"
+  | "not"
+  | "current"
+  | "expref"
+  | "eq"
+  | "ne"
+  | "lt"
+  | "lte"
+  | "gt"
+  | "gte"
+  | "eof";
+
+interface Token {
+  type: TokenType;
+  value?: unknown;
+  position: number;
+}
+
+type Comparator = "eq" | "ne" | "lt" | "lte" | "gt" | "gte";
+
+type QueryNode =
+  | { type: "field"; name: string }
+  | { type: "subexpression"; left: QueryNode; right: QueryNode }
+  | { type: "indexExpression"; left: QueryNode; right: QueryNode }
+  | { type: "index"; index: number }
+  | { type: "slice"; start: number | null; stop: number | null; step: number | null }
+  | { type: "projection"; left: QueryNode; right: QueryNode }
+  | { type: "valueProjection"; left: QueryNode; right: QueryNode }
+  | { type: "filterProjection"; left: QueryNode; right: QueryNode; condition: QueryNode }
+  | { type: "flatten"; child: QueryNode }
+  | { type: "identity" }
+  | { type: "literal"; value: unknown }
+  | { type: "multiSelectList"; children: QueryNode[] }
+  | { type: "multiSelectHash"; pairs: { key: string; value: QueryNode }[] }
+  | { type: "or" | "and" | "pipe"; left: QueryNode; right: QueryNode }
+  | { type: "not"; child: QueryNode }
+  | { type: "comparator"; comparator: Comparator; left: QueryNode; right: QueryNode }
+  | { type: "function"; name: string; args: QueryNode[] }
+  | { type: "expref"; child: QueryNode };
+
+const BINDING_POWER: Record<TokenType, number> = {
+  eof: 0,
+  identifier: 0,
+  quotedIdentifier: 0,
+  literal: 0,
+  number: 0,
+  rbracket: 0,
+  rbrace: 0,
+  rparen: 0,
+  comma: 0,
+  colon: 0,
+  current: 0,
+  expref: 0,
+  pipe: 1,
+  or: 2,
+  and: 3,
+  eq: 5,
+  ne: 5,
+  lt: 5,
+  lte: 5,
+  gt: 5,
+  gte: 5,
+  flatten: 9,
+  star: 20,
+  filter: 21,
+  dot: 40,
+  not: 45,
+  lbrace: 50,
+  lbracket: 55,
+  lparen: 60,
+};
+
+const SINGLE_CHAR_TOKENS: Record<string, TokenType> = {
+  ".": "dot",
+  "*": "star",
+  "]": "rbracket",
+  "{": "lbrace",
+  "}": "rbrace",
+  "(": "lparen",
+  ")": "rparen",
+  ",": "comma",
+  ":": "colon",
+  "@": "current",
+};
+
+function readDelimited(expression: string, start: number, delimiter: string): { raw: string; end: number } {
+  let index = start + 1;
+  let raw = "";
+
+  while (index < expression.length && expression[index] !== delimiter) {
+    if (expression[index] === "\\" && index + 1 < expression.length) {
+      raw += expression[index] + expression[index + 1];
+      index += 2;
+    } else {
+      raw += expression[index];
+      index++;
+    }
+  }
+
+  if (index >= expression.length) {
+    throw new QueryError(`unterminated ${delimiter} at position ${start}`, expression);
+  }
+
+  return { raw, end: index + 1 };
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  const push = (type: TokenType, length: number, value?: unknown) => {
+    tokens.push({ type, value, position: index });
+    index += length;
+  };
+
+  while (index < expression.length) {
+    const char = expression[index];
+    const next = expression[index + 1];
+
+    if (/\s/.test(char)) {
+      index++;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const name = /^[A-Za-z0-9_]+/.exec(expression.slice(index))![0];
+      push("identifier", name.length, name);
+    } else if (/[0-9]/.test(char) || (char === "-" && /[0-9]/.test(next ?? ""))) {
+      const digits = /^-?[0-9]+/.exec(expression.slice(index))![0];
+      push("number", digits.length, parseInt(digits, 10));
+    } else if (char in SINGLE_CHAR_TOKENS) {
+      push(SINGLE_CHAR_TOKENS[char], 1);
+    } else if (char === "[") {
+      if (next === "?") {
+        push("filter", 2);
+      } else if (next === "]") {
+        push("flatten", 2);
+      } else {
+        push("lbracket", 1);
+      }
+    } else if (char === '"') {
+      const { raw, end } = readDelimited(expression, index, '"');
+      push("quotedIdentifier", end - index, JSON.parse(`"${raw}"`));
+    } else if (char === "'") {
+      const { raw, end } = readDelimited(expression, index, "'");
+      push("literal", end - index, raw.replace(/\\'/g, "'"));
+    } else if (char === "`") {
+      const { raw, end } = readDelimited(expression, index, "`");
+      const text = raw.replace(/\\`/g, "`").trim();
+      let value: unknown;
+      try {
+        value = JSON.parse(text);
+      } catch {
+        throw new QueryError(`invalid JSON literal \`${text}\``, expression);
+      }
+      push("literal", end - index, value);
+    } else if (char === "|") {
+      push(next === "|" ? "or" : "pipe", next === "|" ? 2 : 1);
+    } else if (char === "&") {
+      push(next === "&" ? "and" : "expref", next === "&" ? 2 : 1);
+    } else if (char === "!") {
+      push(next === "=" ? "ne" : "not", next === "=" ? 2 : 1);
+    } else if (char === "<" || char === ">") {
+      const type = char === "<" ? "lt" : "gt";
+      push(next === "=" ? (`${type}e` as TokenType) : type, next === "=" ? 2 : 1);
+    } else if (char === "=" && next === "=") {
+      push("eq", 2);
+    } else {
+      throw new QueryError(`unexpected character "${char}" at position ${index}`, expression);
+    }
+  }
+
+  tokens.push({ type: "eof", position: expression.length });
+  return tokens;
+}
+
+const IDENTITY: QueryNode = { type: "identity" };
+
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(private expression: string) {
+    this.tokens = tokenize(expression);
+  }
+
+  parse(): QueryNode {
+    const node = this.parseExpression(0);
+
+    if (this.peek().type !== "eof") {
+      this.fail(this.peek());
+    }
+
+    return node;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private advance(): Token {
+    const token = this.peek();
+    this.index++;
+    return token;
+  }
+
+  private expect(type: TokenType): Token {
+    const token = this.peek();
+
+    if (token.type !== type) {
+      this.fail(token, type);
+    }
+
+    return this.advance();
+  }
+
+  private fail(token: Token, expected?: TokenType): never {
+    const found = token.type === "eof" ? "end of expression" : `"${token.type}" at position ${token.position}`;
+    throw new QueryError(`unexpected ${found}${expected ? `, expected "${expected}"` : ""}`, this.expression);
+  }
+
+  private parseExpression(rbp: number): QueryNode {
+    let left = this.nud(this.advance());
+
+    while (rbp < BINDING_POWER[this.peek().type]) {
+      left = this.led(this.advance(), left);
+    }
+
+    return left;
+  }
+
+  private nud(token: Token): QueryNode {
+    switch (token.type) {
+      case "literal":
+        return { type: "literal", value: token.value };
+      case "identifier":
+        return { type: "field", name: token.value as string };
+      case "quotedIdentifier":
+        if (this.peek().type === "lparen") {
+          throw new QueryError("quoted identifiers cannot be used as function names", this.expression);
+        }
+        return { type: "field", name: token.value as string };
+      case "not":
+        return { type: "not", child: this.parseExpression(BINDING_POWER.not) };
+      case "star": {
+        const right = this.peek().type === "rbracket" ? IDENTITY : this.parseProjectionRHS(BINDING_POWER.star);
+        return { type: "valueProjection", left: IDENTITY, right };
+      }
+      case "filter":
+        return this.led(token, IDENTITY);
+      case "lbrace":
+        return this.parseMultiSelectHash();
+      case "flatten":
+        return {
+          type: "projection",
+          left: { type: "flatten", child: IDENTITY },
+          right: this.parseProjectionRHS(BINDING_POWER.flatten),
+        };
+      case "lbracket":
+        if (this.peek().type === "number" || this.peek().type === "colon") {
+          return this.projectIfSlice(IDENTITY, this.parseIndexExpression());
+        }
+        if (this.peek().type === "star" && this.peek(1).type === "rbracket") {
+          this.advance();
+          this.advance();
+          return { type: "projection", left: IDENTITY, right: this.parseProjectionRHS(BINDING_POWER.star) };
+        }
+        return this.parseMultiSelectList();
+      case "current":
+        return IDENTITY;
+      case "expref":
+        return { type: "expref", child: this.parseExpression(BINDING_POWER.expref) };
+      case "lparen": {
+        const node = this.parseExpression(0);
+        this.expect("rparen");
+        return node;
+      }
+      default:
+        return this.fail(token);
+    }
+  }
+
+  private led(token: Token, left: QueryNode): QueryNode {
+    switch (token.type) {
+      case "dot":
+        if (this.peek().type === "star") {
+          this.advance();
+          return { type: "valueProjection", left, right: this.parseProjectionRHS(BINDING_POWER.dot) };
+        }
+        return { type: "subexpression", left, right: this.parseDotRHS(BINDING_POWER.dot) };
+      case "pipe":
+      case "or":
+      case "and":
+        return { type: token.type, left, right: this.parseExpression(BINDING_POWER[token.type]) };
+      case "lparen":
+        return this.parseFunction(left);
+      case "filter": {
+        const condition = this.parseExpression(0);
+        this.expect("rbracket");
+        const right = this.peek().type === "flatten" ? IDENTITY : this.parseProjectionRHS(BINDING_POWER.filter);
+        return { type: "filterProjection", left, right, condition };
+      }
+      case "flatten":
+        return {
+          type: "projection",
+          left: { type: "flatten", child: left },
+          right: this.parseProjectionRHS(BINDING_POWER.flatten),
+        };
+      case "eq":
+      case "ne":
+      case "lt":
+      case "lte":
+      case "gt":
+      case "gte":
+        return {
+          type: "comparator",
+          comparator: token.type,
+          left,
+          right: this.parseExpression(BINDING_POWER[token.type]),
+        };
+      case "lbracket":
+        if (this.peek().type === "number" || this.peek().type === "colon") {
+          return this.projectIfSlice(left, this.parseIndexExpression());
+        }
+        this.expect("star");
+        this.expect("rbracket");
+        return { type: "projection", left, right: this.parseProjectionRHS(BINDING_POWER.star) };
+      default:
+        return this.fail(token);
+    }
+  }
+
+  private parseFunction(left: QueryNode): QueryNode {
+    if (left.type !== "field") {
+      throw new QueryError("only identifiers can be called as functions", this.expression);
+    }
+
+    const args: QueryNode[] = [];
+
+    while (this.peek().type !== "rparen") {
+      args.push(this.parseExpression(0));
+
+      if (this.peek().type === "comma") {
+        this.advance();
+      } else if (this.peek().type !== "rparen") {
+        this.fail(this.peek(), "rparen");
+      }
+    }
+
+    this.expect("rparen");
+
+    if (!(left.name in FUNCTIONS)) {
+      throw new QueryError(`unknown function ${left.name}()`, this.expression);
+    }
+
+    return { type: "function", name: left.name, args };
+  }
+
+  private parseIndexExpression(): QueryNode {
+    if (this.peek().type === "colon" || this.peek(1).type === "colon") {
+      return this.parseSlice();
+    }
+
+    const index = this.expect("number").value as number;
+    this.expect("rbracket");
+    return { type: "index", index };
+  }
+
+  private parseSlice(): QueryNode {
+    const parts: (number | null)[] = [null, null, null];
+    let part = 0;
+
+    while (this.peek().type !== "rbracket" && part < 3) {
+      if (this.peek().type === "colon") {
+        part++;
+        this.advance();
+      } else {
+        parts[part] = this.expect("number").value as number;
+      }
+    }
+
+    this.expect("rbracket");
+
+    if (parts[2] === 0) {
+      throw new QueryError("slice step cannot be 0", this.expression);
+    }
+
+    return { type: "slice", start: parts[0], stop: parts[1], step: parts[2] };
+  }
+
+  private projectIfSlice(left: QueryNode, right: QueryNode): QueryNode {
+    const indexExpression: QueryNode = { type: "indexExpression", left, right };
+
+    if (right.type === "slice") {
+      return { type: "projection", left: indexExpression, right: this.parseProjectionRHS(BINDING_POWER.star) };
+    }
+
+    return indexExpression;
+  }
+
+  private parseProjectionRHS(rbp: number): QueryNode {
+    const next = this.peek();
+
+    if (BINDING_POWER[next.type] < 10) {
+      return IDENTITY;
+    }
+
+    if (next.type === "lbracket" || next.type === "filter") {
+      return this.parseExpression(rbp);
+    }
+
+    if (next.type === "dot") {
+      this.advance();
+      return this.parseDotRHS(rbp);
+    }
+
+    return this.fail(next);
+  }
+
+  private parseDotRHS(rbp: number): QueryNode {
+    const next = this.peek();
+
+    if (next.type === "identifier" || next.type === "quotedIdentifier" || next.type === "star") {
+      return this.parseExpression(rbp);
+    }
+
+    if (next.type === "lbracket") {
+      this.advance();
+      return this.parseMultiSelectList();
+    }
+
+    if (next.type === "lbrace") {
+      this.advance();
+      return this.parseMultiSelectHash();
+    }
+
+    return this.fail(next);
+  }
+
+  private parseMultiSelectList(): QueryNode {
+    const children: QueryNode[] = [];
+
+    do {
+      if (children.length > 0) {
+        this.expect("comma");
+      }
+      children.push(this.parseExpression(0));
+    } while (this.peek().type !== "rbracket");
+
+    this.expect("rbracket");
+    return { type: "multiSelectList", children };
+  }
+
+  private parseMultiSelectHash(): QueryNode {
+    const pairs: { key: string; value: QueryNode }[] = [];
+
+    do {
+      if (pairs.length > 0) {
+        this.expect("comma");
+      }
+
+      const keyToken = this.advance();
+
+      if (keyToken.type !== "identifier" && keyToken.type !== "quotedIdentifier") {
+        this.fail(keyToken, "identifier");
+      }
+
+      this.expect("colon");
+      pairs.push({ key: keyToken.value as string, value: this.parseExpression(0) });
+    } while (this.peek().type !== "rbrace");
+
+    this.expect("rbrace");
+    return { type: "multiSelectHash", pairs };
+  }
+}
+
+interface ExpressionReference {
+  expref: QueryNode;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isExpressionReference(value: unknown): value is ExpressionReference {
+  return isObject(value) && "expref" in value && Object.keys(value).length === 1;
+}
+
+function isFalse(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    value === false ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0) ||
+    (isObject(value) && Object.keys(value).length === 0)
+  );
+}
+
+function deepEqual(left: unknown, right: unknown): boolean {
+  return JSON.stringify(sortKeys(left)) === JSON.stringify(sortKeys(right));
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+
+  if (isObject(value)) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortKeys(value[key])]),
+    );
+  }
+
+  return value;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "null";
+  }
+
+  if (Array.isArray(value)) {
+    return "array";
+  }
+
+  return isExpressionReference(value) ? "expref" : typeof value === "object" ? "object" : typeof value;
+}
+
+function compare(comparator: Comparator, left: unknown, right: unknown): boolean | null {
+  if (comparator === "eq") {
+    return deepEqual(left, right);
+  }
+
+  if (comparator === "ne") {
+    return !deepEqual(left, right);
+  }
+
+  // Ordering is only defined for numbers; ISO dates compare correctly as strings, so allow those too
+  const comparable =
+    (typeof left === "number" && typeof right === "number") ||
+    (typeof left === "string" && typeof right === "string");
+
+  if (!comparable) {
+    return null;
+  }
+
+  const a = left as number | string;
+  const b = right as number | string;
+
+  switch (comparator) {
+    case "lt":
+      return a < b;
+    case "lte":
+      return a <= b;
+    case "gt":
+      return a > b;
+    default:
+      return a >= b;
+  }
+}
+
+function slice(array: unknown[], start: number | null, stop: number | null, step: number | null): unknown[] {
+  const length = array.length;
+  const stride = step ?? 1;
+  const clamp = (value: number, low: number, high: number) => Math.min(Math.max(value, low), high);
+  const resolve = (value: number | null, fallback: number) => {
+    if (value === null) {
+      return fallback;
+    }
+    const absolute = value < 0 ? value + length : value;
+    return stride > 0 ? clamp(absolute, 0, length) : clamp(absolute, -1, length - 1);
+  };
+
+  const from = resolve(start, stride > 0 ? 0 : length - 1);
+  const to = resolve(stop, stride > 0 ? length : -1);
+  const result: unknown[] = [];
+
+  for (let index = from; stride > 0 ? index < to : index > to; index += stride) {
+    result.push(array[index]);
+  }
+
+  return result;
+}
+
+type ReferenceEvaluator = (reference: ExpressionReference, value: unknown) => unknown;
+
+type QueryFunction = (args: unknown[], evaluate: ReferenceEvaluator) => unknown;
+
+function expectType(name: string, value: unknown, ...types: string[]): void {
+  if (!types.includes(typeOf(value))) {
+    throw new Error(`${name}() expected ${types.join(" or ")} but received ${typeOf(value)}`);
+  }
+}
+
+function expectArrayOf(name: string, value: unknown, ...types: string[]): unknown[] {
+  expectType(name, value, "array");
+  (value as unknown[]).forEach((element) => expectType(name, element, ...types));
+  return value as unknown[];
+}
+
+function sortByKey(
+  name: string,
+  values: unknown[],
+  key: (value: unknown) => unknown,
+): { value: unknown; key: number | string }[] {
+  const keyed = values.map((value) => ({ value, key: key(value) }));
+  const keyType = keyed.length > 0 ? typeOf(keyed[0].key) : "number";
+
+  keyed.forEach((entry) => {
+    if (typeOf(entry.key) !== keyType || (keyType !== "number" && keyType !== "string")) {
+      throw new Error(`${name}() keys must all be numbers or all be strings`);
+    }
+  });
+
+  return (keyed as { value: unknown; key: number | string }[]).sort((a, b) =>
+    a.key < b.key ? -1 : a.key > b.key ? 1 : 0,
+  );
+}
+
+interface FunctionDefinition {
+  arity: [number, number];
+  call: QueryFunction;
+}
+
+function numberFunction(name: string, fn: (value: number) => number): FunctionDefinition {
+  return {
+    arity: [1, 1],
+    call: ([value]) => {
+      expectType(name, value, "number");
+      return fn(value as number);
+    },
+  };
+}
+
+const FUNCTIONS: Record<string, FunctionDefinition> = {
+  abs: numberFunction("abs", Math.abs),
+  avg: {
+    arity: [1, 1],
+    call: ([value]) => {
+      const numbers = expectArrayOf("avg", value, "number") as number[];
+      return numbers.length > 0 ? numbers.reduce((sum, number) => sum + number, 0) / numbers.length : null;
+    },
+  },
+  ceil: numberFunction("ceil", Math.ceil),
+  contains: {
+    arity: [2, 2],
+    call: ([subject, search]) => {
+      expectType("contains", subject, "array", "string");
+      return Array.isArray(subject)
+        ? subject.some((element) => deepEqual(element, search))
+        : typeof search === "string" && (subject as string).includes(search);
+    },
+  },
+  ends_with: {
+    arity: [2, 2],
+    call: ([subject, suffix]) => {
+      expectType("ends_with", subject, "string");
+      expectType("ends_with", suffix, "string");
+      return (subject as string).endsWith(suffix as string);
+    },
+  },
+  floor: numberFunction("floor", Math.floor),
+  join: {
+    arity: [2, 2],
+    call: ([glue, values]) => {
+      expectType("join", glue, "string");
+      return expectArrayOf("join", values, "string").join(glue as string);
+    },
+  },
+  keys: {
+    arity: [1, 1],
+    call: ([value]) => {
+      expectType("keys", value, "object");
+      return Object.keys(value as object);
+    },
+  },
+  length: {
+    arity: [1, 1],
+    call: ([value]) => {
+      expectType("length", value, "string", "array", "object");
+      return isObject(value) ? Object.keys(value).length : (value as string | unknown[]).length;
+    },
+  },
+  map: {
+    arity: [2, 2],
+    call: ([reference, values], evaluate) => {
+      expectType("map", reference, "expref");
+      expectType("map", values, "array");
+      return (values as unknown[]).map((value) => evaluate(reference as ExpressionReference, value));
+    },
+  },
+  max: {
+    arity: [1, 1],
+    call: ([value]) => {
+      const values = expectArrayOf("max", value, "number", "string") as (number | string)[];
+      return values.length > 0 ? values.reduce((max, current) => (current > max ? current : max)) : null;
+    },
+  },
+  max_by: {
+    arity: [2, 2],
+    call: ([values, reference], evaluate) => {
+      expectType("max_by", values, "array");
+      expectType("max_by", reference, "expref");
+      const sorted = sortByKey("max_by", values as unknown[], (v) => evaluate(reference as ExpressionReference, v));
+      return sorted.length > 0 ? sorted[sorted.length - 1].value : null;
+    },
+  },
+  merge: {
+    arity: [1, Infinity],
+    call: (args) => {
+      args.forEach((arg) => expectType("merge", arg, "object"));
+      return Object.assign({}, ...args);
+    },
+  },
+  min: {
+    arity: [1, 1],
+    call: ([value]) => {
+      const values = expectArrayOf("min", value, "number", "string") as (number | string)[];
+      return values.length > 0 ? values.reduce((min, current) => (current < min ? current : min)) : null;
+    },
+  },
+  min_by: {
+    arity: [2, 2],
+    call: ([values, reference], evaluate) => {
+      expectType("min_by", values, "array");
+      expectType("min_by", reference, "expref");
+      const sorted = sortByKey("min_by", values as unknown[], (v) => evaluate(reference as ExpressionReference, v));
+      return sorted.length > 0 ? sorted[0].value : null;
+    },
+  },
+  not_null: { arity: [1, Infinity], call: (args) => args.find((arg) => arg !== null && arg !== undefined) ?? null },
+  reverse: {
+    arity: [1, 1],
+    call: ([value]) => {
+      expectType("reverse", value, "array", "string");
+      return Array.isArray(value) ? [...value].reverse() : [...(value as string)].reverse().join("");
+    },
+  },
+  sort: {
+    arity: [1, 1],
+    call: ([value]) => {
+      expectType("sort", value, "array");
+      return sortByKey("sort", value as unknown[], (element) => element).map((entry) => entry.value);
+    },
+  },
+  sort_by: {
+    arity: [2, 2],
+    call: ([values, reference], evaluate) => {
+      expectType("sort_by", values, "array");
+      expectType("sort_by", reference, "expref");
+      return sortByKey("sort_by", values as unknown[], (v) => evaluate(reference as ExpressionReference, v)).map(
+        (entry) => entry.value,
+      );
+    },
+  },
+  starts_with: {
+    arity: [2, 2],
+    call: ([subject, prefix]) => {
+      expectType("starts_with", subject, "string");
+      expectType("starts_with", prefix, "string");
+      return (subject as string).startsWith(prefix as string);
+    },
+  },
+  sum: {
+    arity: [1, 1],
+    call: ([value]) => (expectArrayOf("sum", value, "number") as number[]).reduce((sum, number) => sum + number, 0),
+  },
+  to_array: { arity: [1, 1], call: ([value]) => (Array.isArray(value) ? value : [value]) },
+  to_number: {
+    arity: [1, 1],
+    call: ([value]) => {
+      if (typeof value === "number") {
+        return value;
+      }
+      const number = typeof value === "string" && value.trim() !== "" ? Number(value) : NaN;
+      return isNaN(number) ? null : number;
+    },
+  },
+  to_string: { arity: [1, 1], call: ([value]) => (typeof value === "string" ? value : JSON.stringify(value)) },
+  type: { arity: [1, 1], call: ([value]) => typeOf(value) },
+  values: {
+    arity: [1, 1],
+    call: ([value]) => {
+      expectType("values", value, "object");
+      return Object.values(value as object);
+    },
+  },
+};
+
+function evaluate(node: QueryNode, value: unknown): unknown {
+  switch (node.type) {
+    case "field":
+      return isObject(value) ? (value[node.name] ?? null) : null;
+    case "subexpression": {
+      const left = evaluate(node.left, value);
+      return left === null ? null : evaluate(node.right, left);
+    }
+    case "indexExpression":
+      return evaluate(node.right, evaluate(node.left, value));
+    case "index": {
+      if (!Array.isArray(value)) {
+        return null;
+      }
+      const index = node.index < 0 ? value.length + node.index : node.index;
+      return value[index] ?? null;
+    }
+    case "slice":
+      return Array.isArray(value) ? slice(value, node.start, node.stop, node.step) : null;
+    case "projection":
+      return project(evaluate(node.left, value), node.right);
+    case "valueProjection": {
+      const base = evaluate(node.left, value);
+      return isObject(base) ? project(Object.values(base), node.right) : null;
+    }
+    case "filterProjection": {
+      const base = evaluate(node.left, value);
+      if (!Array.isArray(base)) {
+        return null;
+      }
+      return project(
+        base.filter((element) => !isFalse(evaluate(node.condition, element))),
+        node.right,
+      );
+    }
+    case "flatten": {
+      const base = evaluate(node.child, value);
+      return Array.isArray(base) ? base.flatMap((element) => element) : null;
+    }
+    case "identity":
+      return value ?? null;
+    case "literal":
+      return node.value;
+    case "multiSelectList":
+      return value === null ? null : node.children.map((child) => evaluate(child, value));
+    case "multiSelectHash":
+      return value === null
+        ? null
+        : Object.fromEntries(node.pairs.map((pair) => [pair.key, evaluate(pair.value, value)]));
+    case "or": {
+      const left = evaluate(node.left, value);
+      return isFalse(left) ? evaluate(node.right, value) : left;
+    }
+    case "and": {
+      const left = evaluate(node.left, value);
+      return isFalse(left) ? left : evaluate(node.right, value);
+    }
+    case "not":
+      return isFalse(evaluate(node.child, value));
+    case "pipe":
+      return evaluate(node.right, evaluate(node.left, value));
+    case "comparator":
+      return compare(node.comparator, evaluate(node.left, value), evaluate(node.right, value));
+    case "expref":
+      return { expref: node.child } satisfies ExpressionReference;
+    case "function":
+      return callFunction(node.name, node.args, value);
+  }
+}
+
+function project(base: unknown, right: QueryNode): unknown {
+  if (!Array.isArray(base)) {
+    return null;
+  }
+
+  return base.map((element) => evaluate(right, element)).filter((result) => result !== null);
+}
+
+function callFunction(name: string, argNodes: QueryNode[], value: unknown): unknown {
+  const definition = FUNCTIONS[name];
+
+  if (!definition) {
+    throw new Error(`unknown function ${name}()`);
+  }
+
+  const [min, max] = definition.arity;
+
+  if (argNodes.length < min || argNodes.length > max) {
+    const expected = min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min}-${max}`;
+    throw new Error(`${name}() takes ${expected} argument${min === 1 && max === 1 ? "" : "s"}`);
+  }
+
+  const args = argNodes.map((arg) => evaluate(arg, value));
+  return definition.call(args, (reference, current) => evaluate(reference.expref, current));
+}
+
+/**
+ * A parsed query that can be applied to many values
+ */
+export interface CompiledQuery {
+  expression: string;
+  search: (data: unknown) => unknown;
+}
+
+/**
+ * Parse a query, throwing a QueryError for syntax errors
+ */
+export function compileQuery(expression: string): CompiledQuery {
+  const ast = new Parser(expression).parse();
+
+  return {
+    expression,
+    search: (data) => {
+      try {
+        return evaluate(ast, data);
+      } catch (error) {
+        throw new QueryError((error as Error).message, expression);
+      }
+    },
+  };
+}
+
+/**
+ * Evaluate a query against JSON data, e.g. `[?status=='active'].{id: pullRequestId, title: title}`
+ */
+export function searchQuery(expression: string, data: unknown): unknown {
+  return compileQuery(expression).search(JSON.parse(JSON.stringify(data ?? null)));
+}
@@ -0,0 +1,375 @@
+import fs from "fs";
+import { describeVote, formatRelativeTime, getBranchName } from "./text.formatter.js";
+import { PullRequestVote } from "../types/pull-request.types.js";
+
+/**
+ * A small Handlebars-style template language for `--template`:
+ *
+ *   {{title}}  {{createdBy.displayName}}  {{this}}  {{../pullRequestId}}  {{@index}}
+ *   {{branch sourceRefName}}  {{truncate title 40}}  {{#if (eq status "active")}}
+ *   {{#if isDraft}}...{{else}}...{{/if}}  {{#unless ...}}  {{#each reviewers}}...{{/each}}  {{#with createdBy}}
+ *   {{! comment }}
+ */
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(`Invalid template: ${message}`);
+    this.name = "TemplateError";
+  }
+}
+
+type Expression =
+  | { type: "path"; path: string }
+  | { type: "literal"; value: unknown }
+  | { type: "helper"; name: string; args: Expression[] };
+
+type TemplateNode =
+  | { type: "text"; text: string }
+  | { type: "output"; expression: Expression }
+  | { type: "block"; name: BlockName; expression: Expression; body: TemplateNode[]; inverse: TemplateNode[] };
+
+type BlockName = "if" | "unless" | "each" | "with";
+
+const BLOCKS: BlockName[] = ["if", "unless", "each", "with"];
+
+interface Frame {
+  value: unknown;
+  data: Record<string, unknown>;
+}
+
+type Helper = (...args: unknown[]) => unknown;
+
+const HELPERS: Record<string, Helper> = {
+  relativeTime: (date) => (date ? formatRelativeTime(String(date)) : ""),
+  branch: (refName) => (refName ? getBranchName(String(refName)) : ""),
+  vote: (vote) => describeVote(Number(vote) as PullRequestVote),
+  upper: (text) => stringify(text).toUpperCase(),
+  lower: (text) => stringify(text).toLowerCase(),
+  truncate: (text, length) => {
+    const value = stringify(text);
+    const max = Number(length);
+    return value.length > max ? `${value.slice(0, Math.max(max - 1, 0))}…` : value;
+  },
+  default: (value, fallback) => (isEmpty(value) ? fallback : value),
+  join: (values, separator) => (Array.isArray(values) ? values.map(stringify).join(stringify(separator ?? ", ")) : ""),
+  length: (value) => (Array.isArray(value) || typeof value === "string" ? value.length : 0),
+  eq: (left, right) => left === right,
+  ne: (left, right) => left !== right,
+  gt: (left, right) => Number(left) > Number(right),
+  lt: (left, right) => Number(left) < Number(right),
+  not: (value) => isEmpty(value),
+  and: (...values) => values.every((value) => !isEmpty(value)),
+  or: (...values) => values.some((value) => !isEmpty(value)),
+};
+
+function isEmpty(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === false ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(stringify).join(", ");
+  }
+
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Split a tag's contents into words, keeping quoted strings and parenthesised subexpressions whole
+ */
+function splitWords(source: string): string[] {
+  const words: string[] = [];
+  let current = "";
+  let depth = 0;
+  let quote: string | undefined;
+
+  for (const char of source) {
+    if (quote) {
+      quote = char === quote ? undefined : quote;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "(") {
+      depth++;
+    } else if (char === ")") {
+      depth--;
+    } else if (/\s/.test(char) && depth === 0) {
+      if (current) {
+        words.push(current);
+        current = "";
+      }
+      continue;
+    }
+
+    current += char;
+  }
+
+  if (quote || depth !== 0) {
+    throw new TemplateError(`unbalanced quotes or parentheses in "{{${source}}}"`);
+  }
+
+  if (current) {
+    words.push(current);
+  }
+
+  return words;
+}
+
+function parseArgument(word: string): Expression {
+  if (/^(["']).*\1$/s.test(word)) {
+    return { type: "literal", value: word.slice(1, -1) };
+  }
+
+  if (/^-?\d+(\.\d+)?$/.test(word)) {
+    return { type: "literal", value: Number(word) };
+  }
+
+  if (word === "true" || word === "false" || word === "null") {
+    return { type: "literal", value: JSON.parse(word) };
+  }
+
+  if (word.startsWith("(") && word.endsWith(")")) {
+    return parseExpression(word.slice(1, -1));
+  }
+
+  return { type: "path", path: word };
+}
+
+function parseExpression(source: string): Expression {
+  const [first, ...rest] = splitWords(source.trim());
+
+  if (!first) {
+    throw new TemplateError("empty {{ }} tag");
+  }
+
+  // A bare name is always a field, so that e.g. {{vote}} prints a reviewer's vote; helpers need arguments
+  if (rest.length === 0) {
+    return parseArgument(first);
+  }
+
+  if (!Object.hasOwn(HELPERS, first)) {
+    throw new TemplateError(`unknown helper "${first}". Helpers: ${Object.keys(HELPERS).join(", ")}`);
+  }
+
+  return { type: "helper", name: first, args: rest.map(parseArgument) };
+}
+
+interface OpenBlock {
+  node: Extract<TemplateNode, { type: "block" }>;
+  inElse: boolean;
+}
+
+function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+  const target = () => {
+    const open = stack[stack.length - 1];
+    return open ? (open.inElse ? open.node.inverse : open.node.body) : root;
+  };
+
+  const tagPattern = /\{\{(!--[\s\S]*?--|[\s\S]*?)\}\}/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagPattern.exec(source)) !== null) {
+    if (match.index > lastIndex) {
+      target().push({ type: "text", text: source.slice(lastIndex, match.index) });
+    }
+    lastIndex = tagPattern.lastIndex;
+
+    const tag = match[1].trim();
+
+    if (tag.startsWith("!")) {
+      continue;
+    }
+
+    if (tag.startsWith("#")) {
+      const [name, ...rest] = splitWords(tag.slice(1));
+
+      if (!BLOCKS.includes(name as BlockName)) {
+        throw new TemplateError(`unknown block "#${name}". Blocks: ${BLOCKS.map((block) => `#${block}`).join(", ")}`);
+      }
+
+      if (rest.length === 0) {
+        throw new TemplateError(`{{#${name}}} needs a value, e.g. {{#${name} reviewers}}`);
+      }
+
+      const node: OpenBlock["node"] = {
+        type: "block",
+        name: name as BlockName,
+        expression: parseExpression(rest.join(" ")),
+        body: [],
+        inverse: [],
+      };
+      target().push(node);
+      stack.push({ node, inElse: false });
+    } else if (tag === "else") {
+      const open = stack[stack.length - 1];
+
+      if (!open || open.inElse) {
+        throw new TemplateError("{{else}} outside of a block");
+      }
+
+      open.inElse = true;
+    } else if (tag.startsWith("/")) {
+      const name = tag.slice(1).trim();
+      const open = stack.pop();
+
+      if (!open || open.node.name !== name) {
+        throw new TemplateError(`{{/${name}}} does not close ${open ? `{{#${open.node.name}}}` : "any block"}`);
+      }
+    } else {
+      target().push({ type: "output", expression: parseExpression(tag) });
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new TemplateError(`{{#${stack[stack.length - 1].node.name}}} is never closed`);
+  }
+
+  if (lastIndex < source.length) {
+    root.push({ type: "text", text: source.slice(lastIndex) });
+  }
+
+  return root;
+}
+
+function lookup(path: string, frames: Frame[]): unknown {
+  let depth = frames.length - 1;
+  let rest = path;
+
+  while (rest.startsWith("../")) {
+    depth = Math.max(depth - 1, 0);
+    rest = rest.slice(3);
+  }
+
+  const frame = frames[depth];
+
+  if (rest.startsWith("@")) {
+    return frame.data[rest.slice(1)];
+  }
+
+  const segments = rest === "this" || rest === "." ? [] : rest.replace(/^this\./, "").split(".");
+
+  return segments.reduce<unknown>(
+    (value, segment) =>
+      value !== null && typeof value === "object" ? (value as Record<string, unknown>)[segment] : undefined,
+    frame.value,
+  );
+}
+
+function evaluate(expression: Expression, frames: Frame[]): unknown {
+  switch (expression.type) {
+    case "literal":
+      return expression.value;
+    case "path":
+      return lookup(expression.path, frames);
+    case "helper":
+      return HELPERS[expression.name](...expression.args.map((arg) => evaluate(arg, frames)));
+  }
+}
+
+function renderBlock(node: Extract<TemplateNode, { type: "block" }>, frames: Frame[]): string {
+  const value = evaluate(node.expression, frames);
+
+  switch (node.name) {
+    case "if":
+      return renderNodes(isEmpty(value) ? node.inverse : node.body, frames);
+    case "unless":
+      return renderNodes(isEmpty(value) ? node.body : node.inverse, frames);
+    case "with":
+      return isEmpty(value)
+        ? renderNodes(node.inverse, frames)
+        : renderNodes(node.body, [...frames, { value, data: {} }]);
+    case "each": {
+      const entries: [string | number, unknown][] = Array.isArray(value)
+        ? value.map((element, index) => [index, element])
+        : value !== null && typeof value === "object"
+          ? Object.entries(value)
+          : [];
+
+      if (entries.length === 0) {
+        return renderNodes(node.inverse, frames);
+      }
+
+      return entries
+        .map(([key, element], index) =>
+          renderNodes(node.body, [
+            ...frames,
+            { value: element, data: { index, key, first: index === 0, last: index === entries.length - 1 } },
+          ]),
+        )
+        .join("");
+    }
+  }
+}
+
+function renderNodes(nodes: TemplateNode[], frames: Frame[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return node.text;
+        case "output":
+          return stringify(evaluate(node.expression, frames));
+        case "block":
+          return renderBlock(node, frames);
+      }
+    })
+    .join("");
+}
+
+/**
+ * A parsed template that renders one value at a time
+ */
+export interface CompiledTemplate {
+  render: (value: unknown) => string;
+}
+
+/**
+ * Parse a template, throwing a TemplateError for unknown helpers and unbalanced blocks
+ */
+export function compileTemplate(source: string): CompiledTemplate {
+  const nodes = parseTemplate(source);
+
+  return {
+    render: (value) => renderNodes(nodes, [{ value, data: {} }]),
+  };
+}
+
+/**
+ * The template a `--template` option names: the text itself, or with "@path" the file's contents, without its
+ * final newline so results stay one per line. Throws a TemplateError when the template does not parse.
+ */
+export function loadTemplate(template: string): string {
+  const filePath = template.startsWith("@") ? template.slice(1) : undefined;
+  let source = template;
+
+  if (filePath) {
+    try {
+      source = fs.readFileSync(filePath, "utf8").replace(/\r?\n$/, "");
+    } catch (error) {
+      throw new Error(`Cannot read template ${filePath}: ${(error as Error).message}`);
+    }
+  }
+
+  compileTemplate(source);
+  return source;
+}
+
+/**
+ * Render each item with the template, one per line
+ */
+export function renderTemplate(source: string, items: unknown[]): string {
+  const template = compileTemplate(source);
+  return items.map((item) => template.render(item)).join("\n");
+}
@@ -0,0 +1,50 @@
+import { PullRequestVote } from "../types/pull-request.types.js";
+
+/**
+ * Uncoloured text helpers shared by the table, markdown and template output
+ */
+
+export function describeVote(vote: PullRequestVote): string {
+  switch (vote) {
+    case PullRequestVote.Approved:
+      return "Approved";
+    case PullRequestVote.ApprovedWithSuggestions:
+      return "Approved with suggestions";
+    case PullRequestVote.WaitingForAuthor:
+      return "Waiting for author";
+    case PullRequestVote.Rejected:
+      return "Rejected";
+    case PullRequestVote.NoVote:
+    default:
+      return "No vote";
+  }
+}
+
+export function formatRelativeTime(dateString: string): string {
+  const date = new Date(dateString);
+  const now = new Date();
+  const diffMs = now.getTime() - date.getTime();
+  const diffSecs = Math.floor(diffMs / 1000);
+  const diffMins = Math.floor(diffSecs / 60);
+  const diffHours = Math.floor(diffMins / 60);
+  const diffDays = Math.floor(diffHours / 24);
+
+  if (diffDays > 30) {
+    const diffMonths = Math.floor(diffDays / 30);
+    return `${diffMonths} month${diffMonths > 1 ? "s" : ""} ago`;
+  }
+  if (diffDays > 0) {
+    return `${diffDays} day${diffDays > 1 ? "s" : ""} ago`;
+  }
+  if (diffHours > 0) {
+    return `${diffHours} hour${diffHours > 1 ? "s" : ""} ago`;
+  }
+  if (diffMins > 0) {
+    return `${diffMins} minute${diffMins > 1 ? "s" : ""} ago`;
+  }
+  return "just now";
+}
+
+export function getBranchName(refName: string): string {
+  return refName.replace("refs/heads/", "");
+}
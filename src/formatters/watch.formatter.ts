@@ -0,0 +1,43 @@
+import chalk from "chalk";
+import { WatchEvent, WatchEventType } from "../types/pull-request.types.js";
+
+const EVENT_LABELS: Record<WatchEventType, string> = {
+  [WatchEventType.PullRequestAdded]: chalk.blue("new PR"),
+  [WatchEventType.CommentAdded]: chalk.cyan("comment"),
+  [WatchEventType.ThreadResolved]: chalk.green("resolved"),
+  [WatchEventType.ThreadReopened]: chalk.yellow("reopened"),
+  [WatchEventType.VoteChanged]: chalk.magenta("vote"),
+  [WatchEventType.MergeConflict]: chalk.red("conflict"),
+  [WatchEventType.PullRequestCompleted]: chalk.green("completed"),
+  [WatchEventType.PullRequestAbandoned]: chalk.red("abandoned"),
+};
+
+function formatClock(date: Date): string {
+  return date.toTimeString().slice(0, 8);
+}
+
+/**
+ * One line per event: time, pull request, kind of change and what happened
+ */
+export function formatWatchEvent(event: WatchEvent, at: Date): string {
+  const label = EVENT_LABELS[event.type] ?? event.type;
+
+  return (
+    `${chalk.gray(formatClock(at))} ${chalk.cyan(`#${event.pullRequestId}`)} ${chalk.gray(event.repository)} ` +
+    `${label} ${event.message}`
+  );
+}
+
+/**
+ * One JSON object per line, so scripts can read events as they arrive
+ */
+export function formatWatchEventJson(event: WatchEvent, at: Date): string {
+  return JSON.stringify({ timestamp: at.toISOString(), ...event });
+}
+
+/**
+ * Title and body of the desktop notification for an event
+ */
+export function formatWatchNotification(event: WatchEvent): { title: string; message: string } {
+  return { title: `#${event.pullRequestId} ${event.title}`, message: event.message };
+}
@@ -1,13 +1,58 @@
 #!/usr/bin/env node
 
 import { Command } from "commander";
+import { createAuthCommand } from "./commands/auth/auth.command.js";
+import { createConfigCommand } from "./commands/config/config.command.js";
+import { OutputOption } from "./commands/output-options.js";
 import { createPRCommand } from "./commands/pr/index.js";
+import { ConfigService } from "./services/config.service.js";
 
 const program = new Command();
 
-program.name("azc").description("Azure Commander - CLI wrapper for Azure DevOps").version("0.1.0");
+program
+  .name("azc")
+  .description("Azure Commander - CLI wrapper for Azure DevOps")
+  .version("0.1.0")
+  .option("--offline", "Serve the last cached data instead of contacting Azure DevOps")
+  .option("--profile <name>", "Use this configuration profile instead of the active one")
+  .hook("preAction", (command, actionCommand) => {
+    // Services read these from the environment, the same way as AZC_OFFLINE=1 and AZC_PROFILE=<name>
+    if (command.opts().offline) {
+      process.env.AZC_OFFLINE = "1";
+    }
+
+    if (command.opts().profile) {
+      process.env.AZC_PROFILE = command.opts().profile;
+    }
+
+    applyConfiguredOutput(actionCommand);
+  });
 
 // Register commands
 program.addCommand(createPRCommand());
+program.addCommand(createConfigCommand());
+program.addCommand(createAuthCommand());
 
 program.parse();
+
+/**
+ * Use the configured output format when --output is not given and the command supports that format; an invalid
+ * setting keeps the default
+ */
+function applyConfiguredOutput(command: Command): void {
+  const option = command.options.find((candidate): candidate is OutputOption => candidate instanceof OutputOption);
+
+  if (!option || command.getOptionValueSource("output") !== "default") {
+    return;
+  }
+
+  try {
+    const format = new ConfigService().getOutputFormat();
+
+    if (format && option.formats.includes(format)) {
+      command.setOptionValueWithSource("output", format, "config");
+    }
+  } catch {
+    // Keep the default
+  }
+}
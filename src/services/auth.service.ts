@@ -1,4 +1,7 @@
+import crypto from 'crypto';
 import { AzureCliService } from './azure-cli.service.js';
+import { basicAuthorization, CredentialStore } from './credential.service.js';
+import { AuthMethod } from '../types/config.types.js';
 
 export interface AzureSubscriptionInfo {
   id: string;
@@ -7,47 +10,162 @@ export interface AzureSubscriptionInfo {
   state: string;
 }
 
-export type TokenSource = 'azure-cli' | 'environment-pat' | 'environment-token';
+export type TokenSource = 'azure-cli' | 'environment-pat' | 'environment-token' | 'stored-pat';
 
 export interface AzureAuthenticationContext {
   accessToken: string;
   subscription?: AzureSubscriptionInfo;
   source: TokenSource;
+  /** Scopes granted to a JWT access token; personal access tokens do not carry theirs */
+  scopes?: string[];
+  /** When a JWT access token stops being accepted */
+  expiresOn?: Date;
+}
+
+/**
+ * Token sources each configured auth method may use, in the order they are tried
+ */
+const SOURCES_BY_METHOD: Record<AuthMethod, TokenSource[]> = {
+  auto: ['environment-pat', 'environment-token', 'stored-pat', 'azure-cli'],
+  pat: ['environment-pat', 'stored-pat'],
+  token: ['environment-token'],
+  'azure-cli': ['azure-cli'],
+};
+
+/**
+ * How long before it expires a token is replaced, so that no request goes out with one that lapses on the way
+ */
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * Personal access tokens, which Azure DevOps accepts with basic rather than bearer authentication
+ */
+const PAT_SOURCES: TokenSource[] = ['environment-pat', 'stored-pat'];
+
+interface ConfiguredToken {
+  token: string;
+  source: TokenSource;
+  expiresOn?: Date;
 }
 
 export class AuthenticationService {
   private cachedToken?: string;
+  private cachedSource?: TokenSource;
+  private cachedExpiresOn?: Date;
+  private pendingToken?: Promise<string>;
+  private cachedIdentity?: Promise<string>;
   private cachedSubscription?: AzureSubscriptionInfo | undefined;
 
-  constructor(private azureCliService: AzureCliService) {}
+  constructor(
+    private azureCliService: AzureCliService,
+    private getAuthMethod: () => AuthMethod = () => 'auto',
+    /** Stored tokens belong to an organization; without one, none is used */
+    private getOrganizationUrl: () => Promise<string | undefined> = async () => undefined,
+    private credentialStore: CredentialStore = new CredentialStore(),
+  ) {}
 
+  /**
+   * The token to send, resolved again once the one in use is about to expire
+   */
   async getAccessToken(): Promise<string> {
-    if (this.cachedToken) {
+    if (this.cachedToken && !this.isExpiring()) {
       return this.cachedToken;
     }
 
-    const pat = this.getEnvVar('AZURE_DEVOPS_EXT_PAT');
-    if (pat) {
-      this.cachedToken = pat;
-      return pat;
+    // Concurrent requests share one `az account get-access-token` run
+    this.pendingToken ??= this.resolveAccessToken().finally(() => {
+      this.pendingToken = undefined;
+    });
+
+    return this.pendingToken;
+  }
+
+  /**
+   * Forget a token the server rejected, so the next request gets a new one. Only Azure CLI tokens can be replaced
+   * that way; returns whether the token in use was one.
+   */
+  invalidateAccessToken(): boolean {
+    if (this.cachedSource !== 'azure-cli') {
+      return false;
     }
 
-    const envToken = this.getEnvVar('AZ_ACCESS_TOKEN');
-    if (envToken) {
-      this.cachedToken = envToken;
-      return envToken;
+    this.cachedToken = undefined;
+    this.cachedExpiresOn = undefined;
+    return true;
+  }
+
+  /**
+   * Who requests are sent as, without the token itself: the user a JWT was issued to, a hash of any other token,
+   * or the signed-in Azure CLI account. Responses are cached per credential, so that switching accounts never
+   * serves what another one fetched; the Azure CLI account is read without fetching a token, which also works
+   * offline.
+   */
+  getCredentialIdentity(): Promise<string> {
+    this.cachedIdentity ??= this.resolveCredentialIdentity().catch((error) => {
+      this.cachedIdentity = undefined;
+      throw error;
+    });
+
+    return this.cachedIdentity;
+  }
+
+  private async resolveCredentialIdentity(): Promise<string> {
+    const configured = await this.findConfiguredToken();
+
+    if (configured) {
+      const claims = decodeJwtClaims(configured.token);
+      return typeof claims?.oid === 'string'
+        ? `user:${claims.tid}/${claims.oid}`
+        : `token:${crypto.createHash('sha256').update(configured.token).digest('hex')}`;
+    }
+
+    if (!SOURCES_BY_METHOD[this.getAuthMethod()].includes('azure-cli')) {
+      // Fails with the message that explains what is missing
+      await this.getAccessToken();
+    }
+
+    try {
+      const account = await this.azureCliService.executeRawCommand(
+        'az account show --query "[tenantId, user.name]" --output tsv'
+      );
+      return `azure-cli:${account.trim().split(/\s+/).join('/')}`;
+    } catch (err) {
+      const error = new Error('Failed to read the signed-in Azure CLI account. Run: az login');
+      (error as any).cause = err;
+      throw error;
+    }
+  }
+
+  private async resolveAccessToken(): Promise<string> {
+    const method = this.getAuthMethod();
+    const configured = await this.findConfiguredToken();
+
+    if (configured) {
+      return this.cacheToken(configured.token, configured.source, configured.expiresOn);
+    }
+
+    if (method === 'pat') {
+      throw new Error(
+        'The auth method is set to "pat", but AZURE_DEVOPS_EXT_PAT is not set and no token is stored. ' +
+          'Run: azc auth login --pat'
+      );
+    }
+
+    if (method === 'token') {
+      throw new Error('The auth method is set to "token", but AZ_ACCESS_TOKEN is not set.');
     }
 
     try {
-      const token = await this.azureCliService.getAzureDevOpsAccessToken();
-      if (!token || !token.trim()) {
+      const { accessToken, expiresOn } = await this.azureCliService.getAzureDevOpsAccessToken();
+      if (!accessToken || !accessToken.trim()) {
         throw new Error('Empty token from Azure CLI');
       }
-      this.cachedToken = token.trim();
-      return this.cachedToken;
+      return this.cacheToken(accessToken.trim(), 'azure-cli', expiresOn);
     } catch (err: any) {
       const message =
-        'Failed to retrieve access token. Make sure one of the following is available: AZURE_DEVOPS_EXT_PAT, AZ_ACCESS_TOKEN, or Azure CLI login.';
+        method === 'auto'
+          ? 'Failed to retrieve access token. Make sure one of the following is available: AZURE_DEVOPS_EXT_PAT, AZ_ACCESS_TOKEN, a token stored with `azc auth login --pat`, or Azure CLI login.'
+          : 'Failed to retrieve access token from the Azure CLI (auth method "azure-cli"). Run: az login';
       const error = new Error(message);
       // attach original as cause if supported
       (error as any).cause = err;
@@ -55,6 +173,57 @@ export class AuthenticationService {
     }
   }
 
+  /**
+   * The Authorization header for the token in use: basic for personal access tokens, bearer otherwise
+   */
+  async getAuthorizationHeader(): Promise<string> {
+    const token = await this.getAccessToken();
+    return this.cachedSource && PAT_SOURCES.includes(this.cachedSource)
+      ? basicAuthorization(token)
+      : `Bearer ${token}`;
+  }
+
+  /**
+   * The first token from the environment or stored with `azc auth login` that the auth method allows
+   */
+  private async findConfiguredToken(): Promise<ConfiguredToken | undefined> {
+    const sources = SOURCES_BY_METHOD[this.getAuthMethod()];
+
+    const pat = this.getEnvVar('AZURE_DEVOPS_EXT_PAT');
+    if (pat && sources.includes('environment-pat')) {
+      return { token: pat, source: 'environment-pat' };
+    }
+
+    const envToken = this.getEnvVar('AZ_ACCESS_TOKEN');
+    if (envToken && sources.includes('environment-token')) {
+      const exp = decodeJwtClaims(envToken)?.exp;
+      return {
+        token: envToken,
+        source: 'environment-token',
+        expiresOn: typeof exp === 'number' ? new Date(exp * 1000) : undefined,
+      };
+    }
+
+    const storedToken = sources.includes('stored-pat') ? await this.getStoredToken() : undefined;
+    return storedToken ? { token: storedToken, source: 'stored-pat' } : undefined;
+  }
+
+  private async getStoredToken(): Promise<string | undefined> {
+    const organizationUrl = await this.getOrganizationUrl();
+    return organizationUrl ? this.credentialStore.getToken(organizationUrl) : undefined;
+  }
+
+  private cacheToken(token: string, source: TokenSource, expiresOn?: Date): string {
+    this.cachedToken = token;
+    this.cachedSource = source;
+    this.cachedExpiresOn = expiresOn;
+    return token;
+  }
+
+  private isExpiring(): boolean {
+    return this.cachedExpiresOn !== undefined && this.cachedExpiresOn.getTime() - Date.now() < REFRESH_MARGIN_MS;
+  }
+
   private getEnvVar(name: string): string | undefined {
     const v = process.env[name];
     if (!v) return undefined;
@@ -98,12 +267,7 @@ export class AuthenticationService {
 
   async getAuthenticationContext(): Promise<AzureAuthenticationContext> {
     const token = await this.getAccessToken();
-
-    const source: TokenSource = this.getEnvVar('AZURE_DEVOPS_EXT_PAT')
-      ? 'environment-pat'
-      : this.getEnvVar('AZ_ACCESS_TOKEN')
-      ? 'environment-token'
-      : 'azure-cli';
+    const source: TokenSource = this.cachedSource ?? 'azure-cli';
 
     const context: AzureAuthenticationContext = {
       accessToken: token,
@@ -115,11 +279,33 @@ export class AuthenticationService {
       if (subscription) context.subscription = subscription;
     }
 
+    const claims = PAT_SOURCES.includes(source) ? undefined : decodeJwtClaims(token);
+    if (typeof claims?.scp === 'string') context.scopes = claims.scp.split(' ');
+    if (this.cachedExpiresOn) context.expiresOn = this.cachedExpiresOn;
+
     return context;
   }
 
   clearCache(): void {
     this.cachedToken = undefined;
+    this.cachedSource = undefined;
+    this.cachedExpiresOn = undefined;
+    this.cachedIdentity = undefined;
     this.cachedSubscription = undefined;
   }
 }
+
+/**
+ * The claims of a JWT, read without verifying its signature; undefined for anything that is not a JWT
+ */
+export function decodeJwtClaims(token: string): Record<string, unknown> | undefined {
+  const parts = token.split('.');
+  if (parts.length !== 3) return undefined;
+
+  try {
+    const claims = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+    return claims && typeof claims === 'object' ? claims : undefined;
+  } catch {
+    return undefined;
+  }
+}
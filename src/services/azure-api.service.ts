@@ -1,39 +1,373 @@
+import { formatRelativeTime } from "../formatters/text.formatter.js";
+import { cachePolicy, isOfflineMode, ResponseCache } from "./cache.service.js";
 import { ConfigService } from "./config.service.js";
+import {
+  apiVersionPolicy,
+  authorizationPolicy,
+  createPipeline,
+  DEFAULT_RETRY_OPTIONS,
+  fetchHandler,
+  HttpMethod,
+  RateLimitInfo,
+  rateLimitPolicy,
+  RequestHandler,
+  RetryOptions,
+  retryPolicy,
+  throttlePolicy,
+} from "./request-pipeline.js";
+
+/**
+ * Every service talks to the same organization, so the concurrency limit is shared across the process
+ */
+const sharedThrottle = throttlePolicy(8);
+
+let rateLimitWarningShown = false;
+let offlineBannerShown = false;
+
+/**
+ * The largest `$top` list endpoints accept
+ */
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * The shape of every list endpoint's response
+ */
+interface ListResponse<T> {
+  value?: T[];
+}
+
+interface ApiResponse<T> {
+  body: T;
+  headers: Headers;
+}
+
+export interface AzureApiServiceOptions {
+  /** Sends the request once the pipeline is done with it; defaults to fetch */
+  send?: RequestHandler;
+  /** Defaults to DEFAULT_RETRY_OPTIONS, with AZC_MAX_RETRIES overriding the number of retries */
+  retry?: RetryOptions;
+  /** Called for every response carrying rate-limit headers; defaults to one warning per process */
+  onRateLimit?: (info: RateLimitInfo) => void;
+  /** Where GET responses are cached; defaults to ~/.azc/cache, `false` turns caching off */
+  cache?: ResponseCache | false;
+  /** Serve cached data only; defaults to whether `--offline` or AZC_OFFLINE=1 was given */
+  offline?: boolean;
+  /** Authorization header to send; defaults to the configured credential, e.g. to try a token before storing it */
+  authorization?: () => Promise<string>;
+}
+
+/**
+ * A non-2xx answer from the REST API, with what Azure DevOps said about it
+ */
+export class AzureApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly statusText: string,
+    /** Quote this when reporting a server-side failure to Microsoft support */
+    public readonly activityId?: string,
+    /** The `message` of the JSON error body, e.g. "TF401019: The Git repository ... does not exist" */
+    public readonly serverMessage?: string,
+    /** The `typeKey` of the JSON error body, e.g. "GitRepositoryNotFoundException" */
+    public readonly typeKey?: string,
+  ) {
+    const details = serverMessage ? `: ${serverMessage}` : "";
+    const activity = activityId ? ` (activity ID ${activityId})` : "";
+    super(`API request failed: ${status} ${statusText}${details}${activity}`);
+    this.name = "AzureApiError";
+  }
+}
 
 export class AzureApiService {
-  constructor(private configService: ConfigService) {}
+  private pipeline: RequestHandler;
+
+  constructor(
+    private configService: ConfigService,
+    options: AzureApiServiceOptions = {},
+  ) {
+    const cache = options.cache ?? new ResponseCache();
+    const offline = options.offline ?? isOfflineMode();
+
+    // The cache comes before authorization so fresh and offline answers need no access token, only to know whose
+    // credential is in use
+    const identity = () => this.configService.getCredentialIdentity();
+    this.pipeline = createPipeline(
+      [
+        apiVersionPolicy(),
+        ...(cache ? [cachePolicy(cache, { offline, onServedOffline: showOfflineBannerOnce, identity })] : []),
+        options.authorization
+          ? authorizationPolicy(options.authorization)
+          : authorizationPolicy(
+              () => this.getAuthorizationHeader(),
+              () => this.configService.invalidateAccessToken(),
+            ),
+        retryPolicy(options.retry || retryOptionsFromEnvironment()),
+        rateLimitPolicy(options.onRateLimit || warnAboutRateLimitOnce),
+        sharedThrottle,
+      ],
+      options.send || fetchHandler,
+    );
+  }
 
-  async getAuthorizationHeader(): Promise<string> {
-    const token = await this.configService.getAccessToken();
-    return `Bearer ${token}`;
+  getAuthorizationHeader(): Promise<string> {
+    return this.configService.getAuthorizationHeader();
   }
 
   /**
    * Make a GET request to the Azure DevOps REST API
    */
   async get<T>(apiPath: string, project?: string): Promise<T> {
-    const orgUrl = await this.configService.getOrganizationUrl();
-    if (!orgUrl) {
-      throw new Error("Organization URL not configured");
+    return (await this.request<T>("GET", apiPath, project)).body;
+  }
+
+  /**
+   * Make a POST request to the Azure DevOps REST API
+   */
+  async post<T>(apiPath: string, body: unknown, project?: string): Promise<T> {
+    return (await this.request<T>("POST", apiPath, project, body)).body;
+  }
+
+  /**
+   * Make a PATCH request to the Azure DevOps REST API
+   */
+  async patch<T>(apiPath: string, body: unknown, project?: string): Promise<T> {
+    return (await this.request<T>("PATCH", apiPath, project, body)).body;
+  }
+
+  /**
+   * Make a PUT request to the Azure DevOps REST API
+   */
+  async put<T>(apiPath: string, body: unknown, project?: string): Promise<T> {
+    return (await this.request<T>("PUT", apiPath, project, body)).body;
+  }
+
+  /**
+   * Make a DELETE request to the Azure DevOps REST API
+   */
+  async delete<T>(apiPath: string, project?: string): Promise<T> {
+    return (await this.request<T>("DELETE", apiPath, project)).body;
+  }
+
+  /**
+   * Make a GET request to the organization's identity service (vssps), which hosts identity search
+   */
+  async getIdentities<T>(apiPath: string): Promise<T> {
+    const orgUrl = await this.getOrganizationUrl();
+    return (await this.send<T>("GET", `${buildIdentityServiceUrl(orgUrl)}/_apis/${apiPath}`)).body;
+  }
+
+  /**
+   * Iterate over the `value` items of a list endpoint, requesting the next page only once the caller has
+   * consumed the current one. Pages follow the `x-ms-continuationtoken` header when the endpoint sends one,
+   * otherwise `$top`/`$skip` when `pageSize` is given (capped at 100), otherwise there is a single page.
+   */
+  async *paginate<T>(apiPath: string, project?: string, pageSize?: number): AsyncGenerator<T> {
+    const top = pageSize === undefined ? undefined : Math.min(pageSize, MAX_PAGE_SIZE);
+    let skip = 0;
+    let continuationToken: string | undefined;
+
+    for (;;) {
+      const pagePath = withPageParameters(apiPath, top, skip, continuationToken);
+      const response = await this.request<ListResponse<T>>("GET", pagePath, project);
+      const items = response.body?.value || [];
+
+      yield* items;
+
+      continuationToken = response.headers.get("x-ms-continuationtoken") || undefined;
+      skip += items.length;
+
+      const mayHaveMore = continuationToken !== undefined || (top !== undefined && items.length === top);
+      if (!mayHaveMore) {
+        return;
+      }
     }
+  }
 
+  /**
+   * Read the items of every page of a list endpoint that pages with continuation tokens
+   */
+  async getAll<T>(apiPath: string, project?: string): Promise<T[]> {
+    return takeItems(this.paginate<T>(apiPath, project));
+  }
+
+  private async request<T>(
+    method: HttpMethod,
+    apiPath: string,
+    project?: string,
+    body?: unknown,
+  ): Promise<ApiResponse<T>> {
+    const orgUrl = await this.getOrganizationUrl();
     const baseUrl = project ? `${orgUrl}/${project}/_apis` : `${orgUrl}/_apis`;
 
-    const url = `${baseUrl}/${apiPath}`;
-    const authHeader = await this.getAuthorizationHeader();
+    return this.send<T>(method, `${baseUrl}/${apiPath}`, body);
+  }
+
+  private async getOrganizationUrl(): Promise<string> {
+    const orgUrl = await this.configService.getOrganizationUrl();
+    if (!orgUrl) {
+      throw new Error("Organization URL not configured. Run: azc config set organization https://dev.azure.com/YOUR_ORG");
+    }
+
+    return orgUrl.replace(/\/+$/, "");
+  }
 
-    const response = await fetch(url, {
-      method: "GET",
-      headers: {
-        Authorization: authHeader,
-        "Content-Type": "application/json",
-      },
+  private async send<T>(method: HttpMethod, url: string, body?: unknown): Promise<ApiResponse<T>> {
+    const response = await this.pipeline({
+      method,
+      url,
+      headers: {},
+      body: body === undefined ? undefined : JSON.stringify(body),
     });
 
     if (!response.ok) {
-      throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      throw await readApiError(response);
+    }
+
+    // DELETE and some updates answer with an empty body
+    const text = await response.text();
+    return { body: (text ? JSON.parse(text) : undefined) as T, headers: response.headers };
+  }
+}
+
+/**
+ * Read at most `limit` items (all of them when unset); stopping early leaves later pages unrequested
+ */
+export async function takeItems<T>(items: AsyncIterable<T>, limit?: number): Promise<T[]> {
+  const taken: T[] = [];
+
+  if (limit !== undefined && limit <= 0) {
+    return taken;
+  }
+
+  for await (const item of items) {
+    taken.push(item);
+
+    if (limit !== undefined && taken.length >= limit) {
+      break;
     }
+  }
+
+  return taken;
+}
 
-    return response.json() as Promise<T>;
+function withPageParameters(apiPath: string, top?: number, skip = 0, continuationToken?: string): string {
+  const parameters: string[] = [];
+
+  if (top !== undefined) {
+    parameters.push(`$top=${top}`);
+  }
+
+  if (continuationToken !== undefined) {
+    parameters.push(`continuationToken=${encodeURIComponent(continuationToken)}`);
+  } else if (top !== undefined && skip > 0) {
+    parameters.push(`$skip=${skip}`);
+  }
+
+  if (parameters.length === 0) {
+    return apiPath;
+  }
+
+  return `${apiPath}${apiPath.includes("?") ? "&" : "?"}${parameters.join("&")}`;
+}
+
+async function readApiError(response: Response): Promise<AzureApiError> {
+  let error: { message?: string; typeKey?: string } | undefined;
+
+  try {
+    error = JSON.parse(await response.text());
+  } catch {
+    // Gateways answer with HTML or nothing at all
   }
+
+  return new AzureApiError(
+    response.status,
+    response.statusText,
+    response.headers.get("ActivityId") ?? undefined,
+    error?.message,
+    error?.typeKey,
+  );
+}
+
+/**
+ * Retry settings, with AZC_MAX_RETRIES (a whole number, 0 turns retries off) overriding the default count
+ */
+export function retryOptionsFromEnvironment(env: NodeJS.ProcessEnv = process.env): RetryOptions {
+  const value = env.AZC_MAX_RETRIES?.trim();
+  const maxRetries = Number(value);
+
+  if (!value || !Number.isInteger(maxRetries) || maxRetries < 0) {
+    return DEFAULT_RETRY_OPTIONS;
+  }
+
+  return { ...DEFAULT_RETRY_OPTIONS, maxRetries };
+}
+
+/**
+ * One line for stderr, e.g. "Azure DevOps is rate limiting requests to Core (20 of 200 usage units left, ...)"
+ */
+export function describeRateLimit(info: RateLimitInfo): string {
+  const details: string[] = [];
+
+  if (info.remaining !== undefined && info.limit !== undefined) {
+    details.push(`${info.remaining} of ${info.limit} usage units left`);
+  }
+
+  if (info.delaySeconds) {
+    details.push(`requests delayed by ${info.delaySeconds}s`);
+  }
+
+  if (info.retryAfterSeconds !== undefined) {
+    details.push(`retry after ${info.retryAfterSeconds}s`);
+  }
+
+  if (info.resetAt) {
+    details.push(`resets at ${info.resetAt.toLocaleTimeString()}`);
+  }
+
+  const action = info.status === 429 ? "is throttling" : "is rate limiting";
+  const resource = info.resource ? ` to ${info.resource}` : "";
+  const suffix = details.length > 0 ? ` (${details.join(", ")})` : "";
+
+  return `Azure DevOps ${action} requests${resource}${suffix}`;
+}
+
+/**
+ * Written to stderr so JSON and other machine-readable output on stdout stays intact
+ */
+function warnAboutRateLimitOnce(info: RateLimitInfo): void {
+  if (rateLimitWarningShown) {
+    return;
+  }
+
+  rateLimitWarningShown = true;
+  console.error(`Warning: ${describeRateLimit(info)}`);
+}
+
+/**
+ * Tell the user once that what follows may be out of date, with the age of the first cached answer
+ */
+function showOfflineBannerOnce(storedAt: Date): void {
+  if (offlineBannerShown) {
+    return;
+  }
+
+  offlineBannerShown = true;
+  const age = formatRelativeTime(storedAt.toISOString());
+  console.error(`Offline: showing cached data from ${age}, it may be out of date`);
+}
+
+/**
+ * Map an organization URL to its identity service host:
+ * dev.azure.com/org → vssps.dev.azure.com/org, org.visualstudio.com → org.vssps.visualstudio.com.
+ * Other hosts (Azure DevOps Server) serve identities from the collection URL itself.
+ */
+export function buildIdentityServiceUrl(orgUrl: string): string {
+  const url = new URL(orgUrl);
+
+  if (url.hostname === "dev.azure.com") {
+    url.hostname = "vssps.dev.azure.com";
+  } else if (url.hostname.endsWith(".visualstudio.com")) {
+    url.hostname = url.hostname.replace(/\.visualstudio\.com$/, ".vssps.visualstudio.com");
+  }
+
+  return url.toString().replace(/\/+$/, "");
 }
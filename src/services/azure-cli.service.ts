@@ -42,8 +42,44 @@ export class AzureCliExecutionError extends Error {
   }
 }
 
+/**
+ * Quote a value so it reaches the Azure CLI as a single argument, even when it
+ * contains spaces, quotes or newlines.
+ */
+export function quoteArgument(value: string, platform: NodeJS.Platform = process.platform): string {
+  if (platform === "win32") {
+    return `"${value.replace(/"/g, '\\"')}"`;
+  }
+
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * An access token from `az account get-access-token`
+ */
+export interface AzureAccessToken {
+  accessToken: string;
+  /** Unset when the Azure CLI does not say */
+  expiresOn?: Date;
+}
+
+type ExecAsync = (cmd: string) => Promise<any>;
+
+type ValidationCheck = "installed" | "authenticated" | "devops-extension";
+
+const runCommand: ExecAsync = promisify(exec) as any;
+
+/**
+ * Checks that passed or are running, shared by every service using the real `az` so each runs once per process.
+ * Failures are forgotten: the user may fix them while a long-running command such as `pr watch` is going.
+ */
+const processChecks = new Map<ValidationCheck, Promise<void>>();
+
 export class AzureCliService {
-  constructor(private execAsync: (cmd: string) => Promise<any> = promisify(exec) as any) {}
+  constructor(
+    private execAsync: ExecAsync = runCommand,
+    private checks: Map<ValidationCheck, Promise<void>> = execAsync === runCommand ? processChecks : new Map(),
+  ) {}
 
   async isInstalled(): Promise<boolean> {
     try {
@@ -119,15 +155,28 @@ export class AzureCliService {
     }
   }
 
-  async getAzureDevOpsAccessToken(): Promise<string> {
+  async getAzureDevOpsAccessToken(): Promise<AzureAccessToken> {
+    let stdout: string;
+
     try {
-      const { stdout } = await this.execAsync(
-        "az account get-access-token --resource 499b84ac-1321-427f-aa17-267ca6975798 --query accessToken --output tsv",
-      );
-      return stdout.trim();
+      ({ stdout } = await this.execAsync(
+        "az account get-access-token --resource 499b84ac-1321-427f-aa17-267ca6975798 --output json",
+      ));
     } catch (error: any) {
       return this.handleAccessTokenError(error);
     }
+
+    try {
+      const result = JSON.parse(stdout);
+
+      if (typeof result !== "object" || result === null) {
+        throw new Error("expected a JSON object");
+      }
+
+      return { accessToken: String(result.accessToken ?? "").trim(), expiresOn: parseTokenExpiry(result) };
+    } catch (error) {
+      throw new AzureCliExecutionError("Failed to get access token", `Unreadable output: ${(error as Error).message}`);
+    }
   }
 
   private extensionsIncludeAzureDevOps(extensions: any[]): boolean {
@@ -135,23 +184,37 @@ export class AzureCliService {
   }
 
   private async validateAzureCliIsInstalled(): Promise<void> {
-    if (!(await this.isInstalled())) {
-      throw new AzureCliNotInstalledError();
-    }
+    await this.validate("installed", () => this.isInstalled(), () => new AzureCliNotInstalledError());
   }
 
   private async validateUserIsAuthenticated(): Promise<void> {
-    if (!(await this.isAuthenticated())) {
-      throw new AzureCliNotAuthenticatedError();
-    }
+    await this.validate("authenticated", () => this.isAuthenticated(), () => new AzureCliNotAuthenticatedError());
   }
 
   private async validateDevOpsExtensionForDevOpsCommands(command: string): Promise<void> {
     if (this.isDevOpsCommand(command)) {
-      if (!(await this.hasDevOpsExtension())) {
-        throw new AzureDevOpsExtensionNotInstalledError();
-      }
+      await this.validate(
+        "devops-extension",
+        () => this.hasDevOpsExtension(),
+        () => new AzureDevOpsExtensionNotInstalledError(),
+      );
+    }
+  }
+
+  private validate(check: ValidationCheck, probe: () => Promise<boolean>, failure: () => Error): Promise<void> {
+    let pending = this.checks.get(check);
+
+    if (!pending) {
+      pending = probe().then((passed) => {
+        if (!passed) {
+          throw failure();
+        }
+      });
+      this.checks.set(check, pending);
+      pending.catch(() => this.checks.delete(check));
     }
+
+    return pending;
   }
 
   private isDevOpsCommand(command: string): boolean {
@@ -159,20 +222,14 @@ export class AzureCliService {
   }
 
   private async ensureConfiguredUsername(): Promise<string> {
-    // Check for config file in home directory
     try {
-      const os = await import("os");
-      const path = await import("path");
-      const fs = await import("fs");
-      const homedir = os.homedir();
-      const cfgPath = path.join(homedir, ".azc", "config.json");
-
-      if (fs.existsSync(cfgPath)) {
-        const content = fs.readFileSync(cfgPath, "utf8");
-        const cfg = JSON.parse(content);
-        if (cfg && cfg.username) {
-          return cfg.username;
-        }
+      // Loaded lazily: the config service itself runs the Azure CLI for its defaults
+      const { ConfigService } = await import("./config.service.js");
+      const configService = new ConfigService(this);
+
+      const configured = configService.resolveLocal("username").value;
+      if (configured) {
+        return configured;
       }
 
       // Otherwise prompt the user
@@ -184,14 +241,8 @@ export class AzureCliService {
       const answer = (await question("Enter your Azure DevOps username/email (used instead of @me): ")).trim();
       rl.close();
 
-      // Create config dir and save
-      const cfgDir = path.join(homedir, ".azc");
-      if (!fs.existsSync(cfgDir)) {
-        fs.mkdirSync(cfgDir, { recursive: true });
-      }
-
-      const cfgPathNew = path.join(cfgDir, "config.json");
-      fs.writeFileSync(cfgPathNew, JSON.stringify({ username: answer }, null, 2), { mode: 0o600 });
+      // Remember it in the active profile
+      configService.set("username", answer);
 
       return answer;
     } catch (e) {
@@ -262,3 +313,28 @@ export class AzureCliService {
     throw new AzureCliExecutionError("Failed to get access token", error.stderr || error.message);
   }
 }
+
+/**
+ * Newer Azure CLI versions give the expiry as `expires_on` in epoch seconds; older ones only as `expiresOn`, a
+ * local time such as "2024-05-01 14:03:12.000000"
+ */
+function parseTokenExpiry(result: { expires_on?: unknown; expiresOn?: unknown }): Date | undefined {
+  const epochSeconds = typeof result.expires_on === "string" ? Number(result.expires_on.trim()) : result.expires_on;
+
+  if (typeof epochSeconds === "number" && Number.isFinite(epochSeconds) && epochSeconds > 0) {
+    return new Date(epochSeconds * 1000);
+  }
+
+  if (typeof result.expiresOn !== "string") {
+    return undefined;
+  }
+
+  const match = result.expiresOn.match(/^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2}:\d{2})/);
+  if (!match) {
+    return undefined;
+  }
+
+  // Without an offset, an ISO date-time is read as local time, which is what the Azure CLI prints
+  const expiresOn = new Date(`${match[1]}T${match[2]}`);
+  return isNaN(expiresOn.getTime()) ? undefined : expiresOn;
+}
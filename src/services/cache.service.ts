@@ -0,0 +1,378 @@
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { RequestPolicy } from "./request-pipeline.js";
+
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * How long a cached response is served without asking the server, by request URL; the first match wins.
+ * Anything else is always revalidated. Content addressed by a commit never changes, while threads change
+ * the most, so they are kept shortest.
+ */
+const CACHE_TTLS: { pattern: RegExp; seconds: number }[] = [
+  { pattern: /\/_apis\/connectionData/i, seconds: DAY },
+  { pattern: /\/_apis\/identities/i, seconds: HOUR },
+  { pattern: /\/items\?.*versionType=commit/i, seconds: 7 * DAY },
+  { pattern: /\/iterations\/\d+\/changes/i, seconds: 7 * DAY },
+  { pattern: /\/iterations/i, seconds: MINUTE },
+  { pattern: /\/threads/i, seconds: 15 },
+  { pattern: /\/pullrequests/i, seconds: 30 },
+];
+
+/**
+ * Response headers that pagination needs, so cached pages can be followed like live ones
+ */
+const KEPT_HEADERS = ["x-ms-continuationtoken"];
+
+/**
+ * How much the cache may hold. Entries past either limit are pruned, oldest first, at most once per `pruneEvery`.
+ */
+export interface CacheLimits {
+  /** Entries not stored or confirmed by the server for this long are removed */
+  maxAgeMs: number;
+  /** Total size of the entries; the oldest are removed until the rest fit */
+  maxBytes: number;
+  pruneEveryMs: number;
+}
+
+export const DEFAULT_CACHE_LIMITS: CacheLimits = {
+  maxAgeMs: 30 * DAY * 1000,
+  maxBytes: 100 * 1024 * 1024,
+  pruneEveryMs: HOUR * 1000,
+};
+
+/**
+ * Marks when the cache was last pruned, so runs in between skip walking it
+ */
+const PRUNE_MARKER = ".pruned";
+
+/**
+ * One cached response, stored as `<group>/<sha256 of the credential identity and the URL>.json`, where the group
+ * is the pull request the URL is about (see `groupOf`)
+ */
+export interface CacheEntry {
+  version: 1;
+  url: string;
+  /** ISO timestamp of the last time the server confirmed this body */
+  storedAt: string;
+  etag?: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export class OfflineCacheMissError extends Error {
+  constructor(url: string) {
+    super(`No cached data for ${url}. Run the command once while online to cache it.`);
+    this.name = "OfflineCacheMissError";
+  }
+}
+
+export class OfflineChangeError extends Error {
+  constructor(change: string) {
+    super(`Cannot ${change} while offline. Run the command again without --offline or AZC_OFFLINE.`);
+    this.name = "OfflineChangeError";
+  }
+}
+
+/**
+ * Default location, next to the profiles in config.json
+ */
+export function defaultCacheDirectory(): string {
+  return path.join(os.homedir(), ".azc", "cache");
+}
+
+/**
+ * Seconds a response for this URL stays fresh; 0 means it is always revalidated
+ */
+export function cacheTtlFor(url: string): number {
+  return CACHE_TTLS.find((rule) => rule.pattern.test(url))?.seconds ?? 0;
+}
+
+/**
+ * Whether `--offline` (or AZC_OFFLINE=1) asked to serve cached data without touching the network
+ */
+export function isOfflineMode(env: NodeJS.ProcessEnv = process.env): boolean {
+  return env.AZC_OFFLINE === "1" || env.AZC_OFFLINE === "true";
+}
+
+/**
+ * GET responses of the REST API on disk. The URL holds the organization, project and API path, so together with
+ * the credential the response was fetched with it is the key: what one account may see, or who "me" is, is not
+ * served to another. Entries are filed in a directory per pull request, which indexes them for invalidation.
+ */
+export class ResponseCache {
+  constructor(
+    public readonly directory: string = defaultCacheDirectory(),
+    private limits: CacheLimits = DEFAULT_CACHE_LIMITS,
+  ) {}
+
+  /**
+   * The entry for a URL; a missing or unreadable file counts as not cached
+   */
+  read(url: string, identity = ""): CacheEntry | undefined {
+    try {
+      const entry = JSON.parse(fs.readFileSync(this.pathFor(url, identity), "utf8"));
+
+      if (entry?.version === 1 && entry.url === url && typeof entry.body === "string") {
+        return entry as CacheEntry;
+      }
+    } catch {
+      // Fall through to a miss
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Store an entry; a cache that cannot be written only makes the next run slower, so errors are ignored
+   */
+  write(entry: CacheEntry, identity = ""): void {
+    try {
+      const filePath = this.pathFor(entry.url, identity);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o700 });
+
+      // Write to a temporary file first so an interrupted write never leaves a truncated entry
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(entry), { mode: 0o600 });
+      fs.renameSync(tmpPath, filePath);
+    } catch {
+      // Serve the response uncached
+    }
+
+    this.pruneIfDue();
+  }
+
+  /**
+   * Remove what is cached about a pull request, whoever it was fetched for, and the pull request lists, which may
+   * show it. Without an ID only the lists are removed, e.g. after a pull request was created.
+   */
+  invalidatePullRequest(pullRequestId?: string): void {
+    const groups = pullRequestId === undefined ? [LISTS_GROUP] : [LISTS_GROUP, `pr-${pullRequestId}`];
+
+    for (const group of groups) {
+      fs.rmSync(path.join(this.directory, group), { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Remove every entry, e.g. after signing in or out
+   */
+  clear(): void {
+    fs.rmSync(this.directory, { recursive: true, force: true });
+  }
+
+  /**
+   * Remove entries older than the age limit, then the oldest ones until the rest fit in the size limit.
+   * Entries are aged by their file's modification time, which is when the server last confirmed them.
+   */
+  prune(now = Date.now()): void {
+    const files = listFiles(this.directory).sort((a, b) => b.modified - a.modified);
+    let bytes = 0;
+
+    for (const file of files) {
+      if (now - file.modified <= this.limits.maxAgeMs && bytes + file.size <= this.limits.maxBytes) {
+        bytes += file.size;
+        continue;
+      }
+
+      fs.rmSync(file.path, { force: true });
+    }
+
+    removeEmptyDirectories(this.directory);
+  }
+
+  private pruneIfDue(): void {
+    const marker = path.join(this.directory, PRUNE_MARKER);
+    const now = Date.now();
+
+    try {
+      if (now - fs.statSync(marker).mtimeMs < this.limits.pruneEveryMs) {
+        return;
+      }
+    } catch {
+      // Never pruned yet
+    }
+
+    try {
+      fs.writeFileSync(marker, "", { mode: 0o600 });
+      this.prune(now);
+    } catch {
+      // Try again on a later write
+    }
+  }
+
+  private pathFor(url: string, identity: string): string {
+    const key = crypto.createHash("sha256").update(`${identity}\n${url}`).digest("hex");
+    return path.join(this.directory, groupOf(url), `${key}.json`);
+  }
+}
+
+/**
+ * Group of the pull request lists, which any change to a pull request may make wrong
+ */
+const LISTS_GROUP = "pr-lists";
+
+/**
+ * The directory an entry is filed in: its pull request, the pull request lists, or everything else
+ */
+function groupOf(url: string): string {
+  const pullRequestId = pullRequestIdOf(url);
+
+  if (pullRequestId !== undefined) {
+    return `pr-${pullRequestId}`;
+  }
+
+  return /\/pullrequests\?/i.test(url) ? LISTS_GROUP : "other";
+}
+
+function pullRequestIdOf(url: string): string | undefined {
+  return url.match(/\/pullrequests\/(\d+)/i)?.[1];
+}
+
+interface CachedFile {
+  path: string;
+  size: number;
+  modified: number;
+}
+
+function listFiles(directory: string): CachedFile[] {
+  let names: string[];
+
+  try {
+    names = fs.readdirSync(directory);
+  } catch {
+    return [];
+  }
+
+  return names
+    .filter((name) => name !== PRUNE_MARKER)
+    .flatMap((name) => {
+      const filePath = path.join(directory, name);
+
+      try {
+        const stats = fs.statSync(filePath);
+        return stats.isDirectory()
+          ? listFiles(filePath)
+          : [{ path: filePath, size: stats.size, modified: stats.mtimeMs }];
+      } catch {
+        return [];
+      }
+    });
+}
+
+function removeEmptyDirectories(directory: string): void {
+  let names: string[];
+
+  try {
+    names = fs.readdirSync(directory);
+  } catch {
+    return;
+  }
+
+  for (const name of names) {
+    const subdirectory = path.join(directory, name);
+
+    try {
+      if (fs.statSync(subdirectory).isDirectory() && fs.readdirSync(subdirectory).length === 0) {
+        fs.rmdirSync(subdirectory);
+      }
+    } catch {
+      // Written to meanwhile
+    }
+  }
+}
+
+export interface CachePolicyOptions {
+  /** Serve only cached data and never send a request */
+  offline: boolean;
+  /** Called with the time a cached body was stored whenever one is served offline */
+  onServedOffline?: (storedAt: Date) => void;
+  /** Names the credential requests are sent with; entries are only served to the credential that fetched them */
+  identity?: () => Promise<string>;
+  now?: () => number;
+}
+
+/**
+ * Serve fresh GET responses from the cache and revalidate stale ones with `If-None-Match`. A successful
+ * change (POST, PATCH, PUT or DELETE) drops what is cached about the same pull request, and the pull
+ * request lists, so the next read shows it. Offline, changes fail before anything is sent.
+ */
+export function cachePolicy(cache: ResponseCache, options: CachePolicyOptions): RequestPolicy {
+  const now = options.now || Date.now;
+
+  return async (request, next) => {
+    if (request.method !== "GET") {
+      if (options.offline) {
+        throw new OfflineChangeError(`send ${request.method} ${request.url}`);
+      }
+
+      const response = await next(request);
+      if (response.ok) {
+        cache.invalidatePullRequest(pullRequestIdOf(request.url));
+      }
+      return response;
+    }
+
+    const identity = options.identity ? await options.identity() : "";
+    const cached = cache.read(request.url, identity);
+
+    if (options.offline) {
+      if (!cached) {
+        throw new OfflineCacheMissError(request.url);
+      }
+
+      options.onServedOffline?.(new Date(cached.storedAt));
+      return toResponse(cached);
+    }
+
+    if (cached && now() - new Date(cached.storedAt).getTime() < cacheTtlFor(request.url) * 1000) {
+      return toResponse(cached);
+    }
+
+    const headers = cached?.etag ? { ...request.headers, "If-None-Match": cached.etag } : request.headers;
+    const response = await next({ ...request, headers });
+
+    if (cached && response.status === 304) {
+      const confirmed = { ...cached, storedAt: new Date(now()).toISOString() };
+      cache.write(confirmed, identity);
+      return toResponse(confirmed);
+    }
+
+    if (!response.ok) {
+      return response;
+    }
+
+    const entry: CacheEntry = {
+      version: 1,
+      url: request.url,
+      storedAt: new Date(now()).toISOString(),
+      etag: response.headers.get("ETag") ?? undefined,
+      headers: keptHeaders(response.headers),
+      body: await response.text(),
+    };
+    cache.write(entry, identity);
+
+    return toResponse(entry, response.status);
+  };
+}
+
+function toResponse(entry: CacheEntry, status = 200): Response {
+  return new Response(entry.body || null, { status, headers: entry.headers });
+}
+
+function keptHeaders(headers: Headers): Record<string, string> {
+  const kept: Record<string, string> = {};
+
+  for (const name of KEPT_HEADERS) {
+    const value = headers.get(name);
+    if (value !== null) {
+      kept[name] = value;
+    }
+  }
+
+  return kept;
+}
@@ -1,29 +1,63 @@
 import { AuthenticationService, AzureAuthenticationContext, AzureSubscriptionInfo } from "./auth.service.js";
 import { AzureCliService } from "./azure-cli.service.js";
+import { AzureReposRemote, GitService } from "./git.service.js";
+import { ProfileStore, RepoConfigStore } from "./profile.service.js";
+import { AUTH_METHODS, AuthMethod, CONFIG_KEYS, ConfigKey, ConfigSetting } from "../types/config.types.js";
+import { OutputFormat } from "../types/pull-request.types.js";
+
+/**
+ * Environment variables that override the repository file and the profile
+ */
+export const CONFIG_ENVIRONMENT_VARIABLES: Record<ConfigKey, string> = {
+  organization: "AZURE_DEVOPS_ORG_URL",
+  project: "AZURE_DEVOPS_PROJECT",
+  repository: "AZC_REPOSITORY",
+  username: "AZC_USERNAME",
+  output: "AZC_OUTPUT",
+  auth: "AZC_AUTH",
+};
 
 export class ConfigService {
   private authService: AuthenticationService;
   private azureCliService: AzureCliService;
+  private devOpsConfig?: Promise<Record<string, string>>;
+  private gitRemote?: Promise<AzureReposRemote | undefined>;
 
-  constructor(azureCliService?: AzureCliService, authService?: AuthenticationService) {
+  constructor(
+    azureCliService?: AzureCliService,
+    authService?: AuthenticationService,
+    private profileStore: ProfileStore = new ProfileStore(),
+    private repoConfigStore: RepoConfigStore = new RepoConfigStore(),
+    private env: NodeJS.ProcessEnv = process.env,
+    private gitService: GitService = new GitService(),
+  ) {
     // allow injection in tests
-    if (authService) {
-      this.authService = authService;
-      this.azureCliService = azureCliService || new AzureCliService();
-    } else if (azureCliService) {
-      this.azureCliService = azureCliService;
-      this.authService = new AuthenticationService(azureCliService);
-    } else {
-      // If nothing provided, create using default AzureCliService
-      this.azureCliService = new AzureCliService();
-      this.authService = new AuthenticationService(this.azureCliService);
-    }
+    this.azureCliService = azureCliService || new AzureCliService();
+    this.authService =
+      authService ||
+      new AuthenticationService(
+        this.azureCliService,
+        () => this.getAuthMethod(),
+        () => this.getOrganizationUrl(),
+      );
   }
 
   getAccessToken(): Promise<string> {
     return this.authService.getAccessToken();
   }
 
+  getAuthorizationHeader(): Promise<string> {
+    return this.authService.getAuthorizationHeader();
+  }
+
+  getCredentialIdentity(): Promise<string> {
+    return this.authService.getCredentialIdentity();
+  }
+
+  invalidateAccessToken(): boolean {
+    return this.authService.invalidateAccessToken();
+  }
+
   getSubscriptionInfo(): Promise<AzureSubscriptionInfo | undefined> {
     return this.authService.getSubscriptionInfo();
   }
@@ -36,6 +70,195 @@ export class ConfigService {
     this.authService.clearCache();
   }
 
+  /**
+   * The profile in use: AZC_PROFILE (or --profile), then the repository's .azcrc, then `config use-profile`
+   */
+  getActiveProfile(): string {
+    return this.env.AZC_PROFILE?.trim() || this.repoConfigStore.read().profile || this.profileStore.currentProfile();
+  }
+
+  listProfiles(): string[] {
+    return this.profileStore.listProfiles();
+  }
+
+  /**
+   * Resolve a setting from the environment, the repository's .azcrc and the active profile, for settings that are
+   * needed synchronously and that the git remote does not provide
+   */
+  resolveLocal(key: ConfigKey): ConfigSetting {
+    const override = this.resolveOverride(key);
+    return override.value ? override : this.resolveFromProfile(key);
+  }
+
+  /**
+   * Resolve a setting from, in order: the environment, the repository's .azcrc, the Azure Repos git remote of the
+   * working directory (organization, project and repository), the active profile, and the `az devops configure`
+   * defaults (organization and project). Command-line flags win over all of them and are applied by the commands.
+   */
+  async resolve(key: ConfigKey): Promise<ConfigSetting> {
+    const override = this.resolveOverride(key);
+    if (override.value) {
+      return override;
+    }
+
+    const fromRemote = await this.resolveFromGitRemote(key);
+    if (fromRemote.value) {
+      return fromRemote;
+    }
+
+    const fromProfile = this.resolveFromProfile(key);
+    if (fromProfile.value || (key !== "organization" && key !== "project")) {
+      return fromProfile;
+    }
+
+    try {
+      const value = (await this.loadDevOpsConfig())[key];
+      return value ? { key, value, source: "azure-cli" } : fromProfile;
+    } catch {
+      return fromProfile;
+    }
+  }
+
+  async get(key: ConfigKey): Promise<string | undefined> {
+    return (await this.resolve(key)).value;
+  }
+
+  async list(): Promise<ConfigSetting[]> {
+    return Promise.all(CONFIG_KEYS.map((key) => this.resolve(key)));
+  }
+
+  /**
+   * Store a setting after validating it, in the active profile or in the repository's .azcrc when `local` is set.
+   * Returns where it was written.
+   */
+  set(key: string, value: string, local = false): string {
+    const configKey = parseConfigKey(key);
+    return this.write(configKey, normalizeValue(configKey, value), local);
+  }
+
+  unset(key: string, local = false): string {
+    return this.write(parseConfigKey(key), undefined, local);
+  }
+
+  /**
+   * Switch to a profile; returns false when it did not exist and was created
+   */
+  useProfile(name: string): boolean {
+    const existed = this.profileStore.hasProfile(name);
+    this.profileStore.useProfile(name);
+    return existed;
+  }
+
+  /**
+   * Output format commands use when no --output flag is given, if one is configured
+   */
+  getOutputFormat(): OutputFormat | undefined {
+    const setting = this.resolveLocal("output");
+    return setting.value ? (normalizeSetting(setting) as OutputFormat) : undefined;
+  }
+
+  getAuthMethod(): AuthMethod {
+    const setting = this.resolveLocal("auth");
+    return setting.value ? (normalizeSetting(setting) as AuthMethod) : "auto";
+  }
+
+  /**
+   * Get the Azure DevOps organization URL
+   */
+  getOrganizationUrl(): Promise<string | undefined> {
+    return this.get("organization");
+  }
+
+  /**
+   * Get the default project
+   */
+  getDefaultProject(): Promise<string | undefined> {
+    return this.get("project");
+  }
+
+  /**
+   * Get the default repository
+   */
+  getDefaultRepository(): Promise<string | undefined> {
+    return this.get("repository");
+  }
+
+  private resolveOverride(key: ConfigKey): ConfigSetting {
+    const fromEnvironment = this.env[CONFIG_ENVIRONMENT_VARIABLES[key]]?.trim();
+    if (fromEnvironment) {
+      return { key, value: fromEnvironment, source: "environment" };
+    }
+
+    const fromRepository = this.readRepositorySetting(key);
+    return fromRepository ? { key, value: fromRepository, source: "repository" } : { key };
+  }
+
+  /**
+   * A .azcrc usually comes with the clone, so it does not decide where credentials are sent: its organization is
+   * only used when it is on Azure DevOps Services, and its auth method is never used
+   */
+  private readRepositorySetting(key: ConfigKey): string | undefined {
+    const value = key === "auth" ? undefined : this.repoConfigStore.read()[key];
+    return key === "organization" && value && !isAzureDevOpsOrganizationUrl(value) ? undefined : value;
+  }
+
+  private resolveFromProfile(key: ConfigKey): ConfigSetting {
+    const fromProfile = this.profileStore.getProfile(this.getActiveProfile())[key];
+    return fromProfile ? { key, value: fromProfile, source: "profile" } : { key };
+  }
+
+  /**
+   * The remote's project and repository only apply within its organization, so they are skipped when the
+   * organization is set to another one
+   */
+  private async resolveFromGitRemote(key: ConfigKey): Promise<ConfigSetting> {
+    if (key !== "organization" && key !== "project" && key !== "repository") {
+      return { key };
+    }
+
+    const remote = await this.loadGitRemote();
+    if (!remote) {
+      return { key };
+    }
+
+    const organization = this.resolveOverride("organization").value;
+    if (key !== "organization" && organization && !sameOrganization(organization, remote.organizationUrl)) {
+      return { key };
+    }
+
+    const values = { organization: remote.organizationUrl, project: remote.project, repository: remote.repository };
+    return { key, value: values[key], source: "git-remote" };
+  }
+
+  private loadGitRemote(): Promise<AzureReposRemote | undefined> {
+    if (!this.gitRemote) {
+      this.gitRemote = this.gitService.getAzureReposRemote();
+    }
+
+    return this.gitRemote;
+  }
+
+  private write(key: ConfigKey, value: string | undefined, local: boolean): string {
+    if (local) {
+      if (key === "auth" && value !== undefined) {
+        throw new Error("The auth method cannot be set in .azcrc; set it in a profile or with AZC_AUTH");
+      }
+
+      if (key === "organization" && value !== undefined && !isAzureDevOpsOrganizationUrl(value)) {
+        throw new Error(
+          "Only https://dev.azure.com/ORG and https://ORG.visualstudio.com organizations are read from .azcrc; " +
+            `set ${value} in a profile or with ${CONFIG_ENVIRONMENT_VARIABLES.organization}`,
+        );
+      }
+
+      return this.repoConfigStore.set(key, value);
+    }
+
+    const profile = this.getActiveProfile();
+    this.profileStore.set(profile, key, value);
+    return `profile "${profile}"`;
+  }
+
   /**
    * Parse INI-style output from az devops configure --list
    */
@@ -54,30 +277,88 @@ export class ConfigService {
   }
 
   /**
-   * Get the Azure DevOps organization URL from CLI config
+   * Read the CLI defaults once; the organization and the project come from the same output
    */
-  async getOrganizationUrl(): Promise<string | undefined> {
-    try {
-      const output = await this.azureCliService.executeRawCommand("az devops configure --list");
-      const config = this.parseDevOpsConfig(output);
-      return config["organization"] || process.env.AZURE_DEVOPS_ORG_URL;
-    } catch {
-      // Try environment variable as fallback
-      return process.env.AZURE_DEVOPS_ORG_URL;
+  private loadDevOpsConfig(): Promise<Record<string, string>> {
+    if (!this.devOpsConfig) {
+      this.devOpsConfig = this.azureCliService
+        .executeRawCommand("az devops configure --list")
+        .then((output) => this.parseDevOpsConfig(output));
     }
+
+    return this.devOpsConfig;
   }
+}
 
-  /**
-   * Get the default project from CLI config
-   */
-  async getDefaultProject(): Promise<string | undefined> {
-    try {
-      const output = await this.azureCliService.executeRawCommand("az devops configure --list");
-      const config = this.parseDevOpsConfig(output);
-      return config["project"] || process.env.AZURE_DEVOPS_PROJECT;
-    } catch {
-      // Try environment variable as fallback
-      return process.env.AZURE_DEVOPS_PROJECT;
-    }
+/**
+ * Compare organization URLs regardless of case, trailing slashes and the old visualstudio.com host
+ */
+function sameOrganization(a: string, b: string): boolean {
+  const normalize = (url: string) =>
+    url
+      .toLowerCase()
+      .replace(/\/+$/, "")
+      .replace(/^https?:\/\/([^./]+)\.visualstudio\.com$/, "https://dev.azure.com/$1");
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * Whether an organization URL is on Azure DevOps Services, the only hosts a repository's .azcrc may point to
+ */
+function isAzureDevOpsOrganizationUrl(url: string): boolean {
+  return /^https:\/\/(?:dev\.azure\.com\/[^/\s?#]+|[^./\s]+\.visualstudio\.com)\/?$/i.test(url.trim());
+}
+
+export function parseConfigKey(key: string): ConfigKey {
+  if (!(CONFIG_KEYS as readonly string[]).includes(key)) {
+    throw new Error(`Unknown setting: ${key}. Valid settings: ${CONFIG_KEYS.join(", ")}`);
   }
+
+  return key as ConfigKey;
+}
+
+/**
+ * Check a value before it is stored: organizations must be URLs, and output formats and auth methods must be known
+ */
+function normalizeValue(key: ConfigKey, value: string): string {
+  const trimmed = value.trim();
+
+  if (!trimmed) {
+    throw new Error(`A value is required for ${key}; use "azc config unset ${key}" to remove it`);
+  }
+
+  switch (key) {
+    case "organization":
+      if (!/^https?:\/\/[^/\s]+/i.test(trimmed)) {
+        throw new Error(`Invalid organization URL: ${trimmed}. Expected e.g. https://dev.azure.com/YOUR_ORG`);
+      }
+      return trimmed.replace(/\/+$/, "");
+    case "output":
+      return requireOneOf(key, trimmed.toLowerCase(), Object.values(OutputFormat));
+    case "auth":
+      return requireOneOf(key, trimmed.toLowerCase(), AUTH_METHODS);
+    default:
+      return trimmed;
+  }
+}
+
+/**
+ * Validate a setting read back from any layer, naming the layer when it holds an invalid value
+ */
+function normalizeSetting(setting: ConfigSetting): string {
+  try {
+    return normalizeValue(setting.key, setting.value ?? "");
+  } catch (error) {
+    const origin =
+      setting.source === "environment" ? CONFIG_ENVIRONMENT_VARIABLES[setting.key] : `the ${setting.source} setting`;
+    throw new Error(`${(error as Error).message} (from ${origin})`);
+  }
+}
+
+function requireOneOf(key: ConfigKey, value: string, allowed: readonly string[]): string {
+  if (!allowed.includes(value)) {
+    throw new Error(`Invalid ${key}: ${value}. Valid values: ${allowed.join(", ")}`);
+  }
+
+  return value;
 }
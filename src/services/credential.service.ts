@@ -0,0 +1,158 @@
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+const CIPHER = "aes-256-gcm";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+/**
+ * A personal access token as stored, encrypted with the key in credentials.key
+ */
+export interface StoredCredential {
+  /** Base64 of the AES-256-GCM ciphertext */
+  token: string;
+  iv: string;
+  authTag: string;
+  /** ISO timestamp of `auth login` */
+  storedAt: string;
+  /** Who the token belonged to when it was validated, e.g. "jane@example.com" */
+  user?: string;
+}
+
+interface CredentialsFile {
+  version: 1;
+  /** By organization URL */
+  credentials: Record<string, StoredCredential>;
+}
+
+/**
+ * Default location, next to the profiles in config.json
+ */
+export function defaultCredentialsPath(): string {
+  return path.join(os.homedir(), ".azc", "credentials.json");
+}
+
+/**
+ * The value of an Authorization header for a personal access token, which Azure DevOps only accepts with basic
+ * authentication and an empty user name
+ */
+export function basicAuthorization(pat: string): string {
+  return `Basic ${Buffer.from(`:${pat}`).toString("base64")}`;
+}
+
+/**
+ * Personal access tokens saved with `azc auth login`, one per organization. Tokens are encrypted with a random key
+ * kept in its own file, so the credentials file alone (in a backup or a dotfiles repository) does not reveal them;
+ * both files are readable only by their owner.
+ */
+export class CredentialStore {
+  constructor(
+    public readonly filePath: string = defaultCredentialsPath(),
+    private readonly keyPath: string = path.join(path.dirname(filePath), "credentials.key"),
+  ) {}
+
+  /**
+   * The decrypted token for an organization; one that cannot be decrypted (e.g. the key was lost) counts as none
+   */
+  getToken(organizationUrl: string): string | undefined {
+    const credential = this.get(organizationUrl);
+    const key = this.readKey();
+
+    if (!credential || !key) {
+      return undefined;
+    }
+
+    try {
+      const decipher = crypto.createDecipheriv(CIPHER, key, Buffer.from(credential.iv, "base64"));
+      decipher.setAuthTag(Buffer.from(credential.authTag, "base64"));
+      return Buffer.concat([decipher.update(Buffer.from(credential.token, "base64")), decipher.final()]).toString();
+    } catch {
+      return undefined;
+    }
+  }
+
+  get(organizationUrl: string): StoredCredential | undefined {
+    return this.readFile().credentials[normalizeOrganizationUrl(organizationUrl)];
+  }
+
+  set(organizationUrl: string, pat: string, user?: string): void {
+    const key = this.readKey() ?? this.createKey();
+    const iv = crypto.randomBytes(IV_BYTES);
+    const cipher = crypto.createCipheriv(CIPHER, key, iv);
+    const token = Buffer.concat([cipher.update(pat), cipher.final()]);
+
+    const file = this.readFile();
+    file.credentials[normalizeOrganizationUrl(organizationUrl)] = {
+      token: token.toString("base64"),
+      iv: iv.toString("base64"),
+      authTag: cipher.getAuthTag().toString("base64"),
+      storedAt: new Date().toISOString(),
+      ...(user ? { user } : {}),
+    };
+    this.writeFile(file);
+  }
+
+  /**
+   * Forget the token for an organization; returns whether there was one
+   */
+  delete(organizationUrl: string): boolean {
+    const file = this.readFile();
+    const key = normalizeOrganizationUrl(organizationUrl);
+
+    if (!Object.hasOwn(file.credentials, key)) {
+      return false;
+    }
+
+    delete file.credentials[key];
+    this.writeFile(file);
+    return true;
+  }
+
+  private readFile(): CredentialsFile {
+    try {
+      const content = JSON.parse(fs.readFileSync(this.filePath, "utf8"));
+
+      if (content?.version === 1 && content.credentials && typeof content.credentials === "object") {
+        return content as CredentialsFile;
+      }
+    } catch {
+      // Fall through to an empty file
+    }
+
+    return { version: 1, credentials: {} };
+  }
+
+  private writeFile(file: CredentialsFile): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+
+    // Write to a temporary file first so an interrupted write never leaves a truncated file
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, `${JSON.stringify(file, null, 2)}\n`, { mode: 0o600 });
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  private readKey(): Buffer | undefined {
+    try {
+      const key = Buffer.from(fs.readFileSync(this.keyPath, "utf8").trim(), "base64");
+      return key.length === KEY_BYTES ? key : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private createKey(): Buffer {
+    const key = crypto.randomBytes(KEY_BYTES);
+    fs.mkdirSync(path.dirname(this.keyPath), { recursive: true, mode: 0o700 });
+    fs.writeFileSync(this.keyPath, `${key.toString("base64")}\n`, { mode: 0o600 });
+    return key;
+  }
+}
+
+/**
+ * "https://dev.azure.com/acme/" and "https://dev.azure.com/acme" are the same organization
+ */
+function normalizeOrganizationUrl(organizationUrl: string): string {
+  return organizationUrl.trim().replace(/\/+$/, "").toLowerCase();
+}
@@ -0,0 +1,76 @@
+import { spawnSync, SpawnSyncReturns } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+/**
+ * Everything from this line on is dropped, like the scissors line of `git commit --verbose`, so lines of the
+ * message starting with '#', such as markdown headings, are kept
+ */
+const SCISSORS_LINE = "# ------------------------ >8 ------------------------";
+
+type SpawnSync = (command: string, args: string[], options: { stdio: "inherit"; shell: boolean }) => SpawnSyncReturns<Buffer>;
+
+export class EditorCancelledError extends Error {
+  constructor() {
+    super("Aborting: the message was empty.");
+    this.name = "EditorCancelledError";
+  }
+}
+
+export class EditorService {
+  constructor(private spawn: SpawnSync = spawnSync as SpawnSync) {}
+
+  /**
+   * Open the user's $EDITOR on a temporary file and return what they wrote above the instructions.
+   */
+  async edit(instructions: string): Promise<string> {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "azc-"));
+    const filePath = path.join(tmpDir, "MESSAGE.md");
+
+    try {
+      fs.writeFileSync(filePath, this.buildTemplate(instructions), { mode: 0o600 });
+
+      const result = this.spawn(`${this.getEditorCommand()} "${filePath}"`, [], { stdio: "inherit", shell: true });
+
+      if (result.error) {
+        throw new Error(`Failed to launch editor: ${result.error.message}`);
+      }
+
+      if (result.status !== 0) {
+        throw new Error(`Editor exited with code ${result.status}`);
+      }
+
+      const message = this.stripInstructions(fs.readFileSync(filePath, "utf8"));
+
+      if (!message) {
+        throw new EditorCancelledError();
+      }
+
+      return message;
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  }
+
+  getEditorCommand(): string {
+    return process.env.VISUAL || process.env.EDITOR || (process.platform === "win32" ? "notepad" : "vi");
+  }
+
+  private buildTemplate(instructions: string): string {
+    const lines = instructions.split("\n").map((line) => `# ${line}`);
+    return [
+      "",
+      SCISSORS_LINE,
+      "# Do not modify or remove the line above. Everything below it is ignored, and an empty message aborts.",
+      ...lines,
+      "",
+    ].join("\n");
+  }
+
+  private stripInstructions(content: string): string {
+    const lines = content.split(/\r?\n/);
+    const scissors = lines.findIndex((line) => line.trimEnd() === SCISSORS_LINE);
+    return (scissors === -1 ? lines : lines.slice(0, scissors)).join("\n").trim();
+  }
+}
@@ -0,0 +1,272 @@
+import { exec } from "child_process";
+import { promisify } from "util";
+import { quoteArgument } from "./azure-cli.service.js";
+
+export class NotAGitRepositoryError extends Error {
+  constructor() {
+    super("Not inside a git repository. Run this command from a local clone or pass the branch explicitly.");
+    this.name = "NotAGitRepositoryError";
+  }
+}
+
+export class GitCommandError extends Error {
+  constructor(
+    message: string,
+    public readonly stderr: string,
+  ) {
+    super(message);
+    this.name = "GitCommandError";
+  }
+}
+
+export class DetachedHeadError extends Error {
+  constructor() {
+    super("HEAD is detached. Check out a branch or pass --source-branch explicitly.");
+    this.name = "DetachedHeadError";
+  }
+}
+
+/**
+ * The Azure Repos repository a git remote points to
+ */
+export interface AzureReposRemote {
+  organizationUrl: string;
+  project: string;
+  repository: string;
+}
+
+/**
+ * An Azure Repos remote of the working directory, with its name
+ */
+export interface NamedAzureReposRemote extends AzureReposRemote {
+  remoteName: string;
+}
+
+/**
+ * Remote URL forms of Azure Repos: organization, project and repository are the numbered groups. Old-style
+ * URLs without a project belong to the project the repository is named after.
+ */
+const AZURE_REPOS_URL_FORMS: { pattern: RegExp; organizationUrl: (organization: string) => string }[] = [
+  {
+    // https://[user@]dev.azure.com/org/project/_git/repo
+    pattern: /^https?:\/\/(?:[^@/]+@)?dev\.azure\.com\/([^/]+)\/(?:([^/]+)\/)?_git\/([^/?#]+)/i,
+    organizationUrl: (organization) => `https://dev.azure.com/${organization}`,
+  },
+  {
+    // https://org.visualstudio.com/[DefaultCollection/]project/_git/repo
+    pattern: /^https?:\/\/(?:[^@/]+@)?([^./]+)\.visualstudio\.com\/(?:DefaultCollection\/)?(?:([^/]+)\/)?_git\/([^/?#]+)/i,
+    organizationUrl: (organization) => `https://${organization}.visualstudio.com`,
+  },
+  {
+    // git@ssh.dev.azure.com:v3/org/project/repo
+    pattern: /^(?:ssh:\/\/)?[^@/]+@ssh\.dev\.azure\.com[:/]v3\/([^/]+)\/([^/]+)\/([^/]+?)\/?$/i,
+    organizationUrl: (organization) => `https://dev.azure.com/${organization}`,
+  },
+  {
+    // org@vs-ssh.visualstudio.com:v3/org/project/repo
+    pattern: /^(?:ssh:\/\/)?[^@/]+@vs-ssh\.visualstudio\.com[:/]v3\/([^/]+)\/([^/]+)\/([^/]+?)\/?$/i,
+    organizationUrl: (organization) => `https://${organization}.visualstudio.com`,
+  },
+];
+
+/**
+ * Read the organization, project and repository from an Azure Repos remote URL; other hosts give undefined
+ */
+export function parseAzureReposUrl(url: string): AzureReposRemote | undefined {
+  for (const form of AZURE_REPOS_URL_FORMS) {
+    const match = url.trim().match(form.pattern);
+
+    if (match) {
+      const repository = decodeUrlPart(match[3].replace(/\.git$/i, ""));
+
+      return {
+        organizationUrl: form.organizationUrl(match[1]),
+        project: match[2] ? decodeUrlPart(match[2]) : repository,
+        repository,
+      };
+    }
+  }
+
+  return undefined;
+}
+
+function decodeUrlPart(part: string): string {
+  try {
+    return decodeURIComponent(part);
+  } catch {
+    return part;
+  }
+}
+
+export class GitService {
+  constructor(
+    private execAsync: (cmd: string, options?: { cwd?: string }) => Promise<any> = promisify(exec) as any,
+    private cwd: string = process.cwd(),
+  ) {}
+
+  async isRepository(): Promise<boolean> {
+    try {
+      await this.run("git rev-parse --is-inside-work-tree");
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async getRepositoryRoot(): Promise<string> {
+    try {
+      return await this.run("git rev-parse --show-toplevel");
+    } catch {
+      throw new NotAGitRepositoryError();
+    }
+  }
+
+  async getCurrentBranch(): Promise<string> {
+    let branch: string;
+
+    try {
+      branch = await this.run("git rev-parse --abbrev-ref HEAD");
+    } catch {
+      throw new NotAGitRepositoryError();
+    }
+
+    if (branch === "HEAD") {
+      throw new DetachedHeadError();
+    }
+
+    return branch;
+  }
+
+  async getLastCommitSubject(): Promise<string | undefined> {
+    try {
+      const subject = await this.run("git log -1 --pretty=%s");
+      return subject || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * The Azure Repos repository of the working directory: the `origin` remote when it is one, otherwise the first
+   * remote that is. Outside a repository, or without such a remote, there is none.
+   */
+  async getAzureReposRemote(): Promise<AzureReposRemote | undefined> {
+    const remotes = await this.getAzureReposRemotes();
+    const chosen = remotes.find((candidate) => candidate.remoteName === "origin") ?? remotes[0];
+
+    if (!chosen) {
+      return undefined;
+    }
+
+    const { organizationUrl, project, repository } = chosen;
+    return { organizationUrl, project, repository };
+  }
+
+  /**
+   * Every remote pointing to Azure Repos, by fetch URL
+   */
+  async getAzureReposRemotes(): Promise<NamedAzureReposRemote[]> {
+    let output: string;
+
+    try {
+      output = await this.run("git remote -v");
+    } catch {
+      return [];
+    }
+
+    return output
+      .split("\n")
+      .map((line) => line.match(/^(\S+)\s+(\S+)\s+\(fetch\)$/))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .flatMap(([, remoteName, url]) => {
+        const remote = parseAzureReposUrl(url);
+        return remote ? [{ remoteName, ...remote }] : [];
+      });
+  }
+
+  /**
+   * Fetch a refspec from a remote name or URL; what was fetched is then at FETCH_HEAD
+   */
+  async fetch(source: string, refspec: string): Promise<void> {
+    await this.runOrFail(`git fetch ${quoteArgument(source)} ${quoteArgument(refspec)}`, "git fetch");
+  }
+
+  /**
+   * The commit a ref points to, or undefined when it does not exist
+   */
+  async resolveCommit(ref: string): Promise<string | undefined> {
+    try {
+      return await this.run(`git rev-parse --verify --quiet ${quoteArgument(`${ref}^{commit}`)}`);
+    } catch {
+      return undefined;
+    }
+  }
+
+  async isAncestor(ancestor: string, descendant: string): Promise<boolean> {
+    try {
+      await this.run(`git merge-base --is-ancestor ${quoteArgument(ancestor)} ${quoteArgument(descendant)}`);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Point a local branch at a commit, creating it if needed, and check it out. Uncommitted changes are carried
+   * over, or the checkout fails when they conflict.
+   */
+  async checkoutBranch(branch: string, startPoint: string): Promise<void> {
+    await this.runOrFail(`git checkout -B ${quoteArgument(branch)} ${quoteArgument(startPoint)}`, "git checkout");
+  }
+
+  async checkoutDetached(commit: string): Promise<void> {
+    await this.runOrFail(`git checkout --detach ${quoteArgument(commit)}`, "git checkout");
+  }
+
+  async setUpstream(branch: string, upstream: string): Promise<void> {
+    await this.runOrFail(
+      `git branch --set-upstream-to=${quoteArgument(upstream)} ${quoteArgument(branch)}`,
+      "git branch --set-upstream-to",
+    );
+  }
+
+  /**
+   * The remote branch a local branch tracks, e.g. "origin/feature/login"
+   */
+  async getUpstream(branch: string): Promise<string | undefined> {
+    try {
+      return (await this.run(`git rev-parse --abbrev-ref ${quoteArgument(`${branch}@{upstream}`)}`)) || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async getConfig(key: string): Promise<string | undefined> {
+    try {
+      return (await this.run(`git config --get ${quoteArgument(key)}`)) || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async setConfig(key: string, value: string): Promise<void> {
+    await this.runOrFail(`git config ${quoteArgument(key)} ${quoteArgument(value)}`, "git config");
+  }
+
+  /**
+   * Run a command whose failure the user needs to see, reporting git's own explanation
+   */
+  private async runOrFail(command: string, description: string): Promise<string> {
+    try {
+      return await this.run(command);
+    } catch (error: any) {
+      const stderr = String(error.stderr || error.message || "").trim();
+      throw new GitCommandError(`${description} failed${stderr ? `: ${stderr}` : ""}`, stderr);
+    }
+  }
+
+  private async run(command: string): Promise<string> {
+    const { stdout } = await this.execAsync(command, { cwd: this.cwd });
+    return String(stdout).trim();
+  }
+}
@@ -0,0 +1,139 @@
+import { AzureApiService } from "./azure-api.service.js";
+import { Identity } from "../types/comment.types.js";
+
+/**
+ * Identity record as returned by connectionData and the identities search API
+ */
+interface IdentityRecord {
+  id: string;
+  providerDisplayName?: string;
+  customDisplayName?: string;
+  isContainer?: boolean;
+  properties?: Record<string, { $value: string }>;
+}
+
+/**
+ * Subset of the connectionData response describing the signed-in user
+ */
+interface ConnectionData {
+  authenticatedUser: IdentityRecord;
+}
+
+interface IdentitiesResponse {
+  value: IdentityRecord[];
+}
+
+export class IdentityNotFoundError extends Error {
+  constructor(query: string) {
+    super(`No identity found matching "${query}"`);
+    this.name = "IdentityNotFoundError";
+  }
+}
+
+export class AmbiguousIdentityError extends Error {
+  constructor(
+    query: string,
+    public readonly candidates: Identity[],
+  ) {
+    const names = candidates.map((candidate) => describeIdentity(candidate)).join(", ");
+    super(`"${query}" matches more than one identity: ${names}. Use an email address to pick one.`);
+    this.name = "AmbiguousIdentityError";
+  }
+}
+
+function describeIdentity(identity: Identity): string {
+  return identity.uniqueName ? `${identity.displayName} <${identity.uniqueName}>` : identity.displayName;
+}
+
+function toIdentity(record: IdentityRecord): Identity {
+  return {
+    id: record.id,
+    displayName: record.customDisplayName || record.providerDisplayName || record.id,
+    uniqueName: record.properties?.Mail?.$value || record.properties?.Account?.$value,
+    ...(record.isContainer ? { isContainer: true } : {}),
+  };
+}
+
+/**
+ * Whether the identity's id, display name or unique name equals the query, ignoring case
+ */
+export function matchesIdentity(identity: Identity, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  return [identity.id, identity.displayName, identity.uniqueName].some((value) => value?.toLowerCase() === needle);
+}
+
+export class IdentityService {
+  private cachedCurrentUser?: Identity;
+
+  constructor(private azureApiService: AzureApiService) {}
+
+  /**
+   * Resolve the Azure DevOps identity of whoever owns the access token in use
+   */
+  async getCurrentUser(): Promise<Identity> {
+    if (this.cachedCurrentUser) {
+      return this.cachedCurrentUser;
+    }
+
+    let connectionData: ConnectionData;
+
+    try {
+      connectionData = await this.azureApiService.get<ConnectionData>("connectionData?api-version=7.0-preview.1");
+    } catch (error) {
+      throw new Error(`Failed to resolve the current user: ${(error as Error).message}`);
+    }
+
+    const user = connectionData?.authenticatedUser;
+
+    if (!user?.id) {
+      throw new Error("Failed to resolve the current user: no authenticated user returned");
+    }
+
+    this.cachedCurrentUser = {
+      id: user.id,
+      displayName: user.customDisplayName || user.providerDisplayName || user.id,
+      uniqueName: user.properties?.Account?.$value,
+    };
+
+    return this.cachedCurrentUser;
+  }
+
+  /**
+   * Search users and groups by email, display name or group name (e.g. "[Project]\Team")
+   */
+  async searchIdentities(query: string): Promise<Identity[]> {
+    const apiPath =
+      `identities?searchFilter=General&filterValue=${encodeURIComponent(query.trim())}` +
+      "&queryMembership=None&api-version=7.0";
+
+    try {
+      const response = await this.azureApiService.getIdentities<IdentitiesResponse>(apiPath);
+      return (response?.value || []).map(toIdentity);
+    } catch (error) {
+      throw new Error(`Failed to search identities: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Resolve a single identity, preferring an exact match when the search returns several
+   */
+  async resolveIdentity(query: string): Promise<Identity> {
+    const candidates = await this.searchIdentities(query);
+
+    if (candidates.length === 0) {
+      throw new IdentityNotFoundError(query);
+    }
+
+    if (candidates.length === 1) {
+      return candidates[0];
+    }
+
+    const exactMatches = candidates.filter((candidate) => matchesIdentity(candidate, query));
+
+    if (exactMatches.length === 1) {
+      return exactMatches[0];
+    }
+
+    throw new AmbiguousIdentityError(query, exactMatches.length > 1 ? exactMatches : candidates);
+  }
+}
@@ -0,0 +1,68 @@
+import { exec, execFile } from "child_process";
+import { promisify } from "util";
+
+type ExecFile = (file: string, args: string[], options: { env: NodeJS.ProcessEnv }) => Promise<unknown>;
+type Exec = (command: string, options: { env: NodeJS.ProcessEnv }) => Promise<unknown>;
+
+// Shows a balloon tip from the tray; reads the text from the environment to avoid quoting it
+const WINDOWS_NOTIFICATION_SCRIPT = [
+  "Add-Type -AssemblyName System.Windows.Forms",
+  "$icon = New-Object System.Windows.Forms.NotifyIcon",
+  "$icon.Icon = [System.Drawing.SystemIcons]::Information",
+  "$icon.Visible = $true",
+  "$icon.ShowBalloonTip(5000, $env:AZC_NOTIFY_TITLE, $env:AZC_NOTIFY_MESSAGE, 'Info')",
+  "Start-Sleep -Seconds 5",
+  "$icon.Dispose()",
+].join("; ");
+
+function appleScriptString(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Delivers events outside the terminal: desktop notifications and user-supplied hook commands
+ */
+export class NotificationService {
+  constructor(
+    private execFileAsync: ExecFile = promisify(execFile) as ExecFile,
+    private execAsync: Exec = promisify(exec) as Exec,
+    private platform: NodeJS.Platform = process.platform,
+  ) {}
+
+  /**
+   * Show a desktop notification with notify-send (Linux), osascript (macOS) or PowerShell (Windows)
+   */
+  async notify(title: string, message: string): Promise<void> {
+    const env = { ...process.env, AZC_NOTIFY_TITLE: title, AZC_NOTIFY_MESSAGE: message };
+
+    try {
+      switch (this.platform) {
+        case "darwin":
+          await this.execFileAsync(
+            "osascript",
+            ["-e", `display notification ${appleScriptString(message)} with title ${appleScriptString(title)}`],
+            { env },
+          );
+          break;
+        case "win32":
+          await this.execFileAsync("powershell", ["-NoProfile", "-Command", WINDOWS_NOTIFICATION_SCRIPT], { env });
+          break;
+        default:
+          await this.execFileAsync("notify-send", ["--app-name=azc", title, message], { env });
+      }
+    } catch (error) {
+      throw new Error(`Failed to show a desktop notification: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Run a shell command with the given variables added to its environment
+   */
+  async runHook(command: string, variables: Record<string, string>): Promise<void> {
+    try {
+      await this.execAsync(command, { env: { ...process.env, ...variables } });
+    } catch (error) {
+      throw new Error(`Hook command failed: ${(error as Error).message}`);
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { CONFIG_KEYS, ConfigKey, ConfigValues, ProfilesFile, RepoConfig } from "../types/config.types.js";
+
+export const DEFAULT_PROFILE = "default";
+
+/**
+ * Name of the per-repository settings file, looked up from the working directory upwards
+ */
+export const REPO_CONFIG_FILE = ".azcrc";
+
+/**
+ * Default location of the profiles
+ */
+export function defaultConfigPath(): string {
+  return path.join(os.homedir(), ".azc", "config.json");
+}
+
+/**
+ * Named profiles in ~/.azc/config.json, and which of them is in use
+ */
+export class ProfileStore {
+  constructor(public readonly filePath: string = defaultConfigPath()) {}
+
+  currentProfile(): string {
+    return this.readFile().currentProfile;
+  }
+
+  listProfiles(): string[] {
+    return Object.keys(this.readFile().profiles).sort();
+  }
+
+  hasProfile(name: string): boolean {
+    return Object.hasOwn(this.readFile().profiles, name);
+  }
+
+  getProfile(name: string): ConfigValues {
+    return this.readFile().profiles[name] ?? {};
+  }
+
+  set(profile: string, key: ConfigKey, value: string | undefined): void {
+    const file = this.readFile();
+    const values = { ...file.profiles[profile] };
+
+    if (value === undefined) {
+      delete values[key];
+    } else {
+      values[key] = value;
+    }
+
+    file.profiles[profile] = values;
+    this.writeFile(file);
+  }
+
+  /**
+   * Make a profile the current one, creating it empty when it does not exist yet
+   */
+  useProfile(name: string): void {
+    const file = this.readFile();
+    file.currentProfile = name;
+    file.profiles[name] = file.profiles[name] ?? {};
+    this.writeFile(file);
+  }
+
+  /**
+   * Read the profiles; a missing or unreadable file has an empty default profile. The file used to hold only
+   * `{ "username": ... }`, which is read as the default profile.
+   */
+  private readFile(): ProfilesFile {
+    try {
+      const content = JSON.parse(fs.readFileSync(this.filePath, "utf8"));
+
+      if (content?.version === 1 && content.profiles && typeof content.profiles === "object") {
+        return { version: 1, currentProfile: content.currentProfile || DEFAULT_PROFILE, profiles: content.profiles };
+      }
+
+      if (content && typeof content === "object") {
+        return { version: 1, currentProfile: DEFAULT_PROFILE, profiles: { [DEFAULT_PROFILE]: pickSettings(content) } };
+      }
+    } catch {
+      // Fall through to an empty file
+    }
+
+    return { version: 1, currentProfile: DEFAULT_PROFILE, profiles: { [DEFAULT_PROFILE]: {} } };
+  }
+
+  private writeFile(file: ProfilesFile): void {
+    writeJsonFile(this.filePath, file);
+  }
+}
+
+/**
+ * The .azcrc of the repository the working directory is in
+ */
+export class RepoConfigStore {
+  constructor(private readonly cwd: string = process.cwd()) {}
+
+  /**
+   * Path of the nearest .azcrc in the working directory or one of its parents
+   */
+  findPath(): string | undefined {
+    const dir = findUpwards(this.cwd, (candidate) => fs.existsSync(path.join(candidate, REPO_CONFIG_FILE)));
+    return dir ? path.join(dir, REPO_CONFIG_FILE) : undefined;
+  }
+
+  read(): RepoConfig {
+    const filePath = this.findPath();
+
+    if (!filePath) {
+      return {};
+    }
+
+    try {
+      const content = JSON.parse(fs.readFileSync(filePath, "utf8"));
+      const profile = typeof content?.profile === "string" ? content.profile : undefined;
+      return { ...pickSettings(content), ...(profile ? { profile } : {}) };
+    } catch {
+      throw new Error(`${filePath} is not valid JSON`);
+    }
+  }
+
+  /**
+   * Change a setting in the nearest .azcrc; without one, the file is created at the root of the git repository
+   * (or in the working directory outside of one). Returns the path written.
+   */
+  set(key: ConfigKey | "profile", value: string | undefined): string {
+    const filePath = this.findPath() ?? path.join(this.defaultDirectory(), REPO_CONFIG_FILE);
+    const config: RepoConfig = fs.existsSync(filePath) ? this.read() : {};
+
+    if (value === undefined) {
+      delete config[key];
+    } else {
+      config[key] = value;
+    }
+
+    writeJsonFile(filePath, config, 0o644);
+    return filePath;
+  }
+
+  private defaultDirectory(): string {
+    return findUpwards(this.cwd, (dir) => fs.existsSync(path.join(dir, ".git"))) ?? this.cwd;
+  }
+}
+
+function findUpwards(start: string, matches: (dir: string) => boolean): string | undefined {
+  let dir = path.resolve(start);
+
+  for (;;) {
+    if (matches(dir)) {
+      return dir;
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Keep the known string settings of a parsed file and drop everything else
+ */
+function pickSettings(content: Record<string, unknown>): ConfigValues {
+  const values: ConfigValues = {};
+
+  for (const key of CONFIG_KEYS) {
+    if (typeof content?.[key] === "string" && content[key]) {
+      values[key] = content[key] as string;
+    }
+  }
+
+  return values;
+}
+
+function writeJsonFile(filePath: string, content: unknown, mode = 0o600): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+  // Write to a temporary file first so an interrupted write never leaves a truncated file
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, `${JSON.stringify(content, null, 2)}\n`, { mode });
+  fs.renameSync(tmpPath, filePath);
+}
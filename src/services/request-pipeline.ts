@@ -0,0 +1,270 @@
+export type HttpMethod = "GET" | "POST" | "PATCH" | "PUT" | "DELETE";
+
+/**
+ * A REST request on its way through the pipeline; policies may rewrite it before passing it on
+ */
+export interface PipelineRequest {
+  method: HttpMethod;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+/**
+ * Sends a request and resolves with the response
+ */
+export type RequestHandler = (request: PipelineRequest) => Promise<Response>;
+
+/**
+ * One step of the pipeline. A policy calls `next` to hand the request on, and may do so again to retry it.
+ */
+export type RequestPolicy = (request: PipelineRequest, next: RequestHandler) => Promise<Response>;
+
+/**
+ * The REST API version requests are pinned to unless the path names one
+ */
+export const DEFAULT_API_VERSION = "7.0";
+
+/**
+ * Methods that are safe to send twice; POST and PATCH are only resent when the server throttled them
+ */
+const IDEMPOTENT_METHODS: HttpMethod[] = ["GET", "PUT", "DELETE"];
+
+/**
+ * Statuses the gateway answers with while the service is briefly unavailable
+ */
+const TRANSIENT_STATUSES = [502, 503, 504];
+
+/**
+ * Azure DevOps rejects throttled requests before handling them, so any method can be resent
+ */
+const TOO_MANY_REQUESTS = 429;
+
+const UNAUTHORIZED = 401;
+
+export interface RetryOptions {
+  /** Attempts after the first one */
+  maxRetries: number;
+  /** Delay before the first retry; it doubles for every retry after that */
+  baseDelayMs: number;
+  /** Longest single wait. A Retry-After asking for more is not waited for and the response is returned. */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = { maxRetries: 3, baseDelayMs: 500, maxDelayMs: 30_000 };
+
+/**
+ * Rate-limit headers Azure DevOps sends when a user is being delayed or is close to the limit
+ */
+export interface RateLimitInfo {
+  status: number;
+  /** The throttled resource, e.g. "Core" */
+  resource?: string;
+  /** Seconds the server held this request back */
+  delaySeconds?: number;
+  limit?: number;
+  remaining?: number;
+  resetAt?: Date;
+  /** Seconds the server asked to wait before the next request */
+  retryAfterSeconds?: number;
+}
+
+export const fetchHandler: RequestHandler = (request) =>
+  fetch(request.url, { method: request.method, headers: request.headers, body: request.body });
+
+/**
+ * Chain policies in order in front of the handler that sends the request
+ */
+export function createPipeline(policies: RequestPolicy[], send: RequestHandler = fetchHandler): RequestHandler {
+  return policies.reduceRight<RequestHandler>((next, policy) => (request) => policy(request, next), send);
+}
+
+/**
+ * Add `api-version` to requests that do not name one, so every call gets a stable response shape
+ */
+export function apiVersionPolicy(version = DEFAULT_API_VERSION): RequestPolicy {
+  return (request, next) => {
+    const url = new URL(request.url);
+
+    if (url.searchParams.has("api-version")) {
+      return next(request);
+    }
+
+    const separator = request.url.includes("?") ? "&" : "?";
+    return next({ ...request, url: `${request.url}${separator}api-version=${version}` });
+  };
+}
+
+/**
+ * Set the Authorization header and JSON content type on every request. When the server answers 401 and
+ * `renewAuthorization` says a new credential can be fetched, e.g. the Azure CLI token expired early, the request
+ * is sent once more with it.
+ */
+export function authorizationPolicy(
+  getAuthorizationHeader: () => Promise<string>,
+  renewAuthorization: () => boolean = () => false,
+): RequestPolicy {
+  const authorize = async (request: PipelineRequest): Promise<PipelineRequest> => ({
+    ...request,
+    headers: {
+      ...request.headers,
+      Authorization: await getAuthorizationHeader(),
+      "Content-Type": "application/json",
+    },
+  });
+
+  return async (request, next) => {
+    const response = await next(await authorize(request));
+
+    if (response.status !== UNAUTHORIZED || !renewAuthorization()) {
+      return response;
+    }
+
+    await response.body?.cancel();
+    return next(await authorize(request));
+  };
+}
+
+/**
+ * Resend requests that were throttled, and idempotent requests that failed on the network or with a
+ * gateway error. Waits grow exponentially with jitter, unless the response says how long to wait.
+ */
+export function retryPolicy(
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  sleep: (ms: number) => Promise<void> = (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+  random: () => number = Math.random,
+): RequestPolicy {
+  const backoff = (attempt: number): number => {
+    const delay = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+    return Math.round(delay / 2 + (random() * delay) / 2);
+  };
+
+  return async (request, next) => {
+    const isIdempotent = IDEMPOTENT_METHODS.includes(request.method);
+
+    for (let attempt = 0; ; attempt++) {
+      const isLastAttempt = attempt >= options.maxRetries;
+      let response: Response;
+
+      try {
+        response = await next(request);
+      } catch (error) {
+        if (!isIdempotent || isLastAttempt) {
+          throw error;
+        }
+
+        await sleep(backoff(attempt));
+        continue;
+      }
+
+      const canRetry =
+        response.status === TOO_MANY_REQUESTS || (isIdempotent && TRANSIENT_STATUSES.includes(response.status));
+      const retryAfterMs = parseRetryAfter(response.headers.get("Retry-After"));
+
+      if (isLastAttempt || !canRetry || (retryAfterMs !== undefined && retryAfterMs > options.maxDelayMs)) {
+        return response;
+      }
+
+      // Release the connection of the response being dropped before asking again
+      await response.body?.cancel().catch(() => undefined);
+      await sleep(retryAfterMs ?? backoff(attempt));
+    }
+  };
+}
+
+/**
+ * Report the rate-limit headers of every response that carries them
+ */
+export function rateLimitPolicy(onRateLimit: (info: RateLimitInfo) => void): RequestPolicy {
+  return async (request, next) => {
+    const response = await next(request);
+    const info = readRateLimit(response);
+
+    if (info) {
+      onRateLimit(info);
+    }
+
+    return response;
+  };
+}
+
+/**
+ * Retry-After is either a number of seconds or an HTTP date
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  if (/^\d+(\.\d+)?$/.test(value.trim())) {
+    return Math.round(parseFloat(value) * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function readRateLimit(response: Response): RateLimitInfo | undefined {
+  const header = (name: string): number | undefined => {
+    const value = response.headers.get(name);
+    return value === null || value.trim() === "" || isNaN(Number(value)) ? undefined : Number(value);
+  };
+
+  const delaySeconds = header("X-RateLimit-Delay");
+  const remaining = header("X-RateLimit-Remaining");
+  const throttled = response.status === TOO_MANY_REQUESTS;
+
+  if (!throttled && delaySeconds === undefined && remaining === undefined) {
+    return undefined;
+  }
+
+  const reset = header("X-RateLimit-Reset");
+  const retryAfterMs = parseRetryAfter(response.headers.get("Retry-After"));
+
+  return {
+    status: response.status,
+    resource: response.headers.get("X-RateLimit-Resource") ?? undefined,
+    delaySeconds,
+    limit: header("X-RateLimit-Limit"),
+    remaining,
+    resetAt: reset === undefined ? undefined : new Date(reset * 1000),
+    retryAfterSeconds: retryAfterMs === undefined ? undefined : Math.ceil(retryAfterMs / 1000),
+  };
+}
+
+/**
+ * Allow at most `maxConcurrent` requests in flight; the rest wait for a free slot in arrival order
+ */
+export function throttlePolicy(maxConcurrent: number): RequestPolicy {
+  let inFlight = 0;
+  const waiting: (() => void)[] = [];
+
+  const acquire = async (): Promise<void> => {
+    if (inFlight < maxConcurrent) {
+      inFlight++;
+      return;
+    }
+
+    // The slot is handed over directly by release(), so inFlight stays unchanged
+    await new Promise<void>((resolve) => waiting.push(resolve));
+  };
+
+  const release = (): void => {
+    const nextInLine = waiting.shift();
+    if (nextInLine) {
+      nextInLine();
+    } else {
+      inFlight--;
+    }
+  };
+
+  return async (request, next) => {
+    await acquire();
+
+    try {
+      return await next(request);
+    } finally {
+      release();
+    }
+  };
+}
@@ -0,0 +1,59 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { WatchSnapshot } from "../types/pull-request.types.js";
+
+/**
+ * Layout of the snapshot file; one snapshot per watched scope (organization, project and repository filter)
+ */
+interface SnapshotFile {
+  version: 1;
+  scopes: Record<string, WatchSnapshot>;
+}
+
+/**
+ * Default location, next to the profiles in config.json
+ */
+export function defaultSnapshotPath(): string {
+  return path.join(os.homedir(), ".azc", "watch-snapshots.json");
+}
+
+/**
+ * Persists what `pr watch` last saw so changes are noticed across restarts
+ */
+export class SnapshotStore {
+  constructor(public readonly filePath: string = defaultSnapshotPath()) {}
+
+  load(scope: string): WatchSnapshot | undefined {
+    return this.readFile().scopes[scope];
+  }
+
+  save(scope: string, snapshot: WatchSnapshot): void {
+    const file = this.readFile();
+    file.scopes[scope] = snapshot;
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    // Write to a temporary file first so an interrupted write never leaves a truncated snapshot
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(file, null, 2), { mode: 0o600 });
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  /**
+   * Read the snapshot file; a missing or unreadable file starts over with no snapshots
+   */
+  private readFile(): SnapshotFile {
+    try {
+      const content = JSON.parse(fs.readFileSync(this.filePath, "utf8"));
+
+      if (content?.version === 1 && content.scopes && typeof content.scopes === "object") {
+        return content as SnapshotFile;
+      }
+    } catch {
+      // Fall through to an empty file
+    }
+
+    return { version: 1, scopes: {} };
+  }
+}
@@ -4,6 +4,10 @@
 export enum OutputFormat {
   Table = 'table',
   Json = 'json',
+  Markdown = 'markdown',
+  Csv = 'csv',
+  Tsv = 'tsv',
+  Yaml = 'yaml',
 }
 
 /**
@@ -36,6 +40,7 @@ export interface Identity {
   displayName: string;
   uniqueName?: string;
   imageUrl?: string;
+  isContainer?: boolean;
 }
 
 /**
@@ -75,6 +80,27 @@ export interface CommentThreadContext {
   };
 }
 
+/**
+ * Identifies which pull request iterations and file a thread was created against
+ */
+export interface PullRequestThreadContext {
+  changeTrackingId?: number;
+  iterationContext?: {
+    firstComparingIteration: number;
+    secondComparingIteration: number;
+  };
+}
+
+/**
+ * Lines of code around a thread's position, for display alongside its comments
+ */
+export interface CodeSnippet {
+  filePath: string;
+  startLine: number;
+  endLine: number;
+  lines: { number: number; content: string; highlighted: boolean }[];
+}
+
 /**
  * Represents a comment thread on a Pull Request
  */
@@ -85,10 +111,18 @@ export interface CommentThread {
   comments: Comment[];
   status: CommentThreadStatus;
   threadContext?: CommentThreadContext;
+  pullRequestThreadContext?: PullRequestThreadContext;
   properties?: Record<string, any>;
   isDeleted?: boolean;
 }
 
+/**
+ * A comment thread as displayed by pr-comments, with the surrounding code attached when --with-code is used
+ */
+export interface DisplayedThread extends CommentThread {
+  code?: CodeSnippet;
+}
+
 /**
  * Options for the pr-comments command
  */
@@ -98,6 +132,90 @@ export interface PRCommentsOptions {
   output: OutputFormat;
   chronological: boolean;
   open: boolean;
+  withCode?: boolean;
+  /** JMESPath query applied to the results before rendering */
+  query?: string;
+  /** Field expressions to render as columns */
+  fields?: string[];
+  /** Template rendered once per result instead of the output format */
+  template?: string;
+}
+
+/**
+ * Options for the reply command
+ */
+export interface PRReplyOptions {
+  project?: string;
+  repo?: string;
+  message?: string;
+  parentCommentId?: number;
+  output: OutputFormat;
+}
+
+/**
+ * Request body for creating a comment in an existing thread
+ */
+export interface CreateCommentRequest {
+  content: string;
+  parentCommentId: number;
+  commentType: CommentType;
+}
+
+/**
+ * Request body for creating a new comment thread
+ */
+export interface CreateThreadRequest {
+  comments: Omit<CreateCommentRequest, 'parentCommentId'>[];
+  status: CommentThreadStatus;
+  threadContext?: CommentThreadContext;
+  pullRequestThreadContext?: PullRequestThreadContext;
+}
+
+/**
+ * Inclusive, 1-based range of lines a new thread is anchored to
+ */
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Options for the comment command
+ */
+export interface PRCommentOptions {
+  project?: string;
+  repo?: string;
+  message?: string;
+  file?: string;
+  lines?: LineRange;
+  left: boolean;
+  output: OutputFormat;
+}
+
+/**
+ * Options for the thread set-status command
+ */
+export interface PRThreadStatusOptions {
+  project?: string;
+  repo?: string;
+  allBy?: string;
+  file?: string;
+  dryRun: boolean;
+  output: OutputFormat;
+}
+
+/**
+ * Result of changing the status of a single thread
+ */
+export interface ThreadStatusChange {
+  threadId: number;
+  filePath?: string;
+  author?: string;
+  previousStatus: CommentThreadStatus;
+  status: CommentThreadStatus;
+  applied: boolean;
+  /** Why the update failed; the other threads of a bulk update are still updated */
+  error?: string;
 }
 
 /**
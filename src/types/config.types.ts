@@ -0,0 +1,46 @@
+/**
+ * Settings a profile, a repository's .azcrc or the environment can hold
+ */
+export const CONFIG_KEYS = ['organization', 'project', 'repository', 'username', 'output', 'auth'] as const;
+
+export type ConfigKey = (typeof CONFIG_KEYS)[number];
+
+export type ConfigValues = Partial<Record<ConfigKey, string>>;
+
+/**
+ * Where an access token may come from. `auto` tries AZURE_DEVOPS_EXT_PAT, AZ_ACCESS_TOKEN, the token stored with
+ * `azc auth login` and then the Azure CLI; `pat` uses AZURE_DEVOPS_EXT_PAT or the stored token.
+ */
+export const AUTH_METHODS = ['auto', 'pat', 'token', 'azure-cli'] as const;
+
+export type AuthMethod = (typeof AUTH_METHODS)[number];
+
+/**
+ * Layer a setting was read from, from the highest precedence to the lowest. Command-line flags beat all of them.
+ */
+export type ConfigSource = 'environment' | 'repository' | 'git-remote' | 'profile' | 'azure-cli';
+
+/**
+ * A setting with the layer that provided it; both are missing when nothing sets it
+ */
+export interface ConfigSetting {
+  key: ConfigKey;
+  value?: string;
+  source?: ConfigSource;
+}
+
+/**
+ * Layout of ~/.azc/config.json
+ */
+export interface ProfilesFile {
+  version: 1;
+  currentProfile: string;
+  profiles: Record<string, ConfigValues>;
+}
+
+/**
+ * Layout of a repository's .azcrc: settings for everyone working in it, and optionally the profile to use there
+ */
+export interface RepoConfig extends ConfigValues {
+  profile?: string;
+}
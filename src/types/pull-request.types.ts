@@ -28,6 +28,16 @@ export enum PullRequestVote {
   Rejected = -10,
 }
 
+/**
+ * How a Pull Request is merged into its target branch on completion
+ */
+export enum MergeStrategy {
+  Squash = 'squash',
+  Rebase = 'rebase',
+  NoFastForward = 'noFastForward',
+  RebaseMerge = 'rebaseMerge',
+}
+
 /**
  * Represents a user in Azure DevOps
  */
@@ -61,16 +71,98 @@ export interface PullRequest {
   repository: {
     id: string;
     name: string;
+    remoteUrl?: string;
     project: {
       id: string;
       name: string;
     };
   };
   sourceRefName: string;
+  /** Set when the source branch lives in a fork of the repository */
+  forkSource?: {
+    name: string;
+    repository: {
+      id: string;
+      name: string;
+      remoteUrl?: string;
+    };
+  };
   targetRefName: string;
   mergeStatus?: string;
   isDraft?: boolean;
   url?: string;
+  lastMergeSourceCommit?: {
+    commitId: string;
+  };
+  autoCompleteSetBy?: User;
+  completionOptions?: PullRequestCompletionOptions;
+}
+
+/**
+ * Options applied when a Pull Request is completed
+ */
+export interface PullRequestCompletionOptions {
+  mergeStrategy?: MergeStrategy;
+  deleteSourceBranch?: boolean;
+  transitionWorkItems?: boolean;
+  bypassPolicy?: boolean;
+  bypassReason?: string;
+}
+
+/**
+ * A work item linked to a Pull Request
+ */
+export interface LinkedWorkItem {
+  id: number;
+  title?: string;
+  state?: string;
+  workItemType?: string;
+}
+
+/**
+ * Result of evaluating a branch policy (build, minimum reviewers, ...) against a Pull Request
+ */
+export interface PolicyEvaluation {
+  evaluationId: string;
+  status: string;
+  configuration: {
+    isBlocking: boolean;
+    isEnabled: boolean;
+    type: {
+      displayName: string;
+    };
+    settings?: Record<string, any>;
+  };
+  context?: Record<string, any>;
+}
+
+/**
+ * Number of reviewer threads that still need attention versus those resolved
+ */
+export interface ThreadCounts {
+  active: number;
+  resolved: number;
+}
+
+/**
+ * Everything shown by the show command for a single Pull Request
+ */
+export interface PullRequestDetails {
+  pullRequest: PullRequest;
+  workItems: LinkedWorkItem[];
+  policies: PolicyEvaluation[];
+  /** Why the policy status could not be read, often a missing permission; the policies are then empty */
+  policyError?: string;
+  threads: ThreadCounts;
+}
+
+/**
+ * Project and repository a Pull Request belongs to
+ */
+export interface PullRequestLocation {
+  project: string;
+  /** Repository ID, or its URL-encoded name, ready to use in an API path */
+  repositoryId: string;
 }
 
 /**
@@ -91,6 +183,10 @@ export interface PullRequestFilters {
 export enum OutputFormat {
   Table = 'table',
   Json = 'json',
+  Markdown = 'markdown',
+  Csv = 'csv',
+  Tsv = 'tsv',
+  Yaml = 'yaml',
 }
 
 /**
@@ -101,6 +197,393 @@ export interface MyPRsOptions {
   repo?: string;
   project?: string;
   role: PullRequestRole;
+  /** Stop after this many pull requests per role; all of them when unset */
+  limit?: number;
+  output: OutputFormat;
+  /** JMESPath query applied to the results before rendering */
+  query?: string;
+  /** Field expressions to render as columns */
+  fields?: string[];
+  /** Template rendered once per result instead of the output format */
+  template?: string;
+}
+
+/**
+ * Options for the create command
+ */
+export interface CreatePROptions {
+  title?: string;
+  description?: string;
+  sourceBranch?: string;
+  targetBranch?: string;
+  reviewers: string[];
+  requiredReviewers: string[];
+  workItems: number[];
+  draft: boolean;
+  template: boolean;
+  repo?: string;
+  project?: string;
+  output: OutputFormat;
+}
+
+/**
+ * Options for the vote command
+ */
+export interface PRVoteOptions {
+  repo?: string;
+  project?: string;
+  output: OutputFormat;
+}
+
+/**
+ * Options for the reviewers commands
+ */
+export interface PRReviewersOptions {
+  repo?: string;
+  project?: string;
+  output: OutputFormat;
+  /** Mark reviewers required (true) or optional (false); undefined leaves existing reviewers as they are */
+  required?: boolean;
+}
+
+/**
+ * Response from Azure DevOps PR reviewers API
+ */
+export interface ReviewersResponse {
+  value: Reviewer[];
+  count: number;
+}
+
+/**
+ * Options for the show command
+ */
+export interface PRShowOptions {
+  repo?: string;
+  project?: string;
+  output: OutputFormat;
+}
+
+/**
+ * Options for the checkout command
+ */
+export interface PRCheckoutOptions {
+  repo?: string;
+  project?: string;
+  /** Check out the merge commit (refs/pull/<id>/merge) with a detached HEAD instead of a branch */
+  detach: boolean;
+  /** Local branch name; pr/<id> by default */
+  branch?: string;
+  /** Reset a local branch that has commits the pull request does not */
+  force: boolean;
+}
+
+/**
+ * What the checkout command did
+ */
+export interface CheckoutResult {
+  pullRequest: PullRequest;
+  /** Commit now checked out */
+  commit: string;
+  /** Local branch checked out; unset with --detach */
+  branch?: string;
+  /** Remote branch the local branch tracks, e.g. origin/feature/login */
+  upstream?: string;
+  /** Fork URL the source branch was fetched from, when no remote of the clone points to the fork */
+  forkUrl?: string;
+}
+
+/**
+ * Options for the current command
+ */
+export interface PRCurrentOptions {
+  output: OutputFormat;
+}
+
+/**
+ * Options shared by the complete, abandon and reactivate commands
+ */
+export interface PRLifecycleOptions {
+  repo?: string;
+  project?: string;
+  yes: boolean;
+  output: OutputFormat;
+}
+
+/**
+ * Options for the complete command
+ */
+export interface PRCompleteOptions extends PRLifecycleOptions {
+  completionOptions: PullRequestCompletionOptions;
+}
+
+/**
+ * Options for the auto-complete command
+ */
+export interface PRAutoCompleteOptions {
+  repo?: string;
+  project?: string;
+  enabled: boolean;
+  completionOptions: PullRequestCompletionOptions;
+  output: OutputFormat;
+}
+
+/**
+ * Reference to a commit
+ */
+export interface CommitRef {
+  commitId: string;
+}
+
+/**
+ * One push (iteration) to a pull request's source branch
+ */
+export interface PullRequestIteration {
+  id: number;
+  description?: string;
+  author?: User;
+  createdDate: string;
+  sourceRefCommit: CommitRef;
+  targetRefCommit: CommitRef;
+  commonRefCommit?: CommitRef;
+}
+
+/**
+ * Response from Azure DevOps PR iterations API
+ */
+export interface IterationsResponse {
+  value: PullRequestIteration[];
+  count: number;
+}
+
+/**
+ * A changed item in a pull request iteration, as returned by the iteration changes API
+ */
+export interface IterationChange {
+  changeId: number;
+  changeTrackingId: number;
+  /** Comma-separated change flags, e.g. "add", "edit", "delete", "rename" or "edit, rename" */
+  changeType: string;
+  item: {
+    path: string;
+    objectId?: string;
+    originalObjectId?: string;
+    isFolder?: boolean;
+  };
+  originalPath?: string;
+}
+
+/**
+ * Response from Azure DevOps PR iteration changes API
+ */
+export interface IterationChangesResponse {
+  changeEntries: IterationChange[];
+}
+
+/**
+ * A file changed by a pull request
+ */
+export interface FileChange {
+  /** Stable ID of the file across iterations, used to anchor new comment threads */
+  changeTrackingId: number;
+  path: string;
+  originalPath?: string;
+  changeType: string;
+}
+
+/**
+ * A single line of a computed diff; line numbers are 1-based and absent on the side the line does not exist
+ */
+export interface DiffLine {
+  type: 'context' | 'add' | 'remove';
+  content: string;
+  oldLine?: number;
+  newLine?: number;
+}
+
+/**
+ * A contiguous block of changes with surrounding context, as in a unified diff
+ */
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+/**
+ * Line-level diff of one changed file
+ */
+export interface FileDiff extends FileChange {
+  binary: boolean;
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+}
+
+/**
+ * Files changed in a pull request iteration, compared to the merge base
+ */
+export interface PullRequestChanges {
+  pullRequestId: number;
+  iteration: PullRequestIteration;
+  changes: FileChange[];
+}
+
+/**
+ * Line-level diffs of a pull request iteration, compared to the merge base
+ */
+export interface PullRequestDiff {
+  pullRequestId: number;
+  iteration: PullRequestIteration;
+  files: FileDiff[];
+}
+
+/**
+ * Options for the diff command
+ */
+export interface PRDiffOptions {
+  repo?: string;
+  project?: string;
+  output: OutputFormat;
+  stat: boolean;
+  iteration?: number;
+  file?: string;
+}
+
+/**
+ * Options for the dashboard command
+ */
+export interface PRDashboardOptions {
+  status: PullRequestStatus;
+  repo?: string;
+  project?: string;
+  /** Stop after this many pull requests per role; all of them when unset */
+  limit?: number;
+}
+
+/**
+ * Pull requests listed under one role in the dashboard
+ */
+export interface PullRequestGroup {
+  role: PullRequestRole.Author | PullRequestRole.Reviewer;
+  title: string;
+  pullRequests: PullRequest[];
+}
+
+/**
+ * Options for the watch command
+ */
+export interface PRWatchOptions {
+  repo?: string;
+  project?: string;
   top: number;
+  /** Seconds between polls */
+  interval: number;
+  once: boolean;
+  notify: boolean;
+  /** Shell command run once per event */
+  exec?: string;
+  output: OutputFormat;
+}
+
+/**
+ * Kind of change reported by the watch command
+ */
+export enum WatchEventType {
+  PullRequestAdded = 'pr-added',
+  CommentAdded = 'comment-added',
+  ThreadResolved = 'thread-resolved',
+  ThreadReopened = 'thread-reopened',
+  VoteChanged = 'vote-changed',
+  MergeConflict = 'merge-conflict',
+  PullRequestCompleted = 'pr-completed',
+  PullRequestAbandoned = 'pr-abandoned',
+}
+
+/**
+ * A change to one of my pull requests noticed between two polls
+ */
+export interface WatchEvent {
+  type: WatchEventType;
+  pullRequestId: number;
+  title: string;
+  repository: string;
+  project: string;
+  /** One-line summary shown in the terminal and in notifications */
+  message: string;
+  author?: string;
+  threadId?: number;
+  commentId?: number;
+  vote?: PullRequestVote;
+  status?: string;
+}
+
+/**
+ * What the watch command remembers about a pull request between polls
+ */
+export interface PullRequestSnapshot {
+  pullRequestId: number;
+  title: string;
+  repository: string;
+  project: string;
+  status: string;
+  mergeStatus?: string;
+  /** Vote per reviewer ID */
+  votes: Record<string, PullRequestVote>;
+  /** Status and comment IDs per thread ID */
+  threads: Record<string, { status: string; comments: number[] }>;
+}
+
+/**
+ * Pull requests seen by the last poll, keyed by pull request ID
+ */
+export interface WatchSnapshot {
+  updatedAt: string;
+  pullRequests: Record<string, PullRequestSnapshot>;
+}
+
+/**
+ * Options for the inbox command
+ */
+export interface PRInboxOptions {
+  repo?: string;
+  project?: string;
+  /** Pull requests to check per role; all of them when unset */
+  limit?: number;
   output: OutputFormat;
+  /** JMESPath query applied to the results before rendering */
+  query?: string;
+  /** Field expressions to render as columns */
+  fields?: string[];
+  /** Template rendered once per result instead of the output format */
+  template?: string;
+}
+
+/**
+ * Why a pull request is waiting on me
+ */
+export enum AttentionReasonType {
+  ChangesRequested = 'changes-requested',
+  NotVoted = 'not-voted',
+  PushedSinceVote = 'pushed-since-vote',
+  NewReplies = 'new-replies',
+  ActiveThreads = 'active-threads',
+}
+
+export interface AttentionReason {
+  type: AttentionReasonType;
+  message: string;
+  /** Contribution to the pull request's urgency */
+  weight: number;
+}
+
+/**
+ * A pull request in the inbox with what it is waiting on me for; higher urgency sorts first
+ */
+export interface InboxItem {
+  pullRequest: PullRequest;
+  role: PullRequestRole.Author | PullRequestRole.Reviewer;
+  urgency: number;
+  reasons: AttentionReason[];
 }
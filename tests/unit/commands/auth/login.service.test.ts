@@ -0,0 +1,122 @@
+import { jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LoginService } from '../../../../src/commands/auth/login.service.js';
+import { ResponseCache } from '../../../../src/services/cache.service.js';
+import { CredentialStore } from '../../../../src/services/credential.service.js';
+
+describe('LoginService', () => {
+  let dir: string;
+  let store: CredentialStore;
+  let cache: ResponseCache;
+  let mockConfigService: any;
+  let fetchMock: jest.Mock<typeof fetch>;
+  let service: LoginService;
+  const originalFetch = global.fetch;
+
+  const connectionData = {
+    authenticatedUser: {
+      id: 'u1',
+      providerDisplayName: 'Jane Doe',
+      properties: { Account: { $value: 'jane@example.com' } },
+    },
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'azc-login-'));
+    store = new CredentialStore(path.join(dir, 'credentials.json'));
+    cache = new ResponseCache(path.join(dir, 'cache'));
+    cache.write({
+      version: 1,
+      url: 'https://dev.azure.com/acme/_apis/connectionData',
+      storedAt: '2024-01-01T00:00:00Z',
+      headers: {},
+      body: '{}',
+    });
+    mockConfigService = {
+      getOrganizationUrl: jest.fn<() => Promise<string | undefined>>().mockResolvedValue('https://dev.azure.com/acme'),
+      getAuthorizationHeader: jest.fn<() => Promise<string>>().mockResolvedValue('Bearer configured'),
+      invalidateAccessToken: jest.fn(() => false),
+      getAuthenticationContext: jest.fn<() => Promise<any>>().mockResolvedValue({
+        accessToken: 'stored-pat',
+        source: 'stored-pat',
+      }),
+    };
+    fetchMock = jest.fn<typeof fetch>();
+    global.fetch = fetchMock as any;
+    service = new LoginService(mockConfigService, store, cache);
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('login', () => {
+    it('should check the token against connectionData with basic authentication and store it', async () => {
+      fetchMock.mockResolvedValue(new Response(JSON.stringify(connectionData)));
+
+      const result = await service.login('  new-pat\n');
+
+      expect(result.identity).toMatchObject({ displayName: 'Jane Doe', uniqueName: 'jane@example.com' });
+      expect(fetchMock).toHaveBeenCalledWith(
+        'https://dev.azure.com/acme/_apis/connectionData?api-version=7.0-preview.1',
+        expect.objectContaining({
+          headers: expect.objectContaining({ Authorization: `Basic ${Buffer.from(':new-pat').toString('base64')}` }),
+        })
+      );
+      expect(store.getToken('https://dev.azure.com/acme')).toBe('new-pat');
+      expect(cache.read('https://dev.azure.com/acme/_apis/connectionData')).toBeUndefined();
+    });
+
+    it('should not store a token the organization rejects', async () => {
+      fetchMock.mockResolvedValue(new Response('', { status: 401, statusText: 'Unauthorized' }));
+
+      await expect(service.login('bad-pat')).rejects.toThrow('https://dev.azure.com/acme did not accept the token');
+      expect(store.get('https://dev.azure.com/acme')).toBeUndefined();
+      expect(cache.read('https://dev.azure.com/acme/_apis/connectionData')).toBeDefined();
+    });
+
+    it('should require an organization', async () => {
+      mockConfigService.getOrganizationUrl.mockResolvedValue(undefined);
+
+      await expect(service.login('pat')).rejects.toThrow('Organization URL not configured');
+    });
+  });
+
+  describe('logout', () => {
+    it('should remove the token stored for the organization and what was cached with it', async () => {
+      store.set('https://dev.azure.com/acme', 'pat');
+
+      await expect(service.logout()).resolves.toBe('https://dev.azure.com/acme');
+      expect(cache.read('https://dev.azure.com/acme/_apis/connectionData')).toBeUndefined();
+      await expect(service.logout()).resolves.toBeUndefined();
+    });
+  });
+
+  describe('getStatus', () => {
+    it('should report the credential in use and whom it belongs to, without the token', async () => {
+      store.set('https://dev.azure.com/acme', 'stored-pat');
+      fetchMock.mockResolvedValue(new Response(JSON.stringify(connectionData)));
+
+      const status = await service.getStatus();
+
+      expect(status).toMatchObject({
+        organizationUrl: 'https://dev.azure.com/acme',
+        source: 'stored-pat',
+        identity: { displayName: 'Jane Doe' },
+      });
+      expect(status.storedAt).toBeDefined();
+      expect(status).not.toHaveProperty('accessToken');
+    });
+
+    it('should report why the identity could not be resolved', async () => {
+      fetchMock.mockResolvedValue(new Response('', { status: 401, statusText: 'Unauthorized' }));
+
+      const status = await service.getStatus();
+
+      expect(status.identityError).toContain('401 Unauthorized');
+    });
+  });
+});
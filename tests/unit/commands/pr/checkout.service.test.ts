@@ -0,0 +1,155 @@
+import { jest } from '@jest/globals';
+import { CheckoutService } from '../../../../src/commands/pr/checkout/checkout.service.js';
+import type { PRCheckoutOptions, PullRequest } from '../../../../src/types/pull-request.types.js';
+
+function makePR(overrides: Partial<PullRequest> = {}): PullRequest {
+  return {
+    pullRequestId: 42,
+    title: 'Add login page',
+    status: 'active',
+    createdBy: { id: 'u1', displayName: 'Jane', uniqueName: 'jane@example.com' },
+    creationDate: '2024-01-01T00:00:00Z',
+    sourceRefName: 'refs/heads/feature/login',
+    targetRefName: 'refs/heads/main',
+    repository: { id: 'repo-1', name: 'web-app', project: { id: 'p1', name: 'Web' } },
+    reviewers: [],
+    ...overrides,
+  } as PullRequest;
+}
+
+describe('CheckoutService', () => {
+  let mockApi: any;
+  let mockGit: any;
+  let service: CheckoutService;
+
+  const options: PRCheckoutOptions = { detach: false, force: false };
+
+  beforeEach(() => {
+    mockApi = { get: jest.fn<() => Promise<any>>().mockResolvedValue(makePR()) };
+    mockGit = {
+      isRepository: jest.fn<() => Promise<boolean>>().mockResolvedValue(true),
+      getAzureReposRemotes: jest.fn<() => Promise<any[]>>().mockResolvedValue([
+        { remoteName: 'origin', organizationUrl: 'https://dev.azure.com/acme', project: 'web', repository: 'Web-App' },
+      ]),
+      fetch: jest.fn<() => Promise<void>>().mockResolvedValue(undefined),
+      resolveCommit: jest.fn<(ref: string) => Promise<string | undefined>>(async (ref) =>
+        ref === 'FETCH_HEAD' ? 'abc1234567' : undefined
+      ),
+      isAncestor: jest.fn<() => Promise<boolean>>().mockResolvedValue(true),
+      checkoutBranch: jest.fn<() => Promise<void>>().mockResolvedValue(undefined),
+      checkoutDetached: jest.fn<() => Promise<void>>().mockResolvedValue(undefined),
+      setUpstream: jest.fn<() => Promise<void>>().mockResolvedValue(undefined),
+      getUpstream: jest.fn<() => Promise<string | undefined>>().mockResolvedValue(undefined),
+      getCurrentBranch: jest.fn<() => Promise<string>>().mockResolvedValue('feature/login'),
+      getConfig: jest.fn<() => Promise<string | undefined>>().mockResolvedValue(undefined),
+      setConfig: jest.fn<() => Promise<void>>().mockResolvedValue(undefined),
+    };
+    service = new CheckoutService(mockApi, {} as any, {} as any, mockGit);
+  });
+
+  describe('checkout', () => {
+    it('should fetch the source branch into pr/<id> tracking the remote branch', async () => {
+      const result = await service.checkout(42, options);
+
+      expect(mockGit.fetch).toHaveBeenCalledWith(
+        'origin',
+        '+refs/heads/feature/login:refs/remotes/origin/feature/login'
+      );
+      expect(mockGit.checkoutBranch).toHaveBeenCalledWith('pr/42', 'abc1234567');
+      expect(mockGit.setUpstream).toHaveBeenCalledWith('pr/42', 'origin/feature/login');
+      expect(mockGit.setConfig).toHaveBeenCalledWith('branch.pr/42.azc-pull-request', '42');
+      expect(result).toMatchObject({ branch: 'pr/42', upstream: 'origin/feature/login', forkUrl: undefined });
+    });
+
+    it('should check out the merge commit with --detach', async () => {
+      const result = await service.checkout(42, { ...options, detach: true });
+
+      expect(mockGit.fetch).toHaveBeenCalledWith('origin', 'refs/pull/42/merge');
+      expect(mockGit.checkoutDetached).toHaveBeenCalledWith('abc1234567');
+      expect(mockGit.checkoutBranch).not.toHaveBeenCalled();
+      expect(result.branch).toBeUndefined();
+    });
+
+    it('should refuse to reset a local branch with commits outside the pull request unless forced', async () => {
+      mockGit.resolveCommit.mockImplementation(async (ref: string) => (ref === 'FETCH_HEAD' ? 'abc1234567' : 'def890'));
+      mockGit.isAncestor.mockResolvedValue(false);
+
+      await expect(service.checkout(42, { ...options, branch: 'login' })).rejects.toThrow(
+        'Local branch login has commits that are not in pull request 42'
+      );
+      expect(mockGit.checkoutBranch).not.toHaveBeenCalled();
+
+      await service.checkout(42, { ...options, branch: 'login', force: true });
+      expect(mockGit.checkoutBranch).toHaveBeenCalledWith('login', 'abc1234567');
+    });
+
+    it('should fetch from the fork URL when no remote points to the fork', async () => {
+      const forkUrl = 'https://dev.azure.com/acme/Jane/_git/web-app';
+      mockApi.get.mockResolvedValue(
+        makePR({
+          forkSource: {
+            name: 'refs/heads/feature/login',
+            repository: { id: 'fork-1', name: 'web-app', remoteUrl: forkUrl },
+          },
+        })
+      );
+
+      const result = await service.checkout(42, options);
+
+      expect(mockGit.fetch).toHaveBeenCalledWith(forkUrl, 'refs/heads/feature/login');
+      expect(mockGit.setUpstream).not.toHaveBeenCalled();
+      expect(result.forkUrl).toBe(forkUrl);
+    });
+
+    it('should suggest cloning when no remote points to the repository', async () => {
+      mockGit.getAzureReposRemotes.mockResolvedValue([]);
+      mockApi.get.mockResolvedValue(
+        makePR({
+          repository: {
+            id: 'repo-2',
+            name: 'api',
+            project: { id: 'p1', name: 'Web' },
+            remoteUrl: 'https://dev.azure.com/acme/Web/_git/api',
+          },
+        })
+      );
+
+      await expect(service.checkout(42, options)).rejects.toThrow(
+        'Clone it first: git clone https://dev.azure.com/acme/Web/_git/api'
+      );
+    });
+  });
+
+  describe('findCurrentPullRequest', () => {
+    it('should return the pull request the branch was checked out for', async () => {
+      mockGit.getConfig.mockResolvedValue('42');
+
+      await expect(service.findCurrentPullRequest()).resolves.toMatchObject({ pullRequestId: 42 });
+      expect(mockApi.get).toHaveBeenCalledWith('git/pullrequests/42?api-version=7.0', undefined);
+    });
+
+    it('should search by the upstream branch and prefer active, then newer pull requests', async () => {
+      mockGit.getUpstream.mockResolvedValue('origin/feature/sign-in');
+      mockApi.get.mockResolvedValue({
+        value: [
+          makePR({ pullRequestId: 1, status: 'completed', creationDate: '2024-03-01T00:00:00Z' }),
+          makePR({ pullRequestId: 2, status: 'active', creationDate: '2024-01-01T00:00:00Z' }),
+          makePR({ pullRequestId: 3, status: 'active', creationDate: '2024-02-01T00:00:00Z' }),
+        ],
+      });
+
+      await expect(service.findCurrentPullRequest()).resolves.toMatchObject({ pullRequestId: 3 });
+      expect(mockApi.get).toHaveBeenCalledWith(
+        'git/repositories/Web-App/pullrequests?searchCriteria.sourceRefName=refs%2Fheads%2Ffeature%2Fsign-in' +
+          '&searchCriteria.status=all&api-version=7.0',
+        'web'
+      );
+    });
+
+    it('should throw when the branch has no pull request', async () => {
+      mockApi.get.mockResolvedValue({ value: [] });
+
+      await expect(service.findCurrentPullRequest()).rejects.toThrow('No pull request found for branch feature/login');
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { jest } from '@jest/globals';
+import { CommentService } from '../../../../src/commands/pr/comment/comment.service.js';
+import { CommentThreadStatus, CommentType, OutputFormat } from '../../../../src/types/comment.types.js';
+
+const location = { project: 'Project', repositoryId: 'repo-1' };
+const threadsPath = 'git/repositories/repo-1/pullRequests/42/threads?api-version=7.0';
+
+describe('CommentService', () => {
+  let mockApi: any;
+  let service: CommentService;
+
+  const options = { output: OutputFormat.Table, left: false };
+
+  beforeEach(() => {
+    mockApi = {
+      get: jest.fn<(path: string) => Promise<any>>().mockImplementation(async (path: string) => {
+        if (path.includes('/iterations?')) {
+          return {
+            value: [
+              {
+                id: 3,
+                createdDate: '2024-01-01T00:00:00Z',
+                sourceRefCommit: { commitId: 'source-3' },
+                targetRefCommit: { commitId: 'target-3' },
+                commonRefCommit: { commitId: 'base-3' },
+              },
+            ],
+          };
+        }
+        if (path.includes('/changes?')) {
+          return {
+            changeEntries: [
+              { changeId: 1, changeTrackingId: 11, changeType: 'edit', item: { path: '/src/app.ts' } },
+              { changeId: 2, changeTrackingId: 12, changeType: 'add', item: { path: '/src/new.ts' } },
+            ],
+          };
+        }
+        return { content: path.includes('source-3') ? 'one\ntwo\nthree\n' : 'one\n2\n' };
+      }),
+      post: jest.fn<() => Promise<any>>().mockResolvedValue({ id: 99, comments: [] }),
+    };
+
+    const mockCommentsService: any = {
+      resolvePullRequestLocation: jest.fn<() => Promise<any>>().mockResolvedValue(location),
+    };
+    service = new CommentService(mockApi, {} as any, {} as any, mockCommentsService);
+  });
+
+  it('should create a general thread when no file is given', async () => {
+    await service.createThread(42, 'Looks good overall', options);
+
+    expect(mockApi.post).toHaveBeenCalledWith(
+      threadsPath,
+      {
+        comments: [{ content: 'Looks good overall', commentType: CommentType.Text }],
+        status: CommentThreadStatus.Active,
+      },
+      'Project'
+    );
+  });
+
+  it('should anchor a line range on the right side of the latest iteration', async () => {
+    await service.createThread(42, 'Rename this', { ...options, file: 'src/app.ts', lines: { start: 2, end: 3 } });
+
+    expect(mockApi.post).toHaveBeenCalledWith(
+      threadsPath,
+      expect.objectContaining({
+        threadContext: {
+          filePath: '/src/app.ts',
+          rightFileStart: { line: 2, offset: 1 },
+          rightFileEnd: { line: 3, offset: 6 },
+        },
+        pullRequestThreadContext: {
+          changeTrackingId: 11,
+          iterationContext: { firstComparingIteration: 1, secondComparingIteration: 3 },
+        },
+      }),
+      'Project'
+    );
+  });
+
+  it('should anchor to the left side against the merge base', async () => {
+    await service.createThread(42, 'Why remove?', {
+      ...options,
+      file: '/src/app.ts',
+      lines: { start: 2, end: 2 },
+      left: true,
+    });
+
+    const body = mockApi.post.mock.calls[0][1];
+    expect(body.threadContext).toEqual({
+      filePath: '/src/app.ts',
+      leftFileStart: { line: 2, offset: 1 },
+      leftFileEnd: { line: 2, offset: 2 },
+    });
+    expect(mockApi.get).toHaveBeenCalledWith(expect.stringContaining('versionDescriptor.version=base-3'), 'Project');
+  });
+
+  it('should create a file-level thread when no lines are given', async () => {
+    await service.createThread(42, 'Needs tests', { ...options, file: 'src/new.ts' });
+
+    expect(mockApi.post.mock.calls[0][1].threadContext).toEqual({ filePath: '/src/new.ts' });
+  });
+
+  it('should reject files the pull request does not change', async () => {
+    await expect(service.createThread(42, 'Hi', { ...options, file: 'README.md' })).rejects.toThrow(
+      '/README.md is not changed in pull request 42'
+    );
+    expect(mockApi.post).not.toHaveBeenCalled();
+  });
+
+  it('should reject the left side of an added file', async () => {
+    await expect(
+      service.createThread(42, 'Hi', { ...options, file: 'src/new.ts', lines: { start: 1, end: 1 }, left: true })
+    ).rejects.toThrow('has no left side');
+  });
+
+  it('should reject lines past the end of the file', async () => {
+    await expect(
+      service.createThread(42, 'Hi', { ...options, file: 'src/app.ts', lines: { start: 3, end: 9 } })
+    ).rejects.toThrow('Line 9 is past the end of /src/app.ts (3 lines)');
+  });
+});
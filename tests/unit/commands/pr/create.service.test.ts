@@ -0,0 +1,123 @@
+import { jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CreatePRService } from '../../../../src/commands/pr/create/create.service.js';
+import { OutputFormat, type CreatePROptions } from '../../../../src/types/pull-request.types.js';
+
+describe('CreatePRService', () => {
+  let mockAzureCliService: any;
+  let mockGitService: any;
+  let mockConfigService: any;
+  let service: CreatePRService;
+  let repoRoot: string;
+
+  const baseOptions: CreatePROptions = {
+    reviewers: [],
+    requiredReviewers: [],
+    workItems: [],
+    draft: false,
+    template: true,
+    output: OutputFormat.Table,
+  };
+
+  beforeEach(() => {
+    repoRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'azc-create-'));
+    mockAzureCliService = { executeAzCommand: jest.fn<() => Promise<any>>().mockResolvedValue({ pullRequestId: 1 }) };
+    mockGitService = {
+      getCurrentBranch: jest.fn<() => Promise<string>>().mockResolvedValue('feature/login'),
+      getLastCommitSubject: jest.fn<() => Promise<string>>().mockResolvedValue('Add login page'),
+      isRepository: jest.fn<() => Promise<boolean>>().mockResolvedValue(true),
+      getRepositoryRoot: jest.fn<() => Promise<string>>().mockResolvedValue(repoRoot),
+    };
+    mockConfigService = {
+      getDefaultProject: jest.fn<() => Promise<string | undefined>>().mockResolvedValue(undefined),
+      getDefaultRepository: jest.fn<() => Promise<string | undefined>>().mockResolvedValue(undefined),
+    };
+    service = new CreatePRService(mockAzureCliService, mockGitService, mockConfigService);
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoRoot, { recursive: true, force: true });
+  });
+
+  function writeFile(relativePath: string, content: string): void {
+    const fullPath = path.join(repoRoot, relativePath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  }
+
+  describe('findTemplate', () => {
+    it('should prefer a branch-specific template for the target branch', () => {
+      writeFile('.azuredevops/pull_request_template.md', 'default');
+      writeFile('.azuredevops/pull_request_template/branches/main.md', 'main');
+
+      expect(service.findTemplate(repoRoot, 'refs/heads/main')).toBe(
+        path.join(repoRoot, '.azuredevops/pull_request_template/branches/main.md')
+      );
+    });
+
+    it('should fall back to the default template', () => {
+      writeFile('docs/pull_request_template.md', 'docs');
+
+      expect(service.findTemplate(repoRoot, 'develop')).toBe(path.join(repoRoot, 'docs/pull_request_template.md'));
+    });
+
+    it('should return undefined when no template exists', () => {
+      expect(service.findTemplate(repoRoot)).toBeUndefined();
+    });
+  });
+
+  describe('createPullRequest', () => {
+    it('should infer the source branch and title and fill the description from the template', async () => {
+      writeFile('.azuredevops/pull_request_template.md', '## Summary\n\n- [ ] Tests');
+
+      await service.createPullRequest({ ...baseOptions, reviewers: ['jane@example.com'], workItems: [42], draft: true });
+
+      const command = mockAzureCliService.executeAzCommand.mock.calls[0][0] as string;
+      expect(command).toContain("--source-branch 'feature/login'");
+      expect(command).toContain("--title='Add login page'");
+      expect(command).toContain("--description='## Summary\n\n- [ ] Tests'");
+      expect(command).toContain("--reviewers 'jane@example.com'");
+      expect(command).toContain('--work-items 42');
+      expect(command).toContain('--draft true');
+    });
+
+    it('should pass a template with option-like lines as a single description value', async () => {
+      writeFile('.azuredevops/pull_request_template.md', '## Summary\n\n---\n-x\n\nIt\'s ready');
+
+      await service.createPullRequest(baseOptions);
+
+      const command = mockAzureCliService.executeAzCommand.mock.calls[0][0] as string;
+      expect(command).toContain("--description='## Summary\n\n---\n-x\n\nIt'\\''s ready' ");
+      expect(command).not.toMatch(/ '---'| '-x'/);
+    });
+
+    it('should not read the template when --no-template is used', async () => {
+      writeFile('.azuredevops/pull_request_template.md', 'template');
+
+      await service.createPullRequest({ ...baseOptions, template: false, title: 'Fix' });
+
+      const command = mockAzureCliService.executeAzCommand.mock.calls[0][0] as string;
+      expect(command).not.toContain('--description');
+    });
+
+    it('should create the PR in the configured default repository unless --repo is given', async () => {
+      mockConfigService.getDefaultProject.mockResolvedValue('Web');
+      mockConfigService.getDefaultRepository.mockResolvedValue('web-app');
+
+      await service.createPullRequest({ ...baseOptions, title: 'Fix' });
+      await service.createPullRequest({ ...baseOptions, title: 'Fix', repo: 'api' });
+
+      const [[configured], [explicit]] = mockAzureCliService.executeAzCommand.mock.calls as string[][];
+      expect(configured).toContain("--project 'Web' --repository 'web-app'");
+      expect(explicit).toContain("--repository 'api'");
+    });
+
+    it('should throw when no title can be determined', async () => {
+      mockGitService.getLastCommitSubject.mockResolvedValue(undefined);
+
+      await expect(service.createPullRequest(baseOptions)).rejects.toThrow('Pass --title explicitly');
+    });
+  });
+});
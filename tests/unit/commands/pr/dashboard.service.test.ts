@@ -0,0 +1,78 @@
+import { jest } from '@jest/globals';
+import { DashboardService } from '../../../../src/commands/pr/dashboard/dashboard.service.js';
+import { MyPRsService } from '../../../../src/commands/pr/my-prs/my-prs.service.js';
+import {
+  OutputFormat,
+  PullRequestRole,
+  PullRequestStatus,
+  type PullRequest,
+} from '../../../../src/types/pull-request.types.js';
+
+function makePR(id: number, creationDate: string): PullRequest {
+  return {
+    pullRequestId: id,
+    title: `PR ${id}`,
+    status: 'active',
+    creationDate,
+    createdBy: { id: 'u1', displayName: 'Jane', uniqueName: 'jane@example.com' },
+    reviewers: [],
+    repository: { id: 'repo-1', name: 'repo', project: { id: 'proj-1', name: 'Project' } },
+    sourceRefName: 'refs/heads/feature',
+    targetRefName: 'refs/heads/main',
+  };
+}
+
+describe('DashboardService', () => {
+  let mockApi: any;
+  let fetchMyPRs: jest.Mock<(options: any) => Promise<PullRequest[]>>;
+  let service: DashboardService;
+
+  beforeEach(() => {
+    mockApi = { getAll: jest.fn<() => Promise<any>>() };
+    fetchMyPRs = jest.fn();
+    const myPRsService = new MyPRsService(mockApi, {} as any, {} as any, {} as any);
+    myPRsService.fetchMyPRs = fetchMyPRs;
+    service = new DashboardService(mockApi, {} as any, {} as any, myPRsService);
+  });
+
+  describe('fetchGroups', () => {
+    it('should group created and reviewed pull requests, newest first', async () => {
+      fetchMyPRs.mockImplementation(async (options) =>
+        options.role === PullRequestRole.Author
+          ? [makePR(1, '2024-01-01T00:00:00Z'), makePR(2, '2024-02-01T00:00:00Z')]
+          : [makePR(2, '2024-02-01T00:00:00Z'), makePR(3, '2024-03-01T00:00:00Z')],
+      );
+
+      const groups = await service.fetchGroups({ status: PullRequestStatus.Active, limit: 50, repo: 'repo' });
+
+      expect(fetchMyPRs).toHaveBeenCalledWith({
+        status: PullRequestStatus.Active,
+        limit: 50,
+        repo: 'repo',
+        role: PullRequestRole.Author,
+        output: OutputFormat.Table,
+      });
+      expect(groups.map((group) => group.title)).toEqual(['Created by me', 'Reviewing']);
+      expect(groups[0].pullRequests.map((pr) => pr.pullRequestId)).toEqual([2, 1]);
+      expect(groups[1].pullRequests.map((pr) => pr.pullRequestId)).toEqual([3]);
+    });
+  });
+
+  describe('fetchThreads', () => {
+    it('should fetch threads from the pull request repository without deleted threads', async () => {
+      mockApi.getAll.mockResolvedValue([
+        { id: 1, publishedDate: '2024-01-01T00:00:00Z', comments: [] },
+        { id: 2, publishedDate: '2024-01-03T00:00:00Z', comments: [] },
+        { id: 3, publishedDate: '2024-01-02T00:00:00Z', comments: [], isDeleted: true },
+      ]);
+
+      const threads = await service.fetchThreads(makePR(7, '2024-01-01T00:00:00Z'));
+
+      expect(mockApi.getAll).toHaveBeenCalledWith(
+        'git/repositories/repo-1/pullRequests/7/threads?api-version=7.0',
+        'Project',
+      );
+      expect(threads.map((thread) => thread.id)).toEqual([2, 1]);
+    });
+  });
+});
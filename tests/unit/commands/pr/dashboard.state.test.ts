@@ -0,0 +1,206 @@
+import {
+  createDashboardState,
+  handleKey,
+  selectedPullRequest,
+  withDetail,
+  withGroups,
+  type DashboardState,
+} from '../../../../src/commands/pr/dashboard/dashboard.state.js';
+import { CommentThreadStatus, type CommentThread } from '../../../../src/types/comment.types.js';
+import {
+  PullRequestRole,
+  PullRequestVote,
+  type PullRequest,
+  type PullRequestGroup,
+} from '../../../../src/types/pull-request.types.js';
+
+function makePR(id: number): PullRequest {
+  return {
+    pullRequestId: id,
+    title: `PR ${id}`,
+    status: 'active',
+    creationDate: '2024-01-01T00:00:00Z',
+    createdBy: { id: 'u1', displayName: 'Jane', uniqueName: 'jane@example.com' },
+    reviewers: [],
+    repository: { id: 'repo-1', name: 'repo', project: { id: 'proj-1', name: 'Project' } },
+    sourceRefName: 'refs/heads/feature',
+    targetRefName: 'refs/heads/main',
+  };
+}
+
+function makeThread(id: number): CommentThread {
+  return {
+    id,
+    publishedDate: '2024-01-02T00:00:00Z',
+    lastUpdatedDate: '2024-01-02T00:00:00Z',
+    status: CommentThreadStatus.Active,
+    comments: [],
+  } as CommentThread;
+}
+
+function makeGroups(created: number[], reviewing: number[]): PullRequestGroup[] {
+  return [
+    { role: PullRequestRole.Author, title: 'Created by me', pullRequests: created.map(makePR) },
+    { role: PullRequestRole.Reviewer, title: 'Reviewing', pullRequests: reviewing.map(makePR) },
+  ];
+}
+
+function press(state: DashboardState, ...names: string[]): DashboardState {
+  return names.reduce((current, name) => handleKey(current, { name }, 10).state, state);
+}
+
+function openDetail(state: DashboardState, threadCount: number, lineCount = 40): DashboardState {
+  const threads = Array.from({ length: threadCount }, (_, index) => makeThread(index + 1));
+  const lines = Array.from({ length: lineCount }, (_, index) => `line ${index}`);
+  const offsets = threads.map((_, index) => index * 15);
+  return withDetail(state, selectedPullRequest(state)!, threads, lines, offsets);
+}
+
+describe('dashboard state', () => {
+  describe('list navigation', () => {
+    it('should move the cursor across groups and stop at the ends', () => {
+      const state = createDashboardState(makeGroups([1, 2], [3]));
+
+      expect(press(state, 'down', 'down').cursor).toBe(2);
+      expect(selectedPullRequest(press(state, 'j', 'j'))?.pullRequestId).toBe(3);
+      expect(press(state, 'down', 'down', 'down', 'down').cursor).toBe(2);
+      expect(press(state, 'up').cursor).toBe(0);
+      expect(press(state, 'end', 'home').cursor).toBe(0);
+      expect(press(state, 'pagedown').cursor).toBe(2);
+    });
+
+    it('should ask to open the selected pull request on enter', () => {
+      const state = press(createDashboardState(makeGroups([1, 2], [])), 'down');
+
+      expect(handleKey(state, { name: 'return' }, 10).action).toEqual({ type: 'open', pr: makePR(2) });
+    });
+
+    it('should do nothing on enter when nothing is listed', () => {
+      expect(handleKey(createDashboardState(makeGroups([], [])), { name: 'return' }, 10).action).toBeUndefined();
+    });
+  });
+
+  describe('global keys', () => {
+    it('should quit on q and ctrl-c', () => {
+      const state = createDashboardState();
+
+      expect(handleKey(state, { name: 'q' }, 10).action).toEqual({ type: 'quit' });
+      expect(handleKey(state, { name: 'c', ctrl: true }, 10).action).toEqual({ type: 'quit' });
+    });
+
+    it('should ignore keys other than ctrl-c while busy', () => {
+      const state = { ...createDashboardState(makeGroups([1, 2], [])), busy: true };
+
+      expect(handleKey(state, { name: 'down' }, 10)).toEqual({ state });
+      expect(handleKey(state, { name: 'q' }, 10).action).toBeUndefined();
+      expect(handleKey(state, { name: 'c', ctrl: true }, 10).action).toEqual({ type: 'quit' });
+    });
+
+    it('should open the browser and refresh', () => {
+      const state = createDashboardState(makeGroups([1], []));
+
+      expect(handleKey(state, { name: 'o' }, 10).action).toEqual({ type: 'browser', pr: makePR(1) });
+      expect(handleKey(state, { name: 'r' }, 10).action).toEqual({ type: 'refresh' });
+    });
+  });
+
+  describe('vote prompt', () => {
+    it('should cast the chosen vote on the selected pull request', () => {
+      const state = press(createDashboardState(makeGroups([1], [2])), 'down', 'v');
+      expect(state.votePrompt).toBe(true);
+
+      const result = handleKey(state, { name: 'a' }, 10);
+
+      expect(result.state.votePrompt).toBe(false);
+      expect(result.action).toEqual({ type: 'vote', pr: makePR(2), vote: PullRequestVote.Approved });
+    });
+
+    it('should map 0 to reset and cancel on other keys', () => {
+      const state = press(createDashboardState(makeGroups([1], [])), 'v');
+
+      expect(handleKey(state, { sequence: '0' }, 10).action).toEqual({
+        type: 'vote',
+        pr: makePR(1),
+        vote: PullRequestVote.NoVote,
+      });
+
+      const cancelled = handleKey(state, { name: 'down' }, 10);
+      expect(cancelled.action).toBeUndefined();
+      expect(cancelled.state.votePrompt).toBe(false);
+      expect(cancelled.state.cursor).toBe(0);
+    });
+  });
+
+  describe('detail view', () => {
+    it('should step through threads and scroll to the selected one', () => {
+      const state = openDetail(createDashboardState(makeGroups([1], [])), 3);
+
+      const next = press(state, 'n');
+      expect(next.detail?.selectedThread).toBe(1);
+      expect(next.detail?.scroll).toBe(15);
+
+      const last = press(state, 'tab', 'tab', 'tab');
+      expect(last.detail?.selectedThread).toBe(2);
+      expect(last.detail?.scroll).toBe(30);
+
+      expect(handleKey(last, { name: 'tab', shift: true }, 10).state.detail?.selectedThread).toBe(1);
+    });
+
+    it('should keep scrolling within the rendered lines', () => {
+      const state = openDetail(createDashboardState(makeGroups([1], [])), 1, 25);
+
+      expect(press(state, 'up').detail?.scroll).toBe(0);
+      expect(press(state, 'pagedown').detail?.scroll).toBe(10);
+      expect(press(state, 'end').detail?.scroll).toBe(15);
+    });
+
+    it('should ask to reply to and resolve the selected thread', () => {
+      const state = press(openDetail(createDashboardState(makeGroups([1], [])), 2), 'n');
+
+      expect(handleKey(state, { name: 'c' }, 10).action).toEqual({ type: 'reply', pr: makePR(1), thread: makeThread(2) });
+      expect(handleKey(state, { name: 'x' }, 10).action).toEqual({
+        type: 'resolve',
+        pr: makePR(1),
+        thread: makeThread(2),
+      });
+    });
+
+    it('should not reply when the pull request has no threads', () => {
+      const state = openDetail(createDashboardState(makeGroups([1], [])), 0, 2);
+
+      expect(handleKey(state, { name: 'c' }, 10).action).toBeUndefined();
+    });
+
+    it('should return to the list on escape', () => {
+      const state = openDetail(press(createDashboardState(makeGroups([1, 2], [])), 'down'), 1);
+      const back = press(state, 'escape');
+
+      expect(back.detail).toBeUndefined();
+      expect(back.cursor).toBe(1);
+    });
+
+    it('should keep the selected thread when the same pull request is reloaded', () => {
+      const state = press(openDetail(createDashboardState(makeGroups([1], [])), 3), 'n', 'n');
+      const reloaded = openDetail(state, 3);
+
+      expect(reloaded.detail?.selectedThread).toBe(2);
+      expect(reloaded.detail?.scroll).toBe(state.detail?.scroll);
+    });
+  });
+
+  describe('withGroups', () => {
+    it('should keep the cursor on the same pull request after a refresh', () => {
+      const state = press(createDashboardState(makeGroups([1, 2], [3])), 'down');
+      const refreshed = withGroups(state, makeGroups([4, 1, 2], [3]));
+
+      expect(selectedPullRequest(refreshed)?.pullRequestId).toBe(2);
+    });
+
+    it('should clamp the cursor when the selected pull request is gone', () => {
+      const state = press(createDashboardState(makeGroups([1, 2], [3])), 'end');
+      const refreshed = withGroups(state, makeGroups([1], []));
+
+      expect(refreshed.cursor).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,243 @@
+import { jest } from '@jest/globals';
+import {
+  buildHunks,
+  diffLines,
+  DiffService,
+  matchesGlob,
+  splitLines,
+} from '../../../../src/commands/pr/diff/diff.service.js';
+import { CommentThreadStatus, type CommentThread } from '../../../../src/types/comment.types.js';
+import { OutputFormat } from '../../../../src/types/pull-request.types.js';
+
+const location = { project: 'Project', repositoryId: 'repo-1' };
+
+const iterations = [
+  {
+    id: 1,
+    createdDate: '2024-01-01T00:00:00Z',
+    sourceRefCommit: { commitId: 'source-1' },
+    targetRefCommit: { commitId: 'target-1' },
+    commonRefCommit: { commitId: 'base-1' },
+  },
+  {
+    id: 2,
+    createdDate: '2024-01-02T00:00:00Z',
+    sourceRefCommit: { commitId: 'source-2' },
+    targetRefCommit: { commitId: 'target-2' },
+    commonRefCommit: { commitId: 'base-2' },
+  },
+];
+
+describe('splitLines', () => {
+  it('should ignore the trailing newline and handle CRLF', () => {
+    expect(splitLines('a\r\nb\n')).toEqual(['a', 'b']);
+    expect(splitLines('')).toEqual([]);
+  });
+});
+
+describe('diffLines', () => {
+  it('should number context, added and removed lines', () => {
+    expect(diffLines(['a', 'b', 'c'], ['a', 'x', 'c'])).toEqual([
+      { type: 'context', content: 'a', oldLine: 1, newLine: 1 },
+      { type: 'remove', content: 'b', oldLine: 2 },
+      { type: 'add', content: 'x', newLine: 2 },
+      { type: 'context', content: 'c', oldLine: 3, newLine: 3 },
+    ]);
+  });
+
+  it('should keep common lines inside a changed block', () => {
+    const types = diffLines(['a', 'b', 'c', 'd'], ['x', 'b', 'y', 'd']).map((line) => line.type);
+
+    expect(types).toEqual(['remove', 'add', 'context', 'remove', 'add', 'context']);
+  });
+
+  it('should treat a new file as all additions', () => {
+    expect(diffLines([], ['a', 'b']).every((line) => line.type === 'add')).toBe(true);
+  });
+});
+
+describe('buildHunks', () => {
+  it('should keep three lines of context and merge nearby changes', () => {
+    const oldLines = Array.from({ length: 20 }, (_, index) => `line ${index + 1}`);
+    const newLines = [...oldLines];
+    newLines[4] = 'changed 5';
+    newLines[8] = 'changed 9';
+    newLines[18] = 'changed 19';
+
+    const hunks = buildHunks(diffLines(oldLines, newLines));
+
+    expect(hunks.map(({ oldStart, oldLines: o, newStart, newLines: n }) => [oldStart, o, newStart, n])).toEqual([
+      [2, 11, 2, 11],
+      [16, 5, 16, 5],
+    ]);
+  });
+
+  it('should use a zero start for an empty side', () => {
+    const [hunk] = buildHunks(diffLines([], ['a']));
+
+    expect(hunk).toEqual(expect.objectContaining({ oldStart: 0, oldLines: 0, newStart: 1, newLines: 1 }));
+  });
+});
+
+describe('matchesGlob', () => {
+  it('should match file names anywhere when the pattern has no slash', () => {
+    expect(matchesGlob('/src/app/main.ts', '*.ts')).toBe(true);
+    expect(matchesGlob('/src/app/main.tsx', '*.ts')).toBe(false);
+  });
+
+  it('should match paths with ** and *', () => {
+    expect(matchesGlob('/src/app/main.ts', 'src/**/*.ts')).toBe(true);
+    expect(matchesGlob('/src/main.ts', 'src/**/*.ts')).toBe(true);
+    expect(matchesGlob('/test/main.ts', 'src/**/*.ts')).toBe(false);
+    expect(matchesGlob('/src/app/main.ts', '/src/*.ts')).toBe(false);
+  });
+});
+
+describe('DiffService', () => {
+  let mockApi: any;
+  let service: DiffService;
+  let files: Record<string, string>;
+
+  const options = { output: OutputFormat.Table, stat: false };
+
+  beforeEach(() => {
+    files = {
+      'base-2:/src/app.ts': 'a\nb\nc\n',
+      'source-2:/src/app.ts': 'a\nB\nc\n',
+      'source-2:/src/new.ts': 'new\n',
+      'base-2:/docs/old.md': 'gone\n',
+    };
+
+    mockApi = {
+      get: jest.fn<(path: string) => Promise<any>>().mockImplementation(async (path: string) => {
+        if (path.includes('/iterations?')) {
+          return { value: iterations };
+        }
+        if (path.includes('/changes?')) {
+          return {
+            changeEntries: [
+              { changeId: 1, changeTrackingId: 1, changeType: 'edit', item: { path: '/src/app.ts' } },
+              { changeId: 2, changeTrackingId: 2, changeType: 'add', item: { path: '/src/new.ts' } },
+              { changeId: 3, changeTrackingId: 3, changeType: 'delete', item: { path: '/docs/old.md' } },
+              { changeId: 4, changeTrackingId: 4, changeType: 'add', item: { path: '/src', isFolder: true } },
+            ],
+          };
+        }
+        const params = new URLSearchParams(path.slice(path.indexOf('?') + 1));
+        const content = files[`${params.get('versionDescriptor.version')}:${params.get('path')}`];
+        if (content === undefined) {
+          throw new Error('API request failed: 404 Not Found');
+        }
+        return { content };
+      }),
+    };
+
+    const mockCommentsService: any = {
+      resolvePullRequestLocation: jest.fn<() => Promise<any>>().mockResolvedValue(location),
+    };
+    service = new DiffService(mockApi, {} as any, {} as any, mockCommentsService);
+  });
+
+  describe('fetchChanges', () => {
+    it('should list files of the latest iteration compared to the merge base', async () => {
+      const result = await service.fetchChanges(42, { ...options, stat: true });
+
+      expect(result.iteration.id).toBe(2);
+      expect(result.changes.map((change) => change.path)).toEqual(['/src/app.ts', '/src/new.ts', '/docs/old.md']);
+      expect(mockApi.get).toHaveBeenCalledWith(
+        'git/repositories/repo-1/pullRequests/42/iterations/2/changes?$compareTo=0&$top=2000&api-version=7.0',
+        'Project'
+      );
+    });
+
+    it('should filter files by glob', async () => {
+      const result = await service.fetchChanges(42, { ...options, file: 'src/*.ts' });
+
+      expect(result.changes.map((change) => change.path)).toEqual(['/src/app.ts', '/src/new.ts']);
+    });
+
+    it('should reject an unknown iteration', async () => {
+      await expect(service.fetchChanges(42, { ...options, iteration: 5 })).rejects.toThrow(
+        'Iteration 5 not found; pull request 42 has 2 iteration(s)'
+      );
+    });
+  });
+
+  describe('fetchDiff', () => {
+    it('should diff edited, added and deleted files', async () => {
+      const result = await service.fetchDiff(42, options);
+
+      expect(result.files.map(({ path, additions, deletions }) => [path, additions, deletions])).toEqual([
+        ['/src/app.ts', 1, 1],
+        ['/src/new.ts', 1, 0],
+        ['/docs/old.md', 0, 1],
+      ]);
+      expect(result.files[0].hunks[0].lines.map((line) => line.content)).toEqual(['a', 'b', 'B', 'c']);
+    });
+
+    it('should mark binary files without diffing them', async () => {
+      mockApi.get.mockImplementation(async (path: string) => {
+        if (path.includes('/iterations?')) {
+          return { value: iterations };
+        }
+        if (path.includes('/changes?')) {
+          return { changeEntries: [{ changeId: 1, changeTrackingId: 1, changeType: 'edit', item: { path: '/logo.png' } }] };
+        }
+        return { content: '', contentMetadata: { isBinary: true } };
+      });
+
+      const result = await service.fetchDiff(42, options);
+
+      expect(result.files[0]).toEqual(expect.objectContaining({ binary: true, hunks: [] }));
+    });
+  });
+
+  describe('fetchThreadCode', () => {
+    function makeThread(id: number, line: number, iteration?: number): CommentThread {
+      return {
+        id,
+        publishedDate: '2024-01-01T00:00:00Z',
+        comments: [],
+        status: CommentThreadStatus.Active,
+        threadContext: { filePath: '/src/app.ts', rightFileStart: { line, offset: 1 }, rightFileEnd: { line, offset: 5 } },
+        pullRequestThreadContext: iteration
+          ? { iterationContext: { firstComparingIteration: 1, secondComparingIteration: iteration } }
+          : undefined,
+      };
+    }
+
+    it('should read the code at the iteration the thread was left on', async () => {
+      files['source-1:/src/app.ts'] = 'one\ntwo\nthree\nfour\nfive\n';
+
+      const snippets = await service.fetchThreadCode(42, [makeThread(7, 3, 1)], {}, 1);
+
+      expect(snippets.get(7)).toEqual({
+        filePath: '/src/app.ts',
+        startLine: 3,
+        endLine: 3,
+        lines: [
+          { number: 2, content: 'two', highlighted: false },
+          { number: 3, content: 'three', highlighted: true },
+          { number: 4, content: 'four', highlighted: false },
+        ],
+      });
+    });
+
+    it('should fall back to the latest iteration and skip files that cannot be read', async () => {
+      const deleted = makeThread(9, 1);
+      deleted.threadContext!.filePath = '/missing.ts';
+
+      const snippets = await service.fetchThreadCode(42, [makeThread(8, 2), deleted], {});
+
+      expect(snippets.get(8)?.lines.map((line) => line.content)).toEqual(['a', 'B', 'c']);
+      expect(snippets.has(9)).toBe(false);
+    });
+
+    it('should not call the API when no thread is anchored to a file', async () => {
+      const general = { ...makeThread(1, 1), threadContext: undefined };
+
+      await expect(service.fetchThreadCode(42, [general], {})).resolves.toEqual(new Map());
+      expect(mockApi.get).not.toHaveBeenCalled();
+    });
+  });
+});
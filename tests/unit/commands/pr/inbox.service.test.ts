@@ -0,0 +1,242 @@
+import { jest } from '@jest/globals';
+import { InboxService } from '../../../../src/commands/pr/inbox/inbox.service.js';
+import { CommentThreadStatus, CommentType, type CommentThread } from '../../../../src/types/comment.types.js';
+import {
+  AttentionReasonType,
+  PullRequestRole,
+  PullRequestVote,
+  type PullRequest,
+  type PullRequestIteration,
+  type Reviewer,
+} from '../../../../src/types/pull-request.types.js';
+
+function makePR(id: number, overrides: Partial<PullRequest> = {}): PullRequest {
+  return {
+    pullRequestId: id,
+    title: `PR ${id}`,
+    status: 'active',
+    creationDate: '2024-01-01T00:00:00Z',
+    createdBy: { id: 'bob', displayName: 'Bob', uniqueName: 'bob@example.com' },
+    reviewers: [],
+    repository: { id: 'repo-1', name: 'repo', project: { id: 'proj-1', name: 'Project' } },
+    sourceRefName: 'refs/heads/feature',
+    targetRefName: 'refs/heads/main',
+    ...overrides,
+  };
+}
+
+function makeReviewer(id: string, vote: PullRequestVote, isRequired = false): Reviewer {
+  return { id, displayName: id.toUpperCase(), uniqueName: `${id}@example.com`, vote, isRequired };
+}
+
+function makeThread(
+  id: number,
+  comments: [string, string][],
+  status = CommentThreadStatus.Active,
+): CommentThread {
+  return {
+    id,
+    publishedDate: comments[0]?.[1] ?? '2024-01-01T00:00:00Z',
+    status,
+    comments: comments.map(([authorId, publishedDate], index) => ({
+      id: index + 1,
+      parentCommentId: index === 0 ? 0 : 1,
+      content: 'text',
+      author: { id: authorId, displayName: authorId.toUpperCase() },
+      publishedDate,
+      commentType: CommentType.Text,
+    })),
+  };
+}
+
+function makeVoteThread(id: number, authorId: string, publishedDate: string): CommentThread {
+  const thread = makeThread(id, [[authorId, publishedDate]], CommentThreadStatus.Closed);
+  thread.comments[0].commentType = CommentType.System;
+  thread.properties = { CodeReviewThreadType: { $type: 'System.String', $value: 'VoteUpdate' } };
+  return thread;
+}
+
+function makeIteration(id: number, createdDate: string): PullRequestIteration {
+  return {
+    id,
+    createdDate,
+    sourceRefCommit: { commitId: `s${id}` },
+    targetRefCommit: { commitId: `t${id}` },
+  };
+}
+
+describe('InboxService', () => {
+  let mockApi: any;
+  let fetchMyPRs: jest.Mock<(options: any) => Promise<PullRequest[]>>;
+  let fetchIterations: jest.Mock<() => Promise<PullRequestIteration[]>>;
+  let service: InboxService;
+
+  beforeEach(() => {
+    mockApi = { getAll: jest.fn<() => Promise<any>>().mockResolvedValue([]) };
+    const mockIdentity: any = {
+      getCurrentUser: jest.fn<() => Promise<any>>().mockResolvedValue({ id: 'me', displayName: 'Me' }),
+    };
+    fetchMyPRs = jest.fn();
+    fetchIterations = jest.fn<() => Promise<PullRequestIteration[]>>().mockResolvedValue([]);
+    service = new InboxService(
+      mockApi,
+      {} as any,
+      {} as any,
+      mockIdentity,
+      { fetchMyPRs } as any,
+      { fetchIterations } as any,
+    );
+  });
+
+  describe('assess as reviewer', () => {
+    it('should flag a pull request I have not voted on, more so when I am required', () => {
+      const optional = service.assess(makePR(1, { reviewers: [makeReviewer('me', 0)] }), PullRequestRole.Reviewer, 'me', []);
+      const required = service.assess(
+        makePR(2, { reviewers: [makeReviewer('me', 0, true)] }),
+        PullRequestRole.Reviewer,
+        'me',
+        [],
+      );
+
+      expect(optional.reasons).toEqual([
+        { type: AttentionReasonType.NotVoted, message: 'You have not voted', weight: 25 },
+      ]);
+      expect(required.reasons[0].message).toBe('You have not voted and are a required reviewer');
+      expect(required.urgency).toBeGreaterThan(optional.urgency);
+    });
+
+    it('should not ask for a vote on drafts', () => {
+      const pr = makePR(1, { isDraft: true, reviewers: [makeReviewer('me', 0)] });
+
+      expect(service.assess(pr, PullRequestRole.Reviewer, 'me', []).reasons).toEqual([]);
+    });
+
+    it('should count pushes after my latest vote', () => {
+      const pr = makePR(1, { reviewers: [makeReviewer('me', PullRequestVote.WaitingForAuthor)] });
+      const threads = [
+        makeVoteThread(1, 'me', '2024-01-02T00:00:00Z'),
+        makeVoteThread(2, 'me', '2024-01-05T00:00:00Z'),
+        makeVoteThread(3, 'ann', '2024-01-09T00:00:00Z'),
+      ];
+      const iterations = [
+        makeIteration(1, '2024-01-01T00:00:00Z'),
+        makeIteration(2, '2024-01-04T00:00:00Z'),
+        makeIteration(3, '2024-01-06T00:00:00Z'),
+        makeIteration(4, '2024-01-07T00:00:00Z'),
+      ];
+
+      const item = service.assess(pr, PullRequestRole.Reviewer, 'me', threads, iterations);
+
+      expect(item.reasons).toEqual([
+        {
+          type: AttentionReasonType.PushedSinceVote,
+          message: '2 new pushes since you voted "Waiting for author"',
+          weight: 35,
+        },
+      ]);
+    });
+
+    it('should not report pushes when my vote cannot be found', () => {
+      const pr = makePR(1, { reviewers: [makeReviewer('me', PullRequestVote.Approved)] });
+
+      const item = service.assess(pr, PullRequestRole.Reviewer, 'me', [], [makeIteration(1, '2024-01-07T00:00:00Z')]);
+
+      expect(item.reasons).toEqual([]);
+    });
+
+    it('should report replies after my last comment in threads I started', () => {
+      const pr = makePR(1, { reviewers: [makeReviewer('me', PullRequestVote.Approved)] });
+      const threads = [
+        makeThread(7, [
+          ['me', '2024-01-01T00:00:00Z'],
+          ['bob', '2024-01-02T00:00:00Z'],
+        ]),
+        makeThread(8, [
+          ['me', '2024-01-01T00:00:00Z'],
+          ['bob', '2024-01-02T00:00:00Z'],
+          ['me', '2024-01-03T00:00:00Z'],
+        ]),
+        makeThread(9, [
+          ['ann', '2024-01-01T00:00:00Z'],
+          ['bob', '2024-01-02T00:00:00Z'],
+        ]),
+      ];
+
+      const item = service.assess(pr, PullRequestRole.Reviewer, 'me', threads);
+
+      expect(item.reasons.map((reason) => reason.message)).toEqual(['New replies in thread 7 you started']);
+    });
+  });
+
+  describe('assess as author', () => {
+    it('should report requested changes and threads awaiting my reply', () => {
+      const pr = makePR(1, {
+        createdBy: { id: 'me', displayName: 'Me', uniqueName: 'me' },
+        reviewers: [
+          makeReviewer('ann', PullRequestVote.WaitingForAuthor),
+          makeReviewer('bob', PullRequestVote.Approved),
+          makeReviewer('tom', PullRequestVote.Rejected),
+        ],
+      });
+      const threads = [
+        makeThread(1, [['ann', '2024-01-01T00:00:00Z']]),
+        makeThread(2, [
+          ['ann', '2024-01-01T00:00:00Z'],
+          ['me', '2024-01-02T00:00:00Z'],
+        ]),
+        makeThread(3, [['bob', '2024-01-01T00:00:00Z']], CommentThreadStatus.Fixed),
+        makeThread(4, [['tom', '2024-01-01T00:00:00Z']], CommentThreadStatus.Pending),
+      ];
+
+      const item = service.assess(pr, PullRequestRole.Author, 'me', threads);
+
+      expect(item.reasons.map((reason) => reason.message)).toEqual([
+        'Changes requested by ANN (waiting for author), TOM (rejected)',
+        '2 active threads awaiting your reply',
+      ]);
+      expect(item.urgency).toBe(55);
+    });
+  });
+
+  describe('rankItems', () => {
+    it('should sort by urgency, then oldest first', () => {
+      const item = (id: number, urgency: number, creationDate: string) => ({
+        pullRequest: makePR(id, { creationDate }),
+        role: PullRequestRole.Reviewer as const,
+        urgency,
+        reasons: [],
+      });
+
+      const ranked = service.rankItems([
+        item(1, 25, '2024-01-03T00:00:00Z'),
+        item(2, 40, '2024-01-02T00:00:00Z'),
+        item(3, 25, '2024-01-01T00:00:00Z'),
+      ]);
+
+      expect(ranked.map((entry) => entry.pullRequest.pullRequestId)).toEqual([2, 3, 1]);
+    });
+  });
+
+  describe('fetchInbox', () => {
+    it('should only list pull requests that are waiting on me, authored ones once', async () => {
+      const authored = makePR(1, {
+        createdBy: { id: 'me', displayName: 'Me', uniqueName: 'me' },
+        reviewers: [makeReviewer('me', 0), makeReviewer('ann', PullRequestVote.Rejected)],
+      });
+      const toReview = makePR(2, { reviewers: [makeReviewer('me', 0)] });
+      const reviewed = makePR(3, { reviewers: [makeReviewer('me', PullRequestVote.Approved)] });
+      fetchMyPRs.mockImplementation(async (options) =>
+        options.role === PullRequestRole.Author ? [authored] : [authored, toReview, reviewed],
+      );
+
+      const items = await service.fetchInbox({ limit: 50, output: 'table' as any });
+
+      expect(items.map((item) => [item.pullRequest.pullRequestId, item.role])).toEqual([
+        [1, PullRequestRole.Author],
+        [2, PullRequestRole.Reviewer],
+      ]);
+      expect(fetchIterations).toHaveBeenCalledTimes(1);
+      expect(mockApi.getAll).toHaveBeenCalledWith('git/repositories/repo-1/pullRequests/2/threads?api-version=7.0', 'Project');
+    });
+  });
+});
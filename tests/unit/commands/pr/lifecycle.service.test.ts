@@ -0,0 +1,141 @@
+import { jest } from '@jest/globals';
+import { LifecycleService, PullRequestNotReadyError } from '../../../../src/commands/pr/lifecycle/lifecycle.service.js';
+import {
+  MergeStrategy,
+  OutputFormat,
+  PullRequestVote,
+  type PullRequest,
+} from '../../../../src/types/pull-request.types.js';
+
+function makePR(overrides: Partial<PullRequest> = {}): PullRequest {
+  return {
+    pullRequestId: 42,
+    title: 'Add feature',
+    status: 'active',
+    creationDate: '2024-01-01T00:00:00Z',
+    createdBy: { id: 'u1', displayName: 'Jane', uniqueName: 'jane@example.com' },
+    reviewers: [],
+    repository: { id: 'repo-1', name: 'repo', project: { id: 'proj-1', name: 'Project' } },
+    sourceRefName: 'refs/heads/feature',
+    targetRefName: 'refs/heads/main',
+    mergeStatus: 'succeeded',
+    lastMergeSourceCommit: { commitId: 'abc123' },
+    ...overrides,
+  };
+}
+
+describe('LifecycleService', () => {
+  let mockApi: any;
+  let service: LifecycleService;
+  let fetchPRDetails: jest.Mock<(...args: any[]) => Promise<PullRequest | null>>;
+
+  const baseOptions = { yes: false, output: OutputFormat.Table };
+
+  beforeEach(() => {
+    mockApi = { patch: jest.fn<() => Promise<any>>().mockResolvedValue({ pullRequestId: 42 }) };
+    const mockIdentityService: any = {
+      getCurrentUser: jest.fn<() => Promise<any>>().mockResolvedValue({ id: 'me-1', displayName: 'Me' }),
+    };
+    fetchPRDetails = jest.fn();
+    service = new LifecycleService(mockApi, {} as any, {} as any, mockIdentityService, { fetchPRDetails } as any);
+  });
+
+  describe('findBlockers', () => {
+    it('should report an unsuccessful merge status', () => {
+      expect(service.findBlockers(makePR({ mergeStatus: 'conflicts' }))).toEqual(['merge status is conflicts']);
+    });
+
+    it('should report required reviewers without an approving vote', () => {
+      const pr = makePR({
+        reviewers: [
+          { id: 'r1', displayName: 'Bob', uniqueName: 'bob', vote: PullRequestVote.WaitingForAuthor, isRequired: true },
+          { id: 'r2', displayName: 'Ann', uniqueName: 'ann', vote: PullRequestVote.ApprovedWithSuggestions, isRequired: true },
+          { id: 'r3', displayName: 'Tom', uniqueName: 'tom', vote: PullRequestVote.NoVote },
+        ],
+      });
+
+      expect(service.findBlockers(pr)).toEqual(['required reviewer Bob has not approved']);
+    });
+  });
+
+  describe('complete', () => {
+    it('should PATCH the pull request with the completion options', async () => {
+      fetchPRDetails.mockResolvedValue(makePR());
+
+      await service.complete(42, {
+        ...baseOptions,
+        completionOptions: { mergeStrategy: MergeStrategy.Squash, deleteSourceBranch: true },
+      });
+
+      expect(mockApi.patch).toHaveBeenCalledWith(
+        'git/repositories/repo-1/pullrequests/42?api-version=7.0',
+        {
+          status: 'completed',
+          lastMergeSourceCommit: { commitId: 'abc123' },
+          completionOptions: { mergeStrategy: 'squash', deleteSourceBranch: true },
+        },
+        'Project'
+      );
+    });
+
+    it('should refuse when blockers exist and --yes is not given', async () => {
+      fetchPRDetails.mockResolvedValue(makePR({ mergeStatus: 'conflicts' }));
+
+      await expect(service.complete(42, { ...baseOptions, completionOptions: {} })).rejects.toBeInstanceOf(
+        PullRequestNotReadyError
+      );
+      expect(mockApi.patch).not.toHaveBeenCalled();
+    });
+
+    it('should proceed despite blockers with --yes', async () => {
+      fetchPRDetails.mockResolvedValue(makePR({ mergeStatus: 'conflicts' }));
+
+      await service.complete(42, { ...baseOptions, yes: true, completionOptions: {} });
+
+      expect(mockApi.patch).toHaveBeenCalled();
+    });
+  });
+
+  describe('reactivate', () => {
+    it('should refuse to reactivate a pull request that is not abandoned', async () => {
+      fetchPRDetails.mockResolvedValue(makePR());
+
+      await expect(service.reactivate(42, baseOptions)).rejects.toThrow('expected it to be abandoned');
+    });
+
+    it('should set the status back to active', async () => {
+      fetchPRDetails.mockResolvedValue(makePR({ status: 'abandoned' }));
+
+      await service.reactivate(42, { ...baseOptions, yes: true });
+
+      expect(mockApi.patch.mock.calls[0][1]).toEqual({ status: 'active' });
+    });
+  });
+
+  describe('setAutoComplete', () => {
+    it('should set auto-complete as the current user without requiring readiness', async () => {
+      fetchPRDetails.mockResolvedValue(makePR({ mergeStatus: 'queued' }));
+
+      await service.setAutoComplete(42, {
+        enabled: true,
+        completionOptions: { mergeStrategy: MergeStrategy.Rebase, transitionWorkItems: true },
+        output: OutputFormat.Table,
+      });
+
+      expect(mockApi.patch.mock.calls[0][1]).toEqual({
+        autoCompleteSetBy: { id: 'me-1' },
+        completionOptions: { mergeStrategy: 'rebase', transitionWorkItems: true },
+      });
+    });
+
+    it('should clear auto-complete with the empty identity when turned off', async () => {
+      fetchPRDetails.mockResolvedValue(makePR());
+
+      await service.setAutoComplete(42, { enabled: false, completionOptions: {}, output: OutputFormat.Table });
+
+      expect(mockApi.patch.mock.calls[0][1]).toEqual({
+        autoCompleteSetBy: { id: '00000000-0000-0000-0000-000000000000' },
+      });
+    });
+  });
+});
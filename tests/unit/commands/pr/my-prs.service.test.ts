@@ -0,0 +1,134 @@
+import { jest } from '@jest/globals';
+import { MyPRsService } from '../../../../src/commands/pr/my-prs/my-prs.service.js';
+import {
+  OutputFormat,
+  PullRequestRole,
+  PullRequestStatus,
+  type MyPRsOptions,
+  type PullRequest,
+} from '../../../../src/types/pull-request.types.js';
+
+async function* pagesOf<T>(items: T[]): AsyncGenerator<T> {
+  yield* items;
+}
+
+function makePR(id: number, reviewerIds: string[] = []): PullRequest {
+  return {
+    pullRequestId: id,
+    title: `PR ${id}`,
+    status: 'active',
+    creationDate: '2024-01-01T00:00:00Z',
+    createdBy: { id: 'bob', displayName: 'Bob', uniqueName: 'bob@example.com' },
+    reviewers: reviewerIds.map((id) => ({ id, displayName: id, uniqueName: id, vote: 0 })),
+    repository: { id: 'repo-1', name: 'repo', project: { id: 'proj-1', name: 'Project' } },
+    sourceRefName: 'refs/heads/feature',
+    targetRefName: 'refs/heads/main',
+  };
+}
+
+describe('MyPRsService', () => {
+  const options: MyPRsOptions = {
+    role: PullRequestRole.Author,
+    status: PullRequestStatus.Active,
+    limit: 20,
+    output: OutputFormat.Table,
+  };
+
+  let mockApi: any;
+  let mockCli: any;
+  let mockConfig: any;
+  let service: MyPRsService;
+
+  beforeEach(() => {
+    mockApi = { paginate: jest.fn(() => pagesOf([makePR(1)])) };
+    mockCli = { executeAzCommand: jest.fn<(command: string) => Promise<any>>() };
+    mockConfig = {
+      getDefaultProject: jest.fn<() => Promise<string | undefined>>().mockResolvedValue('Project'),
+      getDefaultRepository: jest.fn<() => Promise<string | undefined>>().mockResolvedValue(undefined),
+    };
+    const mockIdentity: any = {
+      getCurrentUser: jest.fn<() => Promise<any>>().mockResolvedValue({ id: 'me', displayName: 'Me' }),
+    };
+    service = new MyPRsService(mockApi, mockCli, mockConfig, mockIdentity);
+  });
+
+  it('should list pull requests I created through the REST API', async () => {
+    const prs = await service.fetchMyPRs(options);
+
+    expect(prs.map((pr) => pr.pullRequestId)).toEqual([1]);
+    expect(mockApi.paginate).toHaveBeenCalledWith(
+      'git/pullrequests?searchCriteria.status=active&searchCriteria.creatorId=me&api-version=7.0',
+      'Project',
+      20,
+    );
+    expect(mockCli.executeAzCommand).not.toHaveBeenCalled();
+  });
+
+  it('should let the server filter by reviewer within a repository and project', async () => {
+    await service.fetchMyPRs({
+      ...options,
+      role: PullRequestRole.Reviewer,
+      status: PullRequestStatus.All,
+      project: 'Other',
+      repo: 'my repo',
+    });
+
+    expect(mockApi.paginate).toHaveBeenCalledWith(
+      'git/repositories/my%20repo/pullrequests?searchCriteria.status=all&searchCriteria.reviewerId=me&api-version=7.0',
+      'Other',
+      20,
+    );
+    expect(mockConfig.getDefaultProject).not.toHaveBeenCalled();
+  });
+
+  it('should stop reading pages at the limit, and read them all without one', async () => {
+    const prs = [makePR(1), makePR(2), makePR(3)];
+    mockApi.paginate.mockImplementation(() => pagesOf(prs));
+
+    const limited = await service.fetchMyPRs({ ...options, limit: 2 });
+    const all = await service.fetchMyPRs({ ...options, limit: undefined });
+
+    expect(limited.map((pr) => pr.pullRequestId)).toEqual([1, 2]);
+    expect(all.map((pr) => pr.pullRequestId)).toEqual([1, 2, 3]);
+    expect(mockApi.paginate).toHaveBeenLastCalledWith(expect.any(String), 'Project', 100);
+  });
+
+  it('should scope itself to the configured repository unless another repository or project is given', async () => {
+    mockConfig.getDefaultRepository.mockResolvedValue('web-app');
+
+    expect(await service.withDefaultScope(options)).toEqual({ ...options, project: 'Project', repo: 'web-app' });
+    expect(await service.withDefaultScope({ ...options, repo: 'api' })).toEqual({ ...options, repo: 'api' });
+    expect(await service.withDefaultScope({ ...options, project: 'Other' })).toEqual({ ...options, project: 'Other' });
+  });
+
+  it('should fall back to the Azure CLI when the REST API fails', async () => {
+    mockApi.paginate.mockImplementation(async function* () {
+      throw new Error('API request failed: 401 Unauthorized');
+    });
+    mockCli.executeAzCommand.mockImplementation(async (command: string) =>
+      command.startsWith('az ad signed-in-user') ? 'me' : [makePR(2, ['me']), makePR(3, ['ann'])],
+    );
+
+    const created = await service.fetchMyPRs(options);
+    const reviewing = await service.fetchMyPRs({ ...options, role: PullRequestRole.Reviewer });
+
+    expect(created.map((pr) => pr.pullRequestId)).toEqual([2, 3]);
+    expect(reviewing.map((pr) => pr.pullRequestId)).toEqual([2]);
+    expect(mockCli.executeAzCommand).toHaveBeenCalledWith(
+      'az repos pr list --creator @me --status active --top 20 --output json',
+    );
+  });
+
+  it('should report the REST error when the fallback fails too', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    mockApi.paginate.mockImplementation(async function* () {
+      throw new Error('API request failed: 401 Unauthorized');
+    });
+    mockCli.executeAzCommand.mockRejectedValue(new Error('Azure CLI is not installed'));
+
+    await expect(service.fetchMyPRs(options)).resolves.toEqual([]);
+    expect(consoleError).toHaveBeenCalledWith('Failed to fetch created PRs:', 'API request failed: 401 Unauthorized');
+
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,105 @@
+import { jest } from '@jest/globals';
+import { ReplyService } from '../../../../src/commands/pr/reply/reply.service.js';
+import {
+  CommentThreadStatus,
+  CommentType,
+  type Comment,
+  type CommentThread,
+} from '../../../../src/types/comment.types.js';
+
+function makeComment(id: number, overrides: Partial<Comment> = {}): Comment {
+  return {
+    id,
+    content: `comment ${id}`,
+    author: { id: 'u1', displayName: 'Jane Doe' },
+    publishedDate: '2024-01-01T00:00:00Z',
+    commentType: CommentType.Text,
+    ...overrides,
+  };
+}
+
+function makeThread(comments: Comment[]): CommentThread {
+  return {
+    id: 7,
+    status: CommentThreadStatus.Active,
+    isDeleted: false,
+    publishedDate: '2024-01-01T00:00:00Z',
+    comments,
+  };
+}
+
+describe('ReplyService', () => {
+  const options = { project: 'Web', repo: 'web-app' } as any;
+  let mockApi: any;
+  let service: ReplyService;
+
+  beforeEach(() => {
+    mockApi = { get: jest.fn(), post: jest.fn() };
+    service = new ReplyService(mockApi, {} as any, {} as any);
+    mockApi.post.mockResolvedValue(makeComment(9));
+  });
+
+  describe('replyToThread', () => {
+    it('should reply to the root comment of the thread', async () => {
+      mockApi.get.mockResolvedValue(
+        makeThread([makeComment(2, { parentCommentId: 1 }), makeComment(1, { parentCommentId: 0 })])
+      );
+
+      await service.replyToThread(42, 7, 'Done', options);
+
+      expect(mockApi.get).toHaveBeenCalledWith(
+        'git/repositories/web-app/pullRequests/42/threads/7?api-version=7.0',
+        'Web'
+      );
+      expect(mockApi.post).toHaveBeenCalledWith(
+        'git/repositories/web-app/pullRequests/42/threads/7/comments?api-version=7.0',
+        { content: 'Done', parentCommentId: 1, commentType: CommentType.Text },
+        'Web'
+      );
+    });
+
+    it('should skip a deleted root comment', async () => {
+      mockApi.get.mockResolvedValue(
+        makeThread([makeComment(1, { isDeleted: true }), makeComment(2, { parentCommentId: 1 })])
+      );
+
+      await service.replyToThread(42, 7, 'Done', options);
+
+      expect(mockApi.post.mock.calls[0][1]).toMatchObject({ parentCommentId: 2 });
+    });
+
+    it('should reply to the requested comment', async () => {
+      mockApi.get.mockResolvedValue(makeThread([makeComment(1), makeComment(2, { parentCommentId: 1 })]));
+
+      await service.replyToThread(42, 7, 'Done', { ...options, parentCommentId: 2 });
+
+      expect(mockApi.post.mock.calls[0][1]).toMatchObject({ parentCommentId: 2 });
+    });
+
+    it('should reject a requested comment that is not in the thread', async () => {
+      mockApi.get.mockResolvedValue(makeThread([makeComment(1)]));
+
+      await expect(service.replyToThread(42, 7, 'Done', { ...options, parentCommentId: 5 })).rejects.toThrow(
+        'Comment 5 not found in thread 7'
+      );
+      expect(mockApi.post).not.toHaveBeenCalled();
+    });
+
+    it('should reject a thread without comments', async () => {
+      mockApi.get.mockResolvedValue(makeThread([makeComment(1, { isDeleted: true })]));
+
+      await expect(service.replyToThread(42, 7, 'Done', options)).rejects.toThrow(
+        'Thread 7 has no comments to reply to'
+      );
+    });
+
+    it('should report a missing thread', async () => {
+      mockApi.get.mockRejectedValue(new Error('404 Not Found'));
+
+      await expect(service.replyToThread(42, 7, 'Done', options)).rejects.toThrow(
+        'Failed to fetch thread 7: 404 Not Found'
+      );
+      expect(mockApi.post).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { jest } from '@jest/globals';
+import { ReviewersService } from '../../../../src/commands/pr/reviewers/reviewers.service.js';
+import { OutputFormat, PullRequestVote, type Reviewer } from '../../../../src/types/pull-request.types.js';
+
+const location = { project: 'Project', repositoryId: 'repo-1' };
+const reviewerPath = (id: string) =>
+  `git/repositories/repo-1/pullRequests/42/reviewers/${id}?api-version=7.0`;
+
+describe('ReviewersService', () => {
+  let mockApi: any;
+  let mockIdentityService: any;
+  let service: ReviewersService;
+  let reviewers: Reviewer[];
+
+  const options = { output: OutputFormat.Table };
+
+  beforeEach(() => {
+    reviewers = [
+      { id: 'r1', displayName: 'Bob Smith', uniqueName: 'bob@example.com', vote: PullRequestVote.Approved },
+      { id: 'r2', displayName: '[Project]\\Team', uniqueName: 'team', vote: PullRequestVote.NoVote, isRequired: true },
+    ];
+
+    mockApi = {
+      get: jest.fn<() => Promise<any>>().mockImplementation(async () => ({ value: reviewers })),
+      put: jest.fn<() => Promise<any>>().mockResolvedValue({}),
+      delete: jest.fn<() => Promise<any>>().mockResolvedValue(undefined),
+    };
+    mockIdentityService = {
+      resolveIdentity: jest.fn<() => Promise<any>>().mockResolvedValue({ id: 'new-1', displayName: 'Ann Lee' }),
+    };
+
+    const mockCommentsService: any = {
+      resolvePullRequestLocation: jest.fn<() => Promise<any>>().mockResolvedValue(location),
+    };
+    service = new ReviewersService(mockApi, {} as any, {} as any, mockIdentityService, mockCommentsService);
+  });
+
+  describe('addReviewers', () => {
+    it('should resolve and add a new reviewer as optional by default', async () => {
+      await service.addReviewers(42, ['ann@example.com'], options);
+
+      expect(mockIdentityService.resolveIdentity).toHaveBeenCalledWith('ann@example.com');
+      expect(mockApi.put).toHaveBeenCalledWith(
+        reviewerPath('new-1'),
+        { vote: PullRequestVote.NoVote, isRequired: false },
+        'Project'
+      );
+    });
+
+    it('should add a new reviewer as required with --required', async () => {
+      await service.addReviewers(42, ['ann@example.com'], { ...options, required: true });
+
+      expect(mockApi.put).toHaveBeenCalledWith(
+        reviewerPath('new-1'),
+        { vote: PullRequestVote.NoVote, isRequired: true },
+        'Project'
+      );
+    });
+
+    it('should leave an existing reviewer untouched when no toggle is given', async () => {
+      await service.addReviewers(42, ['bob@example.com'], options);
+
+      expect(mockIdentityService.resolveIdentity).not.toHaveBeenCalled();
+      expect(mockApi.put).not.toHaveBeenCalled();
+    });
+
+    it('should keep the existing vote when making a reviewer required', async () => {
+      await service.addReviewers(42, ['Bob Smith'], { ...options, required: true });
+
+      expect(mockApi.put).toHaveBeenCalledWith(
+        reviewerPath('r1'),
+        { vote: PullRequestVote.Approved, isRequired: true },
+        'Project'
+      );
+    });
+
+    it('should make a required group optional', async () => {
+      await service.addReviewers(42, ['[project]\\team'], { ...options, required: false });
+
+      expect(mockApi.put).toHaveBeenCalledWith(
+        reviewerPath('r2'),
+        { vote: PullRequestVote.NoVote, isRequired: false },
+        'Project'
+      );
+    });
+
+    it('should return the refreshed reviewer list', async () => {
+      const result = await service.addReviewers(42, ['ann@example.com'], options);
+
+      expect(result).toBe(reviewers);
+    });
+  });
+
+  describe('removeReviewers', () => {
+    it('should delete matching reviewers', async () => {
+      await service.removeReviewers(42, ['bob@example.com', 'r2'], options);
+
+      expect(mockApi.delete).toHaveBeenCalledWith(reviewerPath('r1'), 'Project');
+      expect(mockApi.delete).toHaveBeenCalledWith(reviewerPath('r2'), 'Project');
+    });
+
+    it('should refuse to remove someone who is not a reviewer', async () => {
+      await expect(service.removeReviewers(42, ['bob@example.com', 'ann@example.com'], options)).rejects.toThrow(
+        '"ann@example.com" is not a reviewer on pull request 42'
+      );
+      expect(mockApi.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listReviewers', () => {
+    it('should fetch reviewers at the resolved location', async () => {
+      await expect(service.listReviewers(42, options)).resolves.toBe(reviewers);
+      expect(mockApi.get).toHaveBeenCalledWith(
+        'git/repositories/repo-1/pullRequests/42/reviewers?api-version=7.0',
+        'Project'
+      );
+    });
+  });
+});
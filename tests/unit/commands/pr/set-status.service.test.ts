@@ -0,0 +1,137 @@
+import { jest } from '@jest/globals';
+import { SetStatusService } from '../../../../src/commands/pr/thread/set-status/set-status.service.js';
+import { CommentThreadStatus, CommentType, type CommentThread } from '../../../../src/types/comment.types.js';
+
+function makeThread(id: number, overrides: Partial<CommentThread> = {}, author = 'Jane Doe', commentType = CommentType.Text): CommentThread {
+  return {
+    id,
+    publishedDate: '2024-01-01T00:00:00Z',
+    status: CommentThreadStatus.Active,
+    comments: [
+      {
+        id: 1,
+        content: 'Please fix',
+        author: { id: `id-${author}`, displayName: author, uniqueName: `${author.split(' ')[0].toLowerCase()}@example.com` },
+        publishedDate: '2024-01-01T00:00:00Z',
+        commentType,
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe('SetStatusService', () => {
+  let service: SetStatusService;
+  let mockApi: any;
+
+  beforeEach(() => {
+    mockApi = { get: jest.fn(), getAll: jest.fn(), patch: jest.fn() };
+    service = new SetStatusService(mockApi, {} as any, {} as any);
+  });
+
+  describe('filterThreads', () => {
+    const threads = [
+      makeThread(1, { threadContext: { filePath: '/src/app.ts' } }),
+      makeThread(2, { threadContext: { filePath: '/src/lib/util.ts' } }, 'John Smith'),
+      makeThread(3, {}, 'Jane Doe'),
+      makeThread(4, {}, 'Build Bot', CommentType.System),
+      makeThread(5, { isDeleted: true, threadContext: { filePath: '/src/app.ts' } }),
+    ];
+
+    it('should match threads on a file regardless of leading slash', () => {
+      const ids = service.filterThreads(threads, { file: 'src/app.ts' }).map((t) => t.id);
+      expect(ids).toEqual([1]);
+    });
+
+    it('should match every thread under a directory', () => {
+      const ids = service.filterThreads(threads, { file: './src/' }).map((t) => t.id);
+      expect(ids).toEqual([1, 2]);
+    });
+
+    it('should match the thread author by display name or email, case-insensitively', () => {
+      expect(service.filterThreads(threads, { allBy: 'jane doe' }).map((t) => t.id)).toEqual([1, 3]);
+      expect(service.filterThreads(threads, { allBy: 'john@example.com' }).map((t) => t.id)).toEqual([2]);
+    });
+
+    it('should combine author and file filters', () => {
+      const ids = service.filterThreads(threads, { allBy: 'Jane Doe', file: '/src' }).map((t) => t.id);
+      expect(ids).toEqual([1]);
+    });
+
+    it('should never select system threads', () => {
+      const ids = service.filterThreads(threads, { allBy: 'Build Bot' }).map((t) => t.id);
+      expect(ids).toEqual([]);
+    });
+  });
+
+  describe('setThreadStatus', () => {
+    const options = { output: 'table', dryRun: false, project: 'Web', repo: 'web-app' } as any;
+
+    it('should patch the thread and report the change', async () => {
+      mockApi.get.mockResolvedValue(makeThread(7));
+      mockApi.patch.mockResolvedValue({});
+
+      const change = await service.setThreadStatus(42, 7, CommentThreadStatus.Fixed, options);
+
+      expect(mockApi.patch).toHaveBeenCalledWith(
+        'git/repositories/web-app/pullRequests/42/threads/7?api-version=7.0',
+        { status: CommentThreadStatus.Fixed },
+        'Web'
+      );
+      expect(change).toMatchObject({ threadId: 7, previousStatus: 'active', status: 'fixed', applied: true });
+    });
+
+    it('should skip a thread that already has the status', async () => {
+      mockApi.get.mockResolvedValue(makeThread(7, { status: CommentThreadStatus.Fixed }));
+
+      const change = await service.setThreadStatus(42, 7, CommentThreadStatus.Fixed, options);
+
+      expect(mockApi.patch).not.toHaveBeenCalled();
+      expect(change.applied).toBe(false);
+    });
+
+    it('should throw when the update fails', async () => {
+      mockApi.get.mockResolvedValue(makeThread(7));
+      mockApi.patch.mockRejectedValue(new Error('403 Forbidden'));
+
+      await expect(service.setThreadStatus(42, 7, CommentThreadStatus.Fixed, options)).rejects.toThrow(
+        'Failed to update thread 7: 403 Forbidden'
+      );
+    });
+  });
+
+  describe('setStatusForMatchingThreads', () => {
+    const options = { output: 'table', dryRun: false, allBy: 'Jane Doe', project: 'Web', repo: 'web-app' } as any;
+
+    beforeEach(() => {
+      mockApi.getAll.mockResolvedValue([makeThread(1), makeThread(2), makeThread(3, {}, 'John Smith'), makeThread(4)]);
+    });
+
+    it('should only report what would change in a dry run', async () => {
+      const changes = await service.setStatusForMatchingThreads(42, CommentThreadStatus.Closed, {
+        ...options,
+        dryRun: true,
+      });
+
+      expect(changes.map((change) => change.threadId)).toEqual([1, 2, 4]);
+      expect(changes.every((change) => !change.applied)).toBe(true);
+      expect(mockApi.patch).not.toHaveBeenCalled();
+    });
+
+    it('should record a failed update and carry on with the other threads', async () => {
+      mockApi.patch
+        .mockResolvedValueOnce({})
+        .mockRejectedValueOnce(new Error('409 Conflict'))
+        .mockResolvedValueOnce({});
+
+      const changes = await service.setStatusForMatchingThreads(42, CommentThreadStatus.Closed, options);
+
+      expect(mockApi.patch).toHaveBeenCalledTimes(3);
+      expect(changes).toEqual([
+        expect.objectContaining({ threadId: 1, applied: true }),
+        expect.objectContaining({ threadId: 2, applied: false, error: '409 Conflict' }),
+        expect.objectContaining({ threadId: 4, applied: true }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { jest } from '@jest/globals';
+import { ShowService } from '../../../../src/commands/pr/show/show.service.js';
+import { CommentThreadStatus, CommentType, type CommentThread } from '../../../../src/types/comment.types.js';
+
+function makeThread(id: number, status: CommentThreadStatus, commentType = CommentType.Text, isDeleted = false): CommentThread {
+  return {
+    id,
+    status,
+    isDeleted,
+    publishedDate: '2024-01-01T00:00:00Z',
+    comments: [
+      {
+        id: 1,
+        content: 'text',
+        author: { id: 'u1', displayName: 'Jane' },
+        publishedDate: '2024-01-01T00:00:00Z',
+        commentType,
+      },
+    ],
+  };
+}
+
+describe('ShowService', () => {
+  let mockApi: any;
+  let service: ShowService;
+
+  beforeEach(() => {
+    mockApi = { get: jest.fn(), getAll: jest.fn() };
+    service = new ShowService(mockApi, {} as any, {} as any);
+  });
+
+  describe('countThreads', () => {
+    it('should count active and pending threads as unresolved', () => {
+      const counts = service.countThreads([
+        makeThread(1, CommentThreadStatus.Active),
+        makeThread(2, CommentThreadStatus.Pending),
+        makeThread(3, CommentThreadStatus.Fixed),
+        makeThread(4, CommentThreadStatus.WontFix),
+        makeThread(5, CommentThreadStatus.Closed),
+      ]);
+
+      expect(counts).toEqual({ active: 2, resolved: 3 });
+    });
+
+    it('should ignore deleted and system threads', () => {
+      const counts = service.countThreads([
+        makeThread(1, CommentThreadStatus.Active),
+        makeThread(2, CommentThreadStatus.Active, CommentType.System),
+        makeThread(3, CommentThreadStatus.Fixed, CommentType.Text, true),
+      ]);
+
+      expect(counts).toEqual({ active: 1, resolved: 0 });
+    });
+  });
+
+  describe('fetchDetails', () => {
+    const pullRequest = {
+      pullRequestId: 42,
+      repository: { id: 'repo-1', name: 'web-app', project: { id: 'project-1', name: 'Web' } },
+    };
+
+    beforeEach(() => {
+      mockApi.get.mockImplementation(async (url: string) => {
+        if (url.startsWith('git/pullrequests/42')) {
+          return pullRequest;
+        }
+        if (url.includes('/workitems')) {
+          return { value: [] };
+        }
+        throw new Error('403 Forbidden');
+      });
+      mockApi.getAll.mockResolvedValue([makeThread(1, CommentThreadStatus.Active)]);
+    });
+
+    it('should still show the pull request when the policy status cannot be read', async () => {
+      const details = await service.fetchDetails(42, { output: 'table' } as any);
+
+      expect(details.pullRequest).toBe(pullRequest);
+      expect(details.policies).toEqual([]);
+      expect(details.policyError).toBe('403 Forbidden');
+      expect(details.threads).toEqual({ active: 1, resolved: 0 });
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { jest } from '@jest/globals';
+import { VOTE_CHOICES, VoteService } from '../../../../src/commands/pr/vote/vote.service.js';
+import { OutputFormat, PullRequestVote, type Reviewer } from '../../../../src/types/pull-request.types.js';
+
+const reviewerPath = 'git/repositories/web-app/pullRequests/42/reviewers/me-1?api-version=7.0';
+
+describe('VoteService', () => {
+  const options = { output: OutputFormat.Table, project: 'Web', repo: 'web-app' };
+  let mockApi: any;
+  let mockIdentityService: any;
+  let service: VoteService;
+  let reviewers: Reviewer[];
+
+  beforeEach(() => {
+    reviewers = [
+      { id: 'me-1', displayName: 'Jane Doe', uniqueName: 'jane@example.com', vote: PullRequestVote.NoVote },
+      { id: 'r2', displayName: 'Bob Smith', uniqueName: 'bob@example.com', vote: PullRequestVote.Approved },
+    ];
+
+    mockApi = {
+      get: jest.fn<() => Promise<any>>().mockImplementation(async () => ({ value: reviewers })),
+      put: jest.fn<() => Promise<any>>().mockResolvedValue({}),
+    };
+    mockIdentityService = {
+      getCurrentUser: jest.fn<() => Promise<any>>().mockResolvedValue({ id: 'me-1', displayName: 'Jane Doe' }),
+    };
+
+    service = new VoteService(mockApi, {} as any, {} as any, mockIdentityService);
+  });
+
+  describe('castVote', () => {
+    it.each([
+      ['approve', PullRequestVote.Approved],
+      ['suggest', PullRequestVote.ApprovedWithSuggestions],
+      ['wait', PullRequestVote.WaitingForAuthor],
+      ['reject', PullRequestVote.Rejected],
+      ['reset', PullRequestVote.NoVote],
+    ])('should send the vote value for --vote %s', async (choice, value) => {
+      await service.castVote(42, VOTE_CHOICES[choice], options);
+
+      expect(mockApi.put).toHaveBeenCalledWith(reviewerPath, { vote: value, isRequired: false }, 'Web');
+    });
+
+    it('should keep a required reviewer required', async () => {
+      reviewers[0].isRequired = true;
+
+      await service.castVote(42, PullRequestVote.Approved, options);
+
+      expect(mockApi.put).toHaveBeenCalledWith(
+        reviewerPath,
+        { vote: PullRequestVote.Approved, isRequired: true },
+        'Web'
+      );
+    });
+
+    it('should add the current user as an optional reviewer when not yet reviewing', async () => {
+      reviewers.shift();
+
+      await service.castVote(42, PullRequestVote.WaitingForAuthor, options);
+
+      expect(mockApi.put).toHaveBeenCalledWith(
+        reviewerPath,
+        { vote: PullRequestVote.WaitingForAuthor, isRequired: false },
+        'Web'
+      );
+    });
+
+    it('should return the reviewers as they are after the vote', async () => {
+      mockApi.put.mockImplementation(async () => {
+        reviewers = [{ ...reviewers[0], vote: PullRequestVote.Rejected }];
+      });
+
+      const result = await service.castVote(42, PullRequestVote.Rejected, options);
+
+      expect(result).toEqual([expect.objectContaining({ id: 'me-1', vote: PullRequestVote.Rejected })]);
+    });
+
+    it('should report a rejected update', async () => {
+      mockApi.put.mockRejectedValue(new Error('403 Forbidden'));
+
+      await expect(service.castVote(42, PullRequestVote.Approved, options)).rejects.toThrow(
+        'Failed to cast vote: Failed to update reviewer Jane Doe: 403 Forbidden'
+      );
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { detectChanges, detectClosed, snapshotPullRequest } from '../../../../src/commands/pr/watch/watch.events.js';
+import { CommentThreadStatus, CommentType, type CommentThread } from '../../../../src/types/comment.types.js';
+import {
+  PullRequestVote,
+  WatchEventType,
+  type PullRequest,
+  type Reviewer,
+} from '../../../../src/types/pull-request.types.js';
+
+function makePR(overrides: Partial<PullRequest> = {}): PullRequest {
+  return {
+    pullRequestId: 42,
+    title: 'Add feature',
+    status: 'active',
+    creationDate: '2024-01-01T00:00:00Z',
+    createdBy: { id: 'me', displayName: 'Me', uniqueName: 'me@example.com' },
+    reviewers: [],
+    repository: { id: 'repo-1', name: 'repo', project: { id: 'proj-1', name: 'Project' } },
+    sourceRefName: 'refs/heads/feature',
+    targetRefName: 'refs/heads/main',
+    mergeStatus: 'succeeded',
+    ...overrides,
+  };
+}
+
+function makeReviewer(id: string, vote: PullRequestVote): Reviewer {
+  return { id, displayName: id.toUpperCase(), uniqueName: `${id}@example.com`, vote };
+}
+
+function makeThread(id: number, comments: [number, string][], status = CommentThreadStatus.Active): CommentThread {
+  return {
+    id,
+    publishedDate: '2024-01-02T00:00:00Z',
+    status,
+    comments: comments.map(([commentId, authorId], index) => ({
+      id: commentId,
+      parentCommentId: index === 0 ? 0 : 1,
+      content: `Comment ${commentId}\nsecond line`,
+      author: { id: authorId, displayName: authorId.toUpperCase() },
+      publishedDate: '2024-01-02T00:00:00Z',
+      commentType: CommentType.Text,
+    })),
+  };
+}
+
+describe('watch events', () => {
+  it('should report a pull request seen for the first time unless I created it', () => {
+    const theirs = makePR({ createdBy: { id: 'bob', displayName: 'Bob', uniqueName: 'bob' } });
+
+    expect(detectChanges(undefined, theirs, [], 'me')).toEqual([
+      expect.objectContaining({ type: WatchEventType.PullRequestAdded, author: 'Bob', message: 'Bob opened "Add feature"' }),
+    ]);
+    expect(detectChanges(undefined, makePR(), [], 'me')).toEqual([]);
+  });
+
+  it('should report nothing when nothing changed', () => {
+    const pr = makePR({ reviewers: [makeReviewer('bob', PullRequestVote.Approved)] });
+    const threads = [makeThread(1, [[1, 'bob']])];
+
+    expect(detectChanges(snapshotPullRequest(pr, threads), pr, threads, 'me')).toEqual([]);
+  });
+
+  it('should report new comments from others, but not my own', () => {
+    const before = snapshotPullRequest(makePR(), [makeThread(1, [[1, 'bob']])]);
+    const threads = [
+      makeThread(1, [
+        [1, 'bob'],
+        [2, 'ann'],
+        [3, 'me'],
+      ]),
+      { ...makeThread(2, [[1, 'ann']]), threadContext: { filePath: '/src/app.ts' } },
+    ];
+
+    const events = detectChanges(before, makePR(), threads, 'me');
+
+    expect(events.map((event) => event.message)).toEqual([
+      'ANN replied in thread 1: "Comment 2"',
+      'ANN started a thread on /src/app.ts: "Comment 1"',
+    ]);
+    expect(events[0]).toMatchObject({ type: WatchEventType.CommentAdded, threadId: 1, commentId: 2, author: 'ANN' });
+  });
+
+  it('should ignore system threads', () => {
+    const before = snapshotPullRequest(makePR(), []);
+    const system = makeThread(5, [[1, 'bob']]);
+    system.comments[0].commentType = CommentType.System;
+
+    expect(detectChanges(before, makePR(), [system], 'me')).toEqual([]);
+  });
+
+  it('should report resolved and reopened threads', () => {
+    const before = snapshotPullRequest(makePR(), [
+      makeThread(1, [[1, 'bob']]),
+      makeThread(2, [[1, 'bob']], CommentThreadStatus.Fixed),
+      makeThread(3, [[1, 'bob']], CommentThreadStatus.Fixed),
+    ]);
+    const threads = [
+      makeThread(1, [[1, 'bob']], CommentThreadStatus.WontFix),
+      makeThread(2, [[1, 'bob']], CommentThreadStatus.Active),
+      makeThread(3, [[1, 'bob']], CommentThreadStatus.Closed),
+    ];
+
+    const events = detectChanges(before, makePR(), threads, 'me');
+
+    expect(events.map((event) => [event.type, event.message])).toEqual([
+      [WatchEventType.ThreadResolved, 'Thread 1 was resolved (wontFix)'],
+      [WatchEventType.ThreadReopened, 'Thread 2 was reopened'],
+    ]);
+  });
+
+  it('should report vote changes by others', () => {
+    const before = snapshotPullRequest(
+      makePR({ reviewers: [makeReviewer('bob', PullRequestVote.WaitingForAuthor), makeReviewer('me', 0)] }),
+      [],
+    );
+    const pr = makePR({
+      reviewers: [
+        makeReviewer('bob', PullRequestVote.NoVote),
+        makeReviewer('ann', PullRequestVote.Approved),
+        makeReviewer('me', PullRequestVote.Approved),
+      ],
+    });
+
+    const events = detectChanges(before, pr, [], 'me');
+
+    expect(events.map((event) => event.message)).toEqual(['BOB reset their vote', 'ANN voted "Approved"']);
+    expect(events[1]).toMatchObject({ type: WatchEventType.VoteChanged, vote: PullRequestVote.Approved });
+  });
+
+  it('should report new merge conflicts once', () => {
+    const conflicted = makePR({ mergeStatus: 'conflicts' });
+
+    expect(detectChanges(snapshotPullRequest(makePR(), []), conflicted, [], 'me')).toEqual([
+      expect.objectContaining({ type: WatchEventType.MergeConflict }),
+    ]);
+    expect(detectChanges(snapshotPullRequest(conflicted, []), conflicted, [], 'me')).toEqual([]);
+  });
+
+  it('should report completed and abandoned pull requests', () => {
+    const before = snapshotPullRequest(makePR(), []);
+
+    expect(detectClosed(before, makePR({ status: 'completed' }))?.type).toBe(WatchEventType.PullRequestCompleted);
+    expect(detectClosed(before, makePR({ status: 'abandoned' }))?.type).toBe(WatchEventType.PullRequestAbandoned);
+    expect(detectClosed(before, makePR())).toBeUndefined();
+  });
+});
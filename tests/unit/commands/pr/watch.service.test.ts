@@ -0,0 +1,127 @@
+import { jest } from '@jest/globals';
+import { CommentsService } from '../../../../src/commands/pr/comments/comments.service.js';
+import { WatchService } from '../../../../src/commands/pr/watch/watch.service.js';
+import {
+  OutputFormat,
+  WatchEventType,
+  type PullRequest,
+  type WatchSnapshot,
+} from '../../../../src/types/pull-request.types.js';
+
+function makePR(id: number, overrides: Partial<PullRequest> = {}): PullRequest {
+  return {
+    pullRequestId: id,
+    title: `PR ${id}`,
+    status: 'active',
+    creationDate: '2024-01-01T00:00:00Z',
+    createdBy: { id: 'me', displayName: 'Me', uniqueName: 'me@example.com' },
+    reviewers: [],
+    repository: { id: 'repo-1', name: 'repo', project: { id: 'proj-1', name: 'Project' } },
+    sourceRefName: 'refs/heads/feature',
+    targetRefName: 'refs/heads/main',
+    ...overrides,
+  };
+}
+
+class MemoryStore {
+  filePath = '/tmp/watch-snapshots.json';
+  saved: Record<string, WatchSnapshot> = {};
+
+  load(scope: string): WatchSnapshot | undefined {
+    return this.saved[scope];
+  }
+
+  save(scope: string, snapshot: WatchSnapshot): void {
+    this.saved[scope] = snapshot;
+  }
+}
+
+describe('WatchService', () => {
+  const options = { top: 50, interval: 60, once: true, notify: false, output: OutputFormat.Table, repo: 'repo' };
+  const scope = 'https://dev.azure.com/org||repo';
+
+  let mockApi: any;
+  let store: MemoryStore;
+  let service: WatchService;
+  let fetchMyPRs: jest.Mock<(...args: any[]) => Promise<PullRequest[]>>;
+  let fetchPRDetails: jest.Mock<(...args: any[]) => Promise<PullRequest | null>>;
+
+  beforeEach(() => {
+    mockApi = { getAll: jest.fn<() => Promise<any>>().mockResolvedValue([]) };
+    const mockConfig: any = {
+      getOrganizationUrl: jest.fn<() => Promise<string>>().mockResolvedValue('https://dev.azure.com/org'),
+    };
+    const mockIdentity: any = {
+      getCurrentUser: jest.fn<() => Promise<any>>().mockResolvedValue({ id: 'me', displayName: 'Me' }),
+    };
+    store = new MemoryStore();
+    fetchMyPRs = jest.fn<(...args: any[]) => Promise<PullRequest[]>>();
+    fetchPRDetails = jest.fn<(...args: any[]) => Promise<PullRequest | null>>();
+    const commentsService = new CommentsService(mockApi, {} as any, mockConfig);
+    commentsService.fetchPRDetails = fetchPRDetails;
+
+    service = new WatchService(
+      mockApi,
+      {} as any,
+      mockConfig,
+      store as any,
+      mockIdentity,
+      { fetchMyPRs } as any,
+      commentsService,
+    );
+  });
+
+  it('should only record a baseline on the first poll', async () => {
+    fetchMyPRs.mockResolvedValue([makePR(1), makePR(2)]);
+
+    const result = await service.poll(options);
+
+    expect(result).toEqual({ events: [], baseline: true, watched: 2 });
+    expect(Object.keys(store.saved[scope].pullRequests)).toEqual(['1', '2']);
+    expect(mockApi.getAll).toHaveBeenCalledWith('git/repositories/repo-1/pullRequests/1/threads?api-version=7.0', 'Project');
+  });
+
+  it('should report changes against the stored snapshot', async () => {
+    fetchMyPRs.mockResolvedValue([makePR(1)]);
+    await service.poll(options);
+
+    fetchMyPRs.mockResolvedValue([makePR(1, { mergeStatus: 'conflicts' })]);
+    const result = await service.poll(options);
+
+    expect(result.baseline).toBe(false);
+    expect(result.events.map((event) => event.type)).toEqual([WatchEventType.MergeConflict]);
+  });
+
+  it('should report pull requests that were completed and forget them', async () => {
+    fetchMyPRs.mockResolvedValue([makePR(1), makePR(2)]);
+    await service.poll(options);
+
+    fetchMyPRs.mockResolvedValue([makePR(2)]);
+    fetchPRDetails.mockResolvedValue(makePR(1, { status: 'completed' }));
+    const result = await service.poll(options);
+
+    expect(fetchPRDetails).toHaveBeenCalledWith(1, 'Project');
+    expect(result.events).toEqual([expect.objectContaining({ type: WatchEventType.PullRequestCompleted, pullRequestId: 1 })]);
+    expect(Object.keys(store.saved[scope].pullRequests)).toEqual(['2']);
+  });
+
+  it('should keep pull requests that left the list but are still open', async () => {
+    fetchMyPRs.mockResolvedValue([makePR(1)]);
+    await service.poll(options);
+
+    fetchMyPRs.mockResolvedValue([]);
+    fetchPRDetails.mockResolvedValue(null);
+    const result = await service.poll(options);
+
+    expect(result.events).toEqual([]);
+    expect(Object.keys(store.saved[scope].pullRequests)).toEqual(['1']);
+  });
+
+  it('should not store a snapshot when fetching threads fails', async () => {
+    fetchMyPRs.mockResolvedValue([makePR(1)]);
+    mockApi.getAll.mockRejectedValue(new Error('Network error'));
+
+    await expect(service.poll(options)).rejects.toThrow('Failed to fetch comment threads: Network error');
+    expect(store.saved).toEqual({});
+  });
+});
@@ -0,0 +1,167 @@
+import {
+  escapeMarkdownCell,
+  formatDelimited,
+  formatYaml,
+  parseFields,
+  renderOutput,
+  renderResult,
+  type ItemRenderers,
+} from '../../../src/formatters/output.formatter.js';
+
+interface Row {
+  id: number;
+  title: string;
+}
+
+const renderers: ItemRenderers<Row> = {
+  table: (items) => `table of ${items.length}`,
+  markdown: (items) => `markdown of ${items.length}`,
+  columns: [
+    { header: 'id', value: (row) => row.id },
+    { header: 'title', value: (row) => row.title },
+  ],
+};
+
+describe('output formatter', () => {
+  const rows: Row[] = [
+    { id: 1, title: 'Plain' },
+    { id: 2, title: 'Has, comma and "quotes"' },
+  ];
+
+  describe('renderOutput', () => {
+    it('should delegate table and markdown to the item renderers', () => {
+      expect(renderOutput(rows, 'table', renderers)).toBe('table of 2');
+      expect(renderOutput(rows, 'markdown', renderers)).toBe('markdown of 2');
+    });
+
+    it('should render json generically', () => {
+      expect(JSON.parse(renderOutput(rows, 'json', renderers))).toEqual(rows);
+    });
+
+    it('should reject unknown formats', () => {
+      expect(() => renderOutput(rows, 'xml' as any, renderers)).toThrow('Unsupported output format: xml');
+    });
+  });
+
+  describe('renderOutput with shaping', () => {
+    const prs = [
+      { id: 1, title: 'First', createdBy: { displayName: 'Ann' }, labels: ['api', 'ui'] },
+      { id: 2, title: 'Second', createdBy: { displayName: 'Bob' }, labels: [] },
+    ];
+    const prRenderers = { ...renderers, columns: [] } as unknown as ItemRenderers<(typeof prs)[0]>;
+
+    it('should project fields into CSV columns', () => {
+      const output = renderOutput(prs, 'csv', prRenderers, { fields: ['id', 'createdBy.displayName', 'labels'] });
+      expect(output).toBe('id,createdBy.displayName,labels\n1,Ann,"api, ui"\n2,Bob,');
+    });
+
+    it('should project fields into flat JSON objects', () => {
+      const output = renderOutput(prs, 'json', prRenderers, { fields: ['id', 'createdBy.displayName'] });
+      expect(JSON.parse(output)).toEqual([
+        { id: 1, 'createdBy.displayName': 'Ann' },
+        { id: 2, 'createdBy.displayName': 'Bob' },
+      ]);
+    });
+
+    it('should render projected fields as an aligned table', () => {
+      const output = renderOutput(prs, 'table', prRenderers, { fields: ['id', 'title'] });
+      expect(output).toBe(['id  title', '--  ------', '1   First', '2   Second'].join('\n'));
+    });
+
+    it('should apply the query before the fields', () => {
+      const output = renderOutput(prs, 'tsv', prRenderers, { query: '[?id > `1`]', fields: ['title'] });
+      expect(output).toBe('title\nSecond');
+    });
+
+    it('should render scalar query results one per row', () => {
+      const output = renderOutput(prs, 'markdown', prRenderers, { query: '[*].title' });
+      expect(output).toBe(['| Result |', '| --- |', '| First |', '| Second |'].join('\n'));
+    });
+
+    it('should render a template per item in place of the output format', () => {
+      const output = renderOutput(prs, 'json', prRenderers, {
+        query: '[?id > `1`]',
+        template: '#{{id}} {{title}} by {{createdBy.displayName}}',
+      });
+      expect(output).toBe('#2 Second by Bob');
+    });
+
+    it('should print the raw query result as JSON', () => {
+      expect(JSON.parse(renderOutput(prs, 'json', prRenderers, { query: 'length(@)' }))).toBe(2);
+    });
+  });
+
+  describe('renderResult', () => {
+    const details = { pullRequest: { id: 7, title: 'Fix' }, threads: { active: 2, resolved: 1 } };
+    const view = (format: string) => `${format} view`;
+
+    it('should use its own view, and JSON as-is, without shaping', () => {
+      expect(renderResult(details, 'markdown', view)).toBe('markdown view');
+      expect(JSON.parse(renderResult(details, 'json', view))).toEqual(details);
+    });
+
+    it('should query the result itself rather than a list of it', () => {
+      expect(renderResult(details, 'json', view, { query: 'threads.active' })).toBe('2');
+      expect(renderResult(details, 'table', view, { fields: ['pullRequest.title', 'threads.active'] })).toBe(
+        ['pullRequest.title  threads.active', '-----------------  --------------', 'Fix                2'].join('\n')
+      );
+    });
+  });
+
+  describe('parseFields', () => {
+    it('should split on top-level commas only', () => {
+      expect(parseFields("id, reviewers[?vote > `0`].displayName,join(', ', labels)")).toEqual([
+        'id',
+        'reviewers[?vote > `0`].displayName',
+        "join(', ', labels)",
+      ]);
+    });
+
+    it('should reject empty and invalid fields', () => {
+      expect(() => parseFields('id,,title')).toThrow('Invalid fields: id,,title');
+      expect(() => parseFields('id,[0')).toThrow('Invalid query "[0"');
+    });
+  });
+
+  describe('formatDelimited', () => {
+    it('should quote CSV values containing delimiters and quotes', () => {
+      expect(formatDelimited(rows, renderers.columns, ',')).toBe('id,title\n1,Plain\n2,"Has, comma and ""quotes"""');
+    });
+
+    it('should flatten tabs and newlines in TSV values', () => {
+      const output = formatDelimited([{ id: 3, title: 'a\tb\nc' }], renderers.columns, '\t');
+      expect(output).toBe('id\ttitle\n3\ta b c');
+    });
+
+    it('should render missing values as empty cells', () => {
+      const columns = [{ header: 'missing', value: () => undefined }];
+      expect(formatDelimited([{}], columns, ',')).toBe('missing\n');
+    });
+  });
+
+  describe('formatYaml', () => {
+    it('should serialize nested mappings and sequences', () => {
+      const yaml = formatYaml([{ id: 1, reviewers: [{ name: 'Ann', vote: 10 }], labels: [], draft: false }]);
+
+      expect(yaml).toBe(
+        ['- id: 1', '  reviewers:', '    - name: Ann', '      vote: 10', '  labels: []', '  draft: false'].join('\n')
+      );
+    });
+
+    it('should quote strings that would not round-trip as plain scalars', () => {
+      expect(formatYaml({ a: 'yes', b: '123', c: 'key: value', d: '', e: 'line\nbreak', f: 'fine text' })).toBe(
+        ['a: "yes"', 'b: "123"', 'c: "key: value"', 'd: ""', 'e: "line\\nbreak"', 'f: fine text'].join('\n')
+      );
+    });
+
+    it('should drop undefined properties and render null', () => {
+      expect(formatYaml({ a: undefined, b: null })).toBe('b: null');
+    });
+  });
+
+  describe('escapeMarkdownCell', () => {
+    it('should escape pipes and join lines', () => {
+      expect(escapeMarkdownCell('a | b\nc')).toBe('a \\| b c');
+    });
+  });
+});
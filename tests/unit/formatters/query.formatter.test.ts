@@ -0,0 +1,75 @@
+import { compileQuery, QueryError, searchQuery } from '../../../src/formatters/query.formatter.js';
+
+const prs = [
+  {
+    pullRequestId: 1,
+    title: 'Add login',
+    status: 'active',
+    isDraft: false,
+    createdBy: { displayName: 'Ann' },
+    reviewers: [
+      { displayName: 'Bob', vote: 10 },
+      { displayName: 'Cy', vote: 0 },
+    ],
+  },
+  {
+    pullRequestId: 2,
+    title: 'Fix typo',
+    status: 'completed',
+    isDraft: false,
+    createdBy: { displayName: 'Bob' },
+    reviewers: [],
+  },
+  {
+    pullRequestId: 3,
+    title: 'Spike',
+    status: 'active',
+    isDraft: true,
+    createdBy: { displayName: 'Cy' },
+    reviewers: [{ displayName: 'Ann', vote: -10 }],
+  },
+];
+
+describe('query formatter', () => {
+  describe('searchQuery', () => {
+    it.each([
+      ['[0].title', 'Add login'],
+      ['[-1].pullRequestId', 3],
+      ['[*].createdBy.displayName', ['Ann', 'Bob', 'Cy']],
+      ['[1:].pullRequestId', [2, 3]],
+      ['[::-1].pullRequestId', [3, 2, 1]],
+      ['[].reviewers[].displayName', ['Bob', 'Cy', 'Ann']],
+      ["[?status=='active'].pullRequestId", [1, 3]],
+      ['[?isDraft].title', ['Spike']],
+      ['[?!isDraft && length(reviewers) > `0`].pullRequestId', [1]],
+      ["[?contains(reviewers[].displayName, 'Ann')].title", ['Spike']],
+      ['[?reviewers[?vote < `0`]].pullRequestId', [3]],
+      ['[*].[pullRequestId, createdBy.displayName]', [[1, 'Ann'], [2, 'Bob'], [3, 'Cy']]],
+      ['[0].{id: pullRequestId, author: createdBy.displayName}', { id: 1, author: 'Ann' }],
+      ["[?status=='active'] | length(@)", 2],
+      ['sort_by(@, &title)[0].title', 'Add login'],
+      ['max_by(@, &pullRequestId).title', 'Spike'],
+      ["join(', ', [*].title)", 'Add login, Fix typo, Spike'],
+      ['[0].missing.deeper', null],
+      ["[?starts_with(title, 'Fix')] | [0].\"createdBy\".displayName", 'Bob'],
+    ])('should evaluate %s', (expression, expected) => {
+      expect(searchQuery(expression, prs)).toEqual(expected);
+    });
+
+    it('should report runtime type errors as query errors', () => {
+      expect(() => searchQuery('length(`5`)', prs)).toThrow('length() expected string or array or object');
+    });
+  });
+
+  describe('compileQuery', () => {
+    it.each([['[?'], ['foo.'], ['[0'], ["'unterminated"], ['a = b']])('should reject %s', (expression) => {
+      expect(() => compileQuery(expression)).toThrow(QueryError);
+    });
+
+    it('should reject unknown functions before evaluating', () => {
+      expect(() => compileQuery('frobnicate(@)')).toThrow(
+        'Invalid query "frobnicate(@)": unknown function frobnicate()'
+      );
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  compileTemplate,
+  loadTemplate,
+  renderTemplate,
+  TemplateError,
+} from '../../../src/formatters/template.formatter.js';
+
+const pr = {
+  pullRequestId: 42,
+  title: 'Add login page',
+  isDraft: false,
+  status: 'active',
+  sourceRefName: 'refs/heads/feature/login',
+  creationDate: '2024-01-13T12:00:00Z',
+  repository: { name: 'web' },
+  reviewers: [
+    { displayName: 'Bob', vote: 10, isRequired: true },
+    { displayName: 'Cy', vote: 0 },
+  ],
+};
+
+describe('template formatter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(new Date('2024-01-15T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should interpolate top-level and nested fields', () => {
+    expect(renderTemplate('!{{pullRequestId}} {{title}} ({{repository.name}})', [pr])).toBe(
+      '!42 Add login page (web)'
+    );
+  });
+
+  it('should render one line per item', () => {
+    expect(renderTemplate('{{pullRequestId}}', [pr, { ...pr, pullRequestId: 43 }])).toBe('42\n43');
+  });
+
+  it('should render missing fields as empty text', () => {
+    expect(renderTemplate('[{{missing.field}}]', [pr])).toBe('[]');
+  });
+
+  it('should reuse the formatter helpers for relative times and branches', () => {
+    expect(renderTemplate('{{branch sourceRefName}} opened {{relativeTime creationDate}}', [pr])).toBe(
+      'feature/login opened 2 days ago'
+    );
+  });
+
+  it('should support conditionals with else and subexpressions', () => {
+    const template = compileTemplate(
+      '{{#if isDraft}}[draft]{{else}}[ready]{{/if}}{{#if (eq status "active")}}*{{/if}}'
+    );
+
+    expect(template.render(pr)).toBe('[ready]*');
+    expect(template.render({ ...pr, isDraft: true, status: 'completed' })).toBe('[draft]');
+  });
+
+  it('should loop over reviewers with loop variables and parent access', () => {
+    const template =
+      '{{#each reviewers}}{{@index}}:{{displayName}}={{vote vote}}{{#if isRequired}}!{{/if}}' +
+      '@{{../pullRequestId}}{{#unless @last}}, {{/unless}}{{else}}nobody{{/each}}';
+
+    expect(renderTemplate(template, [pr])).toBe('0:Bob=Approved!@42, 1:Cy=No vote@42');
+    expect(renderTemplate(template, [{ ...pr, reviewers: [] }])).toBe('nobody');
+  });
+
+  it('should print a field named like a helper rather than call the helper', () => {
+    expect(renderTemplate('{{#each reviewers}}{{displayName}}={{vote}} {{/each}}', [pr])).toBe('Bob=10 Cy=0 ');
+    expect(renderTemplate('{{length}}|{{default}}', [{ length: 'short', default: 'yes' }])).toBe('short|yes');
+  });
+
+  it('should loop over comments in threads', () => {
+    const thread = { id: 7, comments: [{ content: 'Nit' }, { content: 'Fixed' }] };
+    expect(renderTemplate('#{{id}}{{#each comments}} > {{content}}{{/each}}', [thread])).toBe('#7 > Nit > Fixed');
+  });
+
+  it('should apply string helpers and ignore comments', () => {
+    expect(renderTemplate('{{! summary }}{{upper (truncate title 6)}}|{{default mergeStatus "n/a"}}', [pr])).toBe(
+      'ADD L…|n/a'
+    );
+  });
+
+  it.each([
+    ['{{#if isDraft}}open', '{{#if}} is never closed'],
+    ['{{#each reviewers}}{{/if}}', '{{/if}} does not close {{#each}}'],
+    ['{{shout title}}', 'unknown helper "shout"'],
+    ['{{toString title}}', 'unknown helper "toString"'],
+    ['{{#loop reviewers}}{{/loop}}', 'unknown block "#loop"'],
+    ['{{else}}', '{{else}} outside of a block'],
+    ['{{upper "title}}', 'unbalanced quotes'],
+  ])('should reject %s', (source, message) => {
+    expect(() => compileTemplate(source)).toThrow(TemplateError);
+    expect(() => compileTemplate(source)).toThrow(message);
+  });
+
+  describe('loadTemplate', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'azc-template-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should read @file templates without their final newline', () => {
+      fs.writeFileSync(path.join(dir, 'pr.hbs'), '!{{pullRequestId}}\n');
+
+      expect(loadTemplate(`@${path.join(dir, 'pr.hbs')}`)).toBe('!{{pullRequestId}}');
+      expect(loadTemplate('{{title}}')).toBe('{{title}}');
+    });
+
+    it('should report unreadable files and invalid templates', () => {
+      expect(() => loadTemplate(`@${path.join(dir, 'missing.hbs')}`)).toThrow('Cannot read template');
+      expect(() => loadTemplate('{{#if isDraft}}')).toThrow(TemplateError);
+    });
+  });
+});
@@ -15,6 +15,7 @@ describe('AuthenticationService', () => {
       isInstalled: jest.fn(),
       isAuthenticated: jest.fn(),
       executeAzCommand: jest.fn(),
+      executeRawCommand: jest.fn(),
     } as any;
 
     service = new AuthenticationService(mockAzureCliService);
@@ -69,7 +70,7 @@ describe('AuthenticationService', () => {
     });
 
     it('should retrieve token from Azure CLI when env vars not set', async () => {
-      mockAzureCliService.getAzureDevOpsAccessToken.mockResolvedValue('cli-token');
+      mockAzureCliService.getAzureDevOpsAccessToken.mockResolvedValue({ accessToken: 'cli-token' });
 
       const token = await service.getAccessToken();
 
@@ -78,7 +79,7 @@ describe('AuthenticationService', () => {
     });
 
     it('should cache token after first retrieval', async () => {
-      mockAzureCliService.getAzureDevOpsAccessToken.mockResolvedValue('cli-token');
+      mockAzureCliService.getAzureDevOpsAccessToken.mockResolvedValue({ accessToken: 'cli-token' });
 
       const token1 = await service.getAccessToken();
       const token2 = await service.getAccessToken();
@@ -115,6 +116,160 @@ describe('AuthenticationService', () => {
         expect(error.cause).toBe(originalError);
       }
     });
+
+    it('should only use the source the configured auth method names', async () => {
+      process.env.AZURE_DEVOPS_EXT_PAT = 'pat-token';
+      mockAzureCliService.getAzureDevOpsAccessToken.mockResolvedValue({ accessToken: 'cli-token' });
+
+      const cliOnly = new AuthenticationService(mockAzureCliService, () => 'azure-cli');
+      const tokenOnly = new AuthenticationService(mockAzureCliService, () => 'token');
+
+      expect(await cliOnly.getAccessToken()).toBe('cli-token');
+      expect((await cliOnly.getAuthenticationContext()).source).toBe('azure-cli');
+      await expect(tokenOnly.getAccessToken()).rejects.toThrow(
+        'The auth method is set to "token", but AZ_ACCESS_TOKEN is not set.'
+      );
+    });
+  });
+
+  describe('stored tokens', () => {
+    let mockCredentialStore: any;
+    let storedService: AuthenticationService;
+
+    beforeEach(() => {
+      mockCredentialStore = { getToken: jest.fn(() => 'stored-pat') };
+      storedService = new AuthenticationService(
+        mockAzureCliService,
+        () => 'auto',
+        async () => 'https://dev.azure.com/acme',
+        mockCredentialStore
+      );
+    });
+
+    it('should use the token stored for the organization before the Azure CLI', async () => {
+      const context = await storedService.getAuthenticationContext();
+
+      expect(context).toMatchObject({ accessToken: 'stored-pat', source: 'stored-pat' });
+      expect(mockCredentialStore.getToken).toHaveBeenCalledWith('https://dev.azure.com/acme');
+      expect(mockAzureCliService.getAzureDevOpsAccessToken).not.toHaveBeenCalled();
+    });
+
+    it('should prefer AZURE_DEVOPS_EXT_PAT over the stored token', async () => {
+      process.env.AZURE_DEVOPS_EXT_PAT = 'env-pat';
+
+      expect(await storedService.getAccessToken()).toBe('env-pat');
+    });
+
+    it('should suggest auth login when the pat method has no token', async () => {
+      mockCredentialStore.getToken.mockReturnValue(undefined);
+      const patOnly = new AuthenticationService(
+        mockAzureCliService,
+        () => 'pat',
+        async () => 'https://dev.azure.com/acme',
+        mockCredentialStore
+      );
+
+      await expect(patOnly.getAccessToken()).rejects.toThrow('Run: azc auth login --pat');
+    });
+  });
+
+  describe('token expiry', () => {
+    const inMinutes = (minutes: number) => new Date(Date.now() + minutes * 60_000);
+
+    it('should fetch a new Azure CLI token shortly before the cached one expires', async () => {
+      mockAzureCliService.getAzureDevOpsAccessToken
+        .mockResolvedValueOnce({ accessToken: 'old-token', expiresOn: inMinutes(2) })
+        .mockResolvedValueOnce({ accessToken: 'new-token', expiresOn: inMinutes(60) });
+
+      expect(await service.getAccessToken()).toBe('old-token');
+      expect(await service.getAccessToken()).toBe('new-token');
+      expect(await service.getAccessToken()).toBe('new-token');
+      expect(mockAzureCliService.getAzureDevOpsAccessToken).toHaveBeenCalledTimes(2);
+    });
+
+    it('should run the Azure CLI once for concurrent requests', async () => {
+      mockAzureCliService.getAzureDevOpsAccessToken.mockResolvedValue({ accessToken: 'cli-token' });
+
+      await Promise.all([service.getAccessToken(), service.getAccessToken(), service.getAccessToken()]);
+
+      expect(mockAzureCliService.getAzureDevOpsAccessToken).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report when the Azure CLI token expires', async () => {
+      const expiresOn = inMinutes(60);
+      mockAzureCliService.getAzureDevOpsAccessToken.mockResolvedValue({ accessToken: 'cli-token', expiresOn });
+      mockAzureCliService.isInstalled.mockResolvedValue(false);
+
+      expect((await service.getAuthenticationContext()).expiresOn).toEqual(expiresOn);
+    });
+
+    it('should only invalidate tokens that can be replaced', async () => {
+      mockAzureCliService.getAzureDevOpsAccessToken
+        .mockResolvedValueOnce({ accessToken: 'rejected-token' })
+        .mockResolvedValueOnce({ accessToken: 'new-token' });
+
+      await service.getAccessToken();
+      expect(service.invalidateAccessToken()).toBe(true);
+      expect(await service.getAccessToken()).toBe('new-token');
+
+      process.env.AZURE_DEVOPS_EXT_PAT = 'pat-token';
+      service.clearCache();
+      await service.getAccessToken();
+      expect(service.invalidateAccessToken()).toBe(false);
+    });
+  });
+
+  describe('getAuthorizationHeader', () => {
+    it('should send personal access tokens with basic authentication', async () => {
+      process.env.AZURE_DEVOPS_EXT_PAT = 'pat-token';
+
+      expect(await service.getAuthorizationHeader()).toBe(`Basic ${Buffer.from(':pat-token').toString('base64')}`);
+    });
+
+    it('should send other tokens as bearer tokens', async () => {
+      mockAzureCliService.getAzureDevOpsAccessToken.mockResolvedValue({ accessToken: 'cli-token' });
+
+      expect(await service.getAuthorizationHeader()).toBe('Bearer cli-token');
+    });
+  });
+
+  describe('getCredentialIdentity', () => {
+    const jwt = (claims: Record<string, unknown>) =>
+      `header.${Buffer.from(JSON.stringify(claims)).toString('base64url')}.signature`;
+
+    it('should tell personal access tokens apart without revealing them', async () => {
+      process.env.AZURE_DEVOPS_EXT_PAT = 'first-pat';
+      const first = await service.getCredentialIdentity();
+
+      process.env.AZURE_DEVOPS_EXT_PAT = 'second-pat';
+      service.clearCache();
+      const second = await service.getCredentialIdentity();
+
+      expect(first).toMatch(/^token:[0-9a-f]{64}$/);
+      expect(first).not.toContain('first-pat');
+      expect(second).not.toBe(first);
+    });
+
+    it('should name the user of a JWT, which stays the same when the token is renewed', async () => {
+      process.env.AZ_ACCESS_TOKEN = jwt({ tid: 'tenant', oid: 'user-1', exp: 1 });
+
+      expect(await service.getCredentialIdentity()).toBe('user:tenant/user-1');
+    });
+
+    it('should read the Azure CLI account without fetching a token', async () => {
+      mockAzureCliService.executeRawCommand.mockResolvedValue('tenant\tjane@example.com\n');
+
+      expect(await service.getCredentialIdentity()).toBe('azure-cli:tenant/jane@example.com');
+      expect(await service.getCredentialIdentity()).toBe('azure-cli:tenant/jane@example.com');
+      expect(mockAzureCliService.executeRawCommand).toHaveBeenCalledTimes(1);
+      expect(mockAzureCliService.getAzureDevOpsAccessToken).not.toHaveBeenCalled();
+    });
+
+    it('should fail like getAccessToken when the auth method has no token', async () => {
+      const tokenOnly = new AuthenticationService(mockAzureCliService, () => 'token');
+
+      await expect(tokenOnly.getCredentialIdentity()).rejects.toThrow('AZ_ACCESS_TOKEN is not set');
+    });
   });
 
   describe('getSubscriptionInfo', () => {
@@ -242,7 +397,7 @@ describe('AuthenticationService', () => {
 
   describe('getAuthenticationContext', () => {
     it('should return complete context with Azure CLI token', async () => {
-      mockAzureCliService.getAzureDevOpsAccessToken.mockResolvedValue('cli-token');
+      mockAzureCliService.getAzureDevOpsAccessToken.mockResolvedValue({ accessToken: 'cli-token' });
       mockAzureCliService.isInstalled.mockResolvedValue(true);
       mockAzureCliService.isAuthenticated.mockResolvedValue(true);
       mockAzureCliService.executeAzCommand.mockResolvedValue({
@@ -286,6 +441,16 @@ describe('AuthenticationService', () => {
       expect(context.subscription).toBeUndefined();
     });
 
+    it('should read the scopes and expiry of a JWT access token', async () => {
+      const claims = Buffer.from(JSON.stringify({ scp: 'user_impersonation vso.code', exp: 1767225600 }));
+      process.env.AZ_ACCESS_TOKEN = `header.${claims.toString('base64url')}.signature`;
+
+      const context = await service.getAuthenticationContext();
+
+      expect(context.scopes).toEqual(['user_impersonation', 'vso.code']);
+      expect(context.expiresOn).toEqual(new Date('2026-01-01T00:00:00Z'));
+    });
+
     it('should not include subscription for environment token sources', async () => {
       process.env.AZURE_DEVOPS_EXT_PAT = 'pat-token';
 
@@ -298,7 +463,7 @@ describe('AuthenticationService', () => {
 
   describe('clearCache', () => {
     it('should clear token cache', async () => {
-      mockAzureCliService.getAzureDevOpsAccessToken.mockResolvedValue('cli-token');
+      mockAzureCliService.getAzureDevOpsAccessToken.mockResolvedValue({ accessToken: 'cli-token' });
 
       await service.getAccessToken();
       service.clearCache();
@@ -338,7 +503,7 @@ describe('AuthenticationService', () => {
 
     it('should handle empty string environment variables', async () => {
       process.env.AZURE_DEVOPS_EXT_PAT = '';
-      mockAzureCliService.getAzureDevOpsAccessToken.mockResolvedValue('cli-token');
+      mockAzureCliService.getAzureDevOpsAccessToken.mockResolvedValue({ accessToken: 'cli-token' });
 
       const token = await service.getAccessToken();
 
@@ -347,7 +512,7 @@ describe('AuthenticationService', () => {
 
     it('should handle whitespace-only environment variables', async () => {
       process.env.AZURE_DEVOPS_EXT_PAT = '   ';
-      mockAzureCliService.getAzureDevOpsAccessToken.mockResolvedValue('cli-token');
+      mockAzureCliService.getAzureDevOpsAccessToken.mockResolvedValue({ accessToken: 'cli-token' });
 
       const token = await service.getAccessToken();
 
@@ -0,0 +1,328 @@
+import { jest } from '@jest/globals';
+import {
+  AzureApiError,
+  AzureApiService,
+  buildIdentityServiceUrl,
+  describeRateLimit,
+  retryOptionsFromEnvironment,
+  takeItems,
+} from '../../../src/services/azure-api.service.js';
+import { DEFAULT_RETRY_OPTIONS } from '../../../src/services/request-pipeline.js';
+import { ConfigService } from '../../../src/services/config.service.js';
+
+describe('AzureApiService', () => {
+  let mockConfigService: jest.Mocked<ConfigService>;
+  let fetchMock: jest.Mock<typeof fetch>;
+  let service: AzureApiService;
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    mockConfigService = {
+      getAuthorizationHeader: jest.fn<() => Promise<string>>().mockResolvedValue('Bearer token-123'),
+      invalidateAccessToken: jest.fn(() => false),
+      getOrganizationUrl: jest.fn<() => Promise<string | undefined>>().mockResolvedValue('https://dev.azure.com/org'),
+    } as any;
+
+    fetchMock = jest.fn<typeof fetch>();
+    global.fetch = fetchMock as any;
+
+    service = new AzureApiService(mockConfigService, { cache: false });
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.clearAllMocks();
+  });
+
+  function jsonResponse(body: unknown, status = 200, statusText = 'OK'): Response {
+    return new Response(JSON.stringify(body), { status, statusText });
+  }
+
+  describe('get', () => {
+    it('should request the project-scoped API URL with a bearer token', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({ value: [] }));
+
+      const result = await service.get('git/repositories?api-version=7.0', 'MyProject');
+
+      expect(result).toEqual({ value: [] });
+      expect(fetchMock).toHaveBeenCalledWith(
+        'https://dev.azure.com/org/MyProject/_apis/git/repositories?api-version=7.0',
+        expect.objectContaining({
+          method: 'GET',
+          headers: expect.objectContaining({ Authorization: 'Bearer token-123' }),
+          body: undefined,
+        })
+      );
+    });
+
+    it('should use the organization-level URL when no project is given', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({}));
+
+      await service.get('projects?api-version=7.0');
+
+      expect(fetchMock.mock.calls[0][0]).toBe('https://dev.azure.com/org/_apis/projects?api-version=7.0');
+    });
+
+    it('should throw when organization URL is not configured', async () => {
+      mockConfigService.getOrganizationUrl.mockResolvedValue(undefined);
+
+      await expect(service.get('projects')).rejects.toThrow('Organization URL not configured');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should throw on non-2xx responses', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({}, 404, 'Not Found'));
+
+      await expect(service.get('projects')).rejects.toThrow('API request failed: 404 Not Found');
+    });
+  });
+
+  describe('request pipeline', () => {
+    it('should pin the api-version when the path does not name one', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse({}));
+
+      await service.get('git/pullrequests/7', 'MyProject');
+      await service.get('policy/evaluations?api-version=7.0-preview.1', 'MyProject');
+
+      expect(fetchMock.mock.calls[0][0]).toBe(
+        'https://dev.azure.com/org/MyProject/_apis/git/pullrequests/7?api-version=7.0'
+      );
+      expect(fetchMock.mock.calls[1][0]).toBe(
+        'https://dev.azure.com/org/MyProject/_apis/policy/evaluations?api-version=7.0-preview.1'
+      );
+    });
+
+    it('should send requests through an injected handler', async () => {
+      const send = jest.fn(async () => jsonResponse({ id: 7 }));
+      const injected = new AzureApiService(mockConfigService, { send, cache: false });
+
+      await expect(injected.get('git/pullrequests/7')).resolves.toEqual({ id: 7 });
+      expect(send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          method: 'GET',
+          headers: expect.objectContaining({ Authorization: 'Bearer token-123' }),
+        })
+      );
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('errors and retries', () => {
+    it('should retry once with a fresh token when the token in use is rejected', async () => {
+      mockConfigService.invalidateAccessToken.mockReturnValueOnce(true);
+      mockConfigService.getAuthorizationHeader
+        .mockResolvedValueOnce('Bearer expired')
+        .mockResolvedValueOnce('Bearer fresh');
+      fetchMock
+        .mockResolvedValueOnce(new Response('', { status: 401, statusText: 'Unauthorized' }))
+        .mockResolvedValueOnce(jsonResponse({ id: 7 }));
+
+      await expect(service.get('git/pullrequests/7')).resolves.toEqual({ id: 7 });
+      expect(fetchMock).toHaveBeenLastCalledWith(
+        expect.any(String),
+        expect.objectContaining({ headers: expect.objectContaining({ Authorization: 'Bearer fresh' }) })
+      );
+    });
+
+    it('should throw an AzureApiError with the activity ID and the server message', async () => {
+      fetchMock.mockResolvedValue(
+        new Response(
+          JSON.stringify({
+            message: 'TF401019: The Git repository with name or identifier nope does not exist.',
+            typeKey: 'GitRepositoryNotFoundException',
+          }),
+          { status: 404, statusText: 'Not Found', headers: { ActivityId: 'activity-1' } },
+        )
+      );
+
+      const error = await service.get<never>('git/repositories/nope').catch((caught: AzureApiError) => caught);
+
+      expect(error).toBeInstanceOf(AzureApiError);
+      expect(error).toMatchObject({
+        status: 404,
+        activityId: 'activity-1',
+        serverMessage: 'TF401019: The Git repository with name or identifier nope does not exist.',
+        typeKey: 'GitRepositoryNotFoundException',
+      });
+      expect(error.message).toBe(
+        'API request failed: 404 Not Found: TF401019: The Git repository with name or identifier nope does not exist.' +
+          ' (activity ID activity-1)'
+      );
+    });
+
+    it('should tolerate error bodies that are not JSON', async () => {
+      fetchMock.mockResolvedValue(new Response('<html>Bad gateway</html>', { status: 400, statusText: 'Bad Request' }));
+
+      await expect(service.get('projects')).rejects.toThrow(new AzureApiError(400, 'Bad Request'));
+    });
+
+    it('should retry throttled requests and report the rate limit', async () => {
+      const onRateLimit = jest.fn();
+      const retrying = new AzureApiService(mockConfigService, {
+        retry: { maxRetries: 1, baseDelayMs: 0, maxDelayMs: 1000 },
+        onRateLimit,
+        cache: false,
+      });
+      fetchMock
+        .mockResolvedValueOnce(new Response(null, { status: 429, headers: { 'Retry-After': '0' } }))
+        .mockResolvedValueOnce(jsonResponse({ id: 1 }));
+
+      await expect(retrying.post('git/pullrequests', {}, 'MyProject')).resolves.toEqual({ id: 1 });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(onRateLimit).toHaveBeenCalledWith(expect.objectContaining({ status: 429, retryAfterSeconds: 0 }));
+    });
+  });
+
+  describe('paginate', () => {
+    function page(items: number[], headers: Record<string, string> = {}): Response {
+      return new Response(JSON.stringify({ value: items, count: items.length }), { status: 200, headers });
+    }
+
+    it('should follow $top/$skip pages until a short page', async () => {
+      fetchMock
+        .mockResolvedValueOnce(page([1, 2]))
+        .mockResolvedValueOnce(page([3, 4]))
+        .mockResolvedValueOnce(page([5]));
+
+      const items = await takeItems(service.paginate<number>('git/pullrequests?searchCriteria.status=all', 'P', 2));
+
+      expect(items).toEqual([1, 2, 3, 4, 5]);
+      expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+        'https://dev.azure.com/org/P/_apis/git/pullrequests?searchCriteria.status=all&$top=2&api-version=7.0',
+        'https://dev.azure.com/org/P/_apis/git/pullrequests?searchCriteria.status=all&$top=2&$skip=2&api-version=7.0',
+        'https://dev.azure.com/org/P/_apis/git/pullrequests?searchCriteria.status=all&$top=2&$skip=4&api-version=7.0',
+      ]);
+    });
+
+    it('should follow continuation tokens', async () => {
+      fetchMock
+        .mockResolvedValueOnce(page([1], { 'x-ms-continuationtoken': 'next page' }))
+        .mockResolvedValueOnce(page([2]));
+
+      const items = await service.getAll<number>('git/repositories/r/pullRequests/1/threads', 'P');
+
+      expect(items).toEqual([1, 2]);
+      expect(fetchMock.mock.calls[1][0]).toBe(
+        'https://dev.azure.com/org/P/_apis/git/repositories/r/pullRequests/1/threads?continuationToken=next%20page' +
+          '&api-version=7.0'
+      );
+    });
+
+    it('should only request the pages the caller reads', async () => {
+      fetchMock.mockImplementation(async () => page([1, 2]));
+
+      const items = await takeItems(service.paginate<number>('git/pullrequests', 'P', 2), 3);
+
+      expect(items).toEqual([1, 2, 1]);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('retryOptionsFromEnvironment', () => {
+    it('should let AZC_MAX_RETRIES override the number of retries', () => {
+      expect(retryOptionsFromEnvironment({ AZC_MAX_RETRIES: '0' })).toEqual({
+        ...DEFAULT_RETRY_OPTIONS,
+        maxRetries: 0,
+      });
+      expect(retryOptionsFromEnvironment({ AZC_MAX_RETRIES: 'lots' })).toBe(DEFAULT_RETRY_OPTIONS);
+      expect(retryOptionsFromEnvironment({})).toBe(DEFAULT_RETRY_OPTIONS);
+    });
+  });
+
+  describe('describeRateLimit', () => {
+    it('should describe how close the user is to the limit', () => {
+      expect(describeRateLimit({ status: 200, resource: 'Core', limit: 200, remaining: 20, delaySeconds: 2 })).toBe(
+        'Azure DevOps is rate limiting requests to Core (20 of 200 usage units left, requests delayed by 2s)'
+      );
+      expect(describeRateLimit({ status: 429, retryAfterSeconds: 30 })).toBe(
+        'Azure DevOps is throttling requests (retry after 30s)'
+      );
+    });
+  });
+
+  describe('post', () => {
+    it('should send the JSON-encoded body', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({ id: 2 }));
+
+      const result = await service.post('threads/1/comments', { content: 'hi', parentCommentId: 1 }, 'MyProject');
+
+      expect(result).toEqual({ id: 2 });
+      expect(fetchMock).toHaveBeenCalledWith(
+        'https://dev.azure.com/org/MyProject/_apis/threads/1/comments?api-version=7.0',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ content: 'hi', parentCommentId: 1 }),
+        })
+      );
+    });
+  });
+
+  describe('patch', () => {
+    it('should send a PATCH request with the JSON-encoded body', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({ id: 7, status: 'fixed' }));
+
+      const result = await service.patch('threads/7', { status: 'fixed' });
+
+      expect(result).toEqual({ id: 7, status: 'fixed' });
+      expect(fetchMock.mock.calls[0][1]).toEqual(
+        expect.objectContaining({ method: 'PATCH', body: JSON.stringify({ status: 'fixed' }) })
+      );
+    });
+  });
+
+  describe('put', () => {
+    it('should send a PUT request with the JSON-encoded body', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({ id: 'user-1', vote: 10 }));
+
+      const result = await service.put('reviewers/user-1', { vote: 10 }, 'MyProject');
+
+      expect(result).toEqual({ id: 'user-1', vote: 10 });
+      expect(fetchMock.mock.calls[0][1]).toEqual(
+        expect.objectContaining({ method: 'PUT', body: JSON.stringify({ vote: 10 }) })
+      );
+    });
+  });
+
+  describe('delete', () => {
+    it('should send a DELETE request and tolerate an empty response body', async () => {
+      fetchMock.mockResolvedValue(new Response(null, { status: 204, statusText: 'No Content' }));
+
+      const result = await service.delete('reviewers/user-1', 'MyProject');
+
+      expect(result).toBeUndefined();
+      expect(fetchMock.mock.calls[0][0]).toBe(
+        'https://dev.azure.com/org/MyProject/_apis/reviewers/user-1?api-version=7.0'
+      );
+      expect(fetchMock.mock.calls[0][1]).toEqual(expect.objectContaining({ method: 'DELETE', body: undefined }));
+    });
+  });
+
+  describe('getIdentities', () => {
+    it('should request the identity service host of the organization', async () => {
+      mockConfigService.getOrganizationUrl.mockResolvedValue('https://dev.azure.com/org/');
+      fetchMock.mockResolvedValue(jsonResponse({ value: [] }));
+
+      await service.getIdentities('identities?searchFilter=General&filterValue=jane');
+
+      expect(fetchMock.mock.calls[0][0]).toBe(
+        'https://vssps.dev.azure.com/org/_apis/identities?searchFilter=General&filterValue=jane&api-version=7.0'
+      );
+    });
+  });
+
+  describe('buildIdentityServiceUrl', () => {
+    it('should map dev.azure.com organizations to vssps.dev.azure.com', () => {
+      expect(buildIdentityServiceUrl('https://dev.azure.com/org')).toBe('https://vssps.dev.azure.com/org');
+    });
+
+    it('should map visualstudio.com organizations to their vssps subdomain', () => {
+      expect(buildIdentityServiceUrl('https://org.visualstudio.com')).toBe('https://org.vssps.visualstudio.com');
+    });
+
+    it('should leave other hosts unchanged', () => {
+      expect(buildIdentityServiceUrl('https://tfs.example.com/DefaultCollection')).toBe(
+        'https://tfs.example.com/DefaultCollection'
+      );
+    });
+  });
+});
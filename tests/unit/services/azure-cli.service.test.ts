@@ -7,6 +7,7 @@ let AzureCliNotAuthenticatedError: any;
 let AzureDevOpsExtensionNotInstalledError: any;
 let AzureDevOpsNotConfiguredError: any;
 let AzureCliExecutionError: any;
+let quoteArgument: any;
 
 beforeAll(async () => {
   // create a single mock function that will act as the promisified exec
@@ -21,6 +22,7 @@ beforeAll(async () => {
   AzureDevOpsExtensionNotInstalledError = mod.AzureDevOpsExtensionNotInstalledError;
   AzureDevOpsNotConfiguredError = mod.AzureDevOpsNotConfiguredError;
   AzureCliExecutionError = mod.AzureCliExecutionError;
+  quoteArgument = mod.quoteArgument;
 });
 
 beforeEach(() => {
@@ -79,6 +81,27 @@ describe('AzureCliService', () => {
     await expect(svc.executeAzCommand('az group list --output json')).resolves.toEqual([{ id: 1 }]);
   });
 
+  test('executeAzCommand validates the CLI once and retries validations that failed', async () => {
+    const svc = new AzureCliService(execAsyncMock as any);
+    let loggedIn = false;
+
+    execAsyncMock.mockImplementation(async (cmd: string) => {
+      if (cmd === 'az account show' && !loggedIn) throw new Error('not auth');
+      if (cmd.includes('extension list')) return { stdout: JSON.stringify([{ name: 'azure-devops' }]), stderr: '' };
+      return { stdout: '[]', stderr: '' };
+    });
+
+    await expect(svc.executeAzCommand('az repos pr list')).rejects.toBeInstanceOf(AzureCliNotAuthenticatedError);
+    loggedIn = true;
+    await svc.executeAzCommand('az repos pr list');
+    await svc.executeAzCommand('az repos pr show --id 1');
+
+    const commands = execAsyncMock.mock.calls.map(([cmd]) => cmd);
+    expect(commands.filter((cmd) => cmd === 'az --version')).toHaveLength(1);
+    expect(commands.filter((cmd) => cmd === 'az account show')).toHaveLength(2);
+    expect(commands.filter((cmd) => cmd.includes('extension list'))).toHaveLength(1);
+  });
+
   test('executeAzCommand throws AzureCliNotInstalledError when az not installed', async () => {
     const svc = new AzureCliService(execAsyncMock as any);
     execAsyncMock.mockRejectedValueOnce(new Error('no az')); // for isInstalled
@@ -143,17 +166,61 @@ describe('AzureCliService', () => {
     await expect(svc.executeAzCommand('az group show --name x')).rejects.toBeInstanceOf(AzureCliExecutionError);
   });
 
-  test('getAzureDevOpsAccessToken returns trimmed token', async () => {
+  test('getAzureDevOpsAccessToken returns the trimmed token and its expiry', async () => {
     const svc = new AzureCliService(execAsyncMock as any);
 
     execAsyncMock.mockImplementation(async (cmd: string) => {
       if (cmd === 'az --version') return { stdout: 'ok', stderr: '' };
       if (cmd === 'az account show') return { stdout: '{}', stderr: '' };
-      if (cmd.includes('get-access-token')) return { stdout: '  mytoken\n', stderr: '' };
+      if (cmd.includes('get-access-token')) {
+        return { stdout: JSON.stringify({ accessToken: ' mytoken ', expires_on: 1767225600 }), stderr: '' };
+      }
       return { stdout: '', stderr: '' };
     });
 
-    await expect(svc.getAzureDevOpsAccessToken()).resolves.toBe('mytoken');
+    await expect(svc.getAzureDevOpsAccessToken()).resolves.toEqual({
+      accessToken: 'mytoken',
+      expiresOn: new Date('2026-01-01T00:00:00Z'),
+    });
+  });
+
+  test('getAzureDevOpsAccessToken reads the local expiresOn time of older Azure CLI versions', async () => {
+    const svc = new AzureCliService(execAsyncMock as any);
+
+    execAsyncMock.mockResolvedValue({
+      stdout: JSON.stringify({ accessToken: 'mytoken', expiresOn: '2026-01-01 09:30:00.000000' }),
+      stderr: '',
+    });
+
+    const { expiresOn } = await svc.getAzureDevOpsAccessToken();
+    expect(expiresOn).toEqual(new Date(2026, 0, 1, 9, 30, 0));
+  });
+
+  test('getAzureDevOpsAccessToken prefers expires_on and ignores expiry fields it cannot read', async () => {
+    const svc = new AzureCliService(execAsyncMock as any);
+    execAsyncMock.mockResolvedValueOnce({
+      stdout: JSON.stringify({ accessToken: 'a', expires_on: '1767225600', expiresOn: '2030-01-01 00:00:00.000000' }),
+      stderr: '',
+    });
+    execAsyncMock.mockResolvedValueOnce({
+      stdout: JSON.stringify({ accessToken: 'b', expires_on: 'soon', expiresOn: 42 }),
+      stderr: '',
+    });
+
+    await expect(svc.getAzureDevOpsAccessToken()).resolves.toEqual({
+      accessToken: 'a',
+      expiresOn: new Date('2026-01-01T00:00:00Z'),
+    });
+    await expect(svc.getAzureDevOpsAccessToken()).resolves.toEqual({ accessToken: 'b', expiresOn: undefined });
+  });
+
+  test('getAzureDevOpsAccessToken throws AzureCliExecutionError on unreadable output', async () => {
+    const svc = new AzureCliService(execAsyncMock as any);
+    execAsyncMock.mockResolvedValueOnce({ stdout: 'WARNING: upgrade available\n{', stderr: '' });
+    execAsyncMock.mockResolvedValueOnce({ stdout: 'null', stderr: '' });
+
+    await expect(svc.getAzureDevOpsAccessToken()).rejects.toThrow('Failed to get access token');
+    await expect(svc.getAzureDevOpsAccessToken()).rejects.toBeInstanceOf(AzureCliExecutionError);
   });
 
   test('getAzureDevOpsAccessToken throws AzureCliNotInstalledError when az missing', async () => {
@@ -281,4 +348,9 @@ describe('AzureCliService', () => {
     expect(execErr.stderr).toBe('test stderr');
     expect(execErr.exitCode).toBe(42);
   });
+
+  test('quoteArgument wraps values as a single shell argument', () => {
+    expect(quoteArgument("it's done", 'linux')).toBe("'it'\\''s done'");
+    expect(quoteArgument('say "hi"', 'win32')).toBe('"say \\"hi\\""');
+  });
 });
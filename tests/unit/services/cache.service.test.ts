@@ -0,0 +1,223 @@
+import { jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  cachePolicy,
+  cacheTtlFor,
+  isOfflineMode,
+  OfflineCacheMissError,
+  OfflineChangeError,
+  ResponseCache,
+} from '../../../src/services/cache.service.js';
+import { createPipeline, type PipelineRequest, type RequestHandler } from '../../../src/services/request-pipeline.js';
+
+const base = 'https://dev.azure.com/org/Project/_apis/git/repositories/repo-1';
+const threadsUrl = `${base}/pullRequests/7/threads?api-version=7.0`;
+
+function get(url: string): PipelineRequest {
+  return { method: 'GET', url, headers: {} };
+}
+
+function json(body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status: 200, headers });
+}
+
+describe('ResponseCache', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'azc-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should keep entries across instances and ignore unreadable files', () => {
+    const entry = { version: 1 as const, url: threadsUrl, storedAt: '2024-01-01T00:00:00Z', headers: {}, body: '{}' };
+
+    new ResponseCache(dir).write(entry);
+
+    expect(new ResponseCache(dir).read(threadsUrl)).toEqual(entry);
+    expect(new ResponseCache(dir).read(`${base}/other`)).toBeUndefined();
+
+    const [file] = fs.readdirSync(path.join(dir, 'pr-7'));
+    fs.writeFileSync(path.join(dir, 'pr-7', file), 'not json');
+    expect(new ResponseCache(dir).read(threadsUrl)).toBeUndefined();
+  });
+
+  describe('prune', () => {
+    const entry = (url: string, body = '') => ({
+      version: 1 as const,
+      url,
+      storedAt: '2024-01-01T00:00:00Z',
+      headers: {},
+      body,
+    });
+
+    // Backdate the only entry of pull request 7
+    const age = (days: number) => {
+      const [file] = fs.readdirSync(path.join(dir, 'pr-7'));
+      const time = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      fs.utimesSync(path.join(dir, 'pr-7', file), time, time);
+    };
+
+    it('should remove entries older than the age limit', () => {
+      const cache = new ResponseCache(dir, { maxAgeMs: 24 * 60 * 60 * 1000, maxBytes: 1024 * 1024, pruneEveryMs: 0 });
+      cache.write(entry(threadsUrl));
+      age(2);
+
+      cache.write(entry(`${base}/pullRequests/8/threads`));
+
+      expect(cache.read(threadsUrl)).toBeUndefined();
+      expect(cache.read(`${base}/pullRequests/8/threads`)).toBeDefined();
+      expect(fs.existsSync(path.join(dir, 'pr-7'))).toBe(false);
+    });
+
+    it('should remove the oldest entries until the rest fit the size limit', () => {
+      const limits = { maxAgeMs: 24 * 60 * 60 * 1000, maxBytes: 600, pruneEveryMs: 60 * 60 * 1000 };
+      const cache = new ResponseCache(dir, limits);
+      cache.write(entry(threadsUrl, 'x'.repeat(300)));
+      age(0.5);
+      cache.write(entry(`${base}/pullRequests/8/threads`, 'y'.repeat(300)));
+
+      // Pruned at most once an hour, so the first write's pruning is all there was
+      expect(cache.read(threadsUrl)).toBeDefined();
+
+      cache.prune();
+
+      expect(cache.read(threadsUrl)).toBeUndefined();
+      expect(cache.read(`${base}/pullRequests/8/threads`)).toBeDefined();
+    });
+  });
+
+  describe('cachePolicy', () => {
+    let now: number;
+    let send: jest.Mock<RequestHandler>;
+    let cache: ResponseCache;
+
+    const pipeline = (offline = false, onServedOffline?: (storedAt: Date) => void) =>
+      createPipeline([cachePolicy(cache, { offline, onServedOffline, now: () => now })], send);
+
+    beforeEach(() => {
+      now = Date.parse('2024-01-01T00:00:00Z');
+      send = jest.fn<RequestHandler>();
+      cache = new ResponseCache(dir);
+    });
+
+    it('should answer from the cache while the response is fresh', async () => {
+      send.mockResolvedValue(json({ value: [1] }));
+
+      await pipeline()(get(threadsUrl));
+      now += 10_000;
+      const response = await pipeline()(get(threadsUrl));
+
+      expect(await response.json()).toEqual({ value: [1] });
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should revalidate stale responses with their ETag', async () => {
+      send.mockResolvedValueOnce(json({ value: [1] }, { ETag: '"v1"' })).mockResolvedValueOnce(
+        new Response(null, { status: 304 }),
+      );
+
+      await pipeline()(get(threadsUrl));
+      now += 60_000;
+      const response = await pipeline()(get(threadsUrl));
+
+      expect(send.mock.calls[1][0].headers).toEqual({ 'If-None-Match': '"v1"' });
+      expect(await response.json()).toEqual({ value: [1] });
+      expect(cache.read(threadsUrl)?.storedAt).toBe(new Date(now).toISOString());
+    });
+
+    it('should keep continuation tokens so cached pages can be followed', async () => {
+      send.mockResolvedValue(json({ value: [1] }, { 'x-ms-continuationtoken': 'next' }));
+
+      await pipeline()(get(threadsUrl));
+      const response = await pipeline()(get(threadsUrl));
+
+      expect(response.headers.get('x-ms-continuationtoken')).toBe('next');
+    });
+
+    it('should not cache failed responses', async () => {
+      send.mockResolvedValue(new Response(null, { status: 500 }));
+
+      await pipeline()(get(threadsUrl));
+
+      expect(cache.read(threadsUrl)).toBeUndefined();
+    });
+
+    it('should serve stale data offline without sending anything, and fail when nothing is cached', async () => {
+      const onServedOffline = jest.fn();
+      send.mockResolvedValue(json({ value: [1] }));
+      await pipeline()(get(threadsUrl));
+      send.mockClear();
+      now += 24 * 60 * 60 * 1000;
+
+      const response = await pipeline(true, onServedOffline)(get(threadsUrl));
+
+      expect(await response.json()).toEqual({ value: [1] });
+      expect(onServedOffline).toHaveBeenCalledWith(new Date('2024-01-01T00:00:00Z'));
+      await expect(pipeline(true)(get(`${base}/pullRequests/8/threads`))).rejects.toBeInstanceOf(OfflineCacheMissError);
+      expect(send).not.toHaveBeenCalled();
+    });
+
+    it('should not serve what one credential fetched to another', async () => {
+      const connectionDataUrl = 'https://dev.azure.com/org/_apis/connectionData';
+      let identity = 'token:jane';
+      const switching = createPipeline([cachePolicy(cache, { offline: false, identity: async () => identity })], send);
+      send
+        .mockResolvedValueOnce(json({ authenticatedUser: { id: 'jane' } }))
+        .mockResolvedValueOnce(json({ authenticatedUser: { id: 'john' } }));
+
+      await switching(get(connectionDataUrl));
+      identity = 'token:john';
+      const response = await switching(get(connectionDataUrl));
+
+      expect(await response.json()).toEqual({ authenticatedUser: { id: 'john' } });
+      expect(send).toHaveBeenCalledTimes(2);
+      expect(cache.read(connectionDataUrl, 'token:jane')?.body).toContain('jane');
+      expect(cache.read(connectionDataUrl)).toBeUndefined();
+    });
+
+    it('should forget the changed pull request and the pull request lists after a change', async () => {
+      const listUrl = 'https://dev.azure.com/org/Project/_apis/git/pullrequests?searchCriteria.status=active';
+      const otherUrl = `${base}/pullRequests/70/threads?api-version=7.0`;
+      send.mockImplementation(async () => json({ value: [] }));
+      for (const url of [threadsUrl, listUrl, otherUrl]) {
+        await pipeline()(get(url));
+      }
+
+      await pipeline()({ method: 'PATCH', url: `${base}/pullRequests/7/threads/3?api-version=7.0`, headers: {} });
+
+      expect(cache.read(threadsUrl)).toBeUndefined();
+      expect(cache.read(listUrl)).toBeUndefined();
+      expect(cache.read(otherUrl)).toBeDefined();
+    });
+
+    it('should refuse changes offline without sending them', async () => {
+      const patch: PipelineRequest = { method: 'PATCH', url: `${base}/pullRequests/7?api-version=7.0`, headers: {} };
+
+      await expect(pipeline(true)(patch)).rejects.toBeInstanceOf(OfflineChangeError);
+      expect(send).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('cacheTtlFor', () => {
+  it('should keep immutable content longest and threads shortest', () => {
+    expect(cacheTtlFor(`${base}/items?path=%2Fa.ts&versionDescriptor.versionType=commit`)).toBe(7 * 24 * 60 * 60);
+    expect(cacheTtlFor(threadsUrl)).toBe(15);
+    expect(cacheTtlFor('https://dev.azure.com/org/_apis/git/pullrequests/7')).toBe(30);
+    expect(cacheTtlFor('https://dev.azure.com/org/_apis/wit/workitems?ids=1')).toBe(0);
+  });
+});
+
+describe('isOfflineMode', () => {
+  it('should follow AZC_OFFLINE', () => {
+    expect(isOfflineMode({ AZC_OFFLINE: '1' })).toBe(true);
+    expect(isOfflineMode({ AZC_OFFLINE: '0' })).toBe(false);
+    expect(isOfflineMode({})).toBe(false);
+  });
+});
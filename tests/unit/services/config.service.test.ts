@@ -1,6 +1,10 @@
 import { jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import { ConfigService } from '../../../src/services/config.service.js';
 import { AuthenticationService } from '../../../src/services/auth.service.js';
+import { ProfileStore, RepoConfigStore } from '../../../src/services/profile.service.js';
 
 describe('ConfigService', () => {
   let mockAuthService: jest.Mocked<AuthenticationService>;
@@ -46,4 +50,153 @@ describe('ConfigService', () => {
     configService.clearCache();
     expect(mockAuthService.clearCache).toHaveBeenCalled();
   });
+
+  describe('settings', () => {
+    let dir: string;
+    let profiles: ProfileStore;
+    let repoConfig: RepoConfigStore;
+    let env: NodeJS.ProcessEnv;
+    let mockCli: any;
+    let mockGit: any;
+
+    const service = () => new ConfigService(mockCli, mockAuthService as any, profiles, repoConfig, env, mockGit);
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'azc-config-'));
+      profiles = new ProfileStore(path.join(dir, 'config.json'));
+      repoConfig = new RepoConfigStore(dir);
+      env = {};
+      mockCli = {
+        executeRawCommand: jest
+          .fn<(command: string) => Promise<string>>()
+          .mockResolvedValue('[defaults]\norganization = https://dev.azure.com/cli\nproject = CliProject\n'),
+      };
+      mockGit = { getAzureReposRemote: jest.fn<() => Promise<any>>().mockResolvedValue(undefined) };
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should prefer the environment, then .azcrc, then the profile, then the az defaults', async () => {
+      profiles.set('default', 'project', 'ProfileProject');
+      profiles.set('default', 'repository', 'profile-repo');
+      profiles.set('default', 'username', 'jane@example.com');
+      repoConfig.set('repository', 'repo-file-repo');
+      env.AZC_USERNAME = 'ci@example.com';
+
+      expect(await service().list()).toEqual([
+        { key: 'organization', value: 'https://dev.azure.com/cli', source: 'azure-cli' },
+        { key: 'project', value: 'ProfileProject', source: 'profile' },
+        { key: 'repository', value: 'repo-file-repo', source: 'repository' },
+        { key: 'username', value: 'ci@example.com', source: 'environment' },
+        { key: 'output' },
+        { key: 'auth' },
+      ]);
+    });
+
+    it('should not run the Azure CLI when the organization is configured', async () => {
+      env.AZURE_DEVOPS_ORG_URL = 'https://dev.azure.com/env';
+
+      expect(await service().getOrganizationUrl()).toBe('https://dev.azure.com/env');
+      expect(mockCli.executeRawCommand).not.toHaveBeenCalled();
+    });
+
+    it('should take the organization, project and repository of the git remote over the profile', async () => {
+      profiles.set('default', 'project', 'ProfileProject');
+      env.AZC_REPOSITORY = 'env-repo';
+      mockGit.getAzureReposRemote.mockResolvedValue({
+        organizationUrl: 'https://dev.azure.com/acme',
+        project: 'Web',
+        repository: 'web-app',
+      });
+
+      const settings = await service().list();
+
+      expect(settings.slice(0, 3)).toEqual([
+        { key: 'organization', value: 'https://dev.azure.com/acme', source: 'git-remote' },
+        { key: 'project', value: 'Web', source: 'git-remote' },
+        { key: 'repository', value: 'env-repo', source: 'environment' },
+      ]);
+      expect(mockGit.getAzureReposRemote).toHaveBeenCalledTimes(1);
+    });
+
+    it('should ignore the project and repository of a remote in another organization', async () => {
+      env.AZURE_DEVOPS_ORG_URL = 'https://other.visualstudio.com/';
+      mockGit.getAzureReposRemote.mockResolvedValue({
+        organizationUrl: 'https://dev.azure.com/acme',
+        project: 'Web',
+        repository: 'web-app',
+      });
+
+      expect(await service().getDefaultRepository()).toBeUndefined();
+
+      env.AZURE_DEVOPS_ORG_URL = 'https://acme.visualstudio.com';
+      expect(await service().getDefaultRepository()).toBe('web-app');
+    });
+
+    it('should pick the profile from AZC_PROFILE, then .azcrc, then use-profile', () => {
+      const config = service();
+      expect(config.useProfile('work')).toBe(false);
+      expect(config.getActiveProfile()).toBe('work');
+
+      repoConfig.set('profile', 'client');
+      expect(config.getActiveProfile()).toBe('client');
+
+      env.AZC_PROFILE = 'personal';
+      expect(config.getActiveProfile()).toBe('personal');
+    });
+
+    it('should validate values before storing them in the active profile or .azcrc', () => {
+      const config = service();
+
+      expect(config.set('organization', 'https://dev.azure.com/acme/')).toBe('profile "default"');
+      expect(config.set('output', 'JSON', true)).toBe(path.join(dir, '.azcrc'));
+      expect(() => config.set('output', 'xml')).toThrow('Invalid output: xml');
+      expect(() => config.set('auth', 'password')).toThrow('Invalid auth: password');
+      expect(() => config.set('organization', 'acme')).toThrow('Invalid organization URL');
+      expect(() => config.set('colour', 'red')).toThrow('Unknown setting: colour');
+
+      expect(profiles.getProfile('default')).toEqual({ organization: 'https://dev.azure.com/acme' });
+      expect(config.getOutputFormat()).toBe('json');
+    });
+
+    it('should only take an Azure DevOps organization and no auth method from .azcrc', async () => {
+      profiles.set('default', 'organization', 'https://dev.azure.com/mine');
+      profiles.set('default', 'auth', 'azure-cli');
+      fs.writeFileSync(
+        path.join(dir, '.azcrc'),
+        JSON.stringify({ organization: 'https://attacker.example.com/acme', auth: 'pat' }),
+      );
+
+      expect(await service().getOrganizationUrl()).toBe('https://dev.azure.com/mine');
+      expect(service().getAuthMethod()).toBe('azure-cli');
+
+      fs.writeFileSync(path.join(dir, '.azcrc'), JSON.stringify({ organization: 'https://acme.visualstudio.com/' }));
+      expect(await service().resolve('organization')).toEqual({
+        key: 'organization',
+        value: 'https://acme.visualstudio.com/',
+        source: 'repository',
+      });
+    });
+
+    it('should refuse to write an auth method or another host to .azcrc', () => {
+      const config = service();
+
+      expect(() => config.set('auth', 'pat', true)).toThrow('The auth method cannot be set in .azcrc');
+      expect(() => config.set('organization', 'http://dev.azure.com/acme', true)).toThrow(
+        'Only https://dev.azure.com/ORG and https://ORG.visualstudio.com organizations are read from .azcrc',
+      );
+      expect(config.set('organization', 'https://dev.azure.com/acme', true)).toBe(path.join(dir, '.azcrc'));
+      expect(config.unset('auth', true)).toBe(path.join(dir, '.azcrc'));
+    });
+
+    it('should name the layer holding an invalid auth method', () => {
+      env.AZC_AUTH = 'password';
+
+      expect(() => service().getAuthMethod()).toThrow(
+        'Invalid auth: password. Valid values: auto, pat, token, azure-cli (from AZC_AUTH)',
+      );
+    });
+  });
 });
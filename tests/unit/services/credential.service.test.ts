@@ -0,0 +1,53 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { basicAuthorization, CredentialStore } from '../../../src/services/credential.service.js';
+
+describe('CredentialStore', () => {
+  let dir: string;
+  let store: CredentialStore;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'azc-credentials-'));
+    store = new CredentialStore(path.join(dir, 'credentials.json'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should store tokens encrypted, per organization, readable only by the owner', () => {
+    store.set('https://dev.azure.com/acme/', 'secret-pat', 'jane@example.com');
+
+    const content = fs.readFileSync(store.filePath, 'utf8');
+    expect(content).not.toContain('secret-pat');
+    expect(fs.statSync(store.filePath).mode & 0o777).toBe(0o600);
+    expect(fs.statSync(path.join(dir, 'credentials.key')).mode & 0o777).toBe(0o600);
+
+    const reloaded = new CredentialStore(store.filePath);
+    expect(reloaded.getToken('https://dev.azure.com/ACME')).toBe('secret-pat');
+    expect(reloaded.get('https://dev.azure.com/acme')).toMatchObject({ user: 'jane@example.com' });
+    expect(reloaded.getToken('https://dev.azure.com/other')).toBeUndefined();
+  });
+
+  it('should not return a token once the key is gone', () => {
+    store.set('https://dev.azure.com/acme', 'secret-pat');
+    fs.rmSync(path.join(dir, 'credentials.key'));
+
+    expect(store.getToken('https://dev.azure.com/acme')).toBeUndefined();
+  });
+
+  it('should report whether a token was removed', () => {
+    store.set('https://dev.azure.com/acme', 'secret-pat');
+
+    expect(store.delete('https://dev.azure.com/acme')).toBe(true);
+    expect(store.delete('https://dev.azure.com/acme')).toBe(false);
+    expect(store.getToken('https://dev.azure.com/acme')).toBeUndefined();
+  });
+});
+
+describe('basicAuthorization', () => {
+  it('should encode the token with an empty user name', () => {
+    expect(basicAuthorization('pat')).toBe(`Basic ${Buffer.from(':pat').toString('base64')}`);
+  });
+});
@@ -0,0 +1,84 @@
+import { jest } from '@jest/globals';
+import fs from 'fs';
+import { EditorCancelledError, EditorService } from '../../../src/services/editor.service.js';
+
+/**
+ * Stand in for the editor: type `content` above the template in the file it was opened on and exit with `status`
+ */
+function fakeEditor(content: string, status = 0) {
+  return jest.fn((command: string) => {
+    const filePath = command.match(/"([^"]+)"$/)![1];
+    fs.writeFileSync(filePath, content + fs.readFileSync(filePath, 'utf8'));
+    return { status, error: undefined } as any;
+  });
+}
+
+describe('EditorService', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, VISUAL: 'code --wait' };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should open the editor and return the message without the instructions', async () => {
+    const spawn = fakeEditor('Looks good.\n\nThanks!\n');
+    const service = new EditorService(spawn as any);
+
+    await expect(service.edit('Reply to thread 7')).resolves.toBe('Looks good.\n\nThanks!');
+    expect(spawn.mock.calls[0][0]).toMatch(/^code --wait ".*MESSAGE\.md"$/);
+  });
+
+  it('should keep markdown headings and other lines starting with #', async () => {
+    const service = new EditorService(fakeEditor('## Heading\n\n#42 is related\n') as any);
+
+    await expect(service.edit('Reply')).resolves.toBe('## Heading\n\n#42 is related');
+  });
+
+  it('should keep the whole message when the scissors line was removed', async () => {
+    const spawn = jest.fn((command: string) => {
+      fs.writeFileSync(command.match(/"([^"]+)"$/)![1], '# Title\nBody\n');
+      return { status: 0, error: undefined } as any;
+    });
+
+    await expect(new EditorService(spawn as any).edit('Reply')).resolves.toBe('# Title\nBody');
+  });
+
+  it('should remove the temporary file afterwards', async () => {
+    const spawn = fakeEditor('Done');
+    const service = new EditorService(spawn as any);
+
+    await service.edit('Reply');
+
+    const filePath = spawn.mock.calls[0][0].match(/"([^"]+)"$/)![1];
+    expect(fs.existsSync(filePath)).toBe(false);
+  });
+
+  it('should cancel on an empty message', async () => {
+    const service = new EditorService(fakeEditor('  \n\n') as any);
+
+    await expect(service.edit('Reply')).rejects.toBeInstanceOf(EditorCancelledError);
+  });
+
+  it('should cancel when nothing was written above the instructions', async () => {
+    const service = new EditorService(fakeEditor('') as any);
+
+    await expect(service.edit('Reply')).rejects.toBeInstanceOf(EditorCancelledError);
+  });
+
+  it('should fail when the editor exits with an error', async () => {
+    const service = new EditorService(fakeEditor('Looks good.', 1) as any);
+
+    await expect(service.edit('Reply')).rejects.toThrow('Editor exited with code 1');
+  });
+
+  it('should fail when the editor cannot be launched', async () => {
+    const spawn = jest.fn(() => ({ status: null, error: new Error('spawn vi ENOENT') }) as any);
+    const service = new EditorService(spawn as any);
+
+    await expect(service.edit('Reply')).rejects.toThrow('Failed to launch editor: spawn vi ENOENT');
+  });
+});
@@ -0,0 +1,132 @@
+import { jest } from '@jest/globals';
+import {
+  GitService,
+  NotAGitRepositoryError,
+  DetachedHeadError,
+  GitCommandError,
+  parseAzureReposUrl,
+} from '../../../src/services/git.service.js';
+
+describe('GitService', () => {
+  let execAsyncMock: jest.Mock<(cmd: string, options?: { cwd?: string }) => Promise<any>>;
+  let service: GitService;
+
+  beforeEach(() => {
+    execAsyncMock = jest.fn();
+    service = new GitService(execAsyncMock as any, '/work/repo');
+  });
+
+  describe('getCurrentBranch', () => {
+    it('should return the trimmed branch name and run in the working directory', async () => {
+      execAsyncMock.mockResolvedValue({ stdout: 'feature/login\n', stderr: '' });
+
+      await expect(service.getCurrentBranch()).resolves.toBe('feature/login');
+      expect(execAsyncMock).toHaveBeenCalledWith('git rev-parse --abbrev-ref HEAD', { cwd: '/work/repo' });
+    });
+
+    it('should throw DetachedHeadError when HEAD is detached', async () => {
+      execAsyncMock.mockResolvedValue({ stdout: 'HEAD\n', stderr: '' });
+
+      await expect(service.getCurrentBranch()).rejects.toBeInstanceOf(DetachedHeadError);
+    });
+
+    it('should throw NotAGitRepositoryError outside a repository', async () => {
+      execAsyncMock.mockRejectedValue(new Error('fatal: not a git repository'));
+
+      await expect(service.getCurrentBranch()).rejects.toBeInstanceOf(NotAGitRepositoryError);
+    });
+  });
+
+  describe('isRepository', () => {
+    it('should return true/false based on git rev-parse', async () => {
+      execAsyncMock.mockResolvedValueOnce({ stdout: 'true\n', stderr: '' });
+      await expect(service.isRepository()).resolves.toBe(true);
+
+      execAsyncMock.mockRejectedValueOnce(new Error('fatal'));
+      await expect(service.isRepository()).resolves.toBe(false);
+    });
+  });
+
+  describe('getLastCommitSubject', () => {
+    it('should return undefined when there are no commits', async () => {
+      execAsyncMock.mockRejectedValue(new Error('fatal: bad default revision'));
+
+      await expect(service.getLastCommitSubject()).resolves.toBeUndefined();
+    });
+  });
+
+  describe('getAzureReposRemote', () => {
+    it('should prefer origin among the Azure Repos remotes', async () => {
+      execAsyncMock.mockResolvedValue({
+        stdout: [
+          'github\thttps://github.com/acme/web.git (fetch)',
+          'mirror\tgit@ssh.dev.azure.com:v3/acme/Mirror/web (fetch)',
+          'origin\thttps://acme@dev.azure.com/acme/Web/_git/web-app (fetch)',
+          'origin\thttps://acme@dev.azure.com/acme/Web/_git/web-app (push)',
+        ].join('\n'),
+        stderr: '',
+      });
+
+      await expect(service.getAzureReposRemote()).resolves.toEqual({
+        organizationUrl: 'https://dev.azure.com/acme',
+        project: 'Web',
+        repository: 'web-app',
+      });
+      expect(execAsyncMock).toHaveBeenCalledWith('git remote -v', { cwd: '/work/repo' });
+    });
+
+    it('should return undefined outside a repository or without an Azure Repos remote', async () => {
+      execAsyncMock.mockRejectedValueOnce(new Error('fatal: not a git repository'));
+      await expect(service.getAzureReposRemote()).resolves.toBeUndefined();
+
+      execAsyncMock.mockResolvedValueOnce({ stdout: 'origin\thttps://github.com/acme/web.git (fetch)\n', stderr: '' });
+      await expect(service.getAzureReposRemote()).resolves.toBeUndefined();
+    });
+  });
+
+  describe('fetch', () => {
+    it('should quote the source and refspec and report git\'s error', async () => {
+      execAsyncMock.mockResolvedValueOnce({ stdout: '', stderr: '' });
+      await service.fetch('origin', 'refs/pull/42/merge');
+      expect(execAsyncMock).toHaveBeenCalledWith("git fetch 'origin' 'refs/pull/42/merge'", { cwd: '/work/repo' });
+
+      const gitError = Object.assign(new Error('failed'), { stderr: "fatal: couldn't find remote ref\n" });
+      execAsyncMock.mockRejectedValueOnce(gitError);
+      const error = await service.fetch('origin', 'refs/heads/gone').catch((caught) => caught);
+      expect(error).toBeInstanceOf(GitCommandError);
+      expect(error.message).toBe("git fetch failed: fatal: couldn't find remote ref");
+    });
+  });
+
+  describe('resolveCommit', () => {
+    it('should return undefined for a missing ref', async () => {
+      execAsyncMock.mockResolvedValueOnce({ stdout: 'abc123\n', stderr: '' });
+      await expect(service.resolveCommit('FETCH_HEAD')).resolves.toBe('abc123');
+
+      execAsyncMock.mockRejectedValueOnce(new Error('exit code 1'));
+      await expect(service.resolveCommit('refs/heads/pr/42')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('parseAzureReposUrl', () => {
+    it.each([
+      ['https://dev.azure.com/acme/My%20Project/_git/web-app', 'https://dev.azure.com/acme', 'My Project', 'web-app'],
+      ['https://acme.visualstudio.com/Web/_git/web-app', 'https://acme.visualstudio.com', 'Web', 'web-app'],
+      [
+        'https://acme.visualstudio.com/DefaultCollection/Web/_git/web-app',
+        'https://acme.visualstudio.com',
+        'Web',
+        'web-app',
+      ],
+      ['git@ssh.dev.azure.com:v3/acme/Web/web-app', 'https://dev.azure.com/acme', 'Web', 'web-app'],
+      ['acme@vs-ssh.visualstudio.com:v3/acme/Web/web-app', 'https://acme.visualstudio.com', 'Web', 'web-app'],
+      ['https://dev.azure.com/acme/_git/Web', 'https://dev.azure.com/acme', 'Web', 'Web'],
+    ])('should read %s', (url, organizationUrl, project, repository) => {
+      expect(parseAzureReposUrl(url)).toEqual({ organizationUrl, project, repository });
+    });
+
+    it('should ignore other hosts', () => {
+      expect(parseAzureReposUrl('git@github.com:acme/web.git')).toBeUndefined();
+    });
+  });
+});
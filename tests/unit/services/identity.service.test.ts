@@ -0,0 +1,119 @@
+import { jest } from '@jest/globals';
+import {
+  AmbiguousIdentityError,
+  IdentityNotFoundError,
+  IdentityService,
+} from '../../../src/services/identity.service.js';
+
+describe('IdentityService', () => {
+  let mockApi: any;
+  let service: IdentityService;
+
+  beforeEach(() => {
+    mockApi = { get: jest.fn(), getIdentities: jest.fn() };
+    service = new IdentityService(mockApi);
+  });
+
+  describe('getCurrentUser', () => {
+    it('should map the authenticated user from connectionData', async () => {
+      mockApi.get.mockResolvedValue({
+        authenticatedUser: {
+          id: 'user-1',
+          providerDisplayName: 'Jane Doe',
+          properties: { Account: { $value: 'jane@example.com' } },
+        },
+      });
+
+      await expect(service.getCurrentUser()).resolves.toEqual({
+        id: 'user-1',
+        displayName: 'Jane Doe',
+        uniqueName: 'jane@example.com',
+      });
+      expect(mockApi.get).toHaveBeenCalledWith('connectionData?api-version=7.0-preview.1');
+    });
+
+    it('should cache the current user', async () => {
+      mockApi.get.mockResolvedValue({ authenticatedUser: { id: 'user-1', providerDisplayName: 'Jane' } });
+
+      await service.getCurrentUser();
+      await service.getCurrentUser();
+
+      expect(mockApi.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw a descriptive error when the request fails', async () => {
+      mockApi.get.mockRejectedValue(new Error('API request failed: 401 Unauthorized'));
+
+      await expect(service.getCurrentUser()).rejects.toThrow('Failed to resolve the current user: API request failed');
+    });
+
+    it('should throw when no authenticated user is returned', async () => {
+      mockApi.get.mockResolvedValue({});
+
+      await expect(service.getCurrentUser()).rejects.toThrow('no authenticated user returned');
+    });
+  });
+
+  describe('searchIdentities', () => {
+    it('should query the identities API and map users and groups', async () => {
+      mockApi.getIdentities.mockResolvedValue({
+        value: [
+          { id: 'user-2', providerDisplayName: 'Bob Smith', properties: { Mail: { $value: 'bob@example.com' } } },
+          { id: 'group-1', providerDisplayName: '[Project]\\Team', isContainer: true },
+        ],
+      });
+
+      await expect(service.searchIdentities('[Project]\\Team')).resolves.toEqual([
+        { id: 'user-2', displayName: 'Bob Smith', uniqueName: 'bob@example.com' },
+        { id: 'group-1', displayName: '[Project]\\Team', uniqueName: undefined, isContainer: true },
+      ]);
+      expect(mockApi.getIdentities).toHaveBeenCalledWith(
+        'identities?searchFilter=General&filterValue=%5BProject%5D%5CTeam&queryMembership=None&api-version=7.0'
+      );
+    });
+
+    it('should throw a descriptive error when the request fails', async () => {
+      mockApi.getIdentities.mockRejectedValue(new Error('API request failed: 403 Forbidden'));
+
+      await expect(service.searchIdentities('bob')).rejects.toThrow('Failed to search identities');
+    });
+  });
+
+  describe('resolveIdentity', () => {
+    it('should return the only match', async () => {
+      mockApi.getIdentities.mockResolvedValue({ value: [{ id: 'user-2', providerDisplayName: 'Bob Smith' }] });
+
+      await expect(service.resolveIdentity('bob')).resolves.toEqual(expect.objectContaining({ id: 'user-2' }));
+    });
+
+    it('should prefer an exact match among several results', async () => {
+      mockApi.getIdentities.mockResolvedValue({
+        value: [
+          { id: 'user-2', providerDisplayName: 'Bob Smith', properties: { Mail: { $value: 'bob@example.com' } } },
+          { id: 'user-3', providerDisplayName: 'Bobby Tables', properties: { Mail: { $value: 'bobby@example.com' } } },
+        ],
+      });
+
+      await expect(service.resolveIdentity('BOB@example.com')).resolves.toEqual(
+        expect.objectContaining({ id: 'user-2' })
+      );
+    });
+
+    it('should throw when nothing matches', async () => {
+      mockApi.getIdentities.mockResolvedValue({ value: [] });
+
+      await expect(service.resolveIdentity('nobody')).rejects.toBeInstanceOf(IdentityNotFoundError);
+    });
+
+    it('should throw when several identities match and none exactly', async () => {
+      mockApi.getIdentities.mockResolvedValue({
+        value: [
+          { id: 'user-2', providerDisplayName: 'Bob Smith' },
+          { id: 'user-3', providerDisplayName: 'Bob Jones' },
+        ],
+      });
+
+      await expect(service.resolveIdentity('bob')).rejects.toBeInstanceOf(AmbiguousIdentityError);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { jest } from '@jest/globals';
+import { NotificationService } from '../../../src/services/notification.service.js';
+
+describe('NotificationService', () => {
+  let execFile: jest.Mock<(...args: any[]) => Promise<unknown>>;
+  let exec: jest.Mock<(...args: any[]) => Promise<unknown>>;
+
+  beforeEach(() => {
+    execFile = jest.fn<(...args: any[]) => Promise<unknown>>().mockResolvedValue({ stdout: '' });
+    exec = jest.fn<(...args: any[]) => Promise<unknown>>().mockResolvedValue({ stdout: '' });
+  });
+
+  it('should use notify-send on Linux', async () => {
+    await new NotificationService(execFile, exec, 'linux').notify('#42 Title', 'Bob voted');
+
+    expect(execFile).toHaveBeenCalledWith(
+      'notify-send',
+      ['--app-name=azc', '#42 Title', 'Bob voted'],
+      expect.anything(),
+    );
+  });
+
+  it('should quote the text for osascript on macOS', async () => {
+    await new NotificationService(execFile, exec, 'darwin').notify('Say "hi"', 'a\\b');
+
+    expect(execFile).toHaveBeenCalledWith(
+      'osascript',
+      ['-e', 'display notification "a\\\\b" with title "Say \\"hi\\""'],
+      expect.anything(),
+    );
+  });
+
+  it('should pass the text to PowerShell through the environment on Windows', async () => {
+    await new NotificationService(execFile, exec, 'win32').notify('Title', 'Message');
+
+    const [file, , options] = execFile.mock.calls[0] as [string, string[], { env: NodeJS.ProcessEnv }];
+    expect(file).toBe('powershell');
+    expect(options.env).toMatchObject({ AZC_NOTIFY_TITLE: 'Title', AZC_NOTIFY_MESSAGE: 'Message' });
+  });
+
+  it('should report a missing notifier', async () => {
+    execFile.mockRejectedValue(new Error('spawn notify-send ENOENT'));
+
+    await expect(new NotificationService(execFile, exec, 'linux').notify('t', 'm')).rejects.toThrow(
+      'Failed to show a desktop notification: spawn notify-send ENOENT',
+    );
+  });
+
+  it('should run hooks with the variables in their environment', async () => {
+    await new NotificationService(execFile, exec, 'linux').runHook('./on-event.sh', { AZC_EVENT: 'vote-changed' });
+
+    const [command, options] = exec.mock.calls[0] as [string, { env: NodeJS.ProcessEnv }];
+    expect(command).toBe('./on-event.sh');
+    expect(options.env.AZC_EVENT).toBe('vote-changed');
+    expect(options.env.PATH).toBe(process.env.PATH);
+  });
+
+  it('should report a failing hook', async () => {
+    exec.mockRejectedValue(new Error('exit code 2'));
+
+    await expect(new NotificationService(execFile, exec, 'linux').runHook('false', {})).rejects.toThrow(
+      'Hook command failed: exit code 2',
+    );
+  });
+});
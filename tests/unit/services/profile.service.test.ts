@@ -0,0 +1,77 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ProfileStore, RepoConfigStore } from '../../../src/services/profile.service.js';
+
+describe('ProfileStore', () => {
+  let dir: string;
+  let store: ProfileStore;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'azc-profiles-'));
+    store = new ProfileStore(path.join(dir, 'config.json'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should start with an empty default profile', () => {
+    expect(store.currentProfile()).toBe('default');
+    expect(store.listProfiles()).toEqual(['default']);
+    expect(store.getProfile('default')).toEqual({});
+  });
+
+  it('should read the old username-only file as the default profile', () => {
+    fs.writeFileSync(store.filePath, JSON.stringify({ username: 'jane@example.com' }));
+
+    expect(store.getProfile('default')).toEqual({ username: 'jane@example.com' });
+  });
+
+  it('should keep settings per profile and remember the current one', () => {
+    store.set('default', 'project', 'Web');
+    store.useProfile('work');
+    store.set('work', 'project', 'Platform');
+    store.set('default', 'project', undefined);
+
+    const reloaded = new ProfileStore(store.filePath);
+    expect(reloaded.currentProfile()).toBe('work');
+    expect(reloaded.listProfiles()).toEqual(['default', 'work']);
+    expect(reloaded.getProfile('work')).toEqual({ project: 'Platform' });
+    expect(reloaded.getProfile('default')).toEqual({});
+  });
+});
+
+describe('RepoConfigStore', () => {
+  let repoRoot: string;
+
+  beforeEach(() => {
+    repoRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'azc-repo-'));
+    fs.mkdirSync(path.join(repoRoot, '.git'));
+    fs.mkdirSync(path.join(repoRoot, 'src', 'app'), { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoRoot, { recursive: true, force: true });
+  });
+
+  it('should create the file at the repository root and find it from subdirectories', () => {
+    const store = new RepoConfigStore(path.join(repoRoot, 'src', 'app'));
+
+    expect(store.read()).toEqual({});
+    expect(store.set('repository', 'web-app')).toBe(path.join(repoRoot, '.azcrc'));
+    expect(new RepoConfigStore(path.join(repoRoot, 'src')).read()).toEqual({ repository: 'web-app' });
+  });
+
+  it('should keep the profile name and ignore unknown settings', () => {
+    fs.writeFileSync(path.join(repoRoot, '.azcrc'), JSON.stringify({ profile: 'work', project: 'Web', color: 'red' }));
+
+    expect(new RepoConfigStore(repoRoot).read()).toEqual({ profile: 'work', project: 'Web' });
+  });
+
+  it('should name the file when it is not valid JSON', () => {
+    fs.writeFileSync(path.join(repoRoot, '.azcrc'), 'project = Web');
+
+    expect(() => new RepoConfigStore(repoRoot).read()).toThrow(`${path.join(repoRoot, '.azcrc')} is not valid JSON`);
+  });
+});
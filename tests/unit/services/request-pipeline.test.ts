@@ -0,0 +1,279 @@
+import { jest } from '@jest/globals';
+import {
+  apiVersionPolicy,
+  authorizationPolicy,
+  createPipeline,
+  parseRetryAfter,
+  rateLimitPolicy,
+  retryPolicy,
+  throttlePolicy,
+  type PipelineRequest,
+  type RequestHandler,
+} from '../../../src/services/request-pipeline.js';
+
+function makeRequest(overrides: Partial<PipelineRequest> = {}): PipelineRequest {
+  return { method: 'GET', url: 'https://dev.azure.com/org/_apis/projects', headers: {}, ...overrides };
+}
+
+function status(code: number, headers: Record<string, string> = {}): Response {
+  return new Response(null, { status: code, headers });
+}
+
+describe('request pipeline', () => {
+  describe('createPipeline', () => {
+    it('should run policies in order before the handler', async () => {
+      const calls: string[] = [];
+      const send = jest.fn<RequestHandler>(async (request) => {
+        calls.push(`send ${request.headers['X-Step']}`);
+        return status(200);
+      });
+
+      const pipeline = createPipeline(
+        [
+          (request, next) => {
+            calls.push('first');
+            return next({ ...request, headers: { 'X-Step': 'first' } });
+          },
+          (request, next) => {
+            calls.push('second');
+            return next({ ...request, headers: { 'X-Step': `${request.headers['X-Step']},second` } });
+          },
+        ],
+        send,
+      );
+
+      await pipeline(makeRequest());
+
+      expect(calls).toEqual(['first', 'second', 'send first,second']);
+    });
+  });
+
+  describe('apiVersionPolicy', () => {
+    it('should add the api-version to paths without one and keep explicit versions', async () => {
+      const send = jest.fn<RequestHandler>(async () => status(200));
+      const pipeline = createPipeline([apiVersionPolicy('7.0')], send);
+
+      await pipeline(makeRequest());
+      await pipeline(makeRequest({ url: 'https://dev.azure.com/org/_apis/projects?$top=5' }));
+      await pipeline(makeRequest({ url: 'https://dev.azure.com/org/_apis/projects?api-version=7.1-preview.1' }));
+
+      expect(send.mock.calls.map(([request]) => request.url)).toEqual([
+        'https://dev.azure.com/org/_apis/projects?api-version=7.0',
+        'https://dev.azure.com/org/_apis/projects?$top=5&api-version=7.0',
+        'https://dev.azure.com/org/_apis/projects?api-version=7.1-preview.1',
+      ]);
+    });
+  });
+
+  describe('authorizationPolicy', () => {
+    it('should set the authorization and content type headers', async () => {
+      const send = jest.fn<RequestHandler>(async () => status(200));
+      const pipeline = createPipeline([authorizationPolicy(async () => 'Bearer abc')], send);
+
+      await pipeline(makeRequest({ headers: { Accept: 'application/json' } }));
+
+      expect(send.mock.calls[0][0].headers).toEqual({
+        Accept: 'application/json',
+        Authorization: 'Bearer abc',
+        'Content-Type': 'application/json',
+      });
+    });
+
+    it('should resend a rejected request once with a renewed credential', async () => {
+      const send = jest.fn<RequestHandler>(async () => status(401));
+      const headers = ['Bearer old', 'Bearer new'];
+      const renew = jest.fn(() => true);
+      const pipeline = createPipeline([authorizationPolicy(async () => headers.shift()!, renew)], send);
+
+      const response = await pipeline(makeRequest());
+
+      expect(response.status).toBe(401);
+      expect(renew).toHaveBeenCalledTimes(1);
+      expect(send.mock.calls.map(([request]) => request.headers.Authorization)).toEqual(['Bearer old', 'Bearer new']);
+    });
+
+    it('should not resend when the credential cannot be renewed', async () => {
+      const send = jest.fn<RequestHandler>(async () => status(401));
+      const pipeline = createPipeline([authorizationPolicy(async () => 'Basic pat', () => false)], send);
+
+      await pipeline(makeRequest());
+
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('retryPolicy', () => {
+    const options = { maxRetries: 2, baseDelayMs: 100, maxDelayMs: 1000 };
+    const sleep = jest.fn(async (_ms: number) => undefined);
+
+    beforeEach(() => sleep.mockClear());
+
+    it('should retry idempotent requests on gateway errors until they succeed', async () => {
+      const send = jest
+        .fn<RequestHandler>()
+        .mockResolvedValueOnce(status(503))
+        .mockRejectedValueOnce(new TypeError('fetch failed'))
+        .mockResolvedValueOnce(status(200));
+      const pipeline = createPipeline([retryPolicy(options, sleep, () => 0)], send);
+
+      const response = await pipeline(makeRequest());
+
+      expect(response.status).toBe(200);
+      expect(send).toHaveBeenCalledTimes(3);
+      expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([50, 100]);
+    });
+
+    it('should cancel the body of a response it retries', async () => {
+      const cancel = jest.fn(async (_reason: unknown) => undefined);
+      const body = new ReadableStream({ cancel });
+      const send = jest
+        .fn<RequestHandler>()
+        .mockResolvedValueOnce(new Response(body, { status: 503 }))
+        .mockResolvedValueOnce(status(200));
+      const pipeline = createPipeline([retryPolicy(options, sleep, () => 0)], send);
+
+      await pipeline(makeRequest());
+
+      expect(cancel).toHaveBeenCalled();
+    });
+
+    it('should grow the wait exponentially with jitter, up to the maximum delay', async () => {
+      const send = jest.fn<RequestHandler>(async () => status(503));
+      const pipeline = createPipeline(
+        [retryPolicy({ maxRetries: 5, baseDelayMs: 100, maxDelayMs: 1000 }, sleep, () => 1)],
+        send,
+      );
+
+      await pipeline(makeRequest());
+
+      expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([100, 200, 400, 800, 1000]);
+    });
+
+    it('should resend throttled requests of any method after the Retry-After delay', async () => {
+      const send = jest
+        .fn<RequestHandler>()
+        .mockResolvedValueOnce(status(429, { 'Retry-After': '3' }))
+        .mockResolvedValueOnce(status(201));
+      const pipeline = createPipeline([retryPolicy({ ...options, maxDelayMs: 5000 }, sleep, () => 0)], send);
+
+      const response = await pipeline(makeRequest({ method: 'POST' }));
+
+      expect(response.status).toBe(201);
+      expect(sleep).toHaveBeenCalledWith(3000);
+    });
+
+    it('should not wait for a Retry-After longer than the maximum delay', async () => {
+      const send = jest.fn<RequestHandler>(async () => status(429, { 'Retry-After': '120' }));
+      const pipeline = createPipeline([retryPolicy(options, sleep, () => 0)], send);
+
+      const response = await pipeline(makeRequest());
+
+      expect(response.status).toBe(429);
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(sleep).not.toHaveBeenCalled();
+    });
+
+    it('should give up after the last retry', async () => {
+      const send = jest.fn<RequestHandler>(async () => status(502));
+      const pipeline = createPipeline([retryPolicy(options, sleep, () => 0)], send);
+
+      const response = await pipeline(makeRequest({ method: 'DELETE' }));
+
+      expect(response.status).toBe(502);
+      expect(send).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry client errors or non-idempotent requests', async () => {
+      const send = jest.fn<RequestHandler>(async (request) => status(request.method === 'GET' ? 404 : 503));
+      const pipeline = createPipeline([retryPolicy(options, sleep, () => 0)], send);
+
+      await pipeline(makeRequest());
+      await pipeline(makeRequest({ method: 'POST' }));
+      await expect(
+        createPipeline([retryPolicy(options, sleep, () => 0)], async () => {
+          throw new TypeError('fetch failed');
+        })(makeRequest({ method: 'PATCH' })),
+      ).rejects.toThrow('fetch failed');
+
+      expect(send).toHaveBeenCalledTimes(2);
+      expect(sleep).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rateLimitPolicy', () => {
+    it('should report the rate-limit headers of responses that carry them', async () => {
+      const onRateLimit = jest.fn();
+      const send = jest
+        .fn<RequestHandler>()
+        .mockResolvedValueOnce(status(200))
+        .mockResolvedValueOnce(
+          status(200, {
+            'X-RateLimit-Resource': 'Core',
+            'X-RateLimit-Delay': '0.5',
+            'X-RateLimit-Limit': '200',
+            'X-RateLimit-Remaining': '20',
+            'X-RateLimit-Reset': '1700000000',
+          }),
+        )
+        .mockResolvedValueOnce(status(429, { 'Retry-After': '30' }));
+      const pipeline = createPipeline([rateLimitPolicy(onRateLimit)], send);
+
+      await pipeline(makeRequest());
+      await pipeline(makeRequest());
+      await pipeline(makeRequest());
+
+      expect(onRateLimit.mock.calls.map(([info]) => info)).toEqual([
+        {
+          status: 200,
+          resource: 'Core',
+          delaySeconds: 0.5,
+          limit: 200,
+          remaining: 20,
+          resetAt: new Date(1700000000 * 1000),
+          retryAfterSeconds: undefined,
+        },
+        expect.objectContaining({ status: 429, retryAfterSeconds: 30 }),
+      ]);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should read seconds and HTTP dates', () => {
+      const now = Date.parse('2024-01-01T00:00:00Z');
+
+      expect(parseRetryAfter('2.5', now)).toBe(2500);
+      expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:10 GMT', now)).toBe(10000);
+      expect(parseRetryAfter('Sun, 31 Dec 2023 23:59:00 GMT', now)).toBe(0);
+      expect(parseRetryAfter('soon', now)).toBeUndefined();
+      expect(parseRetryAfter(null, now)).toBeUndefined();
+    });
+  });
+
+  describe('throttlePolicy', () => {
+    it('should keep at most the given number of requests in flight', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const send = jest.fn<RequestHandler>(async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+        return status(200);
+      });
+      const pipeline = createPipeline([throttlePolicy(2)], send);
+
+      await Promise.all(Array.from({ length: 5 }, () => pipeline(makeRequest())));
+
+      expect(send).toHaveBeenCalledTimes(5);
+      expect(maxInFlight).toBe(2);
+    });
+
+    it('should free the slot when a request fails', async () => {
+      const send = jest.fn<RequestHandler>().mockRejectedValueOnce(new Error('boom')).mockResolvedValue(status(200));
+      const pipeline = createPipeline([throttlePolicy(1)], send);
+
+      await expect(pipeline(makeRequest())).rejects.toThrow('boom');
+      await expect(pipeline(makeRequest())).resolves.toHaveProperty('status', 200);
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SnapshotStore } from '../../../src/services/snapshot.service.js';
+
+describe('SnapshotStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'azc-snapshot-'));
+    filePath = path.join(dir, 'nested', 'watch-snapshots.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should return nothing before the first save', () => {
+    expect(new SnapshotStore(filePath).load('org')).toBeUndefined();
+  });
+
+  it('should keep snapshots per scope across instances', () => {
+    const first = { updatedAt: '2024-01-01T00:00:00Z', pullRequests: {} };
+    const second = { updatedAt: '2024-01-02T00:00:00Z', pullRequests: {} };
+
+    new SnapshotStore(filePath).save('org|a', first);
+    new SnapshotStore(filePath).save('org|b', second);
+
+    const store = new SnapshotStore(filePath);
+    expect(store.load('org|a')).toEqual(first);
+    expect(store.load('org|b')).toEqual(second);
+    expect(fs.readdirSync(path.dirname(filePath))).toEqual(['watch-snapshots.json']);
+  });
+
+  it('should start over when the file is not a snapshot file', () => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, '{ not json');
+
+    const store = new SnapshotStore(filePath);
+    expect(store.load('org')).toBeUndefined();
+
+    store.save('org', { updatedAt: '2024-01-01T00:00:00Z', pullRequests: {} });
+    expect(store.load('org')).toBeDefined();
+  });
+});
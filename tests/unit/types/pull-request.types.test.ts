@@ -42,6 +42,10 @@ describe('Pull Request Types', () => {
     it('should have correct values', () => {
       expect(OutputFormat.Table).toBe('table');
       expect(OutputFormat.Json).toBe('json');
+      expect(OutputFormat.Markdown).toBe('markdown');
+      expect(OutputFormat.Csv).toBe('csv');
+      expect(OutputFormat.Tsv).toBe('tsv');
+      expect(OutputFormat.Yaml).toBe('yaml');
     });
   });
 
@@ -112,7 +116,7 @@ describe('Pull Request Types', () => {
       const options: MyPRsOptions = {
         status: PullRequestStatus.Active,
         role: PullRequestRole.All,
-        top: 50,
+        limit: 50,
         output: OutputFormat.Table,
       };
       expect(options.status).toBe('active');